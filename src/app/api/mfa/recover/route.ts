@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { consumeRecoveryCode, RecoveryProof, removeSecondFactors, verifyFirstFactor } from '@/firebase/mfaRecovery';
+
+export const runtime = 'nodejs';
+
+// Sign-in attempts that fail get the same answer, so it doesn't reveal which part was wrong
+const REJECTED = { error: 'That recovery code or sign-in is not valid' };
+
+// Turn off two-step verification with a recovery code, for a user who has lost their
+// authenticator app. They prove their first factor again, then sign in as usual.
+export async function POST(request: NextRequest) {
+  try {
+    const { proof, code } = await request.json() as { proof?: RecoveryProof; code?: string };
+    if (!proof || typeof code !== 'string' || !code.trim()) {
+      return NextResponse.json({ error: 'A recovery code is required' }, { status: 400 });
+    }
+
+    const uid = await verifyFirstFactor(proof, request.nextUrl.origin);
+    if (!uid || !(await consumeRecoveryCode(uid, code))) {
+      return NextResponse.json(REJECTED, { status: 401 });
+    }
+
+    await removeSecondFactors(uid);
+    return NextResponse.json({ status: 'ok' });
+  } catch (error) {
+    console.error('Error recovering account:', error);
+    return NextResponse.json({ error: 'Failed to use the recovery code' }, { status: 500 });
+  }
+}
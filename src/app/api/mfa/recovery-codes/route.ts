@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRecoveryCodes, replaceRecoveryCodes, verifyRecentSignIn } from '@/firebase/mfaRecovery';
+
+export const runtime = 'nodejs';
+
+// Create a new set of recovery codes, replacing any the user had
+export async function POST(request: NextRequest) {
+  try {
+    const { idToken } = await request.json();
+    const uid = await verifyRecentSignIn(idToken);
+    return NextResponse.json({ codes: await replaceRecoveryCodes(uid) });
+  } catch (error) {
+    console.error('Error creating recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to create recovery codes' }, { status: 401 });
+  }
+}
+
+// Remove the user's recovery codes when they turn two-step verification off
+export async function DELETE(request: NextRequest) {
+  try {
+    const { idToken } = await request.json();
+    const uid = await verifyRecentSignIn(idToken);
+    await deleteRecoveryCodes(uid);
+    return NextResponse.json({ status: 'ok' });
+  } catch (error) {
+    console.error('Error deleting recovery codes:', error);
+    return NextResponse.json({ error: 'Failed to delete recovery codes' }, { status: 401 });
+  }
+}
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAdminAuth } from '@/firebase/admin';
+import { SESSION_COOKIE_NAME, SESSION_MAX_AGE_SECONDS, verifySession } from '@/firebase/session';
+
+export const runtime = 'nodejs';
+
+const cookieOptions = {
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/'
+};
+
+// Check whether the request carries a valid session, and whose it is
+export async function GET(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const claims = sessionCookie ? await verifySession(sessionCookie) : null;
+
+  if (!claims) {
+    return NextResponse.json({ error: 'No session' }, { status: 401 });
+  }
+  return NextResponse.json({ uid: claims.uid });
+}
+
+// Exchange a Firebase ID token for a session cookie
+export async function POST(request: NextRequest) {
+  try {
+    const { idToken } = await request.json();
+    if (typeof idToken !== 'string' || !idToken) {
+      return NextResponse.json({ error: 'An ID token is required' }, { status: 400 });
+    }
+
+    const adminAuth = getAdminAuth();
+    // Tokens issued before the user last logged out are refused, as are unverified addresses
+    const decodedToken = await adminAuth.verifyIdToken(idToken, true);
+    if (!decodedToken.email_verified) {
+      return NextResponse.json({ error: 'Verify your email address first' }, { status: 403 });
+    }
+    const sessionCookie = await adminAuth.createSessionCookie(idToken, { expiresIn: SESSION_MAX_AGE_SECONDS * 1000 });
+
+    const response = NextResponse.json({ status: 'ok' });
+    response.cookies.set(SESSION_COOKIE_NAME, sessionCookie, { ...cookieOptions, maxAge: SESSION_MAX_AGE_SECONDS });
+    return response;
+  } catch (error) {
+    console.error('Error creating session:', error);
+    return NextResponse.json({ error: 'Failed to start a session' }, { status: 401 });
+  }
+}
+
+// End the session: the cookie is cleared and the user's refresh tokens are revoked, so
+// neither the cookie nor their current ID tokens can start another session
+export async function DELETE(request: NextRequest) {
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+
+  if (sessionCookie) {
+    try {
+      const adminAuth = getAdminAuth();
+      const claims = await adminAuth.verifySessionCookie(sessionCookie);
+      await adminAuth.revokeRefreshTokens(claims.sub);
+    } catch (error) {
+      // An invalid or expired cookie has nothing left to revoke
+      console.error('Error revoking session:', error);
+    }
+  }
+
+  const response = NextResponse.json({ status: 'ok' });
+  response.cookies.set(SESSION_COOKIE_NAME, '', { ...cookieOptions, maxAge: 0 });
+  return response;
+}
@@ -0,0 +1,47 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useRouter } from 'next/navigation';
+import { Box, CircularProgress } from '@mui/material';
+
+// Pages that handle each kind of link Firebase emails out
+const actionPages: Record<string, string> = {
+  resetPassword: '/auth/reset-password',
+  verifyEmail: '/auth/verify-email',
+  // Email changes: the link to the new address, and the one that undoes it from the old address
+  verifyAndChangeEmail: '/auth/verify-email',
+  recoverEmail: '/auth/verify-email'
+};
+
+// The email action handler configured in Firebase. It passes the link's code on to the page
+// for that kind of action.
+export default function AuthActionPage() {
+  const router = useRouter();
+
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const mode = params.get('mode') || '';
+    const page = actionPages[mode];
+    const actionCode = params.get('oobCode');
+
+    if (page && actionCode) {
+      router.replace(`${page}?mode=${encodeURIComponent(mode)}&oobCode=${encodeURIComponent(actionCode)}`);
+    } else {
+      router.replace('/auth/login');
+    }
+  }, [router]);
+
+  // Only show a loading spinner, never any content
+  return (
+    <Box
+      sx={{
+        display: 'flex',
+        justifyContent: 'center',
+        alignItems: 'center',
+        height: '100vh',
+      }}
+    >
+      <CircularProgress />
+    </Box>
+  );
+}
@@ -8,11 +8,17 @@ import GoogleIcon from '@mui/icons-material/Google';
 export default function LoginPage() {
   const [email, setEmail] = useState('');
   const [password, setPassword] = useState('');
-  const { login, loginWithGoogle, error, loading, clearError } = useAuth();
+  const {
+    login, loginWithGoogle, error, loading, clearError,
+    mfaChallenge, verifySecondFactor, recoverWithCode, cancelChallenge
+  } = useAuth();
   // Use client-side only rendering to prevent hydration issues
   const [mounted, setMounted] = useState(false);
   // Track Google sign-in loading state separately
   const [googleLoading, setGoogleLoading] = useState(false);
+  // Code for the second step of sign-in, from the authenticator app or a recovery code
+  const [code, setCode] = useState('');
+  const [usingRecoveryCode, setUsingRecoveryCode] = useState(false);
 
   useEffect(() => {
     setMounted(true);
@@ -23,14 +29,6 @@ export default function LoginPage() {
     if (errorMessage) {
       console.error("Redirect error detected:", errorMessage);
     }
-    
-    // Check for existing Firebase token in localStorage
-    const storedToken = localStorage.getItem('firebaseToken');
-    if (storedToken) {
-      console.log("Found existing token, setting session cookie");
-      // Set the cookie from the stored token to ensure middleware can read it
-      document.cookie = `__session=${storedToken}; path=/; max-age=86400; SameSite=Strict`;
-    }
   }, []);
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -38,6 +36,28 @@ export default function LoginPage() {
     await login(email, password);
   };
 
+  const handleCodeSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (usingRecoveryCode) {
+      await recoverWithCode(code);
+    } else {
+      await verifySecondFactor(code);
+    }
+    setCode('');
+  };
+
+  const toggleRecoveryCode = () => {
+    setUsingRecoveryCode(!usingRecoveryCode);
+    setCode('');
+    clearError();
+  };
+
+  const handleCancelChallenge = () => {
+    cancelChallenge();
+    setUsingRecoveryCode(false);
+    setCode('');
+  };
+
   const handleGoogleLogin = async () => {
     try {
       setGoogleLoading(true);
@@ -75,75 +95,126 @@ export default function LoginPage() {
           </Alert>
         )}
         
-        <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
-          <TextField
-            margin="normal"
-            required
-            fullWidth
-            id="email"
-            label="Email Address"
-            name="email"
-            autoComplete="email"
-            autoFocus
-            value={email}
-            onChange={(e) => setEmail(e.target.value)}
-            disabled={loading}
-          />
+        {mfaChallenge ? (
+          <Box component="form" onSubmit={handleCodeSubmit} sx={{ mt: 1, width: '100%' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
+              {usingRecoveryCode
+                ? 'Enter one of the recovery codes you saved. Using one turns off two-step verification, so set it up again once you are in.'
+                : 'Enter the 6-digit code from your authenticator app.'}
+            </Typography>
+
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              id="code"
+              label={usingRecoveryCode ? 'Recovery Code' : 'Authentication Code'}
+              name="code"
+              autoComplete="one-time-code"
+              autoFocus
+              value={code}
+              onChange={(e) => setCode(e.target.value)}
+              disabled={loading}
+              slotProps={{ htmlInput: usingRecoveryCode ? {} : { inputMode: 'numeric', maxLength: 6 } }}
+            />
+
+            <Button
+              type="submit"
+              fullWidth
+              variant="contained"
+              sx={{ mt: 3, mb: 2 }}
+              disabled={loading || !code.trim()}
+            >
+              {loading ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                'Verify'
+              )}
+            </Button>
+
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              {/* Recovery codes need the first factor again, which isn't kept for every sign-in */}
+              {mfaChallenge.proof ? (
+                <Link component="button" type="button" variant="body2" onClick={toggleRecoveryCode}>
+                  {usingRecoveryCode ? 'Use your authenticator app' : 'Use a recovery code'}
+                </Link>
+              ) : <span />}
+              <Link component="button" type="button" variant="body2" onClick={handleCancelChallenge}>
+                Back to log in
+              </Link>
+            </Box>
+          </Box>
+        ) : (
+          <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              id="email"
+              label="Email Address"
+              name="email"
+              autoComplete="email"
+              autoFocus
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              disabled={loading}
+            />
           
-          <TextField
-            margin="normal"
-            required
-            fullWidth
-            name="password"
-            label="Password"
-            type="password"
-            id="password"
-            autoComplete="current-password"
-            value={password}
-            onChange={(e) => setPassword(e.target.value)}
-            disabled={loading}
-          />
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              name="password"
+              label="Password"
+              type="password"
+              id="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              disabled={loading}
+            />
           
-          <Button
-            type="submit"
-            fullWidth
-            variant="contained"
-            sx={{ mt: 3, mb: 2 }}
-            disabled={loading}
-          >
-            {loading ? (
-              <CircularProgress size={24} color="inherit" />
-            ) : (
-              'Log In'
-            )}
-          </Button>
+            <Button
+              type="submit"
+              fullWidth
+              variant="contained"
+              sx={{ mt: 3, mb: 2 }}
+              disabled={loading}
+            >
+              {loading ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                'Log In'
+              )}
+            </Button>
 
-          <Divider sx={{ my: 2 }}>OR</Divider>
+            <Divider sx={{ my: 2 }}>OR</Divider>
           
-          <Button
-            fullWidth
-            variant="outlined"
-            startIcon={googleLoading ? null : <GoogleIcon />}
-            onClick={handleGoogleLogin}
-            disabled={googleLoading || loading}
-            sx={{ mb: 2 }}
-          >
-            {googleLoading ? (
-              <CircularProgress size={24} color="inherit" />
-            ) : (
-              'Sign in with Google'
-            )}
-          </Button>
+            <Button
+              fullWidth
+              variant="outlined"
+              startIcon={googleLoading ? null : <GoogleIcon />}
+              onClick={handleGoogleLogin}
+              disabled={googleLoading || loading}
+              sx={{ mb: 2 }}
+            >
+              {googleLoading ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                'Sign in with Google'
+              )}
+            </Button>
           
-          <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
-            <Link href="/auth/reset-password" variant="body2" component="a">
-              Forgot password?
-            </Link>
-            <Link href="/auth/signup" variant="body2" component="a">
-              {"Don't have an account? Sign Up"}
-            </Link>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between' }}>
+              <Link href="/auth/reset-password" variant="body2" component="a">
+                Forgot password?
+              </Link>
+              <Link href="/auth/signup" variant="body2" component="a">
+                {"Don't have an account? Sign Up"}
+              </Link>
+            </Box>
           </Box>
-        </Box>
+        )}
       </Box>
     </Container>
   );
@@ -0,0 +1,230 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { useAuth } from '@/context/AuthContext';
+import { checkPasswordResetCode, completePasswordReset } from '@/firebase/auth';
+import { Container, Typography, TextField, Button, Box, Link, Alert, CircularProgress } from '@mui/material';
+
+// Explain why a reset link or new password was refused
+const getResetErrorMessage = (err: unknown): string => {
+  if (err instanceof FirebaseError) {
+    switch (err.code) {
+      case 'auth/expired-action-code':
+      case 'auth/invalid-action-code':
+        return 'This reset link has expired or has already been used. Request a new one below.';
+      case 'auth/weak-password':
+        return 'Choose a stronger password of at least 6 characters.';
+    }
+  }
+  return err instanceof Error ? err.message : 'An unknown error occurred';
+};
+
+export default function ResetPasswordPage() {
+  const [email, setEmail] = useState('');
+  const [submitted, setSubmitted] = useState(false);
+  const { resetPassword, error, loading, clearError } = useAuth();
+  // Use client-side only rendering to prevent hydration issues
+  const [mounted, setMounted] = useState(false);
+  // Code from the emailed link, once it has been checked
+  const [actionCode, setActionCode] = useState<string | null>(null);
+  const [checkingCode, setCheckingCode] = useState(false);
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [resetError, setResetError] = useState<string | null>(null);
+  const [passwordChanged, setPasswordChanged] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+
+    // When the page is opened from the emailed link, check its code before asking for a password
+    const code = new URLSearchParams(window.location.search).get('oobCode');
+    if (code) {
+      setCheckingCode(true);
+      checkPasswordResetCode(code)
+        .then(codeEmail => {
+          setEmail(codeEmail);
+          setActionCode(code);
+        })
+        .catch(err => setResetError(getResetErrorMessage(err)))
+        .finally(() => setCheckingCode(false));
+    }
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSubmitted(false);
+    setResetError(null);
+    await resetPassword(email);
+    setSubmitted(true);
+  };
+
+  const handleNewPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!actionCode) return;
+
+    if (newPassword !== confirmPassword) {
+      setResetError('Passwords do not match');
+      return;
+    }
+    if (newPassword.length < 6) {
+      setResetError('Password must be at least 6 characters');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setResetError(null);
+      await completePasswordReset(actionCode, newPassword);
+      setPasswordChanged(true);
+    } catch (err) {
+      setResetError(getResetErrorMessage(err));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Don't render until client-side
+  if (!mounted) {
+    return null;
+  }
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box
+        sx={{
+          marginTop: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+        }}
+      >
+        <Typography component="h1" variant="h5">
+          Reset password
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ width: '100%', mt: 2 }} onClose={clearError}>
+            {error}
+          </Alert>
+        )}
+        {resetError && (
+          <Alert severity="error" sx={{ width: '100%', mt: 2 }} onClose={() => setResetError(null)}>
+            {resetError}
+          </Alert>
+        )}
+
+        {checkingCode ? (
+          <CircularProgress sx={{ mt: 3 }} />
+        ) : passwordChanged ? (
+          <>
+            <Alert severity="success" sx={{ width: '100%', mt: 2 }}>
+              Your password has been changed.
+            </Alert>
+            <Button href="/auth/login" variant="contained" fullWidth sx={{ mt: 3 }}>
+              Log In
+            </Button>
+          </>
+        ) : actionCode ? (
+          <Box component="form" onSubmit={handleNewPassword} sx={{ mt: 1, width: '100%' }}>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
+              Choose a new password for {email}.
+            </Typography>
+
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              name="newPassword"
+              label="New Password"
+              type="password"
+              id="newPassword"
+              autoComplete="new-password"
+              autoFocus
+              value={newPassword}
+              onChange={(e) => setNewPassword(e.target.value)}
+              disabled={saving}
+            />
+
+            <TextField
+              margin="normal"
+              required
+              fullWidth
+              name="confirmPassword"
+              label="Confirm New Password"
+              type="password"
+              id="confirmPassword"
+              autoComplete="new-password"
+              value={confirmPassword}
+              onChange={(e) => setConfirmPassword(e.target.value)}
+              disabled={saving}
+            />
+
+            <Button
+              type="submit"
+              fullWidth
+              variant="contained"
+              sx={{ mt: 3, mb: 2 }}
+              disabled={saving}
+            >
+              {saving ? (
+                <CircularProgress size={24} color="inherit" />
+              ) : (
+                'Set New Password'
+              )}
+            </Button>
+          </Box>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 1, textAlign: 'center' }}>
+              Enter the email address you log in with and we&apos;ll send you a link to choose a new password.
+            </Typography>
+            {submitted && !error && (
+              <Alert severity="success" sx={{ width: '100%', mt: 2 }}>
+                If an account exists for {email}, a reset link is on its way.
+              </Alert>
+            )}
+
+            <Box component="form" onSubmit={handleSubmit} sx={{ mt: 1, width: '100%' }}>
+              <TextField
+                margin="normal"
+                required
+                fullWidth
+                id="email"
+                label="Email Address"
+                name="email"
+                type="email"
+                autoComplete="email"
+                autoFocus
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                disabled={loading}
+              />
+
+              <Button
+                type="submit"
+                fullWidth
+                variant="contained"
+                sx={{ mt: 3, mb: 2 }}
+                disabled={loading || !email}
+              >
+                {loading ? (
+                  <CircularProgress size={24} color="inherit" />
+                ) : (
+                  'Send Reset Link'
+                )}
+              </Button>
+            </Box>
+          </>
+        )}
+
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 1 }}>
+          <Link href="/auth/login" variant="body2" component="a">
+            Back to log in
+          </Link>
+        </Box>
+      </Box>
+    </Container>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+import { FirebaseError } from 'firebase/app';
+import { useAuth } from '@/context/AuthContext';
+import { verifyEmail } from '@/firebase/auth';
+import { Container, Typography, Button, Box, Link, Alert, CircularProgress } from '@mui/material';
+import MarkEmailReadIcon from '@mui/icons-material/MarkEmailRead';
+
+// What to tell the user once a link has been applied, by the kind of link it was
+const linkVerifiedMessages: Record<string, string> = {
+  verifyEmail: 'Your email address is verified. Log in to get started.',
+  verifyAndChangeEmail: 'Your email address has been changed. Log in with your new address.',
+  recoverEmail: "Your email address has been changed back. If you didn't ask to change it, reset your password too."
+};
+
+export default function VerifyEmailPage() {
+  const { unverifiedUser, loading, error, resendVerification, checkVerification, logOut, clearError } = useAuth();
+  // Use client-side only rendering to prevent hydration issues
+  const [mounted, setMounted] = useState(false);
+  const [working, setWorking] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Set once a verification link opened on this page has been applied
+  const [linkVerified, setLinkVerified] = useState(false);
+  const [linkError, setLinkError] = useState<string | null>(null);
+  const [linkMode, setLinkMode] = useState('verifyEmail');
+
+  useEffect(() => {
+    setMounted(true);
+
+    // Apply the code when the page was opened from the verification link
+    const params = new URLSearchParams(window.location.search);
+    const actionCode = params.get('oobCode');
+    if (actionCode) {
+      setLinkMode(params.get('mode') || 'verifyEmail');
+      setWorking(true);
+      verifyEmail(actionCode)
+        .then(() => setLinkVerified(true))
+        .catch((err: unknown) => {
+          setLinkError(err instanceof FirebaseError && err.code === 'auth/invalid-action-code'
+            ? 'This verification link has expired or has already been used.'
+            : 'Failed to verify your email address. Please try again.');
+        })
+        .finally(() => setWorking(false));
+    }
+  }, []);
+
+  // Once the link has been applied, a user signed in on this device goes straight in
+  useEffect(() => {
+    if (linkVerified && unverifiedUser) {
+      checkVerification();
+    }
+  }, [linkVerified, unverifiedUser, checkVerification]);
+
+  const handleResend = async () => {
+    setWorking(true);
+    setNotice(null);
+    await resendVerification();
+    setNotice(`We sent a new link to ${unverifiedUser?.email}.`);
+    setWorking(false);
+  };
+
+  const handleCheck = async () => {
+    setWorking(true);
+    setNotice(null);
+    const verified = await checkVerification();
+    if (!verified) {
+      setNotice("Your email address isn't verified yet. Open the link we sent you, then try again.");
+    }
+    setWorking(false);
+  };
+
+  // Don't render until client-side
+  if (!mounted) {
+    return null;
+  }
+
+  return (
+    <Container component="main" maxWidth="xs">
+      <Box
+        sx={{
+          marginTop: 8,
+          display: 'flex',
+          flexDirection: 'column',
+          alignItems: 'center',
+          textAlign: 'center'
+        }}
+      >
+        <MarkEmailReadIcon color="primary" sx={{ fontSize: 48, mb: 1 }} />
+        <Typography component="h1" variant="h5">
+          Verify your email
+        </Typography>
+
+        {error && (
+          <Alert severity="error" sx={{ width: '100%', mt: 2 }} onClose={clearError}>
+            {error}
+          </Alert>
+        )}
+        {linkError && (
+          <Alert severity="error" sx={{ width: '100%', mt: 2 }}>
+            {linkError}
+          </Alert>
+        )}
+        {notice && !error && (
+          <Alert severity="info" sx={{ width: '100%', mt: 2 }} onClose={() => setNotice(null)}>
+            {notice}
+          </Alert>
+        )}
+
+        {loading || (working && !unverifiedUser) ? (
+          <CircularProgress sx={{ mt: 3 }} />
+        ) : linkVerified && !unverifiedUser ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              {linkVerifiedMessages[linkMode] || linkVerifiedMessages.verifyEmail}
+            </Typography>
+            <Button href="/auth/login" variant="contained" fullWidth sx={{ mt: 3 }}>
+              Log In
+            </Button>
+          </>
+        ) : unverifiedUser ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              We sent a verification link to <strong>{unverifiedUser.email}</strong>.
+              Open it to finish setting up your account.
+            </Typography>
+            <Button variant="contained" fullWidth sx={{ mt: 3 }} onClick={handleCheck} disabled={working}>
+              {working ? <CircularProgress size={24} color="inherit" /> : "I've Verified My Email"}
+            </Button>
+            <Button variant="outlined" fullWidth sx={{ mt: 2 }} onClick={handleResend} disabled={working}>
+              Resend Link
+            </Button>
+            <Button color="inherit" sx={{ mt: 2 }} onClick={logOut} disabled={working}>
+              Use a different account
+            </Button>
+          </>
+        ) : (
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+            <Link href="/auth/login" component="a">Log in</Link> to verify your email address.
+          </Typography>
+        )}
+      </Box>
+    </Container>
+  );
+}
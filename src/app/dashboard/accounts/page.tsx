@@ -0,0 +1,313 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControlLabel,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Switch,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Add as AddIcon,
+  Archive as ArchiveIcon,
+  Delete as DeleteIcon,
+  Edit as EditIcon,
+  SwapHoriz as TransferIcon,
+  Unarchive as UnarchiveIcon
+} from '@mui/icons-material';
+import dynamic from 'next/dynamic';
+import SidebarLayout from '@/components/SidebarLayout';
+import {
+  Account,
+  AccountBalance,
+  AccountRegisterEntry,
+  deleteAccount,
+  deleteTransfer,
+  getAccountBalances,
+  getAccountRegister,
+  setAccountArchived
+} from '@/firebase/services';
+import { accountTypeLabels } from '@/utils/accounts';
+import { getRecordCurrency } from '@/utils/currency';
+import { formatMoney, money } from '@/utils/money';
+
+// Import components dynamically with client-side only rendering
+const AccountForm = dynamic(() => import('@/components/AccountForm'), { ssr: false });
+const TransferForm = dynamic(() => import('@/components/TransferForm'), { ssr: false });
+const AccountRegister = dynamic(() => import('@/components/AccountRegister'), { ssr: false });
+
+export default function AccountsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+  const [balances, setBalances] = useState<AccountBalance[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [register, setRegister] = useState<AccountRegisterEntry[]>([]);
+  const [showArchived, setShowArchived] = useState(false);
+  const [accountsLoading, setAccountsLoading] = useState(true);
+  const [registerLoading, setRegisterLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [editingAccount, setEditingAccount] = useState<Account | null>(null);
+  const [transferOpen, setTransferOpen] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+
+    // Redirect if not authenticated
+    if (!loading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, loading, router]);
+
+  const fetchAccounts = useCallback(async () => {
+    try {
+      setAccountsLoading(true);
+      const data = await getAccountBalances(showArchived);
+      setBalances(data);
+      setSelectedId(current => current && data.some(item => item.account.id === current)
+        ? current
+        : data[0]?.account.id || '');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load accounts');
+    } finally {
+      setAccountsLoading(false);
+    }
+  }, [showArchived]);
+
+  const fetchRegister = useCallback(async () => {
+    if (!selectedId) {
+      setRegister([]);
+      return;
+    }
+
+    try {
+      setRegisterLoading(true);
+      setRegister(await getAccountRegister(selectedId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the account register');
+    } finally {
+      setRegisterLoading(false);
+    }
+  }, [selectedId]);
+
+  useEffect(() => {
+    if (user && mounted) {
+      fetchAccounts();
+    }
+  }, [fetchAccounts, user, mounted]);
+
+  useEffect(() => {
+    if (user && mounted) {
+      fetchRegister();
+    }
+  }, [fetchRegister, user, mounted]);
+
+  const refresh = async () => {
+    await fetchAccounts();
+    await fetchRegister();
+  };
+
+  const runAction = async (action: () => Promise<void>) => {
+    try {
+      setError(null);
+      await action();
+      await refresh();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    }
+  };
+
+  const handleDeleteTransfer = (transferId: string) => {
+    if (window.confirm('Delete this transfer?')) {
+      runAction(() => deleteTransfer(transferId));
+    }
+  };
+
+  const handleDeleteAccount = (account: Account) => {
+    if (window.confirm(`Delete the account "${account.name}"?`)) {
+      runAction(() => deleteAccount(account.id!));
+    }
+  };
+
+  const selected = balances.find(item => item.account.id === selectedId);
+  const accounts = balances.map(item => item.account);
+
+  // Don't render anything on server to avoid hydration issues
+  if (!mounted) {
+    return null;
+  }
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Container>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Show content only if user is authenticated
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <SidebarLayout title="Accounts">
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 2fr' }, gap: 3, width: '100%', minWidth: 0 }}>
+        <Box>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
+            <Typography variant="h5" sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+              Accounts
+            </Typography>
+            <Button
+              variant="contained"
+              size="small"
+              startIcon={<AddIcon />}
+              onClick={() => {
+                setEditingAccount(null);
+                setFormOpen(true);
+              }}
+            >
+              Add Account
+            </Button>
+          </Box>
+
+          <Paper>
+            {accountsLoading ? (
+              <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+                <CircularProgress />
+              </Box>
+            ) : balances.length === 0 ? (
+              <Typography color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+                No accounts yet
+              </Typography>
+            ) : (
+              <List disablePadding>
+                {balances.map(({ account, balance }) => (
+                  <ListItemButton
+                    key={account.id}
+                    selected={account.id === selectedId}
+                    onClick={() => setSelectedId(account.id!)}
+                    sx={{ opacity: account.archived ? 0.6 : 1 }}
+                  >
+                    <ListItemText
+                      primary={
+                        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                          {account.name}
+                          {account.archived && <Chip size="small" label="Archived" variant="outlined" />}
+                        </Box>
+                      }
+                      secondary={[accountTypeLabels[account.type], account.institution].filter(Boolean).join(' • ')}
+                    />
+                    <Typography sx={{ fontWeight: 'bold', color: balance < 0 ? 'error.main' : 'text.primary' }}>
+                      {formatMoney(money(balance, getRecordCurrency(account)))}
+                    </Typography>
+                  </ListItemButton>
+                ))}
+              </List>
+            )}
+          </Paper>
+
+          <FormControlLabel
+            control={<Switch checked={showArchived} onChange={(e) => setShowArchived(e.target.checked)} />}
+            label="Show archived accounts"
+            sx={{ mt: 1 }}
+          />
+        </Box>
+
+        <Box sx={{ minWidth: 0 }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+            <Typography variant="h5" sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+              {selected ? selected.account.name : 'Register'}
+            </Typography>
+            {selected && (
+              <Box>
+                <Button
+                  size="small"
+                  startIcon={<TransferIcon />}
+                  onClick={() => setTransferOpen(true)}
+                  disabled={accounts.length < 2}
+                >
+                  Transfer
+                </Button>
+                <Tooltip title="Edit">
+                  <IconButton
+                    size="small"
+                    onClick={() => {
+                      setEditingAccount(selected.account);
+                      setFormOpen(true);
+                    }}
+                  >
+                    <EditIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title={selected.account.archived ? 'Restore' : 'Archive'}>
+                  <IconButton
+                    size="small"
+                    onClick={() => runAction(() => setAccountArchived(selected.account.id!, !selected.account.archived))}
+                  >
+                    {selected.account.archived ? <UnarchiveIcon fontSize="small" /> : <ArchiveIcon fontSize="small" />}
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Delete">
+                  <IconButton size="small" onClick={() => handleDeleteAccount(selected.account)}>
+                    <DeleteIcon fontSize="small" />
+                  </IconButton>
+                </Tooltip>
+              </Box>
+            )}
+          </Box>
+
+          <Paper sx={{ p: { xs: 1, sm: 2 } }}>
+            <AccountRegister
+              entries={register}
+              currency={selected ? getRecordCurrency(selected.account) : getRecordCurrency({})}
+              loading={registerLoading}
+              onDeleteTransfer={handleDeleteTransfer}
+            />
+          </Paper>
+        </Box>
+      </Box>
+
+      <AccountForm
+        open={formOpen}
+        onClose={() => setFormOpen(false)}
+        onSaved={(id) => {
+          setSelectedId(id);
+          refresh();
+        }}
+        initialAccount={editingAccount}
+      />
+
+      <TransferForm
+        open={transferOpen}
+        onClose={() => setTransferOpen(false)}
+        onSaved={refresh}
+        fromAccountId={selectedId}
+        accounts={accounts}
+      />
+    </SidebarLayout>
+  );
+}
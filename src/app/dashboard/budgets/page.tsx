@@ -0,0 +1,212 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { 
+  Box, 
+  CircularProgress, 
+  Container, 
+  Typography, 
+  Paper,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent
+} from '@mui/material';
+import dynamic from 'next/dynamic';
+import SidebarLayout from '@/components/SidebarLayout';
+import {
+  BudgetEnvelope,
+  EnvelopeBalance,
+  deleteEnvelope,
+  getEnvelopeBalances,
+  getEnvelopes
+} from '@/firebase/services';
+
+// Import components dynamically with client-side only rendering
+const EnvelopeForm = dynamic(() => import('@/components/EnvelopeForm'), { ssr: false });
+const EnvelopeBalanceList = dynamic(() => import('@/components/EnvelopeBalanceList'), { ssr: false });
+
+// Helper to get month name
+const getMonthName = (month: number): string => {
+  return new Date(0, month - 1).toLocaleString('default', { month: 'long' });
+};
+
+// Generate year options from 2020 to current year + 1
+const generateYearOptions = (): number[] => {
+  const currentYear = new Date().getFullYear();
+  return Array.from({ length: currentYear - 2020 + 2 }, (_, i) => 2020 + i);
+};
+
+export default function BudgetsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+  const [envelopes, setEnvelopes] = useState<BudgetEnvelope[]>([]);
+  const [balances, setBalances] = useState<EnvelopeBalance[]>([]);
+  const [fetchLoading, setFetchLoading] = useState(false);
+  const [editingEnvelope, setEditingEnvelope] = useState<BudgetEnvelope | null>(null);
+
+  // Get current month and year
+  const currentMonth = new Date().getMonth() + 1;
+  const currentYear = new Date().getFullYear();
+
+  // Selected filter values
+  const [selectedMonth, setSelectedMonth] = useState(currentMonth);
+  const [selectedYear, setSelectedYear] = useState(currentYear);
+
+  useEffect(() => {
+    setMounted(true);
+    
+    // Redirect if not authenticated
+    if (!loading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, loading, router]);
+
+  const fetchEnvelopes = useCallback(async () => {
+    try {
+      setFetchLoading(true);
+      const [envelopeList, balanceList] = await Promise.all([
+        getEnvelopes(),
+        getEnvelopeBalances(selectedMonth, selectedYear)
+      ]);
+      setEnvelopes(envelopeList);
+      setBalances(balanceList);
+    } catch (error) {
+      console.error('Error fetching budget envelopes:', error);
+    } finally {
+      setFetchLoading(false);
+    }
+  }, [selectedMonth, selectedYear]);
+
+  useEffect(() => {
+    if (user) {
+      fetchEnvelopes();
+    }
+  }, [fetchEnvelopes, user]);
+
+  const handleEdit = (envelopeId: string) => {
+    setEditingEnvelope(envelopes.find(envelope => envelope.id === envelopeId) || null);
+    // Scroll to the form
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleDelete = async (envelopeId: string) => {
+    setBalances(balances.filter(balance => balance.envelopeId !== envelopeId));
+    setEnvelopes(envelopes.filter(envelope => envelope.id !== envelopeId));
+    if (editingEnvelope?.id === envelopeId) {
+      setEditingEnvelope(null);
+    }
+    try {
+      await deleteEnvelope(envelopeId);
+    } catch (error) {
+      console.error('Error deleting envelope:', error);
+      fetchEnvelopes();
+    }
+  };
+
+  const handleSuccess = () => {
+    fetchEnvelopes();
+    setEditingEnvelope(null);
+  };
+
+  const handleMonthChange = (e: SelectChangeEvent<number>) => {
+    setSelectedMonth(e.target.value as number);
+  };
+
+  const handleYearChange = (e: SelectChangeEvent<number>) => {
+    setSelectedYear(e.target.value as number);
+  };
+
+  // Don't render anything on server to avoid hydration issues
+  if (!mounted) {
+    return null;
+  }
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Container>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Show content only if user is authenticated
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <SidebarLayout title="Budget Envelopes">
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 3, width: '100%', maxWidth: '100vw', padding: { xs: 1, sm: 2 }, overflowX: 'auto', minWidth: 0 }}>
+        <Box sx={{ width: '100%', maxWidth: '100%' }}>
+          <Typography variant="h5" sx={{ mb: 3, fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+            {editingEnvelope ? 'Edit Envelope' : 'Add Envelope'}
+          </Typography>
+          <EnvelopeForm
+            onSuccess={handleSuccess}
+            onCancel={() => setEditingEnvelope(null)}
+            initialEnvelope={editingEnvelope}
+          />
+        </Box>
+        
+        <Box sx={{ width: '100%', maxWidth: '100%' }}>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 2, width: '100%' }}>
+            <Typography variant="h5" sx={{ fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+              Envelopes
+            </Typography>
+            
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              <FormControl size="small" sx={{ minWidth: 100, width: { xs: 'calc(50% - 4px)', sm: 'auto' } }}>
+                <InputLabel sx={{ fontSize: { xs: '0.8rem', sm: '1rem' } }}>Month</InputLabel>
+                <Select
+                  value={selectedMonth}
+                  label="Month"
+                  onChange={handleMonthChange}
+                  sx={{ fontSize: { xs: '0.8rem', sm: '1rem' } }}
+                >
+                  {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+                    <MenuItem key={month} value={month} sx={{ fontSize: { xs: '0.8rem', sm: '1rem' } }}>
+                      {getMonthName(month)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              
+              <FormControl size="small" sx={{ minWidth: 80, width: { xs: 'calc(50% - 4px)', sm: 'auto' } }}>
+                <InputLabel sx={{ fontSize: { xs: '0.8rem', sm: '1rem' } }}>Year</InputLabel>
+                <Select
+                  value={selectedYear}
+                  label="Year"
+                  onChange={handleYearChange}
+                  sx={{ fontSize: { xs: '0.8rem', sm: '1rem' } }}
+                >
+                  {generateYearOptions().map((year) => (
+                    <MenuItem key={year} value={year} sx={{ fontSize: { xs: '0.8rem', sm: '1rem' } }}>
+                      {year}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            </Box>
+          </Box>
+          
+          <Paper sx={{ mb: 3, p: 2, width: '100%', maxWidth: '100%' }}>
+            <EnvelopeBalanceList
+              balances={balances}
+              onEdit={handleEdit}
+              onDelete={handleDelete}
+              loading={fetchLoading}
+            />
+          </Paper>
+        </Box>
+      </Box>
+    </SidebarLayout>
+  );
+}
@@ -19,7 +19,8 @@ import {
 } from '@mui/material';
 import dynamic from 'next/dynamic';
 import SidebarLayout from '@/components/SidebarLayout';
-import { Expense, getAllMonthlyExpenses, deleteExpense } from '@/firebase/services';
+import { Expense, addOrUpdateExpense } from '@/firebase/services';
+import { useMonthlyExpenses } from '@/hooks/useLiveMonthData';
 
 // Import components dynamically with client-side only rendering
 const ExpenseForm = dynamic(() => import('@/components/ExpenseForm'), { ssr: false });
@@ -40,8 +41,6 @@ export default function ExpensesPage() {
   const { user, loading } = useAuth();
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
-  const [expenses, setExpenses] = useState<Expense[]>([]);
-  const [fetchLoading, setFetchLoading] = useState(false);
   const [activeTab, setActiveTab] = useState(0); // 0: All, 1: Fixed, 2: Variable, 3: Subscriptions
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
 
@@ -53,6 +52,9 @@ export default function ExpensesPage() {
   const [selectedMonth, setSelectedMonth] = useState(currentMonth);
   const [selectedYear, setSelectedYear] = useState(currentYear);
 
+  // Updates live, including changes made by others in the household
+  const { data: expenses, loading: fetchLoading } = useMonthlyExpenses(selectedMonth, selectedYear);
+
   useEffect(() => {
     setMounted(true);
     
@@ -62,29 +64,23 @@ export default function ExpensesPage() {
     }
   }, [user, loading, router]);
 
-  useEffect(() => {
-    if (user) {
-      fetchExpenses();
-    }
-  }, [user, selectedMonth, selectedYear]);
-
-  const fetchExpenses = async () => {
-    try {
-      setFetchLoading(true);
-      const allExpenses = await getAllMonthlyExpenses(selectedMonth, selectedYear);
-      setExpenses(allExpenses);
-    } catch (error) {
-      console.error('Error fetching expenses:', error);
-    } finally {
-      setFetchLoading(false);
-    }
-  };
-
   const handleSuccess = () => {
-    fetchExpenses();
     clearEditingState();
   };
 
+  const handleStatusChange = (id: string, status: 'paid' | 'pending') => {
+    const expenseToUpdate = expenses.find(exp => exp.id === id);
+    if (expenseToUpdate) {
+      addOrUpdateExpense({
+        ...expenseToUpdate,
+        isPaid: status === 'paid'
+      }, id).catch(error => console.error('Error updating expense status:', error));
+    }
+  };
+
+  // The card has already moved the expense to the trash, and the list drops it as it updates
+  const handleDelete = () => {};
+
   const handleTabChange = (_: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
   };
@@ -214,19 +210,8 @@ export default function ExpensesPage() {
               <ExpenseCardList 
                 expenses={filteredExpenses} 
                 onEdit={handleEdit} 
-                onStatusChange={(id, status) => {
-                  console.log('Status change', id, status);
-                  const updatedExpenses = expenses.map(exp => 
-                    exp.id === id ? { ...exp, isPaid: status === 'paid' } : exp
-                  );
-                  setExpenses(updatedExpenses);
-                }} 
-                onDelete={(id) => {
-                  console.log('Delete', id);
-                  const updatedExpenses = expenses.filter(exp => exp.id !== id);
-                  setExpenses(updatedExpenses);
-                  deleteExpense(id);
-                }} 
+                onStatusChange={handleStatusChange} 
+                onDelete={handleDelete} 
                 loading={fetchLoading} 
               />
             </Box>
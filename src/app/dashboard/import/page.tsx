@@ -0,0 +1,64 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Box,
+  CircularProgress,
+  Container,
+  Paper,
+  Typography
+} from '@mui/material';
+import dynamic from 'next/dynamic';
+import SidebarLayout from '@/components/SidebarLayout';
+
+// Import components dynamically with client-side only rendering
+const ImportWizard = dynamic(() => import('@/components/ImportWizard'), { ssr: false });
+
+export default function ImportPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+
+  useEffect(() => {
+    setMounted(true);
+
+    // Redirect if not authenticated
+    if (!loading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, loading, router]);
+
+  // Don't render anything on server to avoid hydration issues
+  if (!mounted) {
+    return null;
+  }
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Container>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Show content only if user is authenticated
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <SidebarLayout title="Import">
+      <Typography variant="h5" sx={{ mb: 3, fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+        Import Transactions
+      </Typography>
+      <Paper sx={{ p: { xs: 2, sm: 3 } }}>
+        <ImportWizard />
+      </Paper>
+    </SidebarLayout>
+  );
+}
@@ -17,7 +17,8 @@ import {
 } from '@mui/material';
 import dynamic from 'next/dynamic';
 import SidebarLayout from '@/components/SidebarLayout';
-import { Income, getMonthlyIncome, deleteIncome, addOrUpdateIncome } from '@/firebase/services';
+import { Income, addOrUpdateIncome } from '@/firebase/services';
+import { useMonthlyIncome } from '@/hooks/useLiveMonthData';
 
 // Import components dynamically with client-side only rendering
 const IncomeForm = dynamic(() => import('@/components/IncomeForm'), { ssr: false });
@@ -38,8 +39,6 @@ export default function IncomePage() {
   const { user, loading } = useAuth();
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
-  const [incomeList, setIncomeList] = useState<Income[]>([]);
-  const [fetchLoading, setFetchLoading] = useState(false);
   const [editingIncome, setEditingIncome] = useState<Income | null>(null);
 
   // Get current month and year
@@ -50,6 +49,9 @@ export default function IncomePage() {
   const [selectedMonth, setSelectedMonth] = useState(currentMonth);
   const [selectedYear, setSelectedYear] = useState(currentYear);
 
+  // Updates live, including changes made by others in the household
+  const { data: incomeList, loading: fetchLoading } = useMonthlyIncome(selectedMonth, selectedYear);
+
   useEffect(() => {
     setMounted(true);
     
@@ -59,24 +61,6 @@ export default function IncomePage() {
     }
   }, [user, loading, router]);
 
-  useEffect(() => {
-    if (user) {
-      fetchIncome();
-    }
-  }, [user, selectedMonth, selectedYear]);
-
-  const fetchIncome = async () => {
-    try {
-      setFetchLoading(true);
-      const income = await getMonthlyIncome(selectedMonth, selectedYear);
-      setIncomeList(income);
-    } catch (error) {
-      console.error('Error fetching income:', error);
-    } finally {
-      setFetchLoading(false);
-    }
-  };
-
   const handleEdit = (income: Income) => {
     setEditingIncome(income);
     // Scroll to the form
@@ -88,7 +72,6 @@ export default function IncomePage() {
   };
 
   const handleSuccess = () => {
-    fetchIncome();
     clearEditingState();
   };
 
@@ -101,12 +84,6 @@ export default function IncomePage() {
   };
 
   const handleStatusChange = (id: string, status: 'received' | 'pending') => {
-    const updatedIncomeList = incomeList.map(income => 
-      income.id === id ? { ...income, isPaid: status === 'received' } : income
-    );
-    setIncomeList(updatedIncomeList);
-    
-    // Update in Firebase
     const incomeToUpdate = incomeList.find(inc => inc.id === id);
     if (incomeToUpdate) {
       addOrUpdateIncome({
@@ -116,11 +93,8 @@ export default function IncomePage() {
     }
   };
 
-  const handleDelete = (id: string) => {
-    const updatedIncomeList = incomeList.filter(income => income.id !== id);
-    setIncomeList(updatedIncomeList);
-    deleteIncome(id);
-  };
+  // The card has already moved the income to the trash, and the list drops it as it updates
+  const handleDelete = () => {};
 
   // Don't render anything on server to avoid hydration issues
   if (!mounted) {
@@ -1,8 +1,11 @@
 'use client';
 
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
+import { useCategories } from '@/context/CategoryContext';
+import { useCurrency } from '@/context/CurrencyContext';
+import { useHousehold } from '@/context/HouseholdContext';
 import {
   Box,
   CircularProgress,
@@ -37,7 +40,12 @@ import {
   AccountBalance as BalanceIcon
 } from '@mui/icons-material';
 import SidebarLayout from '@/components/SidebarLayout';
-import { getMonthlyIncome, getAllMonthlyExpenses, getMonthlySummary, Expense, Income, MonthlySummary } from '@/firebase/services';
+import { calculateAndSaveMonthSummary, getEnvelopeBalances, getExpenseDate, getIncomeDate, isSummaryStale, EnvelopeBalance, Expense, Income, MonthlySummary } from '@/firebase/services';
+import { useMonthlyExpenses, useMonthlyIncome, useMonthlySummary } from '@/hooks/useLiveMonthData';
+import { uncategorizedColor } from '@/utils/categories';
+import { getRecordCurrency } from '@/utils/currency';
+import { formatMoney, Money, money, sumMoney, toMajorUnits } from '@/utils/money';
+import BaseAmountCaption from '@/components/BaseAmountCaption';
 import dynamic from 'next/dynamic';
 
 // Dynamically import chart components
@@ -45,6 +53,9 @@ const Charts = dynamic(() => import('../../components/Charts'), {
   ssr: false,
   loading: () => <Typography>Loading chart...</Typography>
 });
+const EnvelopeBalanceList = dynamic(() => import('../../components/EnvelopeBalanceList'), { ssr: false });
+const NetWorthCard = dynamic(() => import('../../components/NetWorthCard'), { ssr: false });
+const CashFlowForecast = dynamic(() => import('../../components/CashFlowForecast'), { ssr: false });
 
 // Helper to get month name
 const getMonthName = (month: number): string => {
@@ -57,48 +68,33 @@ const generateYearOptions = (): number[] => {
   return Array.from({ length: currentYear - 2020 + 2 }, (_, i) => 2020 + i);
 };
 
-// Helper to calculate weekly income for recurring items
-const calculateTotalIncomeWithRecurring = async (selectedMonth: number, selectedYear: number, includePending: boolean) => {
-  const incomeData = await getMonthlyIncome(selectedMonth, selectedYear);
-  
-  let total = 0;
-  
-  incomeData
+// Converts a record's amount to the base currency at the rate on its date
+type ToBase = (item: Income | Expense) => Money;
+
+// Total income for the month in base-currency cents. Every occurrence of a recurring item
+// (each weekly or biweekly paycheck) is its own record, so the total is a plain sum.
+const getIncomeTotal = (incomes: Income[], includePending: boolean, toBase: ToBase, baseCurrency: string) => {
+  return sumMoney(incomes
     .filter(income => includePending || income.isPaid)
-    .forEach(income => {
-      if (income.recurring && income.frequency === 'weekly') {
-        // Count weeks in the month
-        const daysInMonth = new Date(selectedYear, selectedMonth, 0).getDate();
-        const weeksInMonth = Math.floor(daysInMonth / 7);
-        total += income.amount * weeksInMonth;
-      } 
-      else if (income.recurring && income.frequency === 'biweekly') {
-        // Count biweeks in the month
-        const daysInMonth = new Date(selectedYear, selectedMonth, 0).getDate();
-        const biweeksInMonth = Math.floor(daysInMonth / 14);
-        total += income.amount * biweeksInMonth;
-      }
-      else {
-        total += income.amount;
-      }
-    });
-  
-  return total;
+    .map(toBase), baseCurrency).cents;
 };
 
 // Chart colors
 const COLORS = ['#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#0088FE', '#00C49F', '#FFBB28', '#FF8042'];
 
 // Calculate totals and balance based on includePending setting
-const getExpenseTotal = (expenses: Expense[], category: string, includePending: boolean) => {
-  return expenses
+const getExpenseTotal = (expenses: Expense[], category: string, includePending: boolean, toBase: ToBase, baseCurrency: string) => {
+  return sumMoney(expenses
     .filter(expense => expense.category === category)
     .filter(expense => includePending || expense.isPaid)
-    .reduce((total, expense) => total + expense.amount, 0);
+    .map(toBase), baseCurrency).cents;
 };
 
 export default function DashboardPage() {
   const { user, loading } = useAuth();
+  const { categories, findCategory } = useCategories();
+  const { baseCurrency, toBaseOrNull } = useCurrency();
+  const { canEdit } = useHousehold();
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
   const [activeTab, setActiveTab] = useState(1);
@@ -111,13 +107,15 @@ export default function DashboardPage() {
   const [selectedMonth, setSelectedMonth] = useState(currentMonth);
   const [selectedYear, setSelectedYear] = useState(currentYear);
   
-  // Data states
-  const [expensesList, setExpensesList] = useState<Expense[]>([]);
-  const [incomeList, setIncomeList] = useState<Income[]>([]);
-  const [summary, setSummary] = useState<MonthlySummary | null>(null);
-  const [totalIncome, setTotalIncome] = useState(0);
-  const [dataLoading, setDataLoading] = useState(false);
+  // Data states. Income, expenses and the summary update live as anyone in the household
+  // changes them.
+  const { data: expensesList, loading: expensesLoading } = useMonthlyExpenses(selectedMonth, selectedYear);
+  const { data: incomeData, loading: incomeLoading } = useMonthlyIncome(selectedMonth, selectedYear);
+  const { data: summaryData, loading: summaryLoading } = useMonthlySummary(selectedMonth, selectedYear);
+  const [envelopeBalances, setEnvelopeBalances] = useState<EnvelopeBalance[]>([]);
   const [includePending, setIncludePending] = useState(true);
+  const [recalculating, setRecalculating] = useState(false);
+  const dataLoading = expensesLoading || incomeLoading || summaryLoading;
 
   useEffect(() => {
     setMounted(true);
@@ -132,113 +130,111 @@ export default function DashboardPage() {
     }
   }, [user, loading, router]);
   
-  const fetchData = useCallback(async () => {
-    try {
-      setDataLoading(true);
-      
-      // Debug data access - we need to import this function
-      console.log('─────────────────────────────────────────────────────');
-      console.log(`Loading data - this may use the primary user's ID for data access`);
-      console.log('─────────────────────────────────────────────────────');
-      
-      // Fetch data in parallel
-      const [incomeData, expensesData, summaryData] = await Promise.all([
-        getMonthlyIncome(selectedMonth, selectedYear),
-        getAllMonthlyExpenses(selectedMonth, selectedYear),
-        getMonthlySummary(selectedMonth, selectedYear)
-      ]);
-      
-      setExpensesList(expensesData);
-      setIncomeList(incomeData.filter(income => includePending || income.isPaid));
-      
-      if (summaryData) {
-        // Create a new object to avoid modifying the original
-        const updatedSummary = { ...summaryData };
-        
-        // Filter out pending items if includePending is false
-        if (!includePending) {
-          updatedSummary.totalFixedExpenses = updatedSummary.paidFixedExpenses ?? 0;
-          updatedSummary.totalVariableExpenses = updatedSummary.paidVariableExpenses ?? 0;
-          updatedSummary.totalSubscriptions = updatedSummary.paidSubscriptions ?? 0;
-        }
-        
-        setSummary(updatedSummary);
-      } else {
-        setSummary(null);
-      }
-      
-      // Calculate total income with recurring items
-      const calculatedTotalIncome = await calculateTotalIncomeWithRecurring(selectedMonth, selectedYear, includePending);
-      setTotalIncome(calculatedTotalIncome);
-      
-    } catch (error) {
-      console.error('Error fetching dashboard data:', error);
-    } finally {
-      setDataLoading(false);
-    }
-  }, [selectedMonth, selectedYear, includePending]);
-  
-  // Fetch data when month/year filters change
+  // Envelope balances are worked out from the month's expenses, so reload them as those change
   useEffect(() => {
-    if (user && mounted) {
-      fetchData();
+    if (!user || expensesLoading) return;
+    
+    getEnvelopeBalances(selectedMonth, selectedYear)
+      .then(setEnvelopeBalances)
+      .catch(error => console.error('Error fetching envelope balances:', error));
+  }, [user, expensesList, expensesLoading, selectedMonth, selectedYear]);
+  
+  const incomeList = incomeData.filter(income => includePending || income.isPaid);
+  
+  // Leave pending expenses out of the summary totals when they are hidden
+  const summary: MonthlySummary | null = summaryData && !includePending
+    ? {
+      ...summaryData,
+      totalFixedExpenses: summaryData.paidFixedExpenses ?? 0,
+      totalVariableExpenses: summaryData.paidVariableExpenses ?? 0,
+      totalSubscriptions: summaryData.paidSubscriptions ?? 0
     }
-  }, [fetchData, user, mounted]);
+    : summaryData;
   
-  // Update calculations when includePending changes without fetching data again
-  useEffect(() => {
-    if (user && mounted && expensesList.length > 0) {
-      // Recalculate without refetching all data
-      calculateTotalIncomeWithRecurring(selectedMonth, selectedYear, includePending)
-        .then(calculatedIncome => {
-          setTotalIncome(calculatedIncome);
-        })
-        .catch(error => {
-          console.error('Error recalculating income:', error);
-        });
+  // Convert every amount to the base currency at the rate on its date. Amounts without a
+  // rate are left out of the totals and the missing currencies are flagged.
+  const unconvertedCurrencies = new Set<string>();
+  const toBase: ToBase = (item) => {
+    const currency = getRecordCurrency(item);
+    const date = 'source' in item ? getIncomeDate(item) : getExpenseDate(item);
+    const converted = toBaseOrNull(money(item.amount, currency), date);
+    if (!converted) {
+      unconvertedCurrencies.add(currency);
+      return money(0, baseCurrency);
     }
-  }, [includePending, user, mounted, selectedMonth, selectedYear, expensesList.length]);
+    return converted;
+  };
   
   // Calculate totals using the helper function
-  const fixedExpenses = getExpenseTotal(expensesList, 'fixed', includePending);
-  const variableExpenses = getExpenseTotal(expensesList, 'variable', includePending);
-  const subscriptionExpenses = getExpenseTotal(expensesList, 'subscription', includePending);
+  const fixedExpenses = getExpenseTotal(expensesList, 'fixed', includePending, toBase, baseCurrency);
+  const variableExpenses = getExpenseTotal(expensesList, 'variable', includePending, toBase, baseCurrency);
+  const subscriptionExpenses = getExpenseTotal(expensesList, 'subscription', includePending, toBase, baseCurrency);
+  const totalIncome = getIncomeTotal(incomeList, includePending, toBase, baseCurrency);
   
-  const totalExpenses = fixedExpenses + variableExpenses + subscriptionExpenses;
+  const totalExpenses = sumMoney([fixedExpenses, variableExpenses, subscriptionExpenses].map(cents => money(cents, baseCurrency)), baseCurrency).cents;
   const balance = totalIncome - totalExpenses;
   
+  // Major-unit values for charts
+  const toChartValue = (cents: number) => toMajorUnits(money(cents, baseCurrency));
+  
   // Expense breakdown data for pie chart
   const expenseChartData = [
-    { name: 'Fixed Expenses', value: summary ? summary.totalFixedExpenses : fixedExpenses, color: '#8884d8' },
-    { name: 'Variable Expenses', value: summary ? summary.totalVariableExpenses : variableExpenses, color: '#82ca9d' },
-    { name: 'Subscriptions', value: summary ? summary.totalSubscriptions : subscriptionExpenses, color: '#ffc658' },
+    { name: 'Fixed Expenses', value: toChartValue(summary ? summary.totalFixedExpenses : fixedExpenses), color: '#8884d8' },
+    { name: 'Variable Expenses', value: toChartValue(summary ? summary.totalVariableExpenses : variableExpenses), color: '#82ca9d' },
+    { name: 'Subscriptions', value: toChartValue(summary ? summary.totalSubscriptions : subscriptionExpenses), color: '#ffc658' },
   ].filter(item => item.value > 0);
   
+  // Spending grouped by top-level category, colored from the user's category taxonomy
+  const categoryTotals = new Map<string, { value: number; color: string }>();
+  expensesList
+    .filter(expense => includePending || expense.isPaid)
+    .forEach(expense => {
+      const category = findCategory(expense.subcategory);
+      const topLevel = category?.parentId
+        ? categories.find(item => item.id === category.parentId)
+        : category;
+      const name = topLevel?.name || 'Uncategorized';
+      const total = categoryTotals.get(name) || { value: 0, color: topLevel?.color || uncategorizedColor };
+      categoryTotals.set(name, { ...total, value: total.value + toBase(expense).cents });
+    });
+  const categoryChartData = Array.from(categoryTotals, ([name, total]) => ({ name, ...total, value: toChartValue(total.value) }))
+    .filter(item => item.value > 0)
+    .sort((a, b) => b.value - a.value);
+  const hasCategorizedSpending = categoryChartData.some(item => item.name !== 'Uncategorized');
+  
   // Generate data for income vs expenses bar chart
   const barChartData = [
     {
       name: `${getMonthName(selectedMonth)} ${selectedYear}`,
-      Income: totalIncome,
-      Expenses: totalExpenses,
-      Balance: balance > 0 ? balance : 0,
-      Deficit: balance < 0 ? Math.abs(balance) : 0,
+      Income: toChartValue(totalIncome),
+      Expenses: toChartValue(totalExpenses),
+      Balance: balance > 0 ? toChartValue(balance) : 0,
+      Deficit: balance < 0 ? toChartValue(Math.abs(balance)) : 0,
     }
   ];
 
   // Income breakdown data
   const incomeChartData = incomeList.map(item => ({
     name: item.source,
-    value: item.amount,
+    value: toChartValue(toBase(item).cents),
     color: COLORS[Math.floor(Math.random() * COLORS.length)]
   }));
   
-  // Format number as currency
-  const formatCurrency = (value: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-      minimumFractionDigits: 2
-    }).format(value);
+  // Format base-currency cents
+  const formatCurrency = (cents: number): string => {
+    return formatMoney(money(cents, baseCurrency));
+  };
+  
+  // The saved summary updates live once recalculated
+  const handleRecalculate = async () => {
+    try {
+      setRecalculating(true);
+      await calculateAndSaveMonthSummary(selectedMonth, selectedYear);
+    } catch (error) {
+      console.error('Error recalculating summary:', error);
+    } finally {
+      setRecalculating(false);
+    }
   };
   
   const handleMonthChange = (e: SelectChangeEvent<number>) => {
@@ -349,6 +345,28 @@ export default function DashboardPage() {
         </Box>
       ) : (
         <>
+          {unconvertedCurrencies.size > 0 && (
+            <Alert severity="warning" sx={{ mb: 3 }}>
+              Some amounts in {Array.from(unconvertedCurrencies).join(', ')} are left out of the totals because
+              there is no exchange rate to {baseCurrency}. Add one in Settings.
+            </Alert>
+          )}
+          
+          {summaryData && isSummaryStale(summaryData) && (
+            <Alert
+              severity="info"
+              sx={{ mb: 3 }}
+              action={canEdit && (
+                <Button color="inherit" size="small" onClick={handleRecalculate} disabled={recalculating}>
+                  {recalculating ? 'Recalculating...' : 'Recalculate'}
+                </Button>
+              )}
+            >
+              This month&apos;s summary may be out of date, for example after exchange rates or envelopes changed.
+              Recalculating it brings it back in line with the month&apos;s records.
+            </Alert>
+          )}
+          
           {/* Summary Cards */}
           <Box sx={{ 
             display: 'grid', 
@@ -477,9 +495,9 @@ export default function DashboardPage() {
                 </Box>
                 <Typography variant="h5" sx={{ fontWeight: 'bold' }}>
                   {formatCurrency(
-                    expensesList
+                    sumMoney(expensesList
                       .filter(expense => !expense.isPaid)
-                      .reduce((total, expense) => total + expense.amount, 0)
+                      .map(toBase), baseCurrency).cents
                   )}
                 </Typography>
                 <Typography variant="body2" color="textSecondary">
@@ -499,6 +517,7 @@ export default function DashboardPage() {
             >
               <Tab label="Expense Breakdown" />
               <Tab label="Income vs Expenses" />
+              <Tab label="Cash-Flow Forecast" />
               <Tab label="Income Sources" />
             </Tabs>
             
@@ -527,6 +546,7 @@ export default function DashboardPage() {
                       type="pie" 
                       data={expenseChartData} 
                       colors={COLORS}
+                      currency={baseCurrency}
                     />
                   </Box>
                 )}
@@ -536,18 +556,34 @@ export default function DashboardPage() {
                     Summary
                   </Typography>
                   <Typography variant="body2">
-                    Total Fixed Expenses: ${summary ? summary.totalFixedExpenses.toFixed(2) : fixedExpenses.toFixed(2)}
+                    Total Fixed Expenses: {formatCurrency(summary ? summary.totalFixedExpenses : fixedExpenses)}
                   </Typography>
                   <Typography variant="body2">
-                    Total Variable Expenses: ${summary ? summary.totalVariableExpenses.toFixed(2) : variableExpenses.toFixed(2)}
+                    Total Variable Expenses: {formatCurrency(summary ? summary.totalVariableExpenses : variableExpenses)}
                   </Typography>
                   <Typography variant="body2">
-                    Total Subscriptions: ${summary ? summary.totalSubscriptions.toFixed(2) : subscriptionExpenses.toFixed(2)}
+                    Total Subscriptions: {formatCurrency(summary ? summary.totalSubscriptions : subscriptionExpenses)}
                   </Typography>
                   <Typography variant="body2" sx={{ mt: 1 }}>
-                    Total Expenses: ${totalExpenses.toFixed(2)}
+                    Total Expenses: {formatCurrency(totalExpenses)}
                   </Typography>
                 </Box>
+                
+                {hasCategorizedSpending && (
+                  <Box sx={{ mt: 4 }}>
+                    <Typography variant="h6" sx={{ mb: 2, textAlign: 'center' }}>
+                      Spending by Category
+                    </Typography>
+                    <Box sx={{ height: 400, width: '100%' }}>
+                      <Charts 
+                        type="pie" 
+                        data={categoryChartData} 
+                        colors={COLORS}
+                        currency={baseCurrency}
+                      />
+                    </Box>
+                  </Box>
+                )}
               </Box>
             )}
             
@@ -562,6 +598,7 @@ export default function DashboardPage() {
                     data={barChartData} 
                     keys={['Income', 'Expenses', balance >= 0 ? 'Balance' : 'Deficit']}
                     colors={['#8884d8', '#82ca9d', balance >= 0 ? '#ffc658' : '#ff8042']}
+                    currency={baseCurrency}
                   />
                 </Box>
                 <Box sx={{ mt: 3 }}>
@@ -569,10 +606,10 @@ export default function DashboardPage() {
                     Summary
                   </Typography>
                   <Typography variant="body2">
-                    Total Income: ${totalIncome.toFixed(2)}
+                    Total Income: {formatCurrency(totalIncome)}
                   </Typography>
                   <Typography variant="body2">
-                    Total Expenses: ${totalExpenses.toFixed(2)}
+                    Total Expenses: {formatCurrency(totalExpenses)}
                   </Typography>
                   <Typography variant="body2" 
                     sx={{ 
@@ -581,13 +618,16 @@ export default function DashboardPage() {
                       fontWeight: 'bold'
                     }}
                   >
-                    {balance >= 0 ? 'Surplus' : 'Deficit'}: ${Math.abs(balance).toFixed(2)}
+                    {balance >= 0 ? 'Surplus' : 'Deficit'}: {formatCurrency(Math.abs(balance))}
                   </Typography>
                 </Box>
               </Box>
             )}
             
-            {activeTab === 2 && (
+            {/* Projects ahead from today, independent of the selected month */}
+            {activeTab === 2 && <CashFlowForecast />}
+            
+            {activeTab === 3 && (
               <Box>
                 <Typography variant="h6" sx={{ mb: 2, textAlign: 'center' }}>
                   Income Sources
@@ -603,6 +643,7 @@ export default function DashboardPage() {
                       type="pie" 
                       data={incomeChartData} 
                       colors={COLORS}
+                      currency={baseCurrency}
                     />
                   </Box>
                 )}
@@ -616,19 +657,35 @@ export default function DashboardPage() {
                       <Typography variant="body2">
                         {item.source} {item.recurring ? `(${item.frequency})` : ''}
                       </Typography>
-                      <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
-                        ${item.amount.toFixed(2)}
-                      </Typography>
+                      <Box sx={{ textAlign: 'right' }}>
+                        <Typography variant="body2" sx={{ fontWeight: 'medium' }}>
+                          {formatMoney(money(item.amount, getRecordCurrency(item)))}
+                        </Typography>
+                        <BaseAmountCaption amount={item.amount} currency={item.currency} date={getIncomeDate(item)} />
+                      </Box>
                     </Box>
                   ))}
                   <Typography variant="body2" sx={{ mt: 1, fontWeight: 'bold' }}>
-                    Total Income: ${totalIncome.toFixed(2)}
+                    Total Income: {formatCurrency(totalIncome)}
                   </Typography>
                 </Box>
               </Box>
             )}
           </Paper>
           
+          {/* Accounts */}
+          <NetWorthCard />
+          
+          {/* Budget Envelopes */}
+          {envelopeBalances.length > 0 && (
+            <Paper sx={{ p: 3, mb: 3 }}>
+              <Typography variant="h6" sx={{ mb: 2 }}>
+                Budget Envelopes
+              </Typography>
+              <EnvelopeBalanceList balances={envelopeBalances} />
+            </Paper>
+          )}
+          
           {/* Financial Summary Table */}
           <Paper sx={{ p: 3 }}>
             <Typography variant="h6" sx={{ mb: 2 }}>
@@ -0,0 +1,378 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  CircularProgress,
+  Container,
+  InputAdornment,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { format } from 'date-fns';
+import SidebarLayout from '@/components/SidebarLayout';
+import AccountSelect from '@/components/AccountSelect';
+import {
+  AccountRegisterEntry,
+  finishReconciliation,
+  getAccounts,
+  getClearedBalance,
+  getReconciliations,
+  getReconciliationWorksheet,
+  Reconciliation,
+  ReconcilableEntry,
+  ReconciliationWorksheet,
+  setEntryCleared,
+  undoReconciliation
+} from '@/firebase/services';
+import { isLiabilityAccount } from '@/utils/accounts';
+import { getRecordCurrency } from '@/utils/currency';
+import { formatMoney, getCurrencySymbol, money, parseMoney } from '@/utils/money';
+
+export default function ReconcilePage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+  const [accountId, setAccountId] = useState('');
+  const [statementDate, setStatementDate] = useState<Date | null>(new Date());
+  const [statementBalance, setStatementBalance] = useState('');
+  const [worksheet, setWorksheet] = useState<ReconciliationWorksheet | null>(null);
+  const [history, setHistory] = useState<Reconciliation[]>([]);
+  const [worksheetLoading, setWorksheetLoading] = useState(false);
+  const [finishing, setFinishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+
+    // Redirect if not authenticated
+    if (!loading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, loading, router]);
+
+  // Start with the first account selected
+  useEffect(() => {
+    if (!user || !mounted) return;
+
+    getAccounts()
+      .then(accounts => setAccountId(current => current || accounts[0]?.id || ''))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load accounts'));
+  }, [user, mounted]);
+
+  const fetchWorksheet = useCallback(async () => {
+    if (!accountId || !statementDate) {
+      setWorksheet(null);
+      setHistory([]);
+      return;
+    }
+
+    try {
+      setWorksheetLoading(true);
+      const [sheet, reconciliations] = await Promise.all([
+        getReconciliationWorksheet(accountId, statementDate),
+        getReconciliations(accountId)
+      ]);
+      setWorksheet(sheet);
+      setHistory(reconciliations);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the account');
+    } finally {
+      setWorksheetLoading(false);
+    }
+  }, [accountId, statementDate]);
+
+  useEffect(() => {
+    if (user && mounted) {
+      fetchWorksheet();
+    }
+  }, [fetchWorksheet, user, mounted]);
+
+  const currency = worksheet ? getRecordCurrency(worksheet.account) : getRecordCurrency({});
+  const isLiability = worksheet ? isLiabilityAccount(worksheet.account.type) : false;
+  const formatCurrency = (cents: number) => formatMoney(money(cents, currency));
+
+  // Credit card statements show the amount owed, which is stored as a negative balance
+  let statementCents: number | null = null;
+  try {
+    if (statementBalance) {
+      const cents = parseMoney(statementBalance, currency).cents;
+      statementCents = isLiability ? -cents : cents;
+    }
+  } catch {
+    statementCents = null;
+  }
+
+  const clearedBalance = worksheet ? getClearedBalance(worksheet) : 0;
+  const difference = statementCents === null ? null : statementCents - clearedBalance;
+
+  const handleToggle = async (entry: AccountRegisterEntry) => {
+    if (!worksheet) return;
+
+    const cleared = entry.status !== 'cleared';
+    const setStatus = (status: AccountRegisterEntry['status']) => {
+      setWorksheet(current => current && {
+        ...current,
+        entries: current.entries.map(item =>
+          item.id === entry.id && item.source === entry.source ? { ...item, status } : item
+        )
+      });
+    };
+
+    // Tick straight away and put it back if saving fails
+    setStatus(cleared ? 'cleared' : 'uncleared');
+    try {
+      await setEntryCleared(accountId, entry as ReconcilableEntry, cleared);
+    } catch (err) {
+      setStatus(entry.status);
+      setError(err instanceof Error ? err.message : 'Failed to update the entry');
+    }
+  };
+
+  const handleFinish = async () => {
+    if (!statementDate || statementCents === null) return;
+
+    try {
+      setFinishing(true);
+      setError(null);
+      await finishReconciliation(accountId, statementDate, statementCents);
+      setSuccess(`Reconciled to the statement ending ${format(statementDate, 'MMM dd, yyyy')}`);
+      setStatementBalance('');
+      await fetchWorksheet();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to finish reconciling');
+    } finally {
+      setFinishing(false);
+    }
+  };
+
+  const handleUndo = async (reconciliation: Reconciliation) => {
+    if (!window.confirm('Undo this reconciliation? Its items will go back to cleared.')) return;
+
+    try {
+      setError(null);
+      await undoReconciliation(reconciliation.id!);
+      setSuccess(null);
+      await fetchWorksheet();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo the reconciliation');
+    }
+  };
+
+  // Don't render anything on server to avoid hydration issues
+  if (!mounted) {
+    return null;
+  }
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Container>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Show content only if user is authenticated
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <SidebarLayout title="Reconcile">
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      <Paper sx={{ p: { xs: 2, sm: 3 }, mb: 3 }}>
+        <Typography variant="h6" sx={{ mb: 2 }}>
+          Statement
+        </Typography>
+        <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: 'repeat(3, 1fr)' }, gap: 2 }}>
+          <AccountSelect
+            value={accountId}
+            onChange={(id) => {
+              setAccountId(id);
+              setSuccess(null);
+            }}
+            allowNone={false}
+          />
+          <LocalizationProvider dateAdapter={AdapterDateFns}>
+            <DatePicker
+              label="Statement Ending Date"
+              value={statementDate}
+              onChange={(date: Date | null) => setStatementDate(date)}
+              slotProps={{ textField: { fullWidth: true } }}
+            />
+          </LocalizationProvider>
+          <TextField
+            label={isLiability ? 'Statement Balance Owed' : 'Statement Ending Balance'}
+            type="number"
+            inputProps={{ step: '0.01' }}
+            InputProps={{
+              startAdornment: <InputAdornment position="start">{getCurrencySymbol(currency)}</InputAdornment>
+            }}
+            value={statementBalance}
+            onChange={(e) => setStatementBalance(e.target.value)}
+            fullWidth
+          />
+        </Box>
+
+        {worksheet && (
+          <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: { xs: 2, sm: 4 }, mt: 3 }}>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Starting Balance</Typography>
+              <Typography variant="h6">{formatCurrency(worksheet.startingBalance)}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Cleared Balance</Typography>
+              <Typography variant="h6">{formatCurrency(clearedBalance)}</Typography>
+            </Box>
+            <Box>
+              <Typography variant="body2" color="text.secondary">Difference</Typography>
+              <Typography
+                variant="h6"
+                sx={{ color: difference === null ? 'text.secondary' : difference === 0 ? 'success.main' : 'error.main' }}
+              >
+                {difference === null ? '—' : formatCurrency(Math.abs(difference))}
+              </Typography>
+            </Box>
+            <Box sx={{ ml: 'auto', alignSelf: 'center' }}>
+              <Button
+                variant="contained"
+                onClick={handleFinish}
+                disabled={difference !== 0 || finishing}
+              >
+                {finishing ? 'Finishing...' : 'Finish Reconciling'}
+              </Button>
+            </Box>
+          </Box>
+        )}
+      </Paper>
+
+      <Paper sx={{ p: { xs: 1, sm: 2 }, mb: 3 }}>
+        <Typography variant="h6" sx={{ mb: 1, px: 1 }}>
+          Unreconciled Items
+        </Typography>
+        {worksheetLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : !worksheet ? (
+          <Typography color="text.secondary" sx={{ p: 2 }}>
+            Choose an account and statement date to start reconciling.
+          </Typography>
+        ) : worksheet.entries.length === 0 ? (
+          <Typography color="text.secondary" sx={{ p: 2 }}>
+            Nothing left to reconcile up to this date. Record bank activity, or mark income and expenses paid from this account, to reconcile it.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell padding="checkbox">Cleared</TableCell>
+                  <TableCell>Date</TableCell>
+                  <TableCell>Description</TableCell>
+                  <TableCell align="right">Amount</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {worksheet.entries.map(entry => (
+                  <TableRow
+                    key={`${entry.source}-${entry.id}`}
+                    hover
+                    onClick={() => handleToggle(entry)}
+                    sx={{ cursor: 'pointer' }}
+                  >
+                    <TableCell padding="checkbox">
+                      <Checkbox checked={entry.status === 'cleared'} />
+                    </TableCell>
+                    <TableCell>{format(entry.date, 'MMM dd, yyyy')}</TableCell>
+                    <TableCell>
+                      {entry.description}
+                      {entry.source !== 'transaction' && (
+                        <Typography component="span" variant="body2" color="text.secondary"> ({entry.source})</Typography>
+                      )}
+                    </TableCell>
+                    <TableCell align="right" sx={{ color: entry.amount < 0 ? 'error.main' : 'success.main' }}>
+                      {formatCurrency(entry.amount)}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Paper>
+
+      {history.length > 0 && (
+        <Paper sx={{ p: { xs: 1, sm: 2 } }}>
+          <Typography variant="h6" sx={{ mb: 1, px: 1 }}>
+            Past Reconciliations
+          </Typography>
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Statement Date</TableCell>
+                  <TableCell align="right">Statement Balance</TableCell>
+                  <TableCell align="right">Items</TableCell>
+                  <TableCell />
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {history.map((reconciliation, index) => (
+                  <TableRow key={reconciliation.id}>
+                    <TableCell>
+                      {format(
+                        reconciliation.statementDate instanceof Date
+                          ? reconciliation.statementDate
+                          : reconciliation.statementDate.toDate(),
+                        'MMM dd, yyyy'
+                      )}
+                    </TableCell>
+                    <TableCell align="right">{formatCurrency(reconciliation.statementBalance)}</TableCell>
+                    <TableCell align="right">{reconciliation.items.length}</TableCell>
+                    <TableCell align="right">
+                      {index === 0 && (
+                        <Button size="small" onClick={() => handleUndo(reconciliation)}>
+                          Undo
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        </Paper>
+      )}
+    </SidebarLayout>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useState } from 'react';
 import { useRouter } from 'next/navigation';
 import { useAuth } from '@/context/AuthContext';
+import { useHousehold } from '@/context/HouseholdContext';
 import { 
   Box, 
   CircularProgress, 
@@ -36,9 +37,20 @@ import {
   VisibilityOff,
 } from '@mui/icons-material';
 import SidebarLayout from '@/components/SidebarLayout';
+import CategoryManager from '@/components/CategoryManager';
+import HouseholdManager from '@/components/HouseholdManager';
+import CurrencySettings from '@/components/CurrencySettings';
+import DataExportPanel from '@/components/DataExportPanel';
+import BackupRestorePanel from '@/components/BackupRestorePanel';
+import SummaryRebuildPanel from '@/components/SummaryRebuildPanel';
+import TwoFactorSettings from '@/components/TwoFactorSettings';
+import DeleteAccountDialog from '@/components/DeleteAccountDialog';
+import { getTotpFactors, hasPasswordSignIn } from '@/firebase/auth';
+import { getInitials } from '@/utils/profile';
 
 export default function SettingsPage() {
-  const { user, loading, logOut, error, changePassword, clearError } = useAuth();
+  const { user, loading, logOut, error, changePassword, updateDisplayName, changeEmail, clearError } = useAuth();
+  const { canEdit } = useHousehold();
   const router = useRouter();
   const [mounted, setMounted] = useState(false);
   const [displayName, setDisplayName] = useState('');
@@ -51,9 +63,19 @@ export default function SettingsPage() {
   const [currentPassword, setCurrentPassword] = useState('');
   const [newPassword, setNewPassword] = useState('');
   const [confirmPassword, setConfirmPassword] = useState('');
+  // Needed to re-authenticate when two-step verification is on
+  const [passwordTotpCode, setPasswordTotpCode] = useState('');
   const [passwordError, setPasswordError] = useState('');
   const [showCurrentPassword, setShowCurrentPassword] = useState(false);
   const [showNewPassword, setShowNewPassword] = useState(false);
+  
+  // Email change states
+  const [emailDialogOpen, setEmailDialogOpen] = useState(false);
+  const [newEmail, setNewEmail] = useState('');
+  const [emailPassword, setEmailPassword] = useState('');
+  const [emailTotpCode, setEmailTotpCode] = useState('');
+  
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
   useEffect(() => {
     setMounted(true);
@@ -69,11 +91,40 @@ export default function SettingsPage() {
     }
   }, [user, loading, router]);
 
-  const handleSaveProfile = () => {
-    // In a real app, would update user profile here
+  const handleSaveProfile = async () => {
+    try {
+      await updateDisplayName(displayName);
+      setIsEditing(false);
+      setSuccessMessage('Profile updated successfully!');
+      setShowSuccess(true);
+    } catch {
+      // Error handling is done in the AuthContext
+    }
+  };
+  
+  const handleCancelEdit = () => {
+    setDisplayName(user?.displayName || '');
     setIsEditing(false);
-    setSuccessMessage('Profile updated successfully!');
-    setShowSuccess(true);
+    clearError();
+  };
+  
+  const handleOpenEmailDialog = () => {
+    clearError();
+    setNewEmail('');
+    setEmailPassword('');
+    setEmailTotpCode('');
+    setEmailDialogOpen(true);
+  };
+  
+  const handleChangeEmail = async () => {
+    try {
+      await changeEmail(newEmail, emailPassword, emailTotpCode || undefined);
+      setEmailDialogOpen(false);
+      setSuccessMessage(`We sent a link to ${newEmail.trim()}. Your email address changes once you open it.`);
+      setShowSuccess(true);
+    } catch {
+      // Error handling is done in the AuthContext
+    }
   };
 
   const handleLogout = async () => {
@@ -82,9 +133,7 @@ export default function SettingsPage() {
   };
 
   const handleDeleteAccount = () => {
-    // In a real app, would implement account deletion here
-    setSuccessMessage('Account deletion is not implemented in this demo.');
-    setShowSuccess(true);
+    setDeleteDialogOpen(true);
   };
 
   const handleOpenPasswordDialog = () => {
@@ -93,6 +142,7 @@ export default function SettingsPage() {
     setCurrentPassword('');
     setNewPassword('');
     setConfirmPassword('');
+    setPasswordTotpCode('');
     setPasswordDialogOpen(true);
   };
 
@@ -135,7 +185,7 @@ export default function SettingsPage() {
     }
     
     try {
-      await changePassword(currentPassword, newPassword);
+      await changePassword(currentPassword, newPassword, passwordTotpCode || undefined);
       handleClosePasswordDialog();
       setSuccessMessage('Password changed successfully!');
       setShowSuccess(true);
@@ -178,7 +228,7 @@ export default function SettingsPage() {
                 bgcolor: 'primary.main'
               }}
             >
-              {user?.displayName ? user.displayName[0].toUpperCase() : user?.email?.[0].toUpperCase()}
+              {getInitials(isEditing ? displayName : user?.displayName, user?.email)}
             </Avatar>
             <Box>
               {isEditing ? (
@@ -198,7 +248,7 @@ export default function SettingsPage() {
                   </Button>
                   <Button 
                     variant="outlined" 
-                    onClick={() => setIsEditing(false)}
+                    onClick={handleCancelEdit}
                     size="small"
                   >
                     Cancel
@@ -216,16 +266,54 @@ export default function SettingsPage() {
                     variant="outlined" 
                     size="small" 
                     onClick={() => setIsEditing(true)}
-                    sx={{ mt: 1 }}
+                    sx={{ mt: 1, mr: 1 }}
                   >
                     Edit Profile
                   </Button>
+                  <Button 
+                    variant="outlined" 
+                    size="small" 
+                    onClick={handleOpenEmailDialog}
+                    sx={{ mt: 1 }}
+                  >
+                    Change Email
+                  </Button>
                 </>
               )}
             </Box>
           </Box>
         </Paper>
         
+        <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+          <TwoFactorSettings />
+        </Paper>
+        
+        <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+          <HouseholdManager />
+        </Paper>
+        
+        <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+          <CategoryManager />
+        </Paper>
+        
+        <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+          <CurrencySettings />
+        </Paper>
+        
+        <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+          <DataExportPanel />
+        </Paper>
+        
+        <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+          <BackupRestorePanel />
+        </Paper>
+        
+        {canEdit && (
+          <Paper sx={{ p: 3, mb: 3, borderRadius: 2 }}>
+            <SummaryRebuildPanel />
+          </Paper>
+        )}
+        
         <Paper sx={{ borderRadius: 2 }}>
           <List>
             <Divider />
@@ -252,7 +340,7 @@ export default function SettingsPage() {
               </ListItemIcon>
               <ListItemText 
                 primary="Security" 
-                secondary="Change password and security settings"
+                secondary="Change your password. Two-step verification is set up above."
               />
               <Button 
                 variant="outlined" 
@@ -386,6 +474,19 @@ export default function SettingsPage() {
               margin="normal"
               variant="outlined"
             />
+            
+            {user && getTotpFactors(user).length > 0 && (
+              <TextField
+                label="Authentication Code"
+                fullWidth
+                value={passwordTotpCode}
+                onChange={(e) => setPasswordTotpCode(e.target.value)}
+                margin="normal"
+                variant="outlined"
+                autoComplete="one-time-code"
+                helperText="The 6-digit code from your authenticator app"
+              />
+            )}
           </Box>
         </DialogContent>
         <DialogActions>
@@ -400,6 +501,79 @@ export default function SettingsPage() {
         </DialogActions>
       </Dialog>
       
+      {/* Email Change Dialog */}
+      <Dialog 
+        open={emailDialogOpen}
+        onClose={() => setEmailDialogOpen(false)}
+        fullWidth
+        maxWidth="sm"
+      >
+        <DialogTitle sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          Change Email
+          <IconButton onClick={() => setEmailDialogOpen(false)}>
+            <CloseIcon />
+          </IconButton>
+        </DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+          <Typography variant="body2" color="text.secondary">
+            We&apos;ll send a link to the new address. You keep signing in with {user.email} until you open it.
+          </Typography>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, my: 1 }}>
+            <TextField
+              label="New Email Address"
+              type="email"
+              fullWidth
+              value={newEmail}
+              onChange={(e) => setNewEmail(e.target.value)}
+              margin="normal"
+              variant="outlined"
+            />
+            
+            {hasPasswordSignIn(user) && (
+              <TextField
+                label="Current Password"
+                type="password"
+                fullWidth
+                value={emailPassword}
+                onChange={(e) => setEmailPassword(e.target.value)}
+                margin="normal"
+                variant="outlined"
+              />
+            )}
+            
+            {getTotpFactors(user).length > 0 && (
+              <TextField
+                label="Authentication Code"
+                fullWidth
+                value={emailTotpCode}
+                onChange={(e) => setEmailTotpCode(e.target.value)}
+                margin="normal"
+                variant="outlined"
+                autoComplete="one-time-code"
+                helperText="The 6-digit code from your authenticator app"
+              />
+            )}
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEmailDialogOpen(false)}>Cancel</Button>
+          <Button 
+            variant="contained" 
+            onClick={handleChangeEmail}
+            disabled={loading || !newEmail.trim()}
+          >
+            {loading ? 'Sending...' : 'Send Link'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+      
+      <DeleteAccountDialog open={deleteDialogOpen} onClose={() => setDeleteDialogOpen(false)} />
+      
       <Snackbar 
         open={showSuccess} 
         autoHideDuration={6000} 
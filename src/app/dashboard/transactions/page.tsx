@@ -0,0 +1,94 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import { 
+  Box, 
+  CircularProgress, 
+  Container, 
+  Typography, 
+  Paper
+} from '@mui/material';
+import dynamic from 'next/dynamic';
+import SidebarLayout from '@/components/SidebarLayout';
+import { Transaction } from '@/firebase/services';
+
+// Import components dynamically with client-side only rendering
+const TransactionForm = dynamic(() => import('@/components/TransactionForm'), { ssr: false });
+const TransactionList = dynamic(() => import('@/components/TransactionList'), { ssr: false });
+
+export default function TransactionsPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+  const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [editingTransaction, setEditingTransaction] = useState<Transaction | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+    
+    // Redirect if not authenticated
+    if (!loading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, loading, router]);
+
+  const handleEdit = (transaction: Transaction) => {
+    setEditingTransaction(transaction);
+    // Scroll to the form
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleSuccess = () => {
+    setRefreshTrigger(trigger => trigger + 1);
+    setEditingTransaction(null);
+  };
+
+  // Don't render anything on server to avoid hydration issues
+  if (!mounted) {
+    return null;
+  }
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Container>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Show content only if user is authenticated
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <SidebarLayout title="Transactions">
+      <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 3, width: '100%', maxWidth: '100vw', padding: { xs: 1, sm: 2 }, overflowX: 'auto', minWidth: 0 }}>
+        <Box sx={{ width: '100%', maxWidth: '100%' }}>
+          <Typography variant="h5" sx={{ mb: 3, fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+            {editingTransaction ? 'Edit Transaction' : 'Add Transaction'}
+          </Typography>
+          <Paper sx={{ p: { xs: 2, sm: 3 } }}>
+            <TransactionForm
+              onSuccess={handleSuccess}
+              onCancel={() => setEditingTransaction(null)}
+              initialTransaction={editingTransaction}
+            />
+          </Paper>
+        </Box>
+        
+        <Box sx={{ width: '100%', maxWidth: '100%' }}>
+          <Typography variant="h5" sx={{ mb: 2, fontSize: { xs: '1.2rem', sm: '1.5rem' } }}>
+            Ledger
+          </Typography>
+          <TransactionList refreshTrigger={refreshTrigger} onEdit={handleEdit} />
+        </Box>
+      </Box>
+    </SidebarLayout>
+  );
+}
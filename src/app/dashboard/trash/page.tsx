@@ -0,0 +1,265 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { useAuth } from '@/context/AuthContext';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Container,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Paper,
+  Select,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  DeleteForever as DeleteForeverIcon,
+  RestoreFromTrash as RestoreIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import SidebarLayout from '@/components/SidebarLayout';
+import {
+  emptyTrash,
+  getTrash,
+  getTrashRetention,
+  purgeDeletion,
+  restoreDeletion,
+  TrashEntry,
+  TrashItem,
+  updateTrashRetention
+} from '@/firebase/services';
+import { getRecordCurrency } from '@/utils/currency';
+import { formatMoney, money } from '@/utils/money';
+
+const retentionOptions = [7, 14, 30, 60, 90];
+
+const trashItemLabels: Record<TrashItem['kind'], string> = {
+  income: 'Income',
+  expense: 'Expense',
+  transaction: 'Transaction',
+  series: 'Recurring series'
+};
+
+export default function TrashPage() {
+  const { user, loading } = useAuth();
+  const router = useRouter();
+  const [mounted, setMounted] = useState(false);
+  const [entries, setEntries] = useState<TrashEntry[]>([]);
+  const [retentionDays, setRetentionDays] = useState<number | null>(null);
+  const [trashLoading, setTrashLoading] = useState(true);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  useEffect(() => {
+    setMounted(true);
+
+    // Redirect if not authenticated
+    if (!loading && !user) {
+      router.push('/auth/login');
+    }
+  }, [user, loading, router]);
+
+  const fetchTrash = useCallback(async () => {
+    try {
+      setTrashLoading(true);
+      const [trash, days] = await Promise.all([getTrash(), getTrashRetention()]);
+      setEntries(trash);
+      setRetentionDays(days);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the trash');
+    } finally {
+      setTrashLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (user && mounted) {
+      fetchTrash();
+    }
+  }, [fetchTrash, user, mounted]);
+
+  const runAction = async (action: () => Promise<string | void>) => {
+    try {
+      setWorking(true);
+      setError(null);
+      setNotice(null);
+      const message = await action();
+      if (message) setNotice(message);
+      await fetchTrash();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = (entry: TrashEntry) => runAction(async () => {
+    const restored = await restoreDeletion(entry.deletionId);
+    return `Restored ${restored} ${restored === 1 ? 'item' : 'items'}`;
+  });
+
+  const handlePurge = (entry: TrashEntry) => {
+    if (window.confirm('Permanently delete these items? This cannot be undone.')) {
+      runAction(() => purgeDeletion(entry.deletionId));
+    }
+  };
+
+  const handleEmptyTrash = () => {
+    if (window.confirm('Permanently delete everything in the trash? This cannot be undone.')) {
+      runAction(emptyTrash);
+    }
+  };
+
+  const handleRetentionChange = (days: number) => runAction(async () => {
+    await updateTrashRetention(days);
+    return `Deleted items are now kept for ${days} days`;
+  });
+
+  const describeItem = (item: TrashItem): string => {
+    const amount = item.amount ? formatMoney(money(item.amount, getRecordCurrency(item))) : '';
+    return [trashItemLabels[item.kind], format(item.date, 'MMM d, yyyy'), amount].filter(Boolean).join(' • ');
+  };
+
+  // Don't render anything on server to avoid hydration issues
+  if (!mounted) {
+    return null;
+  }
+
+  // Show loading spinner while checking authentication
+  if (loading) {
+    return (
+      <Container>
+        <Box sx={{ display: 'flex', justifyContent: 'center', alignItems: 'center', height: '100vh' }}>
+          <CircularProgress />
+        </Box>
+      </Container>
+    );
+  }
+
+  // Show content only if user is authenticated
+  if (!user) {
+    return null; // Will redirect in useEffect
+  }
+
+  return (
+    <SidebarLayout title="Trash">
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 2 }}>
+        <Typography variant="body2" color="text.secondary" sx={{ maxWidth: 520 }}>
+          Deleted income, expenses and transactions stay here until they are restored or the retention period runs out.
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+          <FormControl size="small" sx={{ minWidth: 140 }}>
+            <InputLabel>Keep for</InputLabel>
+            <Select
+              value={retentionDays ?? ''}
+              label="Keep for"
+              onChange={(e) => handleRetentionChange(Number(e.target.value))}
+              disabled={working || retentionDays === null}
+            >
+              {/* Keep a custom value selectable if one was set elsewhere */}
+              {Array.from(new Set([...retentionOptions, ...(retentionDays ? [retentionDays] : [])]))
+                .sort((a, b) => a - b)
+                .map(days => (
+                  <MenuItem key={days} value={days}>
+                    {days} days
+                  </MenuItem>
+                ))}
+            </Select>
+          </FormControl>
+          <Button
+            variant="outlined"
+            color="error"
+            startIcon={<DeleteForeverIcon />}
+            onClick={handleEmptyTrash}
+            disabled={working || entries.length === 0}
+          >
+            Empty Trash
+          </Button>
+        </Box>
+      </Box>
+
+      <Paper>
+        {trashLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        ) : entries.length === 0 ? (
+          <Typography color="text.secondary" sx={{ p: 3, textAlign: 'center' }}>
+            The trash is empty
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {entries.map(entry => {
+              const [first, ...rest] = entry.items;
+              return (
+                <ListItem
+                  key={entry.deletionId}
+                  divider
+                  secondaryAction={
+                    <Box>
+                      <Tooltip title="Restore">
+                        <span>
+                          <IconButton onClick={() => handleRestore(entry)} disabled={working}>
+                            <RestoreIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                      <Tooltip title="Delete forever">
+                        <span>
+                          <IconButton onClick={() => handlePurge(entry)} disabled={working}>
+                            <DeleteForeverIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </Box>
+                  }
+                  sx={{ pr: 14 }}
+                >
+                  <ListItemText
+                    primary={
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+                        {first.description}
+                        {rest.length > 0 && (
+                          <Chip size="small" variant="outlined" label={`+${rest.length} more`} />
+                        )}
+                      </Box>
+                    }
+                    secondary={
+                      <>
+                        {describeItem(first)}
+                        <br />
+                        Deleted {format(entry.deletedAt, 'MMM d, yyyy')} • Removed for good on {format(entry.purgeAt, 'MMM d, yyyy')}
+                      </>
+                    }
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+        )}
+      </Paper>
+    </SidebarLayout>
+  );
+}
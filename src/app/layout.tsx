@@ -37,13 +37,6 @@ export default function RootLayout({
       setIsDarkMode(prefersDark);
     }
     
-    // Check for existing auth token and ensure cookie is set
-    const storedToken = localStorage.getItem('firebaseToken');
-    if (storedToken) {
-      console.log("Root: Found stored token, setting session cookie");
-      document.cookie = `__session=${storedToken}; path=/; max-age=86400; SameSite=Strict`;
-    }
-    
     // Register service worker for PWA
     registerServiceWorker();
     
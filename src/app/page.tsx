@@ -10,13 +10,6 @@ export default function Home() {
   const router = useRouter();
 
   useEffect(() => {
-    // First, check for existing token
-    const storedToken = typeof window !== 'undefined' ? localStorage.getItem('firebaseToken') : null;
-    
-    if (storedToken) {
-      document.cookie = `__session=${storedToken}; path=/; max-age=86400; SameSite=Strict`;
-    }
-    
     // Immediate redirect based on auth state - don't wait for a delay
     if (!loading) {
       if (user) {
@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputAdornment,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { Account, addOrUpdateAccount } from '@/firebase/services';
+import { accountTypeLabels, AccountType, isLiabilityAccount } from '@/utils/accounts';
+import { getRecordCurrency } from '@/utils/currency';
+import { getCurrencySymbol, money, parseMoney, toInputValue } from '@/utils/money';
+import { useCurrency } from '@/context/CurrencyContext';
+import CurrencySelect from './CurrencySelect';
+
+interface AccountFormProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved?: (accountId: string) => void;
+  initialAccount?: Account | null;
+}
+
+const AccountForm: React.FC<AccountFormProps> = ({ open, onClose, onSaved, initialAccount }) => {
+  const { baseCurrency } = useCurrency();
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('checking');
+  const [institution, setInstitution] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [openingBalance, setOpeningBalance] = useState('');
+  const [openingDate, setOpeningDate] = useState<Date | null>(new Date());
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load the account being edited each time the dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    if (initialAccount) {
+      const accountCurrency = getRecordCurrency(initialAccount);
+      // Credit card balances are entered as the amount owed
+      const shown = isLiabilityAccount(initialAccount.type) ? -initialAccount.openingBalance : initialAccount.openingBalance;
+      setName(initialAccount.name);
+      setType(initialAccount.type);
+      setInstitution(initialAccount.institution || '');
+      setCurrency(accountCurrency);
+      setOpeningBalance(toInputValue(money(shown, accountCurrency)));
+      setOpeningDate(initialAccount.openingDate instanceof Date ? initialAccount.openingDate : initialAccount.openingDate.toDate());
+    } else {
+      setName('');
+      setType('checking');
+      setInstitution('');
+      setCurrency(baseCurrency);
+      setOpeningBalance('');
+      setOpeningDate(new Date());
+    }
+    setError(null);
+  }, [open, initialAccount, baseCurrency]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim() || !openingDate) {
+      setError('Please fill all required fields');
+      return;
+    }
+
+    let openingCents = 0;
+    try {
+      openingCents = openingBalance ? parseMoney(openingBalance, currency).cents : 0;
+    } catch {
+      setError('Opening balance must be a number');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+
+      const id = await addOrUpdateAccount({
+        name,
+        type,
+        institution,
+        currency,
+        openingBalance: isLiabilityAccount(type) ? -openingCents : openingCents,
+        openingDate,
+        archived: initialAccount?.archived || false
+      }, initialAccount?.id);
+
+      if (onSaved) onSaved(id);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save account');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <Box component="form" onSubmit={handleSubmit}>
+        <DialogTitle>{initialAccount ? 'Edit Account' : 'Add Account'}</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Joint Checking"
+              required
+              fullWidth
+            />
+
+            <FormControl fullWidth>
+              <InputLabel>Type</InputLabel>
+              <Select value={type} label="Type" onChange={(e) => setType(e.target.value as AccountType)}>
+                {Object.entries(accountTypeLabels).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <TextField
+              label="Institution"
+              value={institution}
+              onChange={(e) => setInstitution(e.target.value)}
+              placeholder="Bank or card issuer"
+              fullWidth
+            />
+
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                label={isLiabilityAccount(type) ? 'Opening Amount Owed' : 'Opening Balance'}
+                type="number"
+                inputProps={{ step: '0.01' }}
+                InputProps={{
+                  startAdornment: <InputAdornment position="start">{getCurrencySymbol(currency)}</InputAdornment>
+                }}
+                value={openingBalance}
+                onChange={(e) => setOpeningBalance(e.target.value)}
+                fullWidth
+              />
+              <Box sx={{ width: 140, flexShrink: 0 }}>
+                <CurrencySelect value={currency} onChange={setCurrency} />
+              </Box>
+            </Box>
+
+            <LocalizationProvider dateAdapter={AdapterDateFns}>
+              <DatePicker
+                label="Balance As Of"
+                value={openingDate}
+                onChange={(date: Date | null) => setOpeningDate(date)}
+                slotProps={{ textField: { fullWidth: true, required: true } }}
+              />
+            </LocalizationProvider>
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default AccountForm;
@@ -0,0 +1,122 @@
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  Chip,
+  CircularProgress,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Delete as DeleteIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import { AccountRegisterEntry } from '@/firebase/services';
+import { clearedStatusLabels } from '@/utils/accounts';
+import { formatMoney, money } from '@/utils/money';
+
+interface AccountRegisterProps {
+  entries: AccountRegisterEntry[];
+  currency: string;
+  loading?: boolean;
+  onDeleteTransfer?: (transferId: string) => void;
+}
+
+const sourceLabels: Record<AccountRegisterEntry['source'], string> = {
+  opening: 'Opening',
+  transaction: 'Transaction',
+  income: 'Income',
+  expense: 'Expense',
+  transfer: 'Transfer'
+};
+
+const AccountRegister: React.FC<AccountRegisterProps> = ({ entries, currency, loading = false, onDeleteTransfer }) => {
+  const formatCurrency = (cents: number): string => {
+    return formatMoney(money(cents, currency));
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight={120}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight={120}>
+        <Typography variant="body1" color="text.secondary">
+          Select an account to see its register
+        </Typography>
+      </Box>
+    );
+  }
+
+  // Newest entries first; balances were computed oldest first
+  const rows = [...entries].reverse();
+
+  return (
+    <TableContainer>
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Date</TableCell>
+            <TableCell>Description</TableCell>
+            <TableCell>Type</TableCell>
+            <TableCell>Status</TableCell>
+            <TableCell align="right">Amount</TableCell>
+            <TableCell align="right">Balance</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map((entry, index) => (
+            <TableRow key={`${entry.source}-${entry.id}-${index}`}>
+              <TableCell>{format(entry.date, 'MMM dd, yyyy')}</TableCell>
+              <TableCell>{entry.description}</TableCell>
+              <TableCell>
+                <Chip
+                  size="small"
+                  variant="outlined"
+                  label={sourceLabels[entry.source]}
+                  color={entry.source === 'transfer' ? 'info' : 'default'}
+                />
+              </TableCell>
+              <TableCell>
+                {entry.status && entry.status !== 'uncleared' && (
+                  <Typography variant="body2" color={entry.status === 'reconciled' ? 'success.main' : 'text.secondary'}>
+                    {clearedStatusLabels[entry.status]}
+                  </Typography>
+                )}
+              </TableCell>
+              <TableCell align="right" sx={{ color: entry.amount < 0 ? 'error.main' : 'success.main' }}>
+                {formatCurrency(entry.amount)}
+              </TableCell>
+              <TableCell align="right" sx={{ fontWeight: 'bold' }}>
+                {formatCurrency(entry.balance)}
+              </TableCell>
+              <TableCell align="right">
+                {entry.source === 'transfer' && entry.status !== 'reconciled' && onDeleteTransfer && (
+                  <Tooltip title="Delete transfer">
+                    <IconButton size="small" onClick={() => onDeleteTransfer(entry.id)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default AccountRegister;
@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { FormControl, FormHelperText, InputLabel, MenuItem, Select } from '@mui/material';
+import { Account, getAccounts } from '@/firebase/services';
+import { accountTypeLabels } from '@/utils/accounts';
+
+interface AccountSelectProps {
+  value: string;
+  onChange: (accountId: string) => void;
+  label?: string;
+  allowNone?: boolean;
+  excludeId?: string;  // e.g. the other side of a transfer
+  required?: boolean;
+  disabled?: boolean;
+  size?: 'small' | 'medium';
+  helperText?: string;
+}
+
+const AccountSelect: React.FC<AccountSelectProps> = ({
+  value,
+  onChange,
+  label = 'Account',
+  allowNone = true,
+  excludeId,
+  required = false,
+  disabled = false,
+  size = 'medium',
+  helperText
+}) => {
+  const [accounts, setAccounts] = useState<Account[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    // Archived accounts are loaded so records that still use one keep showing it
+    getAccounts(true)
+      .then(items => {
+        if (!cancelled) setAccounts(items);
+      })
+      .catch(error => {
+        console.error('Error loading accounts:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const options = accounts.filter(account => account.id !== excludeId && (!account.archived || account.id === value));
+  const known = !value || options.some(account => account.id === value);
+
+  return (
+    <FormControl fullWidth required={required} disabled={disabled} size={size}>
+      <InputLabel>{label}</InputLabel>
+      <Select value={known ? value : ''} label={label} onChange={(e) => onChange(e.target.value)}>
+        {allowNone && (
+          <MenuItem value="">
+            <em>No account</em>
+          </MenuItem>
+        )}
+        {options.map(account => (
+          <MenuItem key={account.id} value={account.id}>
+            {account.name} ({accountTypeLabels[account.type]})
+          </MenuItem>
+        ))}
+      </Select>
+      {helperText && <FormHelperText>{helperText}</FormHelperText>}
+    </FormControl>
+  );
+};
+
+export default AccountSelect;
@@ -0,0 +1,263 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Backup as BackupIcon,
+  FactCheck as FactCheckIcon,
+  Restore as RestoreIcon,
+  UploadFile as UploadFileIcon
+} from '@mui/icons-material';
+import { format } from 'date-fns';
+import { createBackup, previewRestore, restoreBackup } from '@/firebase/services';
+import { downloadFile } from '@/utils/dataExport';
+import {
+  BackupArchive,
+  backupCollectionLabels,
+  readBackupArchive,
+  RestoreMode,
+  RestoreReport
+} from '@/utils/backup';
+
+const BackupRestorePanel: React.FC = () => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [archive, setArchive] = useState<BackupArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [overwriteConflicts, setOverwriteConflicts] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleBackup = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      setNotice(null);
+      const backup = await createBackup();
+      downloadFile(`budget-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+      const total = Object.values(backup.collections).reduce((sum, records) => sum + (records?.length || 0), 0);
+      setNotice(`Backed up ${total} records`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create the backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setReport(null);
+    setNotice(null);
+    try {
+      setArchive(readBackupArchive(await file.text()));
+      setFileName(file.name);
+      setError(null);
+    } catch (err) {
+      setArchive(null);
+      setFileName('');
+      setError(err instanceof Error ? err.message : 'Failed to read the backup');
+    }
+  };
+
+  // Any change to the options makes the last dry run out of date
+  const handleModeChange = (value: RestoreMode) => {
+    setMode(value);
+    setReport(null);
+  };
+
+  const handleConflictChange = (value: boolean) => {
+    setOverwriteConflicts(value);
+    setReport(null);
+  };
+
+  const handleCheck = async () => {
+    if (!archive) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setReport(await previewRestore(archive, mode, overwriteConflicts));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to check the backup');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!archive || !report) return;
+
+    const warning = mode === 'replace'
+      ? 'Replace your data with this backup? Records that are not in the backup will be deleted.'
+      : 'Merge this backup into your data?';
+    if (!window.confirm(warning)) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      await restoreBackup(archive, mode, overwriteConflicts);
+      // Reload so every page picks up the restored data and settings
+      window.location.reload();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to restore the backup');
+      setWorking(false);
+    }
+  };
+
+  const hasChanges = !!report && report.collections.some(item =>
+    item.added > 0 || item.overwritten > 0 || item.deleted > 0
+  );
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Backup &amp; Restore
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        A backup holds everything in your account: settings, categories, accounts, recurring items and all of your records.
+        Older JSON exports can be restored too.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+        <Button variant="contained" startIcon={<BackupIcon />} onClick={handleBackup} disabled={working}>
+          Download Backup
+        </Button>
+        <Button variant="outlined" startIcon={<UploadFileIcon />} onClick={() => fileInputRef.current?.click()} disabled={working}>
+          Choose Backup File
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={handleFileChange}
+        />
+      </Box>
+
+      {archive && (
+        <Box>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            {fileName}: backup from {format(new Date(archive.createdAt), 'MMM d, yyyy')}
+          </Typography>
+
+          <Box sx={{ display: 'flex', gap: 4, flexWrap: 'wrap', mb: 2 }}>
+            <FormControl>
+              <FormLabel>Restore mode</FormLabel>
+              <RadioGroup value={mode} onChange={(e) => handleModeChange(e.target.value as RestoreMode)}>
+                <FormControlLabel value="merge" control={<Radio size="small" />} label="Merge with my data" />
+                <FormControlLabel value="replace" control={<Radio size="small" />} label="Replace my data" />
+              </RadioGroup>
+            </FormControl>
+
+            {mode === 'merge' && (
+              <FormControl>
+                <FormLabel>When a record differs</FormLabel>
+                <RadioGroup
+                  value={overwriteConflicts ? 'backup' : 'mine'}
+                  onChange={(e) => handleConflictChange(e.target.value === 'backup')}
+                >
+                  <FormControlLabel value="mine" control={<Radio size="small" />} label="Keep mine" />
+                  <FormControlLabel value="backup" control={<Radio size="small" />} label="Use the backup's" />
+                </RadioGroup>
+              </FormControl>
+            )}
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+            <Button variant="outlined" startIcon={<FactCheckIcon />} onClick={handleCheck} disabled={working}>
+              Check
+            </Button>
+            <Button
+              variant="contained"
+              color={mode === 'replace' ? 'error' : 'primary'}
+              startIcon={<RestoreIcon />}
+              onClick={handleRestore}
+              disabled={working || !hasChanges}
+            >
+              Restore
+            </Button>
+            {working && <CircularProgress size={24} sx={{ alignSelf: 'center' }} />}
+          </Box>
+
+          {report && (
+            <>
+              {!hasChanges && (
+                <Alert severity="info" sx={{ mb: 2 }}>
+                  Restoring this backup would not change anything.
+                </Alert>
+              )}
+              <TableContainer>
+                <Table size="small">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell>Data</TableCell>
+                      <TableCell align="right">Added</TableCell>
+                      <TableCell align="right">Unchanged</TableCell>
+                      <TableCell align="right">Differ</TableCell>
+                      <TableCell align="right">Overwritten</TableCell>
+                      <TableCell align="right">Deleted</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {report.collections.map(item => (
+                      <TableRow key={item.collection}>
+                        <TableCell>{backupCollectionLabels[item.collection]}</TableCell>
+                        <TableCell align="right">{item.added}</TableCell>
+                        <TableCell align="right">{item.unchanged}</TableCell>
+                        <TableCell align="right">
+                          {item.conflicts.length > 0 ? (
+                            <Tooltip title={item.conflicts.slice(0, 10).join(', ') + (item.conflicts.length > 10 ? ', …' : '')}>
+                              <span>{item.conflicts.length}</span>
+                            </Tooltip>
+                          ) : 0}
+                        </TableCell>
+                        <TableCell align="right">{item.overwritten}</TableCell>
+                        <TableCell align="right">{item.deleted}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </TableContainer>
+            </>
+          )}
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default BackupRestorePanel;
@@ -0,0 +1,38 @@
+'use client';
+
+import React from 'react';
+import { Typography, TypographyProps } from '@mui/material';
+import { Timestamp } from 'firebase/firestore';
+import { useCurrency } from '@/context/CurrencyContext';
+import { getRecordCurrency } from '@/utils/currency';
+import { formatMoney, money } from '@/utils/money';
+
+interface BaseAmountCaptionProps extends Omit<TypographyProps, 'children'> {
+  amount: number;  // Integer cents in the record's currency
+  currency?: string;
+  date?: Date | Timestamp;
+}
+
+// Shows a foreign-currency amount converted to the base currency, e.g. "≈ $54.10".
+// Renders nothing for amounts already in the base currency.
+const BaseAmountCaption: React.FC<BaseAmountCaptionProps> = ({ amount, currency, date, ...typographyProps }) => {
+  const { baseCurrency, toBaseOrNull } = useCurrency();
+  const recordCurrency = getRecordCurrency({ currency });
+
+  if (recordCurrency === baseCurrency) {
+    return null;
+  }
+
+  const converted = toBaseOrNull(
+    money(amount, recordCurrency),
+    date ? (date instanceof Date ? date : date.toDate()) : new Date()
+  );
+
+  return (
+    <Typography variant="caption" color="text.secondary" display="block" {...typographyProps}>
+      {converted ? `≈ ${formatMoney(converted)}` : `No ${recordCurrency}→${baseCurrency} rate`}
+    </Typography>
+  );
+};
+
+export default BaseAmountCaption;
@@ -0,0 +1,294 @@
+'use client';
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  FormControl,
+  FormControlLabel,
+  InputLabel,
+  MenuItem,
+  Select,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  CartesianGrid,
+  Line,
+  LineChart,
+  ReferenceDot,
+  ReferenceLine,
+  ResponsiveContainer,
+  Tooltip,
+  XAxis,
+  YAxis
+} from 'recharts';
+import { format } from 'date-fns';
+import { ForecastInputs, getForecastInputs } from '@/firebase/services';
+import { useCurrency } from '@/context/CurrencyContext';
+import { buildCashFlowForecast, MAX_FORECAST_MONTHS, MIN_FORECAST_MONTHS } from '@/utils/forecast';
+import { fromDateKey } from '@/utils/recurrence';
+import { formatMoney, money, parseMoney, toInputValue, toMajorUnits } from '@/utils/money';
+
+// Number of items listed for each dip before the rest are summed up
+const MAX_CAUSES_SHOWN = 4;
+
+const monthOptions = Array.from(
+  { length: MAX_FORECAST_MONTHS - MIN_FORECAST_MONTHS + 1 },
+  (_, i) => MIN_FORECAST_MONTHS + i
+);
+
+const CashFlowForecast: React.FC = () => {
+  const { baseCurrency } = useCurrency();
+  const [inputs, setInputs] = useState<ForecastInputs | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [months, setMonths] = useState(6);
+  const [startingBalance, setStartingBalance] = useState('');
+  const [includeVariableSpend, setIncludeVariableSpend] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getForecastInputs()
+      .then(result => {
+        if (cancelled) return;
+        setInputs(result);
+        setStartingBalance(toInputValue(money(result.startingBalance, result.currency)));
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading forecast:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load the forecast');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [baseCurrency]);
+
+  // A balance that can't be parsed leaves the last forecast in place
+  const parsedBalance = useMemo(() => {
+    if (!inputs) return null;
+    try {
+      return parseMoney(startingBalance, inputs.currency).cents;
+    } catch {
+      return null;
+    }
+  }, [startingBalance, inputs]);
+
+  const forecast = useMemo(() => {
+    if (!inputs) return null;
+    return buildCashFlowForecast({
+      startDate: new Date(),
+      months,
+      startingBalance: parsedBalance ?? inputs.startingBalance,
+      items: inputs.items,
+      variableSpend: includeVariableSpend ? inputs.variableSpend : []
+    });
+  }, [inputs, months, parsedBalance, includeVariableSpend]);
+
+  if (loading) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 8 }}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (error || !inputs || !forecast) {
+    return <Alert severity="error">{error || 'Failed to load the forecast'}</Alert>;
+  }
+
+  const currency = inputs.currency;
+  const formatCents = (cents: number) => formatMoney(money(cents, currency));
+  const formatValue = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+  const chartData = forecast.days.map(day => ({
+    dateKey: day.dateKey,
+    balance: toMajorUnits(money(day.balance, currency))
+  }));
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 2, textAlign: 'center' }}>
+        Cash-Flow Forecast
+      </Typography>
+
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 2, justifyContent: 'center', alignItems: 'center', mb: 3 }}>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel>Months Ahead</InputLabel>
+          <Select
+            value={months}
+            label="Months Ahead"
+            onChange={(e) => setMonths(e.target.value as number)}
+          >
+            {monthOptions.map(option => (
+              <MenuItem key={option} value={option}>
+                {option} months
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+
+        <TextField
+          label={`Starting Balance (${currency})`}
+          size="small"
+          value={startingBalance}
+          onChange={(e) => setStartingBalance(e.target.value)}
+          error={parsedBalance === null}
+          helperText={parsedBalance === null ? 'Enter an amount' : undefined}
+          inputProps={{ inputMode: 'decimal' }}
+        />
+
+        <FormControlLabel
+          control={
+            <Switch
+              checked={includeVariableSpend}
+              onChange={(e) => setIncludeVariableSpend(e.target.checked)}
+              disabled={inputs.variableSpend.length === 0}
+            />
+          }
+          label="Include average variable spend"
+        />
+      </Box>
+
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2, textAlign: 'center' }}>
+        Projected from your recurring income and expenses, starting from the balance of your checking, savings
+        and cash accounts.
+        {includeVariableSpend && inputs.variableSpend.length > 0
+          && ' Day-to-day spending is added at its average over the last few months.'}
+      </Typography>
+
+      {inputs.unconvertedItems.length > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {inputs.unconvertedItems.join(', ')} {inputs.unconvertedItems.length === 1 ? 'is' : 'are'} left out
+          because there is no exchange rate to {currency}. Add one in Settings.
+        </Alert>
+      )}
+
+      {forecast.endingItems.length > 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Nothing is projected after these end:{' '}
+          {forecast.endingItems.map(item => `${item.label} (${format(item.endDate, 'MMM d, yyyy')})`).join(', ')}.
+          Clear the end date of any that will keep going.
+        </Alert>
+      )}
+
+      {inputs.items.length === 0 && (
+        <Alert severity="info" sx={{ mb: 2 }}>
+          Add recurring income and expenses to see when money comes in and goes out.
+        </Alert>
+      )}
+
+      <Box sx={{ height: 400, width: '100%' }}>
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" />
+            <XAxis
+              dataKey="dateKey"
+              tickFormatter={(key: string) => format(fromDateKey(key), 'MMM d')}
+              minTickGap={24}
+            />
+            <YAxis tickFormatter={(value: number) => formatValue(value)} width={90} />
+            <Tooltip
+              labelFormatter={(key: string) => format(fromDateKey(key), 'EEE, MMM d, yyyy')}
+              formatter={(value: number) => [formatValue(value), 'Balance']}
+            />
+            <ReferenceLine y={0} stroke="#ff8042" strokeDasharray="4 4" />
+            <Line type="stepAfter" dataKey="balance" stroke="#8884d8" strokeWidth={2} dot={false} />
+            {forecast.lowPoints.map(low => (
+              <ReferenceDot
+                key={low.dateKey}
+                x={low.dateKey}
+                y={toMajorUnits(money(low.balance, currency))}
+                r={5}
+                fill={low.balance < 0 ? '#d32f2f' : '#ffc658'}
+                stroke="none"
+              />
+            ))}
+          </LineChart>
+        </ResponsiveContainer>
+      </Box>
+
+      <Box sx={{ mt: 3 }}>
+        <Typography variant="body1" sx={{ fontWeight: 'bold', mb: 1 }}>
+          Summary
+        </Typography>
+        <Typography variant="body2">
+          Starting Balance: {formatCents(forecast.startingBalance)}
+        </Typography>
+        <Typography variant="body2" sx={{ color: forecast.lowestBalance < 0 ? 'error.main' : 'text.primary' }}>
+          Lowest Balance: {formatCents(forecast.lowestBalance)}
+        </Typography>
+        <Typography variant="body2">
+          Balance in {months} months: {formatCents(forecast.endingBalance)}
+        </Typography>
+      </Box>
+
+      <Box sx={{ mt: 3 }}>
+        <Typography variant="body1" sx={{ fontWeight: 'bold', mb: 1 }}>
+          Low Points
+        </Typography>
+        {forecast.lowPoints.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            The balance doesn&apos;t dip over this period.
+          </Typography>
+        ) : (
+          <TableContainer>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Date</TableCell>
+                  <TableCell align="right">Balance</TableCell>
+                  <TableCell align="right">Drop</TableCell>
+                  <TableCell>Caused By</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {forecast.lowPoints.map(low => {
+                  const shown = low.causes.slice(0, MAX_CAUSES_SHOWN);
+                  const rest = low.causes.slice(MAX_CAUSES_SHOWN);
+                  return (
+                    <TableRow key={low.dateKey}>
+                      <TableCell>{format(low.date, 'MMM d, yyyy')}</TableCell>
+                      <TableCell align="right" sx={{ color: low.balance < 0 ? 'error.main' : 'text.primary', fontWeight: 'bold' }}>
+                        {formatCents(low.balance)}
+                      </TableCell>
+                      <TableCell align="right">{formatCents(low.drop)}</TableCell>
+                      <TableCell>
+                        {shown.map(cause => (
+                          <Typography key={`${cause.kind}:${cause.itemId}`} variant="body2">
+                            {cause.label}{cause.kind === 'variable' ? ' (average spend)' : ''}: {formatCents(Math.abs(cause.amount))}
+                          </Typography>
+                        ))}
+                        {rest.length > 0 && (
+                          <Typography variant="body2" color="text.secondary">
+                            {rest.length} more: {formatCents(Math.abs(rest.reduce((sum, cause) => sum + cause.amount, 0)))}
+                          </Typography>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </TableContainer>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default CashFlowForecast;
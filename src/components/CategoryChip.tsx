@@ -0,0 +1,32 @@
+'use client';
+
+import React from 'react';
+import { Chip } from '@mui/material';
+import { CategoryKind } from '@/firebase/services';
+import { useCategories } from '@/context/CategoryContext';
+import { uncategorizedColor } from '@/utils/categories';
+import CategoryIcon from './CategoryIcon';
+
+interface CategoryChipProps {
+  name: string;
+  kind?: CategoryKind;
+}
+
+// Shows a category by the name stored on a record, in the taxonomy's spelling and color
+const CategoryChip: React.FC<CategoryChipProps> = ({ name, kind = 'expense' }) => {
+  const { findCategory } = useCategories();
+  const category = findCategory(name, kind);
+  const color = category?.color || uncategorizedColor;
+
+  return (
+    <Chip
+      size="small"
+      variant="outlined"
+      icon={<CategoryIcon icon={category?.icon} fontSize="small" style={{ color }} />}
+      label={category?.name || name}
+      sx={{ borderColor: color, color }}
+    />
+  );
+};
+
+export default CategoryChip;
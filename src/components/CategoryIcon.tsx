@@ -0,0 +1,51 @@
+'use client';
+
+import React from 'react';
+import { SvgIconProps } from '@mui/material';
+import {
+  Home as HomeIcon,
+  Restaurant as FoodIcon,
+  DirectionsCar as CarIcon,
+  Movie as EntertainmentIcon,
+  Bolt as UtilitiesIcon,
+  LocalHospital as HealthIcon,
+  Subscriptions as SubscriptionIcon,
+  ShoppingCart as ShoppingIcon,
+  Work as WorkIcon,
+  Savings as SavingsIcon,
+  CardGiftcard as GiftIcon,
+  School as EducationIcon,
+  Pets as PetsIcon,
+  Flight as TravelIcon,
+  Category as OtherIcon
+} from '@mui/icons-material';
+
+// Icons a category can use, keyed by the value stored on the category
+export const categoryIcons: Record<string, React.ComponentType<SvgIconProps>> = {
+  home: HomeIcon,
+  food: FoodIcon,
+  car: CarIcon,
+  entertainment: EntertainmentIcon,
+  utilities: UtilitiesIcon,
+  health: HealthIcon,
+  subscription: SubscriptionIcon,
+  shopping: ShoppingIcon,
+  work: WorkIcon,
+  savings: SavingsIcon,
+  gift: GiftIcon,
+  education: EducationIcon,
+  pets: PetsIcon,
+  travel: TravelIcon,
+  other: OtherIcon
+};
+
+interface CategoryIconProps extends SvgIconProps {
+  icon?: string;
+}
+
+const CategoryIcon: React.FC<CategoryIconProps> = ({ icon, ...props }) => {
+  const Icon = (icon && categoryIcons[icon]) || OtherIcon;
+  return <Icon {...props} />;
+};
+
+export default CategoryIcon;
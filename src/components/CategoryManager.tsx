@@ -0,0 +1,336 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Edit as EditIcon,
+  Archive as ArchiveIcon,
+  Unarchive as UnarchiveIcon,
+  CallMerge as MergeIcon
+} from '@mui/icons-material';
+import {
+  addCategory,
+  Category,
+  CategoryKind,
+  mergeCategories,
+  renameCategory,
+  updateCategory
+} from '@/firebase/services';
+import { useCategories } from '@/context/CategoryContext';
+import { categoryColors } from '@/utils/categories';
+import CategoryIcon, { categoryIcons } from './CategoryIcon';
+
+interface ColorPickerProps {
+  value: string;
+  onChange: (color: string) => void;
+}
+
+const ColorPicker: React.FC<ColorPickerProps> = ({ value, onChange }) => (
+  <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 1 }}>
+    {categoryColors.map(color => (
+      <Box
+        key={color}
+        onClick={() => onChange(color)}
+        sx={{
+          width: 28,
+          height: 28,
+          borderRadius: '50%',
+          bgcolor: color,
+          cursor: 'pointer',
+          border: 3,
+          borderColor: value === color ? 'text.primary' : 'transparent'
+        }}
+      />
+    ))}
+  </Box>
+);
+
+interface IconPickerProps {
+  value: string;
+  color: string;
+  onChange: (icon: string) => void;
+}
+
+const IconPicker: React.FC<IconPickerProps> = ({ value, color, onChange }) => (
+  <FormControl fullWidth size="small">
+    <InputLabel>Icon</InputLabel>
+    <Select value={value} label="Icon" onChange={(e) => onChange(e.target.value)}>
+      {Object.keys(categoryIcons).map(icon => (
+        <MenuItem key={icon} value={icon}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CategoryIcon icon={icon} fontSize="small" sx={{ color }} />
+            {icon.charAt(0).toUpperCase() + icon.slice(1)}
+          </Box>
+        </MenuItem>
+      ))}
+    </Select>
+  </FormControl>
+);
+
+const CategoryManager: React.FC = () => {
+  const { categories, refreshCategories } = useCategories();
+  const [kind, setKind] = useState<CategoryKind>('expense');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  // New category form
+  const [newName, setNewName] = useState('');
+  const [newParentId, setNewParentId] = useState('');
+  const [newColor, setNewColor] = useState(categoryColors[0]);
+  const [newIcon, setNewIcon] = useState('other');
+
+  // Edit and merge dialogs
+  const [editing, setEditing] = useState<Category | null>(null);
+  const [editName, setEditName] = useState('');
+  const [editColor, setEditColor] = useState(categoryColors[0]);
+  const [editIcon, setEditIcon] = useState('other');
+  const [merging, setMerging] = useState<Category | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const ofKind = categories.filter(category => category.kind === kind);
+  const topLevel = ofKind.filter(category => !category.parentId);
+
+  const runAction = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setError(null);
+      await action();
+      await refreshCategories();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update categories');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = await runAction(async () => {
+      await addCategory({ name: newName, kind, parentId: newParentId || null, color: newColor, icon: newIcon });
+    });
+    if (added) {
+      setNewName('');
+    }
+  };
+
+  const openEdit = (category: Category) => {
+    setEditing(category);
+    setEditName(category.name);
+    setEditColor(category.color);
+    setEditIcon(category.icon || 'other');
+  };
+
+  const handleSaveEdit = async () => {
+    if (!editing?.id) return;
+    const category = editing;
+    const saved = await runAction(async () => {
+      if (editName !== category.name) {
+        await renameCategory(category.id!, editName);
+      }
+      if (editColor !== category.color || editIcon !== (category.icon || 'other')) {
+        await updateCategory(category.id!, { color: editColor, icon: editIcon });
+      }
+    });
+    if (saved) setEditing(null);
+  };
+
+  const handleMerge = async () => {
+    if (!merging?.id || !mergeTargetId) return;
+    const sourceId = merging.id;
+    const merged = await runAction(() => mergeCategories(sourceId, mergeTargetId));
+    if (merged) {
+      setMerging(null);
+      setMergeTargetId('');
+    }
+  };
+
+  const renderCategory = (category: Category, depth: number) => (
+    <ListItem
+      key={category.id}
+      sx={{ pl: 2 + depth * 4, opacity: category.archived ? 0.6 : 1 }}
+      secondaryAction={
+        <Box>
+          <Tooltip title="Edit">
+            <IconButton size="small" onClick={() => openEdit(category)} disabled={saving}>
+              <EditIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Merge into another category">
+            <IconButton size="small" onClick={() => setMerging(category)} disabled={saving}>
+              <MergeIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title={category.archived ? 'Restore' : 'Archive'}>
+            <IconButton
+              size="small"
+              disabled={saving}
+              onClick={() => runAction(() => updateCategory(category.id!, { archived: !category.archived }))}
+            >
+              {category.archived ? <UnarchiveIcon fontSize="small" /> : <ArchiveIcon fontSize="small" />}
+            </IconButton>
+          </Tooltip>
+        </Box>
+      }
+    >
+      <ListItemIcon sx={{ minWidth: 36 }}>
+        <CategoryIcon icon={category.icon} sx={{ color: category.color }} />
+      </ListItemIcon>
+      <ListItemText
+        primary={
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {category.name}
+            {category.archived && <Chip size="small" label="Archived" variant="outlined" />}
+          </Box>
+        }
+      />
+    </ListItem>
+  );
+
+  // Merge targets are other categories of the same kind at the same level
+  const mergeTargets = merging
+    ? ofKind.filter(category => category.id !== merging.id && !!category.parentId === !!merging.parentId)
+    : [];
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2, flexWrap: 'wrap', gap: 1 }}>
+        <Typography variant="h6">Categories</Typography>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={kind}
+          onChange={(_, value) => {
+            if (value) {
+              setKind(value);
+              setNewParentId('');
+            }
+          }}
+        >
+          <ToggleButton value="expense">Expense</ToggleButton>
+          <ToggleButton value="income">Income</ToggleButton>
+        </ToggleButtonGroup>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <List dense sx={{ maxHeight: 400, overflow: 'auto', mb: 2 }}>
+        {topLevel.map(category => [
+          renderCategory(category, 0),
+          ...ofKind
+            .filter(child => child.parentId === category.id)
+            .map(child => renderCategory(child, 1))
+        ])}
+      </List>
+
+      <Box component="form" onSubmit={handleAdd} sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+        <Typography variant="subtitle2">Add a category</Typography>
+        <Box sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', sm: 'row' } }}>
+          <TextField
+            size="small"
+            fullWidth
+            label="Name"
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+          />
+          <FormControl fullWidth size="small">
+            <InputLabel>Parent</InputLabel>
+            <Select value={newParentId} label="Parent" onChange={(e) => setNewParentId(e.target.value)}>
+              <MenuItem value=""><em>None (top level)</em></MenuItem>
+              {topLevel.filter(category => !category.archived).map(category => (
+                <MenuItem key={category.id} value={category.id}>{category.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <IconPicker value={newIcon} color={newColor} onChange={setNewIcon} />
+        </Box>
+        <ColorPicker value={newColor} onChange={setNewColor} />
+        <Box>
+          <Button type="submit" variant="contained" disabled={saving || !newName.trim()}>
+            Add Category
+          </Button>
+        </Box>
+      </Box>
+
+      {/* Edit Dialog */}
+      <Dialog open={!!editing} onClose={() => setEditing(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Edit Category</DialogTitle>
+        <DialogContent>
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <TextField
+              label="Name"
+              fullWidth
+              size="small"
+              value={editName}
+              onChange={(e) => setEditName(e.target.value)}
+              helperText="Renaming updates every record filed under this category"
+            />
+            <IconPicker value={editIcon} color={editColor} onChange={setEditIcon} />
+            <ColorPicker value={editColor} onChange={setEditColor} />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setEditing(null)}>Cancel</Button>
+          <Button variant="contained" onClick={handleSaveEdit} disabled={saving || !editName.trim()}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* Merge Dialog */}
+      <Dialog open={!!merging} onClose={() => setMerging(null)} fullWidth maxWidth="xs">
+        <DialogTitle>Merge &quot;{merging?.name}&quot;</DialogTitle>
+        <DialogContent>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Every record filed under &quot;{merging?.name}&quot; will be moved to the selected category,
+            and &quot;{merging?.name}&quot; will be removed.
+          </Typography>
+          <FormControl fullWidth size="small">
+            <InputLabel>Merge into</InputLabel>
+            <Select value={mergeTargetId} label="Merge into" onChange={(e) => setMergeTargetId(e.target.value)}>
+              {mergeTargets.map(category => (
+                <MenuItem key={category.id} value={category.id}>{category.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setMerging(null)}>Cancel</Button>
+          <Button variant="contained" color="warning" onClick={handleMerge} disabled={saving || !mergeTargetId}>
+            {saving ? 'Merging...' : 'Merge'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
+
+export default CategoryManager;
@@ -0,0 +1,103 @@
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select
+} from '@mui/material';
+import { Category, CategoryKind } from '@/firebase/services';
+import { useCategories } from '@/context/CategoryContext';
+import { normalizeCategoryName } from '@/utils/categories';
+import CategoryIcon from './CategoryIcon';
+
+interface CategorySelectProps {
+  kind: CategoryKind;
+  value: string;
+  onChange: (name: string) => void;
+  label: string;
+  level?: 'top' | 'children' | 'all';  // Top-level categories, subcategories of parentName, or both
+  parentName?: string;
+  allowNone?: boolean;
+  required?: boolean;
+  disabled?: boolean;
+  error?: boolean;
+  helperText?: string;
+}
+
+const CategorySelect: React.FC<CategorySelectProps> = ({
+  kind,
+  value,
+  onChange,
+  label,
+  level = 'top',
+  parentName,
+  allowNone = false,
+  required = false,
+  disabled = false,
+  error = false,
+  helperText
+}) => {
+  const { categories, findCategory } = useCategories();
+
+  const active = categories.filter(category => category.kind === kind && !category.archived);
+  const topLevel = active.filter(category => !category.parentId);
+  const childrenOf = (parent?: Category) => parent
+    ? active.filter(category => category.parentId === parent.id)
+    : [];
+
+  // Options in display order, with subcategories indented under their parent
+  let options: { category: Category; depth: number }[] = [];
+  if (level === 'top') {
+    options = topLevel.map(category => ({ category, depth: 0 }));
+  } else if (level === 'children') {
+    options = childrenOf(findCategory(parentName, kind)).map(category => ({ category, depth: 0 }));
+  } else {
+    options = topLevel.flatMap(category => [
+      { category, depth: 0 },
+      ...childrenOf(category).map(child => ({ category: child, depth: 1 }))
+    ]);
+  }
+
+  // Show stored names in their canonical spelling, and keep archived or unknown values selectable
+  const selected = findCategory(value, kind);
+  const selectedValue = selected ? selected.name : value;
+  const missingValue = selectedValue
+    && !options.some(option => option.category.normalizedName === normalizeCategoryName(selectedValue));
+
+  return (
+    <FormControl fullWidth required={required} disabled={disabled} error={error}>
+      <InputLabel>{label}</InputLabel>
+      <Select
+        value={selectedValue}
+        label={label}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {allowNone && (
+          <MenuItem value="">
+            <em>None</em>
+          </MenuItem>
+        )}
+        {missingValue && (
+          <MenuItem value={selectedValue}>
+            {selectedValue}{selected?.archived ? ' (archived)' : ''}
+          </MenuItem>
+        )}
+        {options.map(({ category, depth }) => (
+          <MenuItem key={category.id} value={category.name} sx={{ pl: 2 + depth * 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+              <CategoryIcon icon={category.icon} fontSize="small" sx={{ color: category.color }} />
+              {category.name}
+            </Box>
+          </MenuItem>
+        ))}
+      </Select>
+      {helperText && <FormHelperText>{helperText}</FormHelperText>}
+    </FormControl>
+  );
+};
+
+export default CategorySelect;
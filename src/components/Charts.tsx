@@ -14,6 +14,7 @@ import {
   Legend, 
   ResponsiveContainer 
 } from 'recharts';
+import { DEFAULT_CURRENCY } from '@/utils/money';
 
 interface ChartData {
   name: string;
@@ -29,9 +30,12 @@ interface ChartsProps {
   data: ChartData[];
   colors: string[];
   keys?: string[];
+  currency?: string;  // Currency of the (major-unit) values, for tooltips
 }
 
-const Charts: React.FC<ChartsProps> = ({ type, data, colors, keys }) => {
+const Charts: React.FC<ChartsProps> = ({ type, data, colors, keys, currency = DEFAULT_CURRENCY }) => {
+  const formatValue = (value: number) => new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(value);
+
   if (type === 'pie') {
     return (
       <ResponsiveContainer width="100%" height="100%">
@@ -47,10 +51,10 @@ const Charts: React.FC<ChartsProps> = ({ type, data, colors, keys }) => {
             dataKey="value"
           >
             {data.map((entry, index) => (
-              <Cell key={`cell-${index}`} fill={colors[index % colors.length]} />
+              <Cell key={`cell-${index}`} fill={entry.color || colors[index % colors.length]} />
             ))}
           </Pie>
-          <Tooltip formatter={(value: number) => [`$${value.toFixed(2)}`, 'Amount']} />
+          <Tooltip formatter={(value: number) => [formatValue(value), 'Amount']} />
           <Legend />
         </PieChart>
       </ResponsiveContainer>
@@ -72,7 +76,7 @@ const Charts: React.FC<ChartsProps> = ({ type, data, colors, keys }) => {
           <CartesianGrid strokeDasharray="3 3" />
           <XAxis dataKey="name" />
           <YAxis />
-          <Tooltip formatter={(value: number) => [`$${value.toFixed(2)}`, '']} />
+          <Tooltip formatter={(value: number) => [formatValue(value), '']} />
           <Legend />
           {keys?.map((key, index) => (
             <Bar key={key} dataKey={key} fill={colors[index % colors.length]} />
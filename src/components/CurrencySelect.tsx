@@ -0,0 +1,41 @@
+'use client';
+
+import React from 'react';
+import { FormControl, InputLabel, MenuItem, Select } from '@mui/material';
+import { supportedCurrencies } from '@/utils/currency';
+
+interface CurrencySelectProps {
+  value: string;
+  onChange: (currency: string) => void;
+  label?: string;
+  disabled?: boolean;
+  size?: 'small' | 'medium';
+}
+
+const CurrencySelect: React.FC<CurrencySelectProps> = ({
+  value,
+  onChange,
+  label = 'Currency',
+  disabled = false,
+  size = 'medium'
+}) => {
+  // Keep a stored currency selectable even if it is no longer in the list
+  const options = supportedCurrencies.includes(value) ? supportedCurrencies : [value, ...supportedCurrencies];
+
+  return (
+    <FormControl fullWidth disabled={disabled} size={size}>
+      <InputLabel>{label}</InputLabel>
+      <Select
+        value={value}
+        label={label}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {options.map(currency => (
+          <MenuItem key={currency} value={currency}>{currency}</MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+};
+
+export default CurrencySelect;
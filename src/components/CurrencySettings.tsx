@@ -0,0 +1,215 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { Delete as DeleteIcon, UploadFile as UploadFileIcon } from '@mui/icons-material';
+import { format } from 'date-fns';
+import {
+  addExchangeRate,
+  deleteExchangeRate,
+  importExchangeRates,
+  updateBaseCurrency
+} from '@/firebase/services';
+import { useCurrency } from '@/context/CurrencyContext';
+import { parseExchangeRateCsv } from '@/utils/currency';
+import CurrencySelect from './CurrencySelect';
+
+const CurrencySettings: React.FC = () => {
+  const { baseCurrency, rates, refreshCurrency } = useCurrency();
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // New rate form
+  const [fromCurrency, setFromCurrency] = useState('EUR');
+  const [toCurrency, setToCurrency] = useState(baseCurrency);
+  const [rate, setRate] = useState('');
+  const [effectiveDate, setEffectiveDate] = useState<Date | null>(new Date());
+
+  const runAction = async (action: () => Promise<void>): Promise<boolean> => {
+    try {
+      setSaving(true);
+      setError(null);
+      setNotice(null);
+      await action();
+      await refreshCurrency();
+      return true;
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update currency settings');
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!effectiveDate) return;
+
+    const added = await runAction(async () => {
+      await addExchangeRate({ fromCurrency, toCurrency, rate: Number(rate), effectiveDate });
+    });
+    if (added) {
+      setRate('');
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const { rates: parsed, errors } = parseExchangeRateCsv(await file.text());
+    if (parsed.length === 0) {
+      setError(errors[0] || 'No exchange rates found in the file');
+      return;
+    }
+
+    await runAction(async () => {
+      const count = await importExchangeRates(parsed);
+      setNotice(`Imported ${count} ${count === 1 ? 'rate' : 'rates'}` +
+        (errors.length > 0 ? `; skipped ${errors.length} invalid ${errors.length === 1 ? 'row' : 'rows'} (${errors[0]})` : ''));
+    });
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 2 }}>Currency</Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Box sx={{ maxWidth: 240, mb: 1 }}>
+        <CurrencySelect
+          label="Base Currency"
+          size="small"
+          value={baseCurrency}
+          disabled={saving}
+          onChange={(currency) => runAction(() => updateBaseCurrency(currency))}
+        />
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 3 }}>
+        Totals, summaries and charts are shown in this currency. Amounts in other currencies are
+        converted at the rate in effect on their date.
+      </Typography>
+
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="subtitle2">Exchange Rates</Typography>
+        <Button
+          size="small"
+          startIcon={<UploadFileIcon />}
+          disabled={saving}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          Import CSV
+        </Button>
+        <input ref={fileInputRef} type="file" accept=".csv,text/csv" hidden onChange={handleImport} />
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+        CSV files need a header row with date, from, to and rate columns, e.g. 2024-01-01,EUR,USD,1.0950
+      </Typography>
+
+      {rates.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 2 }}>
+          No exchange rates yet
+        </Typography>
+      ) : (
+        <Box sx={{ maxHeight: 300, overflow: 'auto', mb: 2 }}>
+          <Table size="small" stickyHeader>
+            <TableHead>
+              <TableRow>
+                <TableCell>Effective</TableCell>
+                <TableCell>Pair</TableCell>
+                <TableCell align="right">Rate</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {rates.map(exchangeRate => (
+                <TableRow key={exchangeRate.id}>
+                  <TableCell>
+                    {format(
+                      exchangeRate.effectiveDate instanceof Date ? exchangeRate.effectiveDate : exchangeRate.effectiveDate.toDate(),
+                      'MMM dd, yyyy'
+                    )}
+                  </TableCell>
+                  <TableCell>1 {exchangeRate.fromCurrency} = {exchangeRate.toCurrency}</TableCell>
+                  <TableCell align="right">{exchangeRate.rate}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Delete">
+                      <IconButton
+                        size="small"
+                        disabled={saving}
+                        onClick={() => runAction(() => deleteExchangeRate(exchangeRate.id!))}
+                      >
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      )}
+
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <Box component="form" onSubmit={handleAddRate} sx={{ display: 'flex', gap: 2, flexDirection: { xs: 'column', sm: 'row' } }}>
+          <CurrencySelect label="From" size="small" value={fromCurrency} onChange={setFromCurrency} />
+          <CurrencySelect label="To" size="small" value={toCurrency} onChange={setToCurrency} />
+          <TextField
+            size="small"
+            fullWidth
+            label="Rate"
+            type="number"
+            inputProps={{ step: 'any', min: '0' }}
+            value={rate}
+            onChange={(e) => setRate(e.target.value)}
+          />
+          <DatePicker
+            label="Effective From"
+            value={effectiveDate}
+            onChange={(date: Date | null) => setEffectiveDate(date)}
+            slotProps={{ textField: { size: 'small', fullWidth: true } }}
+          />
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={saving || !rate || !effectiveDate || fromCurrency === toCurrency}
+            sx={{ flexShrink: 0 }}
+          >
+            Add Rate
+          </Button>
+        </Box>
+      </LocalizationProvider>
+    </Box>
+  );
+};
+
+export default CurrencySettings;
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Typography
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { Download as DownloadIcon } from '@mui/icons-material';
+import { getExportData } from '@/firebase/services';
+import {
+  DataExport,
+  downloadFile,
+  ExportEntity,
+  exportEntityLabels,
+  toEntityCsv
+} from '@/utils/dataExport';
+
+const DataExportPanel: React.FC = () => {
+  const [startDate, setStartDate] = useState<Date | null>(new Date(new Date().getFullYear(), 0, 1));
+  const [endDate, setEndDate] = useState<Date | null>(new Date());
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Load the data for the chosen range, then hand it to the download
+  const runExport = async (save: (data: DataExport) => void) => {
+    if (!startDate || !endDate) {
+      setError('Choose a start and end date');
+      return;
+    }
+    if (startDate > endDate) {
+      setError('The start date must be before the end date');
+      return;
+    }
+
+    try {
+      setExporting(true);
+      setError(null);
+      setNotice(null);
+      save(await getExportData(startDate, endDate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export data');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleJson = () => runExport(data => {
+    downloadFile(`budget-export-${data.range.start}-to-${data.range.end}.json`, JSON.stringify(data, null, 2), 'application/json');
+    setNotice(`Exported ${data.income.length} income, ${data.expenses.length} expense and ${data.transactions.length} transaction records`);
+  });
+
+  const handleCsv = (entity: ExportEntity) => runExport(data => {
+    downloadFile(`${entity}-${data.range.start}-to-${data.range.end}.csv`, toEntityCsv(entity, data[entity]), 'text/csv');
+    setNotice(`Exported ${data[entity].length} ${exportEntityLabels[entity].toLowerCase()} records`);
+  });
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Export Data
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Download your records for a date range, as one JSON file or as a CSV file per type of record for spreadsheets.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <LocalizationProvider dateAdapter={AdapterDateFns}>
+        <Box sx={{ display: 'flex', gap: 2, mb: 2, flexWrap: 'wrap' }}>
+          <DatePicker
+            label="From"
+            value={startDate}
+            onChange={(date: Date | null) => setStartDate(date)}
+            slotProps={{ textField: { size: 'small' } }}
+          />
+          <DatePicker
+            label="To"
+            value={endDate}
+            onChange={(date: Date | null) => setEndDate(date)}
+            slotProps={{ textField: { size: 'small' } }}
+          />
+        </Box>
+      </LocalizationProvider>
+
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <Button variant="contained" startIcon={<DownloadIcon />} onClick={handleJson} disabled={exporting}>
+          JSON
+        </Button>
+        {(Object.keys(exportEntityLabels) as ExportEntity[]).map(entity => (
+          <Button
+            key={entity}
+            variant="outlined"
+            startIcon={<DownloadIcon />}
+            onClick={() => handleCsv(entity)}
+            disabled={exporting}
+          >
+            {exportEntityLabels[entity]} CSV
+          </Button>
+        ))}
+      </Box>
+    </Box>
+  );
+};
+
+export default DataExportPanel;
@@ -0,0 +1,66 @@
+'use client';
+
+import React, { ReactNode, useEffect, useState } from 'react';
+import { Alert, Box, Button, CircularProgress, Typography } from '@mui/material';
+import { useAuth } from '@/context/AuthContext';
+import { migrateAmountsToCents, migrateRecurringToSeries, migrateToHouseholds, purgeExpiredTrash } from '@/firebase/services';
+
+interface DataMigrationGateProps {
+  children: ReactNode;
+}
+
+// Runs pending one-time data migrations for the signed-in user before any data is loaded,
+// then clears out anything that has been in the trash too long
+export default function DataMigrationGate({ children }: DataMigrationGateProps) {
+  const { user } = useAuth();
+  const [migratedUserId, setMigratedUserId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    setError(null);
+
+    // Records move into the user's household first; later migrations look them up there
+    migrateToHouseholds()
+      .then(() => migrateAmountsToCents())
+      .then(() => migrateRecurringToSeries())
+      .then(() => {
+        if (!cancelled) setMigratedUserId(user.uid);
+
+        // Purging can happen in the background; the trash page purges again when opened
+        purgeExpiredTrash().catch(err => console.error('Error purging expired trash:', err));
+      })
+      .catch(err => {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to update your data');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, attempt]);
+
+  if (!user || migratedUserId === user.uid) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', justifyContent: 'center', alignItems: 'center', height: '100vh', gap: 2, p: 2 }}>
+      {error ? (
+        <>
+          <Alert severity="error">{error}</Alert>
+          <Button variant="outlined" onClick={() => setAttempt(attempt + 1)}>
+            Try Again
+          </Button>
+        </>
+      ) : (
+        <>
+          <CircularProgress />
+          <Typography color="text.secondary">Preparing your data...</Typography>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,254 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Select,
+  TextField,
+  Typography
+} from '@mui/material';
+import { Backup as BackupIcon } from '@mui/icons-material';
+import { FirebaseError } from 'firebase/app';
+import { format } from 'date-fns';
+import { useAuth } from '@/context/AuthContext';
+import { deleteAccount, getTotpFactors, hasPasswordSignIn, reauthenticate } from '@/firebase/auth';
+import {
+  createBackup,
+  deleteAccountData,
+  getHouseholdsToHandOver,
+  Household,
+  transferHouseholdOwnership
+} from '@/firebase/services';
+import { downloadFile } from '@/utils/dataExport';
+
+// Typed by the user to confirm, so an account is never deleted by a stray click
+const CONFIRMATION_TEXT = 'DELETE';
+
+interface DeleteAccountDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const getErrorMessage = (err: unknown): string => {
+  if (err instanceof FirebaseError) {
+    switch (err.code) {
+      case 'auth/wrong-password':
+      case 'auth/invalid-credential':
+        return 'That password is not correct.';
+      case 'auth/invalid-verification-code':
+        return 'That code is not valid. Check your authenticator app and try again.';
+    }
+  }
+  return err instanceof Error ? err.message : 'An unknown error occurred';
+};
+
+const DeleteAccountDialog: React.FC<DeleteAccountDialogProps> = ({ open, onClose }) => {
+  const { user } = useAuth();
+  const router = useRouter();
+  // Shared households the user owns, and the member chosen to take over each one
+  const [householdsToHandOver, setHouseholdsToHandOver] = useState<Household[]>([]);
+  const [newOwners, setNewOwners] = useState<Record<string, string>>({});
+  const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [loadingHouseholds, setLoadingHouseholds] = useState(false);
+  const [progress, setProgress] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setPassword('');
+    setTotpCode('');
+    setConfirmation('');
+    setNewOwners({});
+    setError(null);
+    setLoadingHouseholds(true);
+    getHouseholdsToHandOver()
+      .then(setHouseholdsToHandOver)
+      .catch(err => setError(getErrorMessage(err)))
+      .finally(() => setLoadingHouseholds(false));
+  }, [open]);
+
+  if (!user) return null;
+
+  const needsPassword = hasPasswordSignIn(user);
+  const needsTotpCode = getTotpFactors(user).length > 0;
+  const working = progress !== null;
+  const canDelete = !loadingHouseholds
+    && !working
+    && confirmation === CONFIRMATION_TEXT
+    && (!needsPassword || !!password)
+    && (!needsTotpCode || !!totpCode.trim())
+    && householdsToHandOver.every(household => newOwners[household.id!]);
+
+  const handleBackup = async () => {
+    try {
+      setError(null);
+      setProgress('Preparing your backup...');
+      const backup = await createBackup(user.uid);
+      downloadFile(`budget-backup-${format(new Date(), 'yyyy-MM-dd')}.json`, JSON.stringify(backup, null, 2), 'application/json');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const handleDelete = async () => {
+    try {
+      setError(null);
+      setProgress('Confirming it\'s you...');
+      await reauthenticate(password, needsTotpCode ? totpCode : undefined);
+
+      setProgress('Handing over your shared households...');
+      for (const household of householdsToHandOver) {
+        await transferHouseholdOwnership(household.id!, newOwners[household.id!]);
+      }
+
+      setProgress('Deleting your data...');
+      await deleteAccountData();
+
+      setProgress('Deleting your account...');
+      await deleteAccount();
+      router.push('/auth/login');
+    } catch (err) {
+      setError(getErrorMessage(err));
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={working ? undefined : onClose} fullWidth maxWidth="sm">
+      <DialogTitle>Delete Account</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          This permanently deletes your account along with your income, expenses, transactions, summaries and
+          everything else in the households only you belong to. It can&apos;t be undone.
+        </Alert>
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Keep a copy first
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          A backup holds all of your household&apos;s records and can be restored into another account.
+        </Typography>
+        <Button variant="outlined" startIcon={<BackupIcon />} onClick={handleBackup} disabled={working} sx={{ mb: 3 }}>
+          Download Backup
+        </Button>
+
+        {loadingHouseholds ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', mb: 2 }}>
+            <CircularProgress size={24} />
+          </Box>
+        ) : householdsToHandOver.length > 0 && (
+          <Box sx={{ mb: 3 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Hand over your shared households
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Others still use these households. Choose who owns each one once you have gone; their records stay
+              with the household.
+            </Typography>
+            {householdsToHandOver.map(household => (
+              <FormControl key={household.id} fullWidth size="small" sx={{ mt: 1 }}>
+                <InputLabel id={`new-owner-${household.id}`}>{household.name}</InputLabel>
+                <Select
+                  labelId={`new-owner-${household.id}`}
+                  label={household.name}
+                  value={newOwners[household.id!] || ''}
+                  onChange={(e) => setNewOwners({ ...newOwners, [household.id!]: e.target.value })}
+                  disabled={working}
+                >
+                  {Object.entries(household.members)
+                    .filter(([memberId]) => memberId !== user.uid)
+                    .map(([memberId, member]) => (
+                      <MenuItem key={memberId} value={memberId}>
+                        {member.displayName || member.email}
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+            ))}
+          </Box>
+        )}
+
+        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+          Confirm
+        </Typography>
+        <Typography variant="body2" color="text.secondary">
+          {needsPassword
+            ? 'Enter your password'
+            : 'You will be asked to sign in with Google again'}
+          {needsTotpCode ? ' and a code from your authenticator app' : ''}, then type {CONFIRMATION_TEXT} to
+          delete your account.
+        </Typography>
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1, mt: 1 }}>
+          {needsPassword && (
+            <TextField
+              label="Current Password"
+              type="password"
+              fullWidth
+              margin="dense"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              autoComplete="current-password"
+              disabled={working}
+            />
+          )}
+          {needsTotpCode && (
+            <TextField
+              label="Authentication Code"
+              fullWidth
+              margin="dense"
+              value={totpCode}
+              onChange={(e) => setTotpCode(e.target.value)}
+              autoComplete="one-time-code"
+              disabled={working}
+            />
+          )}
+          <TextField
+            label={`Type ${CONFIRMATION_TEXT}`}
+            fullWidth
+            margin="dense"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            disabled={working}
+          />
+        </Box>
+
+        {progress && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 2 }}>
+            <CircularProgress size={20} />
+            <Typography variant="body2">{progress}</Typography>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose} disabled={working}>Cancel</Button>
+        <Button variant="contained" color="error" onClick={handleDelete} disabled={!canDelete}>
+          Delete Account
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeleteAccountDialog;
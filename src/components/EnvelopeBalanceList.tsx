@@ -0,0 +1,105 @@
+'use client';
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  CircularProgress,
+  LinearProgress,
+  IconButton,
+  Tooltip
+} from '@mui/material';
+import { Edit as EditIcon, Delete as DeleteIcon } from '@mui/icons-material';
+import { EnvelopeBalance } from '@/firebase/services';
+import { formatMoney, money } from '@/utils/money';
+import { useCurrency } from '@/context/CurrencyContext';
+
+interface EnvelopeBalanceListProps {
+  balances: EnvelopeBalance[];
+  onEdit?: (envelopeId: string) => void;
+  onDelete?: (envelopeId: string) => void;
+  loading?: boolean;
+}
+
+const EnvelopeBalanceList: React.FC<EnvelopeBalanceListProps> = ({ balances, onEdit, onDelete, loading = false }) => {
+  const { baseCurrency } = useCurrency();
+
+  // Envelope balances are kept in the base currency
+  const formatCurrency = (cents: number): string => {
+    return formatMoney(money(cents, baseCurrency));
+  };
+
+  if (loading) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight={120}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (balances.length === 0) {
+    return (
+      <Box display="flex" justifyContent="center" alignItems="center" minHeight={120}>
+        <Typography variant="body1" color="text.secondary">
+          No budget envelopes for this month
+        </Typography>
+      </Box>
+    );
+  }
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2.5 }}>
+      {balances.map((balance) => {
+        const available = balance.allocated + balance.carriedOver;
+        const percentUsed = available > 0 ? Math.min((balance.spent / available) * 100, 100) : 100;
+        const overspent = balance.remaining < 0;
+
+        return (
+          <Box key={balance.envelopeId}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: 1 }}>
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                {balance.name}
+              </Typography>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+                <Typography variant="subtitle1" color={overspent ? 'error.main' : 'success.main'} sx={{ fontWeight: 'bold' }}>
+                  {formatCurrency(balance.remaining)} left
+                </Typography>
+                {onEdit && (
+                  <Tooltip title="Edit envelope">
+                    <IconButton size="small" onClick={() => onEdit(balance.envelopeId)}>
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                {onDelete && (
+                  <Tooltip title="Delete envelope">
+                    <IconButton size="small" onClick={() => onDelete(balance.envelopeId)}>
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </Box>
+            </Box>
+            <LinearProgress
+              variant="determinate"
+              value={percentUsed}
+              color={overspent ? 'error' : percentUsed >= 90 ? 'warning' : 'primary'}
+              sx={{ height: 8, borderRadius: 4, my: 0.75 }}
+            />
+            <Typography variant="body2" color="text.secondary">
+              {formatCurrency(balance.spent)} spent of {formatCurrency(balance.allocated)}
+              {balance.carriedOver !== 0 && ` (${balance.carriedOver > 0 ? '+' : '-'}${formatCurrency(Math.abs(balance.carriedOver))} rolled over)`}
+            </Typography>
+            {balance.unconvertedCurrencies && (
+              <Typography variant="caption" color="warning.main">
+                Spending in {balance.unconvertedCurrencies.join(', ')} is left out: there is no exchange rate to {baseCurrency}.
+              </Typography>
+            )}
+          </Box>
+        );
+      })}
+    </Box>
+  );
+};
+
+export default EnvelopeBalanceList;
@@ -0,0 +1,288 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Box,
+  TextField,
+  Button,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem,
+  FormControlLabel,
+  Switch,
+  Paper,
+  Alert,
+  Snackbar,
+  InputAdornment,
+  SelectChangeEvent,
+  Stack
+} from '@mui/material';
+import { Add as AddIcon } from '@mui/icons-material';
+import { addOrUpdateEnvelope, BudgetEnvelope } from '@/firebase/services';
+import CategorySelect from './CategorySelect';
+import { getCurrencySymbol, money, parseMoney, toInputValue } from '@/utils/money';
+import { useCurrency } from '@/context/CurrencyContext';
+
+// Helper to get month name
+const getMonthName = (month: number): string => {
+  return new Date(0, month - 1).toLocaleString('default', { month: 'long' });
+};
+
+// Generate year options from 2020 to current year + 1
+const generateYearOptions = (): number[] => {
+  const currentYear = new Date().getFullYear();
+  return Array.from({ length: currentYear - 2020 + 2 }, (_, i) => 2020 + i);
+};
+
+interface EnvelopeFormProps {
+  onSuccess?: () => void;
+  onCancel?: () => void;
+  initialEnvelope?: BudgetEnvelope | null;
+}
+
+const EnvelopeForm: React.FC<EnvelopeFormProps> = ({ onSuccess, onCancel, initialEnvelope }) => {
+  // Allocations are budgeted in the base currency
+  const { baseCurrency } = useCurrency();
+  const currentMonth = new Date().getMonth() + 1;
+  const currentYear = new Date().getFullYear();
+
+  const emptyForm = {
+    name: '',
+    category: '',
+    subcategory: '',
+    monthlyAllocation: '',
+    rollover: false,
+    startMonth: currentMonth,
+    startYear: currentYear
+  };
+
+  const [formData, setFormData] = useState(emptyForm);
+  const [errors, setErrors] = useState<{ [key: string]: string }>({});
+  const [loading, setLoading] = useState(false);
+  const [showSuccess, setShowSuccess] = useState(false);
+
+  // Effect to update form when initialEnvelope changes
+  React.useEffect(() => {
+    if (initialEnvelope) {
+      setFormData({
+        name: initialEnvelope.name,
+        category: initialEnvelope.category,
+        subcategory: initialEnvelope.subcategory || '',
+        monthlyAllocation: toInputValue(money(initialEnvelope.monthlyAllocation, baseCurrency)),
+        rollover: initialEnvelope.rollover,
+        startMonth: initialEnvelope.startMonth,
+        startYear: initialEnvelope.startYear
+      });
+    } else {
+      setFormData({
+        name: '',
+        category: '',
+        subcategory: '',
+        monthlyAllocation: '',
+        rollover: false,
+        startMonth: currentMonth,
+        startYear: currentYear
+      });
+    }
+    setErrors({});
+  }, [initialEnvelope, currentMonth, currentYear, baseCurrency]);
+
+  const validateForm = (): boolean => {
+    const newErrors: { [key: string]: string } = {};
+
+    if (!formData.name.trim()) newErrors.name = 'Name is required';
+    if (!formData.category) newErrors.category = 'Category is required';
+    if (!formData.monthlyAllocation) newErrors.monthlyAllocation = 'Allocation is required';
+    else if (isNaN(Number(formData.monthlyAllocation)) || Number(formData.monthlyAllocation) < 0) {
+      newErrors.monthlyAllocation = 'Allocation must be zero or a positive number';
+    }
+
+    setErrors(newErrors);
+    return Object.keys(newErrors).length === 0;
+  };
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: value
+    });
+  };
+
+  const handleSelectChange = (e: SelectChangeEvent) => {
+    const { name, value } = e.target;
+    setFormData({
+      ...formData,
+      [name]: name === 'startMonth' || name === 'startYear' ? Number(value) : value
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!validateForm()) return;
+
+    try {
+      setLoading(true);
+
+      await addOrUpdateEnvelope({
+        id: initialEnvelope?.id,
+        name: formData.name.trim(),
+        category: formData.category,
+        subcategory: formData.subcategory || undefined,
+        monthlyAllocation: parseMoney(formData.monthlyAllocation, baseCurrency).cents,
+        rollover: formData.rollover,
+        startMonth: formData.startMonth,
+        startYear: formData.startYear
+      });
+
+      if (!initialEnvelope) {
+        setFormData(emptyForm);
+      }
+
+      setShowSuccess(true);
+      if (onSuccess) onSuccess();
+    } catch (error) {
+      console.error('Error saving envelope:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Paper elevation={3} sx={{ p: { xs: 3, sm: 4 }, borderRadius: 3 }}>
+      <Box component="form" onSubmit={handleSubmit} noValidate>
+        <Stack spacing={2.5}>
+          <TextField
+            fullWidth
+            label="Envelope Name"
+            name="name"
+            value={formData.name}
+            onChange={handleInputChange}
+            error={!!errors.name}
+            helperText={errors.name}
+            required
+            placeholder="e.g., Groceries, Dining Out"
+          />
+
+          <CategorySelect
+            kind="expense"
+            label="Category"
+            value={formData.category}
+            onChange={(category) => setFormData({ ...formData, category, subcategory: '' })}
+            required
+            error={!!errors.category}
+            helperText={errors.category || 'Transactions in this category count against the envelope'}
+          />
+
+          <CategorySelect
+            kind="expense"
+            level="children"
+            parentName={formData.category}
+            label="Subcategory (Optional)"
+            value={formData.subcategory}
+            onChange={(subcategory) => setFormData({ ...formData, subcategory })}
+            disabled={!formData.category}
+            allowNone
+            helperText="Only count transactions with this subcategory"
+          />
+
+          <TextField
+            fullWidth
+            label="Monthly Allocation"
+            name="monthlyAllocation"
+            type="number"
+            value={formData.monthlyAllocation}
+            onChange={handleInputChange}
+            error={!!errors.monthlyAllocation}
+            helperText={errors.monthlyAllocation}
+            required
+            InputProps={{
+              startAdornment: <InputAdornment position="start">{getCurrencySymbol(baseCurrency)}</InputAdornment>
+            }}
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <FormControl fullWidth>
+              <InputLabel>Start Month</InputLabel>
+              <Select
+                name="startMonth"
+                value={String(formData.startMonth)}
+                label="Start Month"
+                onChange={handleSelectChange}
+              >
+                {Array.from({ length: 12 }, (_, i) => i + 1).map((month) => (
+                  <MenuItem key={month} value={String(month)}>{getMonthName(month)}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+
+            <FormControl fullWidth>
+              <InputLabel>Start Year</InputLabel>
+              <Select
+                name="startYear"
+                value={String(formData.startYear)}
+                label="Start Year"
+                onChange={handleSelectChange}
+              >
+                {generateYearOptions().map((year) => (
+                  <MenuItem key={year} value={String(year)}>{year}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+
+          <FormControlLabel
+            control={
+              <Switch
+                checked={formData.rollover}
+                onChange={(e) => setFormData({ ...formData, rollover: e.target.checked })}
+              />
+            }
+            label="Roll unspent or overspent balance into next month"
+          />
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button
+              type="submit"
+              variant="contained"
+              disabled={loading}
+              size="large"
+              fullWidth
+              startIcon={<AddIcon />}
+              sx={{ textTransform: 'none', fontWeight: 'bold' }}
+            >
+              {loading ? 'Saving...' : initialEnvelope ? 'Update Envelope' : 'Add Envelope'}
+            </Button>
+
+            {initialEnvelope && (
+              <Button
+                variant="outlined"
+                size="large"
+                disabled={loading}
+                onClick={onCancel}
+                sx={{ textTransform: 'none', fontWeight: 'bold' }}
+              >
+                Cancel
+              </Button>
+            )}
+          </Box>
+        </Stack>
+      </Box>
+
+      <Snackbar
+        open={showSuccess}
+        autoHideDuration={6000}
+        onClose={() => setShowSuccess(false)}
+        anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+      >
+        <Alert onClose={() => setShowSuccess(false)} severity="success" variant="filled" sx={{ width: '100%' }}>
+          Envelope saved successfully!
+        </Alert>
+      </Snackbar>
+    </Paper>
+  );
+};
+
+export default EnvelopeForm;
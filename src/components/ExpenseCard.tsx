@@ -27,20 +27,24 @@ import {
   EventAvailable as EventAvailableIcon,
   EventBusy as EventBusyIcon
 } from '@mui/icons-material';
-import { Expense, bulkDeleteRecurringExpenses } from '@/firebase/services';
+import { Expense, SeriesScope, bulkDeleteRecurringExpenses, deleteExpense } from '@/firebase/services';
+import { formatMoney, money } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import BaseAmountCaption from './BaseAmountCaption';
+import CategoryChip from './CategoryChip';
 import { Timestamp } from 'firebase/firestore';
 
 interface ExpenseCardProps {
   expense: Expense;
   onEdit: (expense: Expense) => void;
   onStatusChange: (id: string, status: 'paid' | 'pending') => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string, deletionId: string, message: string) => void;
 }
 
 const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChange, onDelete }) => {
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [confirmDialogOpen, setConfirmDialogOpen] = useState(false);
-  const [deleteType, setDeleteType] = useState<'single' | 'future' | 'all'>('single');
+  const [deleteType, setDeleteType] = useState<SeriesScope>('single');
   const theme = useTheme();
 
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
@@ -51,7 +55,7 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
     setAnchorEl(null);
   };
 
-  const handleDeleteClick = (type: 'single' | 'future' | 'all') => {
+  const handleDeleteClick = (type: SeriesScope) => {
     setDeleteType(type);
     setConfirmDialogOpen(true);
     handleMenuClose();
@@ -61,10 +65,11 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
     try {
       if (deleteType === 'single' && expense.id) {
         // Standard single delete
-        onDelete(expense.id);
-      } else if ((deleteType === 'future' || deleteType === 'all') && expense.recurring) {
+        const deletionId = await deleteExpense(expense.id);
+        onDelete(expense.id, deletionId, 'Expense moved to trash');
+      } else if ((deleteType === 'future' || deleteType === 'all') && expense.seriesId) {
         // Bulk delete - either from current month or all occurrences
-        await bulkDeleteRecurringExpenses(
+        const deletionId = await bulkDeleteRecurringExpenses(
           expense,
           deleteType === 'all',
           deleteType === 'future' ? expense.month : undefined,
@@ -73,7 +78,7 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
         
         // Notify user of success through the parent component callback
         if (expense.id) {
-          onDelete(expense.id);
+          onDelete(expense.id, deletionId, deleteType === 'all' ? 'All occurrences moved to trash' : 'Future occurrences moved to trash');
         }
       }
     } catch (error) {
@@ -82,11 +87,8 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
     setConfirmDialogOpen(false);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  const formatCurrency = (cents: number): string => {
+    return formatMoney(money(cents, getRecordCurrency(expense)));
   };
 
   const formatDate = (date: Date | Timestamp | undefined) => {
@@ -122,11 +124,15 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
               {expense.category.charAt(0).toUpperCase() + expense.category.slice(1)}
               {expense.recurring && ' • Recurring'}
             </Typography>
+            {expense.subcategory && <CategoryChip name={expense.subcategory} />}
           </Box>
           <Box sx={{ display: 'flex', alignItems: 'center' }}>
-            <Typography variant="h5" component="div" color="primary.main" sx={{ mr: 1 }}>
-              {formatCurrency(expense.amount)}
-            </Typography>
+            <Box sx={{ mr: 1, textAlign: 'right' }}>
+              <Typography variant="h5" component="div" color="primary.main">
+                {formatCurrency(expense.amount)}
+              </Typography>
+              <BaseAmountCaption amount={expense.amount} currency={expense.currency} date={expense.dueDate} />
+            </Box>
             <IconButton
               onClick={handleMenuOpen}
               size="small"
@@ -152,6 +158,15 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
             Due: {formatDate(expense.dueDate)}
           </Typography>
         </Box>
+        {expense.actualAmount !== undefined && (
+          <Typography
+            variant="body2"
+            sx={{ mt: 1 }}
+            color={expense.actualAmount > expense.amount ? 'error.main' : 'text.secondary'}
+          >
+            Actual: {formatCurrency(expense.actualAmount)} of {formatCurrency(expense.amount)} planned
+          </Typography>
+        )}
       </CardContent>
 
       <Menu
@@ -188,7 +203,7 @@ const ExpenseCard: React.FC<ExpenseCardProps> = ({ expense, onEdit, onStatusChan
           <ListItemText>Delete</ListItemText>
         </MenuItem>
         
-        {expense.recurring ? [
+        {expense.seriesId ? [
           <MenuItem key="future" onClick={() => handleDeleteClick('future')}>
             <ListItemIcon>
               <DeleteSweepIcon fontSize="small" />
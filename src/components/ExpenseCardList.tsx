@@ -1,12 +1,13 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Typography,
   CircularProgress
 } from '@mui/material';
 import ExpenseCard from './ExpenseCard';
+import UndoSnackbar from './UndoSnackbar';
 import { Expense } from '@/firebase/services';
 
 interface ExpenseCardListProps {
@@ -14,14 +15,33 @@ interface ExpenseCardListProps {
   onEdit: (expense: Expense) => void;
   onStatusChange: (id: string, status: 'paid' | 'pending') => void;
   onDelete: (id: string) => void;
+  onRestore?: () => void;  // Called after a delete is undone
   loading?: boolean;
 }
 
-const ExpenseCardList: React.FC<ExpenseCardListProps> = ({ expenses, onEdit, onStatusChange, onDelete, loading = false }) => {
+const ExpenseCardList: React.FC<ExpenseCardListProps> = ({ expenses, onEdit, onStatusChange, onDelete, onRestore, loading = false }) => {
+  const [lastDeletion, setLastDeletion] = useState<{ deletionId: string; message: string } | null>(null);
+
+  const handleDelete = (id: string, deletionId: string, message: string) => {
+    onDelete(id);
+    setLastDeletion({ deletionId, message });
+  };
+
+  // Rendered whatever the list shows, since the deleted card is already gone
+  const undoSnackbar = (
+    <UndoSnackbar
+      deletionId={lastDeletion?.deletionId || null}
+      message={lastDeletion?.message || ''}
+      onClose={() => setLastDeletion(null)}
+      onRestored={() => onRestore?.()}
+    />
+  );
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight={200}>
         <CircularProgress />
+        {undoSnackbar}
       </Box>
     );
   }
@@ -32,6 +52,7 @@ const ExpenseCardList: React.FC<ExpenseCardListProps> = ({ expenses, onEdit, onS
         <Typography variant="body1" color="text.secondary">
           No expenses found
         </Typography>
+        {undoSnackbar}
       </Box>
     );
   }
@@ -44,9 +65,10 @@ const ExpenseCardList: React.FC<ExpenseCardListProps> = ({ expenses, onEdit, onS
           expense={expense}
           onEdit={onEdit}
           onStatusChange={onStatusChange}
-          onDelete={onDelete}
+          onDelete={handleDelete}
         />
       ))}
+      {undoSnackbar}
     </Box>
   );
 };
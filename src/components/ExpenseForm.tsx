@@ -23,7 +23,22 @@ import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 import { Add as AddIcon } from '@mui/icons-material';
-import { addOrUpdateExpense, createRecurringExpense, Expense } from '@/firebase/services';
+import {
+  addOrUpdateExpense,
+  createRecurringExpense,
+  Expense,
+  RecurringSeriesChanges,
+  SeriesScope,
+  updateSeriesFromOccurrence
+} from '@/firebase/services';
+import { frequencyLabels, RecurringFrequency } from '@/utils/recurrence';
+import { getCurrencySymbol, money, parseMoney, toInputValue } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import { useCurrency } from '@/context/CurrencyContext';
+import SeriesScopeSelector from './SeriesScopeSelector';
+import CategorySelect from './CategorySelect';
+import CurrencySelect from './CurrencySelect';
+import AccountSelect from './AccountSelect';
 
 // Helper to get month name
 const getMonthName = (month: number): string => {
@@ -44,7 +59,6 @@ const expenseCategories = [
 ];
 
 type ExpenseCategory = 'fixed' | 'variable' | 'subscription';
-type FrequencyType = 'weekly' | 'biweekly' | 'monthly' | 'once';
 
 interface ExpenseFormProps {
   onSuccess?: () => void;
@@ -55,18 +69,22 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
   const currentMonth = new Date().getMonth() + 1;
   const currentYear = new Date().getFullYear();
   const today = new Date();
+  const { baseCurrency } = useCurrency();
   
   const [formData, setFormData] = useState({
     category: 'fixed' as ExpenseCategory,
+    subcategory: '',
     amount: '',
+    currency: baseCurrency,
+    accountId: '',
     month: currentMonth,
     year: currentYear,
     recurring: false,
-    frequency: 'monthly' as FrequencyType,
+    frequency: 'monthly' as RecurringFrequency,
     description: '',
     isPaid: false,
     startDate: today,
-    endDate: new Date(currentYear, 11, 31), // Default to end of year
+    endDate: null as Date | null, // No end date keeps the series going
     dueDate: today,
     expectedDate: today,
     dueDayOfMonth: today.getDate() // Default to current day of month
@@ -75,9 +93,12 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
   const [errors, setErrors] = useState<Record<string, string>>({});
   const [loading, setLoading] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
+  const [editScope, setEditScope] = useState<SeriesScope>('single');
   
   // Effect to update form when initialExpense changes
   React.useEffect(() => {
+    setEditScope('single');
+    
     if (initialExpense) {
       const dueDate = initialExpense.dueDate 
         ? initialExpense.dueDate instanceof Date 
@@ -90,7 +111,10 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
         
       setFormData({
         category: initialExpense.category || 'fixed',
-        amount: String(initialExpense.amount) || '',
+        subcategory: initialExpense.subcategory || '',
+        amount: toInputValue(money(initialExpense.amount, getRecordCurrency(initialExpense))),
+        currency: getRecordCurrency(initialExpense),
+        accountId: initialExpense.accountId || '',
         month: initialExpense.month || currentMonth,
         year: initialExpense.year || currentYear,
         recurring: initialExpense.recurring || false,
@@ -106,7 +130,7 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
           ? initialExpense.endDate 
           : initialExpense.endDate 
             ? initialExpense.endDate.toDate() 
-            : new Date(currentYear, 11, 31),
+            : null,
         dueDate,
         expectedDate: dueDate,
         dueDayOfMonth
@@ -118,15 +142,18 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
   const resetForm = () => {
     setFormData({
       category: 'fixed' as ExpenseCategory,
+      subcategory: '',
       amount: '',
+      currency: baseCurrency,
+      accountId: '',
       month: currentMonth,
       year: currentYear,
       recurring: false,
-      frequency: 'monthly' as FrequencyType,
+      frequency: 'monthly' as RecurringFrequency,
       description: '',
       isPaid: false,
       startDate: today,
-      endDate: new Date(currentYear, 11, 31),
+      endDate: null,
       dueDate: today,
       expectedDate: today,
       dueDayOfMonth: today.getDate()
@@ -146,7 +173,6 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
     if (formData.recurring) {
       if (!formData.frequency) newErrors.frequency = 'Frequency is required for recurring expenses';
       if (!formData.startDate) newErrors.startDate = 'Start date is required';
-      if (!formData.endDate) newErrors.endDate = 'End date is required';
       
       if (formData.startDate && formData.endDate && formData.startDate > formData.endDate) {
         newErrors.endDate = 'End date must be after start date';
@@ -224,35 +250,44 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
       
       if (formData.recurring) {
         // Handle recurring expense
-        const startMonth = formData.startDate.getMonth() + 1;
-        const startYear = formData.startDate.getFullYear();
-        const endMonth = formData.endDate.getMonth() + 1;
-        const endYear = formData.endDate.getFullYear();
-        
-        // For recurring expenses, calculate a due date based on the dueDayOfMonth for each month
-        const today = new Date();
         
         // Make sure dueDayOfMonth is valid (between 1-31)
         const validDueDay = Math.max(1, Math.min(31, formData.dueDayOfMonth));
         
-        // Create a placeholder date with the dueDayOfMonth
-        const dueDate = new Date(today.getFullYear(), today.getMonth(), validDueDay);
+        // Due date in the month being edited, clamped for months with fewer days
+        const daysInMonth = new Date(Number(formData.year), Number(formData.month), 0).getDate();
+        const dueDate = new Date(Number(formData.year), Number(formData.month) - 1, Math.min(validDueDay, daysInMonth));
         
         // Create template expense without month/year
         const expenseTemplate = {
           category: formData.category,
-          amount: Number(formData.amount),
+          subcategory: formData.subcategory,
+          amount: parseMoney(formData.amount, formData.currency).cents,
+          currency: formData.currency,
+          accountId: formData.accountId || null,
           recurring: formData.recurring,
           frequency: formData.frequency,
           description: formData.description,
           isPaid: formData.isPaid,
           startDate: formData.startDate,
-          endDate: formData.endDate,
+          ...(formData.endDate ? { endDate: formData.endDate } : {}),
           dueDate: dueDate,
           dueDayOfMonth: validDueDay
         };
         
-        if (initialExpense?.id) {
+        if (initialExpense?.seriesId && editScope !== 'single') {
+          // Apply only the fields that changed to the selected part of the series
+          const changes: RecurringSeriesChanges = {};
+          if (expenseTemplate.amount !== initialExpense.amount) changes.amount = expenseTemplate.amount;
+          if (expenseTemplate.currency !== getRecordCurrency(initialExpense)) changes.currency = expenseTemplate.currency;
+          if (expenseTemplate.accountId !== (initialExpense.accountId || null)) changes.accountId = expenseTemplate.accountId;
+          if (expenseTemplate.description !== (initialExpense.description || '')) changes.description = expenseTemplate.description;
+          if (expenseTemplate.subcategory !== (initialExpense.subcategory || '')) changes.subcategory = expenseTemplate.subcategory;
+          if (validDueDay !== initialExpense.dueDayOfMonth) changes.dueDayOfMonth = validDueDay;
+          if (expenseTemplate.isPaid !== Boolean(initialExpense.isPaid)) changes.isPaid = expenseTemplate.isPaid;
+          
+          await updateSeriesFromOccurrence(initialExpense, editScope, changes);
+        } else if (initialExpense?.id) {
           // Update existing expense
           await addOrUpdateExpense({
             ...expenseTemplate,
@@ -261,13 +296,16 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
           }, initialExpense.id);
         } else {
           // Create new recurring expenses
-          await createRecurringExpense(expenseTemplate, startMonth, startYear, endMonth, endYear);
+          await createRecurringExpense(expenseTemplate, formData.expectedDate);
         }
       } else {
         // Handle single expense - use the expectedDate directly
         await addOrUpdateExpense({
           category: formData.category,
-          amount: Number(formData.amount),
+          subcategory: formData.subcategory,
+          amount: parseMoney(formData.amount, formData.currency).cents,
+          currency: formData.currency,
+          accountId: formData.accountId || null,
           month: Number(formData.month),
           year: Number(formData.year),
           recurring: false,
@@ -331,6 +369,15 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
               {errors.category && <FormHelperText>{errors.category}</FormHelperText>}
             </FormControl>
             
+            <CategorySelect
+              kind="expense"
+              level="all"
+              label="Spending Category"
+              value={formData.subcategory}
+              onChange={(subcategory) => setFormData(prev => ({ ...prev, subcategory }))}
+              allowNone
+            />
+            
             <TextField
               fullWidth
               label="Description"
@@ -347,21 +394,36 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
               }}
             />
             
-            <TextField
-              fullWidth
-              label="Amount"
-              name="amount"
-              type="number"
-              value={formData.amount}
-              onChange={handleInputChange}
-              error={!!errors.amount}
-              helperText={errors.amount}
-              required
-              variant="outlined"
-              InputProps={{
-                startAdornment: <InputAdornment position="start">$</InputAdornment>,
-                sx: { borderRadius: 2 }
-              }}
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                label="Amount"
+                name="amount"
+                type="number"
+                value={formData.amount}
+                onChange={handleInputChange}
+                error={!!errors.amount}
+                helperText={errors.amount}
+                required
+                variant="outlined"
+                InputProps={{
+                  startAdornment: <InputAdornment position="start">{getCurrencySymbol(formData.currency)}</InputAdornment>,
+                  sx: { borderRadius: 2 }
+                }}
+              />
+              
+              <Box sx={{ width: 140, flexShrink: 0 }}>
+                <CurrencySelect
+                  value={formData.currency}
+                  onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                />
+              </Box>
+            </Box>
+            
+            <AccountSelect
+              label="Paid From"
+              value={formData.accountId}
+              onChange={(accountId) => setFormData(prev => ({ ...prev, accountId }))}
             />
             
             <Box>
@@ -412,10 +474,9 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
                       onChange={handleSelectChange}
                       sx={{ borderRadius: 2 }}
                     >
-                      <MenuItem value="weekly">Weekly</MenuItem>
-                      <MenuItem value="biweekly">Bi-Weekly</MenuItem>
-                      <MenuItem value="monthly">Monthly</MenuItem>
-                      <MenuItem value="once">One Time</MenuItem>
+                      {Object.entries(frequencyLabels).map(([value, label]) => (
+                        <MenuItem key={value} value={value}>{label}</MenuItem>
+                      ))}
                     </Select>
                     {errors.frequency && <FormHelperText>{errors.frequency}</FormHelperText>}
                   </FormControl>
@@ -472,17 +533,16 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
                     label="End Date"
                     value={formData.endDate}
                     onChange={(date) => {
-                      if (date) {
-                        setFormData(prev => ({ ...prev, endDate: date }));
-                      }
+                      // Clearing the end date leaves the series open-ended
+                      setFormData(prev => ({ ...prev, endDate: date }));
                     }}
                     slotProps={{
+                      field: { clearable: true },
                       textField: {
                         fullWidth: true,
-                        required: true,
                         size: "small",
                         error: !!errors.endDate,
-                        helperText: errors.endDate || undefined
+                        helperText: errors.endDate || 'Leave empty to keep it going'
                       }
                     }}
                   />
@@ -533,6 +593,15 @@ const ExpenseForm: React.FC<ExpenseFormProps> = ({ onSuccess, initialExpense })
             </Box>
           )}
           
+          {initialExpense?.seriesId && formData.recurring && (
+            <SeriesScopeSelector
+              item={initialExpense}
+              scope={editScope}
+              onChange={setEditScope}
+              disabled={loading}
+            />
+          )}
+          
           <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
             <Button 
               type="submit" 
@@ -21,7 +21,12 @@ import {
 } from '@mui/material';
 import MoreVertIcon from '@mui/icons-material/MoreVert';
 import Menu from '@mui/material/Menu';
+import { CloudSync as PendingSyncIcon } from '@mui/icons-material';
 import { Expense, addOrUpdateExpense } from '@/firebase/services';
+import { useSync } from '@/context/SyncContext';
+import { formatMoney, money } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import BaseAmountCaption from './BaseAmountCaption';
 import { Timestamp } from 'firebase/firestore';
 
 interface ExpenseListProps {
@@ -34,6 +39,7 @@ interface ExpenseListProps {
 
 const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onEdit, onStatusChange, onDelete, loading = false }) => {
   const theme = useTheme();
+  const { pendingRecordIds } = useSync();
   const [anchorEl, setAnchorEl] = React.useState<null | HTMLElement>(null);
   const [selectedExpense, setSelectedExpense] = React.useState<Expense | null>(null);
 
@@ -46,7 +52,7 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onEdit, onStatusCha
       addOrUpdateExpense({
         ...expenseToUpdate,
         isPaid: newStatus === 'paid'
-      });
+      }, id);
     }
   };
 
@@ -60,11 +66,8 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onEdit, onStatusCha
     setSelectedExpense(null);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  const formatCurrency = (cents: number, currency?: string): string => {
+    return formatMoney(money(cents, getRecordCurrency({ currency })));
   };
 
   const formatDate = (date: Date | Timestamp | undefined) => {
@@ -118,7 +121,20 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onEdit, onStatusCha
         <TableBody>
           {expenses.map((expense) => (
             <TableRow key={expense.id || 'unknown'}>
-              <TableCell>{expense.description}</TableCell>
+              <TableCell>
+                {expense.description}
+                {/* Saved on this device while offline, not yet synced */}
+                {expense.id && pendingRecordIds.has(expense.id) && (
+                  <Chip
+                    icon={<PendingSyncIcon />}
+                    label="Pending sync"
+                    size="small"
+                    variant="outlined"
+                    color="warning"
+                    sx={{ ml: 1 }}
+                  />
+                )}
+              </TableCell>
               <TableCell>
                 <Chip 
                   label={expense.category}
@@ -132,7 +148,10 @@ const ExpenseList: React.FC<ExpenseListProps> = ({ expenses, onEdit, onStatusCha
                   }}
                 />
               </TableCell>
-              <TableCell>{formatCurrency(expense.amount)}</TableCell>
+              <TableCell>
+                {formatCurrency(expense.amount, expense.currency)}
+                <BaseAmountCaption amount={expense.amount} currency={expense.currency} date={expense.dueDate} />
+              </TableCell>
               <TableCell>{formatDate(expense.dueDate)}</TableCell>
               <TableCell>
                 <Select
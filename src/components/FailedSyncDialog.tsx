@@ -0,0 +1,104 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  List,
+  ListItem,
+  ListItemText,
+  Stack,
+  Typography
+} from '@mui/material';
+import { format } from 'date-fns';
+import { useSync } from '@/context/SyncContext';
+import { QueuedWrite } from '@/utils/offlineQueue';
+
+interface FailedSyncDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// What a queued change does, e.g. "Edit expense: Rent"
+const describeWrite = (write: QueuedWrite): string => {
+  const action = write.action === 'delete' ? 'Delete' : write.isNew ? 'Add' : 'Edit';
+  const name = write.action === 'save'
+    ? (write.kind === 'income' ? write.record.source : write.record.description || write.record.subcategory)
+    : undefined;
+  return `${action} ${write.kind}${typeof name === 'string' && name ? `: ${name}` : ''}`;
+};
+
+// Changes made offline that Firestore rejected when they were synced. Each one can be tried
+// again or discarded; later changes to the same record wait until it is.
+const FailedSyncDialog: React.FC<FailedSyncDialogProps> = ({ open, onClose }) => {
+  const { failedWrites, syncing, retryWrite, discardWrite } = useSync();
+  const [workingId, setWorkingId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handle = async (id: number, run: (id: number) => Promise<void>) => {
+    try {
+      setWorkingId(id);
+      setError(null);
+      await run(id);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An unknown error occurred');
+    } finally {
+      setWorkingId(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+      <DialogTitle>Changes That Couldn&apos;t Sync</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+        {failedWrites.length === 0 ? (
+          <Typography variant="body2" color="text.secondary">
+            Every change has been saved.
+          </Typography>
+        ) : (
+          <List disablePadding>
+            {failedWrites.map(write => (
+              <ListItem key={write.id} divider disableGutters>
+                <ListItemText
+                  primary={describeWrite(write)}
+                  secondary={`${write.failure || 'The change could not be saved'} · made ${format(write.queuedAt, 'MMM d, h:mm a')}`}
+                />
+                <Stack direction="row" spacing={1} sx={{ ml: 2, flexShrink: 0 }}>
+                  <Button
+                    size="small"
+                    onClick={() => handle(write.id!, retryWrite)}
+                    disabled={syncing || workingId !== null}
+                  >
+                    Retry
+                  </Button>
+                  <Button
+                    size="small"
+                    color="error"
+                    onClick={() => handle(write.id!, discardWrite)}
+                    disabled={syncing || workingId !== null}
+                  >
+                    Discard
+                  </Button>
+                </Stack>
+              </ListItem>
+            ))}
+          </List>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default FailedSyncDialog;
@@ -1,7 +1,8 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import {
+  Alert,
   Box,
   Typography,
   Paper,
@@ -17,7 +18,8 @@ import {
   Tab,
   SelectChangeEvent
 } from '@mui/material';
-import { getMonthlySummary, MonthlySummary } from '@/firebase/services';
+import { useMonthlySummary } from '@/hooks/useLiveMonthData';
+import { DEFAULT_CURRENCY, formatMoney, money } from '@/utils/money';
 
 // Helper to get month name
 const getMonthName = (month: number): string => {
@@ -40,26 +42,10 @@ const FinancialDashboard: React.FC<FinancialDashboardProps> = () => {
   
   const [selectedMonth, setSelectedMonth] = useState<number>(currentMonth);
   const [selectedYear, setSelectedYear] = useState<number>(currentYear);
-  const [summary, setSummary] = useState<MonthlySummary | null>(null);
-  const [loading, setLoading] = useState<boolean>(true);
+  // Updates live as the month's income and expenses change
+  const { data: summary, loading } = useMonthlySummary(selectedMonth, selectedYear);
   const [activeTab, setActiveTab] = useState<number>(0);
-  
-  // Fetch the summary when month/year changes
-  useEffect(() => {
-    const fetchSummary = async () => {
-      try {
-        setLoading(true);
-        const data = await getMonthlySummary(selectedMonth, selectedYear);
-        setSummary(data);
-      } catch (error) {
-        console.error('Error fetching monthly summary:', error);
-      } finally {
-        setLoading(false);
-      }
-    };
-    
-    fetchSummary();
-  }, [selectedMonth, selectedYear]);
+  const summaryCurrency = summary?.currency || DEFAULT_CURRENCY;
   
   const handleMonthChange = (event: SelectChangeEvent<number>) => {
     setSelectedMonth(event.target.value as number);
@@ -112,6 +98,13 @@ const FinancialDashboard: React.FC<FinancialDashboardProps> = () => {
           </Box>
         </Box>
         
+        {!loading && summary?.unconvertedCurrencies && (
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Amounts in {summary.unconvertedCurrencies.join(', ')} are left out of these totals because there is no
+            exchange rate to {summaryCurrency}. Add one in Settings.
+          </Alert>
+        )}
+        
         {loading ? (
           <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
             <CircularProgress />
@@ -125,7 +118,7 @@ const FinancialDashboard: React.FC<FinancialDashboardProps> = () => {
                     Income
                   </Typography>
                   <Typography variant="h4" component="div" color="primary">
-                    ${summary?.totalIncome?.toFixed(2) || '0.00'}
+                    {formatMoney(money(summary?.totalIncome || 0, summaryCurrency))}
                   </Typography>
                   <Typography variant="body2" sx={{ mt: 1 }}>
                     Total income for {getMonthName(selectedMonth)} {selectedYear}
@@ -141,17 +134,17 @@ const FinancialDashboard: React.FC<FinancialDashboardProps> = () => {
                     Expenses
                   </Typography>
                   <Typography variant="h4" component="div" color="error">
-                    ${((summary?.totalFixedExpenses || 0) + (summary?.totalVariableExpenses || 0)).toFixed(2)}
+                    {formatMoney(money((summary?.totalFixedExpenses || 0) + (summary?.totalVariableExpenses || 0), summaryCurrency))}
                   </Typography>
                   <Divider sx={{ my: 1 }} />
                   <Typography variant="body2">
-                    Fixed: ${summary?.totalFixedExpenses?.toFixed(2) || '0.00'}
+                    Fixed: {formatMoney(money(summary?.totalFixedExpenses || 0, summaryCurrency))}
                   </Typography>
                   <Typography variant="body2">
-                    Variable: ${summary?.totalVariableExpenses?.toFixed(2) || '0.00'}
+                    Variable: {formatMoney(money(summary?.totalVariableExpenses || 0, summaryCurrency))}
                   </Typography>
                   <Typography variant="body2">
-                    Subscriptions: ${summary?.totalSubscriptions?.toFixed(2) || '0.00'}*
+                    Subscriptions: {formatMoney(money(summary?.totalSubscriptions || 0, summaryCurrency))}*
                   </Typography>
                   <Typography variant="caption" sx={{ mt: 1, display: 'block' }}>
                     *Subscriptions not included in total expenses calculation
@@ -171,7 +164,7 @@ const FinancialDashboard: React.FC<FinancialDashboardProps> = () => {
                     component="div" 
                     color={summary?.balance && summary.balance >= 0 ? 'success' : 'error'}
                   >
-                    ${summary?.balance?.toFixed(2) || '0.00'}
+                    {formatMoney(money(summary?.balance || 0, summaryCurrency))}
                   </Typography>
                   <Typography variant="body2" sx={{ mt: 1 }}>
                     {summary?.balance && summary.balance >= 0 
@@ -0,0 +1,349 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  Divider,
+  FormControl,
+  IconButton,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemText,
+  MenuItem,
+  Select,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import {
+  Check as AcceptIcon,
+  Close as DeclineIcon,
+  Edit as EditIcon,
+  PersonAdd as InviteIcon,
+  PersonRemove as RemoveIcon
+} from '@mui/icons-material';
+import { useAuth } from '@/context/AuthContext';
+import { useHousehold } from '@/context/HouseholdContext';
+import {
+  acceptInvite,
+  declineInvite,
+  getSentInvites,
+  HouseholdInvite,
+  inviteToHousehold,
+  leaveHousehold,
+  removeMember,
+  renameHousehold,
+  revokeInvite,
+  updateMemberRole
+} from '@/firebase/services';
+import { householdRoleLabels, invitableRoles } from '@/utils/households';
+
+type InvitableRole = HouseholdInvite['role'];
+
+const HouseholdManager: React.FC = () => {
+  const { user } = useAuth();
+  const { activeHousehold, activeHouseholdId, role, invites, refreshHouseholds, switchHousehold } = useHousehold();
+  const [sentInvites, setSentInvites] = useState<HouseholdInvite[]>([]);
+  const [name, setName] = useState('');
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [inviteEmail, setInviteEmail] = useState('');
+  const [inviteRole, setInviteRole] = useState<InvitableRole>('editor');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const isOwner = role === 'owner';
+
+  const fetchSentInvites = useCallback(async () => {
+    if (!isOwner || !activeHousehold) {
+      setSentInvites([]);
+      return;
+    }
+
+    try {
+      setSentInvites(await getSentInvites());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load invitations');
+    }
+  }, [isOwner, activeHousehold]);
+
+  useEffect(() => {
+    fetchSentInvites();
+  }, [fetchSentInvites]);
+
+  const runAction = async (action: () => Promise<string | void>) => {
+    try {
+      setWorking(true);
+      setError(null);
+      setNotice(null);
+      const message = await action();
+      if (message) setNotice(message);
+      await Promise.all([refreshHouseholds(), fetchSentInvites()]);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Something went wrong. Please try again.');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleRename = () => runAction(async () => {
+    await renameHousehold(name);
+    setIsRenaming(false);
+  });
+
+  const handleInvite = () => runAction(async () => {
+    await inviteToHousehold(inviteEmail, inviteRole);
+    setInviteEmail('');
+    return `Invitation sent to ${inviteEmail.trim()}`;
+  });
+
+  const handleRoleChange = (memberId: string, value: InvitableRole) => runAction(() => updateMemberRole(memberId, value));
+
+  const handleRemove = (memberId: string, email: string) => {
+    if (window.confirm(`Remove ${email} from the household?`)) {
+      runAction(() => removeMember(memberId));
+    }
+  };
+
+  const handleRevoke = (inviteId: string) => runAction(() => revokeInvite(inviteId));
+
+  const handleAccept = (invite: HouseholdInvite) => runAction(async () => {
+    const householdId = await acceptInvite(invite.id!);
+    switchHousehold(householdId);
+    return `You joined ${invite.householdName}`;
+  });
+
+  const handleDecline = (inviteId: string) => runAction(() => declineInvite(inviteId));
+
+  const handleLeave = () => {
+    if (!activeHousehold) return;
+    if (window.confirm(`Leave ${activeHousehold.name}? You will need a new invitation to rejoin.`)) {
+      runAction(async () => {
+        await leaveHousehold(activeHousehold.id!);
+        if (user) switchHousehold(user.uid);
+      });
+    }
+  };
+
+  // Owner first, then everyone else by email
+  const members = Object.entries(activeHousehold?.members || {}).sort(([aId, a], [bId, b]) =>
+    Number(bId === activeHousehold?.ownerId) - Number(aId === activeHousehold?.ownerId) || a.email.localeCompare(b.email)
+  );
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Household
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Everyone in a household shares its budget. Editors can change records; viewers can only look.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {invites.length > 0 && (
+        <Box sx={{ mb: 3 }}>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Invitations to you
+          </Typography>
+          <List dense disablePadding>
+            {invites.map(invite => (
+              <ListItem
+                key={invite.id}
+                divider
+                secondaryAction={
+                  <Box>
+                    <Button size="small" startIcon={<AcceptIcon />} onClick={() => handleAccept(invite)} disabled={working}>
+                      Accept
+                    </Button>
+                    <Button size="small" color="inherit" startIcon={<DeclineIcon />} onClick={() => handleDecline(invite.id!)} disabled={working}>
+                      Decline
+                    </Button>
+                  </Box>
+                }
+                sx={{ pr: 24 }}
+              >
+                <ListItemText
+                  primary={invite.householdName}
+                  secondary={`${invite.invitedByEmail} invited you as ${householdRoleLabels[invite.role].toLowerCase()}`}
+                />
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+      )}
+
+      {!activeHousehold ? (
+        activeHouseholdId ? <CircularProgress size={24} /> : null
+      ) : (
+        <>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+            {isRenaming ? (
+              <>
+                <TextField
+                  label="Household Name"
+                  size="small"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                />
+                <Button variant="contained" size="small" onClick={handleRename} disabled={working || !name.trim()}>
+                  Save
+                </Button>
+                <Button variant="outlined" size="small" onClick={() => setIsRenaming(false)}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                <Typography variant="subtitle1">{activeHousehold.name}</Typography>
+                {role && <Chip size="small" label={householdRoleLabels[role]} />}
+                {isOwner && (
+                  <Tooltip title="Rename">
+                    <IconButton
+                      size="small"
+                      onClick={() => {
+                        setName(activeHousehold.name);
+                        setIsRenaming(true);
+                      }}
+                    >
+                      <EditIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+              </>
+            )}
+          </Box>
+
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Members
+          </Typography>
+          <List dense disablePadding sx={{ mb: 2 }}>
+            {members.map(([memberId, member]) => {
+              const isMemberOwner = memberId === activeHousehold.ownerId;
+              return (
+                <ListItem
+                  key={memberId}
+                  divider
+                  secondaryAction={isOwner && !isMemberOwner ? (
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Select
+                        size="small"
+                        value={member.role}
+                        onChange={(e) => handleRoleChange(memberId, e.target.value as InvitableRole)}
+                        disabled={working}
+                      >
+                        {invitableRoles.map(value => (
+                          <MenuItem key={value} value={value}>
+                            {householdRoleLabels[value]}
+                          </MenuItem>
+                        ))}
+                      </Select>
+                      <Tooltip title="Remove">
+                        <span>
+                          <IconButton onClick={() => handleRemove(memberId, member.email)} disabled={working}>
+                            <RemoveIcon />
+                          </IconButton>
+                        </span>
+                      </Tooltip>
+                    </Box>
+                  ) : (
+                    <Chip size="small" variant="outlined" label={householdRoleLabels[member.role]} />
+                  )}
+                  sx={{ pr: isOwner && !isMemberOwner ? 22 : 12 }}
+                >
+                  <ListItemText
+                    primary={member.displayName || member.email}
+                    secondary={member.displayName ? member.email : undefined}
+                  />
+                </ListItem>
+              );
+            })}
+          </List>
+
+          {isOwner ? (
+            <>
+              <Divider sx={{ mb: 2 }} />
+              <Typography variant="subtitle2" sx={{ mb: 1 }}>
+                Invite someone
+              </Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+                <TextField
+                  label="Email"
+                  type="email"
+                  size="small"
+                  value={inviteEmail}
+                  onChange={(e) => setInviteEmail(e.target.value)}
+                  sx={{ flexGrow: 1, minWidth: 220 }}
+                />
+                <FormControl size="small" sx={{ minWidth: 120 }}>
+                  <InputLabel>Role</InputLabel>
+                  <Select
+                    value={inviteRole}
+                    label="Role"
+                    onChange={(e) => setInviteRole(e.target.value as InvitableRole)}
+                  >
+                    {invitableRoles.map(value => (
+                      <MenuItem key={value} value={value}>
+                        {householdRoleLabels[value]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <Button
+                  variant="contained"
+                  startIcon={<InviteIcon />}
+                  onClick={handleInvite}
+                  disabled={working || !inviteEmail.trim()}
+                >
+                  Invite
+                </Button>
+              </Box>
+
+              {sentInvites.length > 0 && (
+                <List dense disablePadding>
+                  {sentInvites.map(invite => (
+                    <ListItem
+                      key={invite.id}
+                      divider
+                      secondaryAction={
+                        <Button size="small" color="inherit" onClick={() => handleRevoke(invite.id!)} disabled={working}>
+                          Revoke
+                        </Button>
+                      }
+                      sx={{ pr: 12 }}
+                    >
+                      <ListItemText
+                        primary={invite.email}
+                        secondary={`Invited as ${householdRoleLabels[invite.role].toLowerCase()} • waiting for a reply`}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              )}
+            </>
+          ) : (
+            <Button variant="outlined" color="error" onClick={handleLeave} disabled={working}>
+              Leave Household
+            </Button>
+          )}
+        </>
+      )}
+    </Box>
+  );
+};
+
+export default HouseholdManager;
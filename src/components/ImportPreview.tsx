@@ -0,0 +1,82 @@
+'use client';
+
+import React from 'react';
+import {
+  Checkbox,
+  Chip,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow
+} from '@mui/material';
+import { format } from 'date-fns';
+import { ImportedTransaction } from '@/utils/bankImport';
+import { formatMoney, money } from '@/utils/money';
+
+interface ImportPreviewProps {
+  transactions: ImportedTransaction[];
+  duplicates: boolean[];
+  selected: boolean[];
+  onToggle: (index: number) => void;
+  onToggleAll: (checked: boolean) => void;
+  currency: string;
+}
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({
+  transactions,
+  duplicates,
+  selected,
+  onToggle,
+  onToggleAll,
+  currency
+}) => {
+  const selectedCount = selected.filter(Boolean).length;
+
+  return (
+    <TableContainer sx={{ maxHeight: 480 }}>
+      <Table size="small" stickyHeader>
+        <TableHead>
+          <TableRow>
+            <TableCell padding="checkbox">
+              <Checkbox
+                checked={selectedCount > 0 && selectedCount === transactions.length}
+                indeterminate={selectedCount > 0 && selectedCount < transactions.length}
+                onChange={(e) => onToggleAll(e.target.checked)}
+              />
+            </TableCell>
+            <TableCell>Date</TableCell>
+            <TableCell>Description</TableCell>
+            <TableCell align="right">Amount</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {transactions.map((transaction, index) => (
+            <TableRow
+              key={`${transaction.row}-${index}`}
+              hover
+              onClick={() => onToggle(index)}
+              sx={{ cursor: 'pointer', opacity: selected[index] ? 1 : 0.6 }}
+            >
+              <TableCell padding="checkbox">
+                <Checkbox checked={selected[index] || false} />
+              </TableCell>
+              <TableCell>{format(transaction.date, 'MMM dd, yyyy')}</TableCell>
+              <TableCell>{transaction.description}</TableCell>
+              <TableCell align="right" sx={{ color: transaction.type === 'income' ? 'success.main' : 'error.main' }}>
+                {transaction.type === 'income' ? '+' : '-'} {formatMoney(money(transaction.amount, currency))}
+              </TableCell>
+              <TableCell align="right">
+                {duplicates[index] && <Chip size="small" color="warning" variant="outlined" label="Already recorded" />}
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </TableContainer>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,536 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Checkbox,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Step,
+  StepLabel,
+  Stepper,
+  Switch,
+  TextField,
+  Typography
+} from '@mui/material';
+import { UploadFile as UploadIcon } from '@mui/icons-material';
+import {
+  Account,
+  getAccounts,
+  getImportProfiles,
+  getImportMatchData,
+  ImportProfile,
+  importTransactions,
+  saveImportProfile,
+  TransactionInput
+} from '@/firebase/services';
+import {
+  applyCsvMapping,
+  BankAccountInfo,
+  CsvColumnMapping,
+  CsvDateFormat,
+  csvDateFormats,
+  flagDuplicates,
+  guessCsvMapping,
+  ImportedTransaction
+} from '@/utils/bankImport';
+import { parseCsv } from '@/utils/csv';
+import { isOfx, OfxStatement, parseOfx } from '@/utils/ofx';
+import { isQif, parseQif } from '@/utils/qif';
+import { getRecordCurrency } from '@/utils/currency';
+import { useCurrency } from '@/context/CurrencyContext';
+import AccountSelect from './AccountSelect';
+import CategorySelect from './CategorySelect';
+import CurrencySelect from './CurrencySelect';
+import ImportPreview from './ImportPreview';
+
+interface ImportWizardProps {
+  onImported?: (count: number) => void;
+}
+
+const steps = ['Choose File', 'Map Columns', 'Review'];
+
+// OFX and QFX files describe their own layout, as do QIF files; CSV files need mapping
+type FileFormat = 'csv' | 'ofx' | 'qif';
+
+// Maximum number of unreadable rows listed before summarising the rest
+const MAX_LISTED_ERRORS = 10;
+
+// Describe the bank account a file came from, e.g. "CHECKING ••••1234"
+const describeBankAccount = (bankAccount?: BankAccountInfo): string => {
+  if (!bankAccount) return '';
+  return [bankAccount.accountType, bankAccount.accountName, bankAccount.accountNumber].filter(Boolean).join(' ');
+};
+
+const ImportWizard: React.FC<ImportWizardProps> = ({ onImported }) => {
+  const { baseCurrency } = useCurrency();
+  const [step, setStep] = useState(0);
+  const [profiles, setProfiles] = useState<ImportProfile[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [profileId, setProfileId] = useState('');
+  const [fileName, setFileName] = useState('');
+  const [fileFormat, setFileFormat] = useState<FileFormat>('csv');
+  const [fileText, setFileText] = useState('');
+  const [rows, setRows] = useState<string[][]>([]);
+  const [ofxStatements, setOfxStatements] = useState<OfxStatement[]>([]);
+  const [statementIndex, setStatementIndex] = useState(0);
+  const [qifDayFirst, setQifDayFirst] = useState(false);
+  const [mapping, setMapping] = useState<CsvColumnMapping | null>(null);
+  const [accountId, setAccountId] = useState('');
+  const [currency, setCurrency] = useState(baseCurrency);
+  const [rememberProfile, setRememberProfile] = useState(true);
+  const [profileName, setProfileName] = useState('');
+  const [transactions, setTransactions] = useState<ImportedTransaction[]>([]);
+  const [duplicates, setDuplicates] = useState<boolean[]>([]);
+  const [selected, setSelected] = useState<boolean[]>([]);
+  const [rowErrors, setRowErrors] = useState<string[]>([]);
+  const [expenseCategory, setExpenseCategory] = useState('Other');
+  const [incomeCategory, setIncomeCategory] = useState('Other');
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([getImportProfiles(), getAccounts(true)])
+      .then(([savedProfiles, savedAccounts]) => {
+        setProfiles(savedProfiles);
+        setAccounts(savedAccounts);
+      })
+      .catch(err => {
+        console.error('Error loading import profiles:', err);
+      });
+  }, []);
+
+  const profile = profiles.find(item => item.id === profileId);
+
+  // Amounts are read in the account's currency unless the profile says otherwise
+  const handleAccountChange = (id: string) => {
+    setAccountId(id);
+    const account = accounts.find(item => item.id === id);
+    if (account) setCurrency(getRecordCurrency(account));
+  };
+
+  // Check parsed transactions against recorded ones and move on to the review step
+  const review = async (parsed: ImportedTransaction[], errors: string[]): Promise<boolean> => {
+    if (parsed.length === 0) {
+      setError(errors[0] || 'No transactions were found in the file');
+      return false;
+    }
+
+    const times = parsed.map(transaction => transaction.date.getTime());
+    const existing = await getImportMatchData(
+      new Date(times.reduce((min, time) => Math.min(min, time))),
+      new Date(times.reduce((max, time) => Math.max(max, time)))
+    );
+    const flags = flagDuplicates(parsed, existing);
+
+    setTransactions(parsed);
+    setDuplicates(flags);
+    setSelected(flags.map(duplicate => !duplicate));
+    setRowErrors(errors);
+    setStep(2);
+    return true;
+  };
+
+  const runReview = async (read: () => Promise<unknown>) => {
+    try {
+      setWorking(true);
+      setError(null);
+      await read();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const reviewOfxStatement = (statements: OfxStatement[], index: number, errors: string[] = []) => {
+    const statement = statements[index];
+    setStatementIndex(index);
+    setCurrency(statement.currency);
+    return review(statement.transactions, errors);
+  };
+
+  const reviewQif = (text: string, qifCurrency: string, dayFirst: boolean) => {
+    const { transactions: parsed, errors } = parseQif(text, qifCurrency, dayFirst);
+    return review(parsed, errors);
+  };
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const text = await file.text();
+    if (!text.trim()) {
+      setError('The file is empty');
+      return;
+    }
+
+    setError(null);
+    setSuccess(null);
+    setFileName(file.name);
+    setFileText(text);
+
+    if (/\.(ofx|qfx)$/i.test(file.name) || isOfx(text)) {
+      setFileFormat('ofx');
+      const { statements, errors } = parseOfx(text);
+      if (statements.length === 0) {
+        setError(errors[0]);
+        return;
+      }
+      setOfxStatements(statements);
+      await runReview(() => reviewOfxStatement(statements, 0, errors));
+      return;
+    }
+
+    if (/\.qif$/i.test(file.name) || isQif(text)) {
+      setFileFormat('qif');
+      await runReview(() => reviewQif(text, currency, qifDayFirst));
+      return;
+    }
+
+    setFileFormat('csv');
+    const parsedRows = parseCsv(text);
+    setRows(parsedRows);
+
+    if (profile) {
+      setMapping(profile.mapping);
+      setAccountId(profile.accountId || '');
+      setCurrency(profile.currency || baseCurrency);
+      setProfileName(profile.name);
+    } else {
+      setMapping(guessCsvMapping(parsedRows[0], parsedRows[1]));
+      setProfileName(file.name.replace(/\.[^.]+$/, ''));
+    }
+    setStep(1);
+  };
+
+  const updateMapping = (changes: Partial<CsvColumnMapping>) => {
+    setMapping(current => current && { ...current, ...changes });
+  };
+
+  // Read the CSV file through the mapping, remembering the mapping if asked to
+  const handleReview = () => runReview(async () => {
+    if (!mapping) return;
+
+    const { transactions: parsed, errors } = applyCsvMapping(rows, mapping, currency);
+    if (!(await review(parsed, errors))) return;
+
+    if (rememberProfile && profileName.trim()) {
+      const savedId = await saveImportProfile({ name: profileName, mapping, accountId, currency }, profile?.id);
+      setProfileId(savedId);
+      setProfiles(await getImportProfiles());
+    }
+  });
+
+  const handleImport = async () => {
+    const inputs: TransactionInput[] = transactions
+      .filter((_, index) => selected[index])
+      .map(transaction => ({
+        type: transaction.type,
+        amount: transaction.amount,
+        currency,
+        ...(accountId ? { accountId } : {}),
+        description: transaction.description,
+        category: transaction.type === 'income' ? incomeCategory : expenseCategory,
+        date: transaction.date,
+        ...(transaction.externalId ? { externalId: transaction.externalId } : {}),
+        ...(transaction.bankAccount ? { bankAccount: transaction.bankAccount } : {})
+      }));
+
+    try {
+      setWorking(true);
+      setError(null);
+      const count = await importTransactions(inputs);
+      const skipped = inputs.length - count;
+      setSuccess(`Imported ${count} transaction${count === 1 ? '' : 's'} from ${fileName}`
+        + (skipped > 0 ? `; ${skipped} with a bank ID already recorded ${skipped === 1 ? 'was' : 'were'} left as is` : ''));
+      setStep(0);
+      setRows([]);
+      setTransactions([]);
+      if (onImported) onImported(count);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import transactions');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  // Column choices, labelled with the header (or position) and a sample value
+  const header = rows[0] || [];
+  const sample = (mapping?.hasHeader ? rows[1] : rows[0]) || [];
+  const columnSelect = (label: string, value: number, onChange: (column: number) => void, optional = false) => (
+    <FormControl fullWidth size="small">
+      <InputLabel>{label}</InputLabel>
+      <Select value={value} label={label} onChange={(e) => onChange(Number(e.target.value))}>
+        {optional && <MenuItem value={-1}><em>None</em></MenuItem>}
+        {header.map((name, index) => (
+          <MenuItem key={index} value={index}>
+            {mapping?.hasHeader ? name : `Column ${index + 1}`}
+            {sample[index] ? ` (e.g. ${sample[index]})` : ''}
+          </MenuItem>
+        ))}
+      </Select>
+    </FormControl>
+  );
+
+  const selectedCount = selected.filter(Boolean).length;
+  const duplicateCount = duplicates.filter(Boolean).length;
+  const hasIncome = transactions.some((transaction, index) => selected[index] && transaction.type === 'income');
+  const hasExpenses = transactions.some((transaction, index) => selected[index] && transaction.type === 'expense');
+
+  return (
+    <Box>
+      <Stepper activeStep={step} sx={{ mb: 3 }}>
+        {steps.map(label => (
+          <Step key={label}>
+            <StepLabel>{label}</StepLabel>
+          </Step>
+        ))}
+      </Stepper>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {success && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setSuccess(null)}>
+          {success}
+        </Alert>
+      )}
+
+      {step === 0 && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, maxWidth: 480 }}>
+          <FormControl fullWidth>
+            <InputLabel>Bank Profile</InputLabel>
+            <Select value={profileId} label="Bank Profile" onChange={(e) => setProfileId(e.target.value)}>
+              <MenuItem value="">
+                <em>New layout</em>
+              </MenuItem>
+              {profiles.map(item => (
+                <MenuItem key={item.id} value={item.id}>{item.name}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Button variant="contained" component="label" startIcon={<UploadIcon />}>
+            Choose File
+            <input type="file" hidden accept=".csv,.ofx,.qfx,.qif,text/csv" onChange={handleFile} />
+          </Button>
+          <Typography variant="body2" color="text.secondary">
+            Download transactions from your bank&apos;s website as CSV, OFX, QFX (Quicken) or QIF.
+            For CSV files, saved profiles remember how each bank lays out its columns.
+          </Typography>
+        </Box>
+      )}
+
+      {step === 1 && mapping && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2" color="text.secondary">
+            {fileName}: {rows.length - (mapping.hasHeader ? 1 : 0)} rows
+          </Typography>
+
+          <FormControlLabel
+            control={<Switch checked={mapping.hasHeader} onChange={(e) => updateMapping({ hasHeader: e.target.checked })} />}
+            label="First row is a header"
+          />
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+            {columnSelect('Date Column', mapping.date, (date) => updateMapping({ date }))}
+            <FormControl fullWidth size="small">
+              <InputLabel>Date Format</InputLabel>
+              <Select
+                value={mapping.dateFormat}
+                label="Date Format"
+                onChange={(e) => updateMapping({ dateFormat: e.target.value as CsvDateFormat })}
+              >
+                {Object.entries(csvDateFormats).map(([value, label]) => (
+                  <MenuItem key={value} value={value}>{label}</MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            {columnSelect('Description Column', mapping.description, (description) => updateMapping({ description }), true)}
+          </Box>
+
+          <FormControl>
+            <FormLabel>Amounts</FormLabel>
+            <RadioGroup
+              row
+              value={mapping.amountMode}
+              onChange={(e) => updateMapping({ amountMode: e.target.value as CsvColumnMapping['amountMode'] })}
+            >
+              <FormControlLabel value="single" control={<Radio />} label="One amount column" />
+              <FormControlLabel value="split" control={<Radio />} label="Separate debit and credit columns" />
+            </RadioGroup>
+          </FormControl>
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+            {mapping.amountMode === 'single' ? (
+              columnSelect('Amount Column', mapping.amount, (amount) => updateMapping({ amount }))
+            ) : (
+              <>
+                {columnSelect('Debit (Money Out) Column', mapping.debit, (debit) => updateMapping({ debit }), true)}
+                {columnSelect('Credit (Money In) Column', mapping.credit, (credit) => updateMapping({ credit }), true)}
+              </>
+            )}
+            <FormControl fullWidth size="small">
+              <InputLabel>Decimal Separator</InputLabel>
+              <Select
+                value={mapping.decimalSeparator}
+                label="Decimal Separator"
+                onChange={(e) => updateMapping({ decimalSeparator: e.target.value as CsvColumnMapping['decimalSeparator'] })}
+              >
+                <MenuItem value=".">Point (1,234.56)</MenuItem>
+                <MenuItem value=",">Comma (1.234,56)</MenuItem>
+              </Select>
+            </FormControl>
+          </Box>
+
+          <FormControlLabel
+            control={<Switch checked={mapping.invertAmounts} onChange={(e) => updateMapping({ invertAmounts: e.target.checked })} />}
+            label="Money out is shown as positive"
+          />
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '2fr 1fr' }, gap: 2 }}>
+            <AccountSelect value={accountId} onChange={handleAccountChange} label="Import Into Account" />
+            <CurrencySelect value={currency} onChange={setCurrency} />
+          </Box>
+
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <FormControlLabel
+              control={<Checkbox checked={rememberProfile} onChange={(e) => setRememberProfile(e.target.checked)} />}
+              label="Remember this layout as"
+            />
+            <TextField
+              size="small"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              disabled={!rememberProfile}
+              placeholder="Bank profile name"
+            />
+          </Box>
+
+          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+            <Button onClick={() => setStep(0)} disabled={working}>Back</Button>
+            <Button variant="contained" onClick={handleReview} disabled={working}>
+              {working ? 'Checking...' : 'Preview'}
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {step === 2 && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <Typography variant="body2">
+            {transactions.length} transactions found, {duplicateCount} already recorded. {selectedCount} selected to import.
+          </Typography>
+
+          {fileFormat !== 'csv' && (
+            <>
+              {fileFormat === 'ofx' && ofxStatements.length > 1 && (
+                <FormControl fullWidth size="small">
+                  <InputLabel>Statement</InputLabel>
+                  <Select
+                    value={statementIndex}
+                    label="Statement"
+                    onChange={(e) => runReview(() => reviewOfxStatement(ofxStatements, Number(e.target.value)))}
+                  >
+                    {ofxStatements.map((statement, index) => (
+                      <MenuItem key={index} value={index}>
+                        {describeBankAccount(statement.bankAccount) || `Statement ${index + 1}`} ({statement.transactions.length} transactions)
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+              )}
+              {fileFormat === 'qif' && (
+                <FormControlLabel
+                  control={
+                    <Switch
+                      checked={qifDayFirst}
+                      onChange={(e) => {
+                        setQifDayFirst(e.target.checked);
+                        runReview(() => reviewQif(fileText, currency, e.target.checked));
+                      }}
+                    />
+                  }
+                  label="Dates have the day first (DD/MM/YY)"
+                />
+              )}
+              {transactions[0]?.bankAccount && (
+                <Typography variant="body2" color="text.secondary">
+                  From {describeBankAccount(transactions[0].bankAccount)}
+                </Typography>
+              )}
+              <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '2fr 1fr' }, gap: 2 }}>
+                <AccountSelect value={accountId} onChange={setAccountId} label="Import Into Account" />
+                <CurrencySelect
+                  value={currency}
+                  onChange={(code) => {
+                    setCurrency(code);
+                    if (fileFormat === 'qif') runReview(() => reviewQif(fileText, code, qifDayFirst));
+                  }}
+                />
+              </Box>
+            </>
+          )}
+
+          {rowErrors.length > 0 && (
+            <Alert severity="warning">
+              {rowErrors.slice(0, MAX_LISTED_ERRORS).map(message => (
+                <div key={message}>{message}</div>
+              ))}
+              {rowErrors.length > MAX_LISTED_ERRORS && (
+                <div>...and {rowErrors.length - MAX_LISTED_ERRORS} more rows that could not be read</div>
+              )}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'grid', gridTemplateColumns: { xs: '1fr', md: '1fr 1fr' }, gap: 2 }}>
+            <CategorySelect
+              kind="expense"
+              value={expenseCategory}
+              onChange={setExpenseCategory}
+              label="Category for Money Out"
+              disabled={!hasExpenses}
+            />
+            <CategorySelect
+              kind="income"
+              value={incomeCategory}
+              onChange={setIncomeCategory}
+              label="Category for Money In"
+              disabled={!hasIncome}
+            />
+          </Box>
+
+          <ImportPreview
+            transactions={transactions}
+            duplicates={duplicates}
+            selected={selected}
+            onToggle={(index) => setSelected(current => current.map((value, i) => i === index ? !value : value))}
+            onToggleAll={(checked) => setSelected(transactions.map(() => checked))}
+            currency={currency}
+          />
+
+          <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+            <Button onClick={() => setStep(fileFormat === 'csv' ? 1 : 0)} disabled={working}>Back</Button>
+            <Button variant="contained" onClick={handleImport} disabled={working || selectedCount === 0}>
+              {working ? 'Importing...' : `Import ${selectedCount} Transactions`}
+            </Button>
+          </Box>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+export default ImportWizard;
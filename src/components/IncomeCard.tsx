@@ -12,13 +12,16 @@ import {
   useTheme
 } from '@mui/material';
 import { MoreVert as MoreVertIcon } from '@mui/icons-material';
-import { Income } from '@/firebase/services';
+import { Income, deleteIncome } from '@/firebase/services';
+import { formatMoney, money } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import BaseAmountCaption from './BaseAmountCaption';
 
 interface IncomeCardProps {
   income: Income;
   onEdit: (income: Income) => void;
   onStatusChange: (id: string, status: 'received' | 'pending') => void;
-  onDelete: (id: string) => void;
+  onDelete: (id: string, deletionId: string, message: string) => void;
 }
 
 const IncomeCard: React.FC<IncomeCardProps> = ({ income, onEdit, onStatusChange, onDelete }) => {
@@ -33,11 +36,20 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, onEdit, onStatusChange,
     setAnchorEl(null);
   };
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD'
-    }).format(amount);
+  const handleDelete = async () => {
+    handleMenuClose();
+    if (!income.id) return;
+    
+    try {
+      const deletionId = await deleteIncome(income.id);
+      onDelete(income.id, deletionId, 'Income moved to trash');
+    } catch (error) {
+      console.error('Error deleting income:', error);
+    }
+  };
+
+  const formatCurrency = (cents: number): string => {
+    return formatMoney(money(cents, getRecordCurrency(income)));
   };
 
   const getMonthName = (month: number): string => {
@@ -68,9 +80,12 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, onEdit, onStatusChange,
             </Typography>
           </Box>
           <Box sx={{ display: 'flex', alignItems: 'center' }}>
-            <Typography variant="h5" component="div" color="primary.main" sx={{ mr: 1 }}>
-              {formatCurrency(income.amount)}
-            </Typography>
+            <Box sx={{ mr: 1, textAlign: 'right' }}>
+              <Typography variant="h5" component="div" color="primary.main">
+                {formatCurrency(income.amount)}
+              </Typography>
+              <BaseAmountCaption amount={income.amount} currency={income.currency} date={income.expectedDate} />
+            </Box>
             <IconButton
               onClick={handleMenuOpen}
               size="small"
@@ -117,12 +132,7 @@ const IncomeCard: React.FC<IncomeCardProps> = ({ income, onEdit, onStatusChange,
         }}>
           Mark as {income.isPaid ? 'Pending' : 'Received'}
         </MenuItem>
-        <MenuItem onClick={() => {
-          if (income.id) {
-            onDelete(income.id);
-            handleMenuClose();
-          }
-        }}>
+        <MenuItem onClick={handleDelete}>
           Delete
         </MenuItem>
       </Menu>
@@ -1,12 +1,13 @@
 'use client';
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,
   Typography,
   CircularProgress
 } from '@mui/material';
 import IncomeCard from './IncomeCard';
+import UndoSnackbar from './UndoSnackbar';
 import { Income } from '@/firebase/services';
 
 interface IncomeCardListProps {
@@ -14,14 +15,33 @@ interface IncomeCardListProps {
   onEdit: (income: Income) => void;
   onStatusChange: (id: string, status: 'received' | 'pending') => void;
   onDelete: (id: string) => void;
+  onRestore?: () => void;  // Called after a delete is undone
   loading?: boolean;
 }
 
-const IncomeCardList: React.FC<IncomeCardListProps> = ({ incomes, onEdit, onStatusChange, onDelete, loading = false }) => {
+const IncomeCardList: React.FC<IncomeCardListProps> = ({ incomes, onEdit, onStatusChange, onDelete, onRestore, loading = false }) => {
+  const [lastDeletion, setLastDeletion] = useState<{ deletionId: string; message: string } | null>(null);
+
+  const handleDelete = (id: string, deletionId: string, message: string) => {
+    onDelete(id);
+    setLastDeletion({ deletionId, message });
+  };
+
+  // Rendered whatever the list shows, since the deleted card is already gone
+  const undoSnackbar = (
+    <UndoSnackbar
+      deletionId={lastDeletion?.deletionId || null}
+      message={lastDeletion?.message || ''}
+      onClose={() => setLastDeletion(null)}
+      onRestored={() => onRestore?.()}
+    />
+  );
+
   if (loading) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight={200}>
         <CircularProgress />
+        {undoSnackbar}
       </Box>
     );
   }
@@ -32,6 +52,7 @@ const IncomeCardList: React.FC<IncomeCardListProps> = ({ incomes, onEdit, onStat
         <Typography variant="body1" color="text.secondary">
           No income found
         </Typography>
+        {undoSnackbar}
       </Box>
     );
   }
@@ -44,9 +65,10 @@ const IncomeCardList: React.FC<IncomeCardListProps> = ({ incomes, onEdit, onStat
           income={income}
           onEdit={onEdit}
           onStatusChange={onStatusChange}
-          onDelete={onDelete}
+          onDelete={handleDelete}
         />
       ))}
+      {undoSnackbar}
     </Box>
   );
 };
@@ -22,7 +22,21 @@ import {
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
-import { addOrUpdateIncome, createRecurringIncome, Income } from '@/firebase/services';
+import {
+  addOrUpdateIncome,
+  createRecurringIncome,
+  Income,
+  RecurringSeriesChanges,
+  SeriesScope,
+  updateSeriesFromOccurrence
+} from '@/firebase/services';
+import { frequencyLabels, RecurringFrequency } from '@/utils/recurrence';
+import { getCurrencySymbol, money, parseMoney, toInputValue } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import { useCurrency } from '@/context/CurrencyContext';
+import SeriesScopeSelector from './SeriesScopeSelector';
+import CurrencySelect from './CurrencySelect';
+import AccountSelect from './AccountSelect';
 import { Add as AddIcon } from '@mui/icons-material';
 
 // Helper to get month name
@@ -45,27 +59,36 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
   const currentMonth = new Date().getMonth() + 1;
   const currentYear = new Date().getFullYear();
   const today = new Date();
+  const { baseCurrency } = useCurrency();
   
   const [formData, setFormData] = useState({
     source: '',
     amount: '',
+    currency: baseCurrency,
+    accountId: '',
     month: currentMonth,
     year: currentYear,
     recurring: false,
-    frequency: 'monthly' as 'weekly' | 'biweekly' | 'monthly' | 'once',
+    frequency: 'monthly' as RecurringFrequency,
     description: '',
     isPaid: false,
     startDate: today,
-    endDate: new Date(currentYear, 11, 31), // Default to end of year
+    endDate: null as Date | null, // No end date keeps the series going
     expectedDate: today
   });
   
+  const [editScope, setEditScope] = useState<SeriesScope>('single');
+  
   // Effect to update form when initialIncome changes
   React.useEffect(() => {
+    setEditScope('single');
+    
     if (initialIncome) {
       setFormData({
         source: initialIncome.source || '',
-        amount: String(initialIncome.amount) || '',
+        amount: toInputValue(money(initialIncome.amount, getRecordCurrency(initialIncome))),
+        currency: getRecordCurrency(initialIncome),
+        accountId: initialIncome.accountId || '',
         month: initialIncome.month || currentMonth,
         year: initialIncome.year || currentYear,
         recurring: initialIncome.recurring || false,
@@ -81,12 +104,16 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
           ? initialIncome.endDate 
           : initialIncome.endDate 
             ? initialIncome.endDate.toDate() 
-            : new Date(currentYear, 11, 31),
-        expectedDate: initialIncome.startDate instanceof Date 
-          ? initialIncome.startDate 
-          : initialIncome.startDate 
-            ? initialIncome.startDate.toDate() 
-            : today
+            : null,
+        expectedDate: initialIncome.expectedDate
+          ? initialIncome.expectedDate instanceof Date
+            ? initialIncome.expectedDate
+            : initialIncome.expectedDate.toDate()
+          : initialIncome.startDate instanceof Date 
+            ? initialIncome.startDate 
+            : initialIncome.startDate 
+              ? initialIncome.startDate.toDate() 
+              : today
       });
     }
   }, [initialIncome, currentMonth, currentYear]);
@@ -96,6 +123,8 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
     setFormData({
       source: '',
       amount: '',
+      currency: baseCurrency,
+      accountId: '',
       month: currentMonth,
       year: currentYear,
       recurring: false,
@@ -103,7 +132,7 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
       description: '',
       isPaid: false,
       startDate: today,
-      endDate: new Date(currentYear, 11, 31),
+      endDate: null,
       expectedDate: today
     });
   };
@@ -124,7 +153,6 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
     if (formData.recurring) {
       if (!formData.frequency) newErrors.frequency = 'Frequency is required for recurring income';
       if (!formData.startDate) newErrors.startDate = 'Start date is required';
-      if (!formData.endDate) newErrors.endDate = 'End date is required';
       
       if (formData.startDate && formData.endDate && formData.startDate > formData.endDate) {
         newErrors.endDate = 'End date must be after start date';
@@ -160,7 +188,13 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
   };
   
   const handleDateChange = (name: string) => (date: Date | null) => {
-    if (date) {
+    if (name === 'endDate') {
+      // Clearing the end date leaves the series open-ended
+      setFormData({
+        ...formData,
+        endDate: date
+      });
+    } else if (date) {
       if (name === 'expectedDate') {
         const today = new Date();
         today.setHours(0, 0, 0, 0); // Reset time to midnight for accurate comparison
@@ -191,24 +225,32 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
       
       if (formData.recurring) {
         // Handle recurring income
-        const startMonth = formData.startDate.getMonth() + 1;
-        const startYear = formData.startDate.getFullYear();
-        const endMonth = formData.endDate.getMonth() + 1;
-        const endYear = formData.endDate.getFullYear();
-        
         // Create template income without month/year
         const incomeTemplate = {
           source: formData.source,
-          amount: Number(formData.amount),
+          amount: parseMoney(formData.amount, formData.currency).cents,
+          currency: formData.currency,
+          accountId: formData.accountId || null,
           recurring: formData.recurring,
           frequency: formData.frequency,
           description: formData.description,
           isPaid: formData.isPaid,
           startDate: formData.startDate,
-          endDate: formData.endDate
+          ...(formData.endDate ? { endDate: formData.endDate } : {})
         };
         
-        if (initialIncome?.id) {
+        if (initialIncome?.seriesId && editScope !== 'single') {
+          // Apply only the fields that changed to the selected part of the series
+          const changes: RecurringSeriesChanges = {};
+          if (incomeTemplate.amount !== initialIncome.amount) changes.amount = incomeTemplate.amount;
+          if (incomeTemplate.currency !== getRecordCurrency(initialIncome)) changes.currency = incomeTemplate.currency;
+          if (incomeTemplate.accountId !== (initialIncome.accountId || null)) changes.accountId = incomeTemplate.accountId;
+          if (incomeTemplate.source !== initialIncome.source) changes.source = incomeTemplate.source;
+          if (incomeTemplate.description !== (initialIncome.description || '')) changes.description = incomeTemplate.description;
+          if (incomeTemplate.isPaid !== Boolean(initialIncome.isPaid)) changes.isPaid = incomeTemplate.isPaid;
+          
+          await updateSeriesFromOccurrence(initialIncome, editScope, changes);
+        } else if (initialIncome?.id) {
           // Update existing income
           await addOrUpdateIncome({
             ...incomeTemplate,
@@ -217,13 +259,16 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
           }, initialIncome.id);
         } else {
           // Create new recurring income
-          await createRecurringIncome(incomeTemplate, startMonth, startYear, endMonth, endYear);
+          // The expected payment date anchors the pay schedule (e.g. every other Friday)
+          await createRecurringIncome(incomeTemplate, formData.expectedDate);
         }
       } else {
         // Handle single income
         await addOrUpdateIncome({
           source: formData.source,
-          amount: Number(formData.amount),
+          amount: parseMoney(formData.amount, formData.currency).cents,
+          currency: formData.currency,
+          accountId: formData.accountId || null,
           month: Number(formData.month),
           year: Number(formData.year),
           recurring: false,
@@ -284,21 +329,36 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
               }}
             />
             
-            <TextField
-              fullWidth
-              label="Amount"
-              name="amount"
-              type="number"
-              value={formData.amount}
-              onChange={handleInputChange}
-              error={!!errors.amount}
-              helperText={errors.amount}
-              required
-              variant="outlined"
-              InputProps={{
-                startAdornment: <InputAdornment position="start">$</InputAdornment>,
-                sx: { borderRadius: 2 }
-              }}
+            <Box sx={{ display: 'flex', gap: 2 }}>
+              <TextField
+                fullWidth
+                label="Amount"
+                name="amount"
+                type="number"
+                value={formData.amount}
+                onChange={handleInputChange}
+                error={!!errors.amount}
+                helperText={errors.amount}
+                required
+                variant="outlined"
+                InputProps={{
+                  startAdornment: <InputAdornment position="start">{getCurrencySymbol(formData.currency)}</InputAdornment>,
+                  sx: { borderRadius: 2 }
+                }}
+              />
+              
+              <Box sx={{ width: 140, flexShrink: 0 }}>
+                <CurrencySelect
+                  value={formData.currency}
+                  onChange={(currency) => setFormData(prev => ({ ...prev, currency }))}
+                />
+              </Box>
+            </Box>
+            
+            <AccountSelect
+              label="Deposited To"
+              value={formData.accountId}
+              onChange={(accountId) => setFormData(prev => ({ ...prev, accountId }))}
             />
             
             <Box>
@@ -343,10 +403,9 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
                       onChange={handleSelectChange}
                       sx={{ borderRadius: 2 }}
                     >
-                      <MenuItem value="weekly">Weekly</MenuItem>
-                      <MenuItem value="biweekly">Bi-Weekly</MenuItem>
-                      <MenuItem value="monthly">Monthly</MenuItem>
-                      <MenuItem value="once">One Time</MenuItem>
+                      {Object.entries(frequencyLabels).map(([value, label]) => (
+                        <MenuItem key={value} value={value}>{label}</MenuItem>
+                      ))}
                     </Select>
                     {errors.frequency && <FormHelperText>{errors.frequency}</FormHelperText>}
                   </FormControl>
@@ -380,11 +439,12 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
                       value={formData.endDate}
                       onChange={handleDateChange('endDate')}
                       slotProps={{
+                        field: { clearable: true },
                         textField: {
                           fullWidth: true,
                           variant: "outlined",
                           error: !!errors.endDate,
-                          helperText: errors.endDate,
+                          helperText: errors.endDate || 'Leave empty to keep it going',
                           sx: { '& .MuiOutlinedInput-root': { borderRadius: 2 } }
                         }
                       }}
@@ -451,6 +511,15 @@ const IncomeForm: React.FC<IncomeFormProps> = ({ onSuccess, initialIncome }) =>
             }}
           />
           
+          {initialIncome?.seriesId && formData.recurring && (
+            <SeriesScopeSelector
+              item={initialIncome}
+              scope={editScope}
+              onChange={setEditScope}
+              disabled={loading}
+            />
+          )}
+          
           <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
             <Button 
               type="submit" 
@@ -13,10 +13,15 @@ import {
   Typography,
   Select,
   SelectChangeEvent,
+  Chip,
   Box
 } from '@mui/material';
-import { MoreVert as MoreVertIcon } from '@mui/icons-material';
+import { MoreVert as MoreVertIcon, CloudSync as PendingSyncIcon } from '@mui/icons-material';
 import { Income, addOrUpdateIncome } from '@/firebase/services';
+import { useSync } from '@/context/SyncContext';
+import { formatMoney, money } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import BaseAmountCaption from './BaseAmountCaption';
 
 // Helper to get month name
 const getMonthName = (month: number): string => {
@@ -31,6 +36,7 @@ interface IncomeTableProps {
 }
 
 const IncomeTable: React.FC<IncomeTableProps> = ({ incomes, onEdit, onDelete, onStatusChange }) => {
+  const { pendingRecordIds } = useSync();
   const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
   const [selectedIncome, setSelectedIncome] = useState<Income | null>(null);
 
@@ -81,11 +87,25 @@ const IncomeTable: React.FC<IncomeTableProps> = ({ incomes, onEdit, onDelete, on
             <TableBody>
               {incomes.map((income) => (
                 <TableRow key={income.id || 'unknown'}>
-                  <TableCell>{income.source}</TableCell>
+                  <TableCell>
+                    {income.source}
+                    {/* Saved on this device while offline, not yet synced */}
+                    {income.id && pendingRecordIds.has(income.id) && (
+                      <Chip
+                        icon={<PendingSyncIcon />}
+                        label="Pending sync"
+                        size="small"
+                        variant="outlined"
+                        color="warning"
+                        sx={{ ml: 1 }}
+                      />
+                    )}
+                  </TableCell>
                   <TableCell>
                     <Typography variant="body1" fontWeight="bold">
-                      ${income.amount.toFixed(2)}
+                      {formatMoney(money(income.amount, getRecordCurrency(income)))}
                     </Typography>
+                    <BaseAmountCaption amount={income.amount} currency={income.currency} date={income.expectedDate} />
                   </TableCell>
                   <TableCell>{getMonthName(income.month)}</TableCell>
                   <TableCell>{income.year}</TableCell>
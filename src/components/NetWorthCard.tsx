@@ -0,0 +1,109 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  CircularProgress,
+  Divider,
+  Typography
+} from '@mui/material';
+import { AccountBalanceWallet as NetWorthIcon } from '@mui/icons-material';
+import { AccountBalance, getAccountBalances } from '@/firebase/services';
+import { useCurrency } from '@/context/CurrencyContext';
+import { getRecordCurrency } from '@/utils/currency';
+import { formatMoney, money } from '@/utils/money';
+
+interface NetWorthCardProps {
+  refreshTrigger?: number;
+}
+
+const NetWorthCard: React.FC<NetWorthCardProps> = ({ refreshTrigger = 0 }) => {
+  const { baseCurrency } = useCurrency();
+  const [balances, setBalances] = useState<AccountBalance[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+
+    getAccountBalances()
+      .then(items => {
+        if (cancelled) return;
+        setBalances(items);
+        setError(null);
+      })
+      .catch(err => {
+        console.error('Error loading account balances:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load accounts');
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [refreshTrigger, baseCurrency]);
+
+  const formatBase = (cents: number) => formatMoney(money(cents, baseCurrency));
+  const converted = balances.filter(item => item.baseBalance !== null);
+  const assets = converted.filter(item => item.baseBalance! > 0).reduce((sum, item) => sum + item.baseBalance!, 0);
+  const liabilities = converted.filter(item => item.baseBalance! < 0).reduce((sum, item) => sum + item.baseBalance!, 0);
+  const netWorth = assets + liabilities;
+
+  return (
+    <Card sx={{ mb: 3, borderLeft: '4px solid', borderColor: 'secondary.main', boxShadow: 2 }}>
+      <CardContent>
+        <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+          <Typography color="textSecondary" variant="subtitle2">
+            Net Worth
+          </Typography>
+          <NetWorthIcon color="secondary" fontSize="small" />
+        </Box>
+
+        {loading ? (
+          <CircularProgress size={24} />
+        ) : error ? (
+          <Typography variant="body2" color="error">{error}</Typography>
+        ) : balances.length === 0 ? (
+          <Box>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+              Add your accounts to track balances and net worth.
+            </Typography>
+            <Button component={Link} href="/dashboard/accounts" size="small" variant="outlined">
+              Add Accounts
+            </Button>
+          </Box>
+        ) : (
+          <>
+            <Typography variant="h5" sx={{ fontWeight: 'bold', color: netWorth >= 0 ? 'success.main' : 'error.main' }}>
+              {formatBase(netWorth)}
+            </Typography>
+            <Typography variant="body2" color="textSecondary">
+              Assets {formatBase(assets)} • Debts {formatBase(Math.abs(liabilities))}
+            </Typography>
+
+            <Divider sx={{ my: 1.5 }} />
+
+            {balances.map(({ account, balance, baseBalance }) => (
+              <Box key={account.id} sx={{ display: 'flex', justifyContent: 'space-between', mb: 0.5 }}>
+                <Typography variant="body2">{account.name}</Typography>
+                <Typography variant="body2" color={balance < 0 ? 'error.main' : 'text.primary'}>
+                  {formatMoney(money(balance, getRecordCurrency(account)))}
+                  {baseBalance === null && ' (no exchange rate)'}
+                </Typography>
+              </Box>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NetWorthCard;
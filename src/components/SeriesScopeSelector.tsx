@@ -0,0 +1,69 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  Radio,
+  RadioGroup,
+  Typography
+} from '@mui/material';
+import { countSeriesScope, Expense, Income, SeriesScope, SeriesScopeCount } from '@/firebase/services';
+
+interface SeriesScopeSelectorProps {
+  item: Income | Expense;
+  scope: SeriesScope;
+  onChange: (scope: SeriesScope) => void;
+  disabled?: boolean;
+}
+
+const SeriesScopeSelector: React.FC<SeriesScopeSelectorProps> = ({ item, scope, onChange, disabled = false }) => {
+  const [affectedCount, setAffectedCount] = useState<SeriesScopeCount | null>(null);
+
+  // Preview how many records the selected scope will change
+  useEffect(() => {
+    let cancelled = false;
+    setAffectedCount(null);
+
+    countSeriesScope(item, scope)
+      .then(count => {
+        if (!cancelled) setAffectedCount(count);
+      })
+      .catch(error => {
+        console.error('Error counting affected records:', error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [item, scope]);
+
+  return (
+    <Box sx={{ mb: 2 }}>
+      <FormControl component="fieldset" disabled={disabled}>
+        <FormLabel component="legend">Apply changes to</FormLabel>
+        <RadioGroup
+          value={scope}
+          onChange={(e) => onChange(e.target.value as SeriesScope)}
+        >
+          <FormControlLabel value="single" control={<Radio size="small" />} label="This occurrence only" />
+          <FormControlLabel value="future" control={<Radio size="small" />} label="This and all future occurrences" />
+          <FormControlLabel value="all" control={<Radio size="small" />} label="All occurrences in the series" />
+        </RadioGroup>
+      </FormControl>
+      <Typography variant="body2" color="text.secondary">
+        {affectedCount === null
+          ? 'Counting affected records...'
+          : affectedCount.openEnded
+            ? `${affectedCount.count} ${affectedCount.count === 1 ? 'record' : 'records'} so far and every later occurrence will be updated`
+            : `${affectedCount.count} ${affectedCount.count === 1 ? 'record' : 'records'} will be updated`}
+        {affectedCount !== null && affectedCount.reconciled > 0
+          && ` (${affectedCount.reconciled} reconciled ${affectedCount.reconciled === 1 ? 'record is' : 'records are'} left as ${affectedCount.reconciled === 1 ? 'it is' : 'they are'})`}
+      </Typography>
+    </Box>
+  );
+};
+
+export default SeriesScopeSelector;
@@ -5,7 +5,9 @@ import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import {
   AppBar,
+  Badge,
   Box,
+  Chip,
   CssBaseline,
   Divider,
   Drawer,
@@ -15,7 +17,10 @@ import {
   ListItemButton,
   ListItemIcon,
   ListItemText,
+  MenuItem,
+  Select,
   Toolbar,
+  Tooltip,
   Typography,
   useMediaQuery,
   Avatar
@@ -25,10 +30,24 @@ import {
   Dashboard as DashboardIcon,
   MonetizationOn as IncomeIcon,
   ShoppingCart as ExpenseIcon,
+  Savings as BudgetIcon,
+  ReceiptLong as TransactionIcon,
+  AccountBalance as AccountIcon,
+  FactCheck as ReconcileIcon,
+  UploadFile as ImportIcon,
+  DeleteOutline as TrashIcon,
   Settings as SettingsIcon,
-  Logout as LogoutIcon
+  Logout as LogoutIcon,
+  Visibility as ViewOnlyIcon,
+  CloudOff as OfflineIcon,
+  CloudSync as PendingSyncIcon,
+  SyncProblem as FailedSyncIcon
 } from '@mui/icons-material';
 import { useAuth } from '@/context/AuthContext';
+import { useHousehold } from '@/context/HouseholdContext';
+import { useSync } from '@/context/SyncContext';
+import { getInitials } from '@/utils/profile';
+import FailedSyncDialog from './FailedSyncDialog';
 import { useTheme as useMuiTheme } from '@mui/material/styles';
 import dynamic from 'next/dynamic';
 
@@ -52,13 +71,22 @@ export default function SidebarLayout({ children, title }: SidebarLayoutProps) {
   const theme = useMuiTheme();
   const router = useRouter();
   const { user, logOut } = useAuth();
+  const { households, activeHouseholdId, canEdit, loading: householdLoading, switchHousehold } = useHousehold();
+  const { online, pendingRecordIds, failedWrites, syncing, syncNow } = useSync();
   const isMobile = useMediaQuery(theme.breakpoints.down('md'));
   const [mobileOpen, setMobileOpen] = useState(false);
+  const [failedSyncOpen, setFailedSyncOpen] = useState(false);
 
   const navItems: NavItem[] = [
     { text: 'Dashboard', icon: <DashboardIcon />, path: '/dashboard' },
     { text: 'Income', icon: <IncomeIcon />, path: '/dashboard/income' },
     { text: 'Expenses', icon: <ExpenseIcon />, path: '/dashboard/expenses' },
+    { text: 'Transactions', icon: <TransactionIcon />, path: '/dashboard/transactions' },
+    { text: 'Import', icon: <ImportIcon />, path: '/dashboard/import' },
+    { text: 'Accounts', icon: <AccountIcon />, path: '/dashboard/accounts' },
+    { text: 'Reconcile', icon: <ReconcileIcon />, path: '/dashboard/reconcile' },
+    { text: 'Budgets', icon: <BudgetIcon />, path: '/dashboard/budgets' },
+    { text: 'Trash', icon: <TrashIcon />, path: '/dashboard/trash' },
     { text: 'Settings', icon: <SettingsIcon />, path: '/dashboard/settings' },
   ];
 
@@ -82,11 +110,28 @@ export default function SidebarLayout({ children, title }: SidebarLayoutProps) {
             bgcolor: theme.palette.primary.main
           }}
         >
-          {user?.displayName ? user.displayName[0].toUpperCase() : user?.email?.[0].toUpperCase()}
+          {getInitials(user?.displayName, user?.email)}
         </Avatar>
         <Typography variant="h6" noWrap component="div">
           {user?.displayName ? user.displayName.split(' ')[0] : user?.email?.split('@')[0]}
         </Typography>
+        {/* Members of several households pick which budget they are working in */}
+        {households.length > 1 && activeHouseholdId && (
+          <Select
+            size="small"
+            fullWidth
+            value={activeHouseholdId}
+            onChange={(e) => switchHousehold(e.target.value)}
+            inputProps={{ 'aria-label': 'Household' }}
+            sx={{ mt: 1 }}
+          >
+            {households.map(household => (
+              <MenuItem key={household.id} value={household.id}>
+                {household.name}
+              </MenuItem>
+            ))}
+          </Select>
+        )}
       </Box>
       <Divider />
       <List>
@@ -149,6 +194,44 @@ export default function SidebarLayout({ children, title }: SidebarLayoutProps) {
               {title}
             </Typography>
           </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            {/* Changes made offline wait on this device until they can be saved */}
+            {(!online || pendingRecordIds.size > 0) && (
+              <Tooltip
+                title={online
+                  ? 'Changes made offline are being saved'
+                  : 'You are offline. Changes are saved on this device and synced when you reconnect.'}
+              >
+                <Badge badgeContent={pendingRecordIds.size} color="warning">
+                  <Chip
+                    icon={online ? <PendingSyncIcon /> : <OfflineIcon />}
+                    label={online ? (syncing ? 'Syncing' : 'Pending sync') : 'Offline'}
+                    size="small"
+                    variant="outlined"
+                    onClick={online && !syncing ? syncNow : undefined}
+                  />
+                </Badge>
+              </Tooltip>
+            )}
+            {/* Offline changes that were rejected stay here until they are retried or discarded */}
+            {failedWrites.length > 0 && (
+              <Tooltip title="Some changes made offline could not be saved">
+                <Badge badgeContent={failedWrites.length} color="error">
+                  <Chip
+                    icon={<FailedSyncIcon />}
+                    label="Sync failed"
+                    size="small"
+                    variant="outlined"
+                    color="error"
+                    onClick={() => setFailedSyncOpen(true)}
+                  />
+                </Badge>
+              </Tooltip>
+            )}
+            {!canEdit && !householdLoading && (
+              <Chip icon={<ViewOnlyIcon />} label="View only" size="small" variant="outlined" />
+            )}
+          </Box>
         </Toolbar>
       </AppBar>
       <Box
@@ -203,6 +286,7 @@ export default function SidebarLayout({ children, title }: SidebarLayoutProps) {
         <Toolbar />
         {children}
       </Box>
+      <FailedSyncDialog open={failedSyncOpen} onClose={() => setFailedSyncOpen(false)} />
       {/* PWA Install Prompt */}
       <PWAInstallPrompt />
     </Box>
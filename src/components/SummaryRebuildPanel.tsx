@@ -0,0 +1,73 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Typography
+} from '@mui/material';
+import { Calculate as CalculateIcon } from '@mui/icons-material';
+import { rebuildAllSummaries } from '@/firebase/services';
+
+const SummaryRebuildPanel: React.FC = () => {
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const handleRebuild = async () => {
+    try {
+      setWorking(true);
+      setError(null);
+      setNotice(null);
+      const months = await rebuildAllSummaries((done, total) => setProgress({ done, total }));
+      setNotice(`Recalculated the summaries for ${months} months`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to rebuild the summaries');
+    } finally {
+      setWorking(false);
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Box>
+      <Typography variant="h6" sx={{ mb: 1 }}>
+        Monthly Summaries
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Summaries are kept up to date as records change. If the dashboard says a month may be out of date,
+        or totals look wrong, recalculate every month&apos;s summary from its records.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+        <Button variant="outlined" startIcon={<CalculateIcon />} onClick={handleRebuild} disabled={working}>
+          Rebuild All Summaries
+        </Button>
+        {working && (
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+            <CircularProgress size={20} />
+            <Typography variant="body2">
+              {progress ? `${progress.done} of ${progress.total} months` : 'Finding months...'}
+            </Typography>
+          </Box>
+        )}
+      </Box>
+    </Box>
+  );
+};
+
+export default SummaryRebuildPanel;
@@ -1,75 +1,180 @@
 'use client';
 
-import React, { useState } from 'react';
-import { 
-  Box, 
-  TextField, 
-  Button, 
-  FormControl, 
-  InputLabel, 
-  Select, 
-  MenuItem, 
-  SelectChangeEvent,
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Box,
+  TextField,
+  Button,
+  FormControl,
   FormHelperText,
+  InputAdornment,
+  InputLabel,
+  Select,
+  MenuItem,
+  SelectChangeEvent,
   Alert
 } from '@mui/material';
 import { DatePicker } from '@mui/x-date-pickers/DatePicker';
 import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
 import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
-import { addTransaction } from '@/firebase/services';
+import {
+  addTransaction,
+  updateTransaction,
+  getAllMonthlyExpenses,
+  getMonthlyIncome,
+  Transaction,
+  TransactionInput
+} from '@/firebase/services';
+import CategorySelect from './CategorySelect';
+import { formatMoney, getCurrencySymbol, money, parseMoney, toInputValue } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import { useCurrency } from '@/context/CurrencyContext';
+import CurrencySelect from './CurrencySelect';
+import AccountSelect from './AccountSelect';
 
-const categories = {
-  income: ['Salary', 'Freelance', 'Investments', 'Gifts', 'Other'],
-  expense: ['Housing', 'Food', 'Transportation', 'Entertainment', 'Utilities', 'Healthcare', 'Other']
-};
+interface TransactionFormProps {
+  onSuccess?: () => void;
+  onCancel?: () => void;
+  initialTransaction?: Transaction | null;
+}
 
-export default function TransactionForm({ onSuccess }: { onSuccess?: () => void }) {
+// A planned income or expense a transaction can be linked to
+interface LinkOption {
+  id: string;
+  label: string;
+}
+
+export default function TransactionForm({ onSuccess, onCancel, initialTransaction }: TransactionFormProps) {
+  const { baseCurrency } = useCurrency();
   const [amount, setAmount] = useState<string>('');
+  const [currency, setCurrency] = useState<string>(baseCurrency);
+  const [accountId, setAccountId] = useState<string>('');
   const [description, setDescription] = useState<string>('');
   const [category, setCategory] = useState<string>('');
+  const [subcategory, setSubcategory] = useState<string>('');
   const [date, setDate] = useState<Date | null>(new Date());
   const [type, setType] = useState<'income' | 'expense'>('expense');
+  const [linkedId, setLinkedId] = useState<string>('');
+  const [linkOptions, setLinkOptions] = useState<LinkOption[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
   const [success, setSuccess] = useState<boolean>(false);
 
+  const resetForm = useCallback(() => {
+    setAmount('');
+    setCurrency(baseCurrency);
+    setAccountId('');
+    setDescription('');
+    setCategory('');
+    setSubcategory('');
+    setDate(new Date());
+    setType('expense');
+    setLinkedId('');
+  }, [baseCurrency]);
+
+  // Load the transaction being edited into the form
+  useEffect(() => {
+    if (initialTransaction) {
+      setAmount(toInputValue(money(initialTransaction.amount, getRecordCurrency(initialTransaction))));
+      setCurrency(getRecordCurrency(initialTransaction));
+      setAccountId(initialTransaction.accountId || '');
+      setDescription(initialTransaction.description);
+      setCategory(initialTransaction.category);
+      setSubcategory(initialTransaction.subcategory || '');
+      setDate(initialTransaction.date instanceof Date ? initialTransaction.date : initialTransaction.date.toDate());
+      setType(initialTransaction.type);
+      setLinkedId((initialTransaction.type === 'expense' ? initialTransaction.expenseId : initialTransaction.incomeId) || '');
+    } else {
+      resetForm();
+    }
+    setError(null);
+  }, [initialTransaction, resetForm]);
+
+  // Planned items in the transaction's month that it can be linked to
+  const linkMonth = date ? date.getMonth() + 1 : null;
+  const linkYear = date ? date.getFullYear() : null;
+
+  useEffect(() => {
+    if (!linkMonth || !linkYear) {
+      setLinkOptions([]);
+      return;
+    }
+
+    let cancelled = false;
+
+    const loadOptions = async () => {
+      try {
+        const options: LinkOption[] = type === 'expense'
+          ? (await getAllMonthlyExpenses(linkMonth, linkYear)).map(expense => ({
+              id: expense.id!,
+              label: `${expense.description || expense.subcategory || 'Expense'} (${formatMoney(money(expense.amount, getRecordCurrency(expense)))})`
+            }))
+          : (await getMonthlyIncome(linkMonth, linkYear)).map(income => ({
+              id: income.id!,
+              label: `${income.source} (${formatMoney(money(income.amount, getRecordCurrency(income)))})`
+            }));
+
+        if (!cancelled) setLinkOptions(options);
+      } catch (err) {
+        console.error('Error loading planned items:', err);
+      }
+    };
+
+    loadOptions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, linkMonth, linkYear]);
+
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    
+
     if (!amount || !description || !category || !date) {
       setError('Please fill all required fields');
       return;
     }
 
+    if (isNaN(Number(amount)) || Number(amount) <= 0) {
+      setError('Amount must be a positive number');
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
-      
-      await addTransaction({
-        amount: parseFloat(amount),
+
+      const transaction: TransactionInput = {
+        amount: parseMoney(amount, currency).cents,
+        currency,
+        ...(accountId ? { accountId } : {}),
         description,
         category,
+        ...(subcategory ? { subcategory } : {}),
         date,
-        type
-      });
-      
-      // Clear form
-      setAmount('');
-      setDescription('');
-      setCategory('');
-      setDate(new Date());
+        type,
+        ...(linkedId ? (type === 'expense' ? { expenseId: linkedId } : { incomeId: linkedId }) : {})
+      };
+
+      if (initialTransaction?.id) {
+        await updateTransaction(initialTransaction.id, transaction);
+      } else {
+        await addTransaction(transaction);
+        resetForm();
+      }
+
       setSuccess(true);
-      
+
       // Notify parent component
       if (onSuccess) {
         onSuccess();
       }
-      
+
       // Clear success message after 3 seconds
       setTimeout(() => {
         setSuccess(false);
       }, 3000);
-      
+
     } catch (err) {
       if (err instanceof Error) {
         setError(err.message);
@@ -84,8 +189,13 @@ export default function TransactionForm({ onSuccess }: { onSuccess?: () => void
   const handleTypeChange = (event: SelectChangeEvent) => {
     setType(event.target.value as 'income' | 'expense');
     setCategory(''); // Reset category when type changes
+    setSubcategory('');
+    setLinkedId('');
   };
 
+  // Keep a stale link selectable until the user changes it
+  const linkSelectable = !linkedId || linkOptions.some(option => option.id === linkedId);
+
   return (
     <Box sx={{ mb: 4 }}>
       {error && (
@@ -93,13 +203,13 @@ export default function TransactionForm({ onSuccess }: { onSuccess?: () => void
           {error}
         </Alert>
       )}
-      
+
       {success && (
         <Alert severity="success" sx={{ mb: 2 }}>
-          Transaction added successfully!
+          {initialTransaction ? 'Transaction updated successfully!' : 'Transaction added successfully!'}
         </Alert>
       )}
-      
+
       <form onSubmit={handleSubmit}>
         <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
           <FormControl fullWidth>
@@ -116,17 +226,28 @@ export default function TransactionForm({ onSuccess }: { onSuccess?: () => void
               <MenuItem value="expense">Expense</MenuItem>
             </Select>
           </FormControl>
-          
-          <TextField
-            label="Amount"
-            type="number"
-            inputProps={{ step: '0.01', min: '0' }}
-            value={amount}
-            onChange={(e) => setAmount(e.target.value)}
-            required
-            fullWidth
-          />
-          
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              label="Amount"
+              type="number"
+              inputProps={{ step: '0.01', min: '0' }}
+              InputProps={{
+                startAdornment: <InputAdornment position="start">{getCurrencySymbol(currency)}</InputAdornment>
+              }}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              required
+              fullWidth
+            />
+
+            <Box sx={{ width: 140, flexShrink: 0 }}>
+              <CurrencySelect value={currency} onChange={setCurrency} />
+            </Box>
+          </Box>
+
+          <AccountSelect value={accountId} onChange={setAccountId} />
+
           <TextField
             label="Description"
             value={description}
@@ -134,23 +255,30 @@ export default function TransactionForm({ onSuccess }: { onSuccess?: () => void
             required
             fullWidth
           />
-          
-          <FormControl fullWidth required>
-            <InputLabel id="category-label">Category</InputLabel>
-            <Select
-              labelId="category-label"
-              id="category"
-              value={category}
-              label="Category"
-              onChange={(e) => setCategory(e.target.value)}
-            >
-              {type && categories[type].map((cat) => (
-                <MenuItem key={cat} value={cat}>{cat}</MenuItem>
-              ))}
-            </Select>
-            <FormHelperText>Select a category for your {type}</FormHelperText>
-          </FormControl>
-          
+
+          <CategorySelect
+            kind={type}
+            label="Category"
+            value={category}
+            onChange={(name) => {
+              setCategory(name);
+              setSubcategory('');
+            }}
+            required
+            helperText={`Select a category for your ${type}`}
+          />
+
+          <CategorySelect
+            kind={type}
+            level="children"
+            parentName={category}
+            label="Subcategory"
+            value={subcategory}
+            onChange={setSubcategory}
+            disabled={!category}
+            allowNone
+          />
+
           <LocalizationProvider dateAdapter={AdapterDateFns}>
             <DatePicker
               label="Date"
@@ -164,18 +292,55 @@ export default function TransactionForm({ onSuccess }: { onSuccess?: () => void
               }}
             />
           </LocalizationProvider>
-          
-          <Button 
-            type="submit" 
-            variant="contained" 
-            color="primary" 
-            fullWidth
-            disabled={loading}
-          >
-            {loading ? 'Adding...' : 'Add Transaction'}
-          </Button>
+
+          <FormControl fullWidth>
+            <InputLabel id="transaction-link-label">
+              {type === 'expense' ? 'Planned Expense' : 'Planned Income'}
+            </InputLabel>
+            <Select
+              labelId="transaction-link-label"
+              value={linkedId}
+              label={type === 'expense' ? 'Planned Expense' : 'Planned Income'}
+              onChange={(e) => setLinkedId(e.target.value)}
+            >
+              <MenuItem value="">
+                <em>Not linked</em>
+              </MenuItem>
+              {!linkSelectable && (
+                <MenuItem value={linkedId}>Linked item from another month</MenuItem>
+              )}
+              {linkOptions.map(option => (
+                <MenuItem key={option.id} value={option.id}>{option.label}</MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>
+              {type === 'expense'
+                ? 'Linked payments set the expense\'s actual amount and mark it paid once covered'
+                : 'Record which planned income this payment was for'}
+            </FormHelperText>
+          </FormControl>
+
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <Button
+              type="submit"
+              variant="contained"
+              color="primary"
+              fullWidth
+              disabled={loading}
+            >
+              {loading
+                ? 'Saving...'
+                : initialTransaction ? 'Update Transaction' : 'Add Transaction'}
+            </Button>
+
+            {initialTransaction && (
+              <Button variant="outlined" disabled={loading} onClick={onCancel}>
+                Cancel
+              </Button>
+            )}
+          </Box>
         </Box>
       </form>
     </Box>
   );
-} 
\ No newline at end of file
+}
@@ -8,30 +8,67 @@ import {
   List, 
   ListItem, 
   ListItemText, 
-  Chip, 
   IconButton, 
   Divider,
   CircularProgress,
-  Alert
+  Alert,
+  Chip,
+  FormControl,
+  InputLabel,
+  Select,
+  MenuItem
 } from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
 import DeleteIcon from '@mui/icons-material/Delete';
 import EditIcon from '@mui/icons-material/Edit';
 import { format } from 'date-fns';
 import { getUserTransactions, deleteTransaction, Transaction } from '@/firebase/services';
+import { formatMoney, money } from '@/utils/money';
+import { getRecordCurrency } from '@/utils/currency';
+import { clearedStatusLabels } from '@/utils/accounts';
+import BaseAmountCaption from './BaseAmountCaption';
 import { Timestamp } from 'firebase/firestore';
+import { useCategories } from '@/context/CategoryContext';
+import CategoryChip from './CategoryChip';
 
-export default function TransactionList({ refreshTrigger }: { refreshTrigger?: number }) {
+interface TransactionListProps {
+  refreshTrigger?: number;
+  onEdit?: (transaction: Transaction) => void;
+}
+
+export default function TransactionList({ refreshTrigger, onEdit }: TransactionListProps) {
+  const { categories } = useCategories();
   const [transactions, setTransactions] = useState<Transaction[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Filters
+  const [startDate, setStartDate] = useState<Date | null>(null);
+  const [endDate, setEndDate] = useState<Date | null>(null);
+  const [typeFilter, setTypeFilter] = useState<'all' | Transaction['type']>('all');
+  const [categoryFilter, setCategoryFilter] = useState<string>('');
+
+  // Top-level categories for the selected type, without repeating names shared by both types
+  const categoryOptions = Array.from(new Set(
+    categories
+      .filter(category => !category.parentId && (typeFilter === 'all' || category.kind === typeFilter))
+      .map(category => category.name)
+  )).sort((a, b) => a.localeCompare(b));
+
   // Fetch transactions from Firestore
   useEffect(() => {
     const fetchTransactions = async () => {
       try {
         setLoading(true);
         setError(null);
-        const data = await getUserTransactions();
+        const data = await getUserTransactions({
+          startDate: startDate || undefined,
+          endDate: endDate || undefined,
+          type: typeFilter === 'all' ? undefined : typeFilter,
+          category: categoryFilter || undefined
+        });
         setTransactions(data);
       } catch (err) {
         if (err instanceof Error) {
@@ -45,7 +82,7 @@ export default function TransactionList({ refreshTrigger }: { refreshTrigger?: n
     };
 
     fetchTransactions();
-  }, [refreshTrigger]); // Refetch when refreshTrigger changes
+  }, [refreshTrigger, startDate, endDate, typeFilter, categoryFilter]); // Refetch when refreshTrigger or filters change
 
   const handleDelete = async (id: string) => {
     if (!id) return;
@@ -65,11 +102,8 @@ export default function TransactionList({ refreshTrigger }: { refreshTrigger?: n
   };
 
   // Format currency 
-  const formatCurrency = (amount: number): string => {
-    return new Intl.NumberFormat('en-US', {
-      style: 'currency',
-      currency: 'USD',
-    }).format(amount);
+  const formatCurrency = (cents: number, currency?: string): string => {
+    return formatMoney(money(cents, getRecordCurrency({ currency })));
   };
 
   // Format date
@@ -83,100 +117,178 @@ export default function TransactionList({ refreshTrigger }: { refreshTrigger?: n
     return 'Unknown date';
   };
 
+  const filters = (
+    <LocalizationProvider dateAdapter={AdapterDateFns}>
+      <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+        <DatePicker
+          label="From"
+          value={startDate}
+          onChange={(newDate: Date | null) => setStartDate(newDate)}
+          slotProps={{ textField: { size: 'small', sx: { width: 160 } }, field: { clearable: true } }}
+        />
+        <DatePicker
+          label="To"
+          value={endDate}
+          onChange={(newDate: Date | null) => setEndDate(newDate)}
+          slotProps={{ textField: { size: 'small', sx: { width: 160 } }, field: { clearable: true } }}
+        />
+        <FormControl size="small" sx={{ minWidth: 120 }}>
+          <InputLabel>Type</InputLabel>
+          <Select
+            value={typeFilter}
+            label="Type"
+            onChange={(e) => {
+              setTypeFilter(e.target.value as 'all' | Transaction['type']);
+              setCategoryFilter('');
+            }}
+          >
+            <MenuItem value="all">All</MenuItem>
+            <MenuItem value="income">Income</MenuItem>
+            <MenuItem value="expense">Expense</MenuItem>
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 150 }}>
+          <InputLabel>Category</InputLabel>
+          <Select
+            value={categoryFilter}
+            label="Category"
+            onChange={(e) => setCategoryFilter(e.target.value)}
+          >
+            <MenuItem value="">All</MenuItem>
+            {categoryOptions.map(name => (
+              <MenuItem key={name} value={name}>{name}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Box>
+    </LocalizationProvider>
+  );
+
   if (loading) {
     return (
-      <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
-        <CircularProgress />
+      <Box>
+        {filters}
+        <Box sx={{ display: 'flex', justifyContent: 'center', mt: 2 }}>
+          <CircularProgress />
+        </Box>
       </Box>
     );
   }
 
   if (error) {
     return (
-      <Alert severity="error" sx={{ mt: 2 }}>
-        {error}
-      </Alert>
+      <Box>
+        {filters}
+        <Alert severity="error" sx={{ mt: 2 }}>
+          {error}
+        </Alert>
+      </Box>
     );
   }
 
   if (transactions.length === 0) {
     return (
-      <Paper sx={{ p: 2, mt: 2 }}>
-        <Typography variant="subtitle1" align="center">
-          No transactions found. Add some to get started!
-        </Typography>
-      </Paper>
+      <Box>
+        {filters}
+        <Paper sx={{ p: 2, mt: 2 }}>
+          <Typography variant="subtitle1" align="center">
+            No transactions found. Add some to get started!
+          </Typography>
+        </Paper>
+      </Box>
     );
   }
 
   return (
-    <Paper sx={{ mt: 2 }}>
-      <List sx={{ width: '100%' }}>
-        {transactions.map((transaction, index) => (
-          <Box key={transaction.id}>
-            {index > 0 && <Divider />}
-            <ListItem
-              secondaryAction={
-                <Box>
-                  <IconButton edge="end" aria-label="edit" sx={{ mr: 1 }}>
-                    <EditIcon />
-                  </IconButton>
-                  <IconButton 
-                    edge="end" 
-                    aria-label="delete"
-                    onClick={() => transaction.id && handleDelete(transaction.id)}
-                  >
-                    <DeleteIcon />
-                  </IconButton>
-                </Box>
-              }
-            >
-              <ListItemText
-                primary={
-                  <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
-                    <Typography variant="body1" component="span">
-                      {transaction.description}
-                    </Typography>
-                    <Typography 
-                      variant="body1" 
-                      component="span"
-                      sx={{ 
-                        fontWeight: 'bold', 
-                        color: transaction.type === 'income' ? 'success.main' : 'error.main' 
-                      }}
+    <Box>
+      {filters}
+      <Paper sx={{ mt: 2 }}>
+        <List sx={{ width: '100%' }}>
+          {transactions.map((transaction, index) => (
+            <Box key={transaction.id}>
+              {index > 0 && <Divider />}
+              <ListItem
+                secondaryAction={
+                  <Box>
+                    <IconButton 
+                      edge="end" 
+                      aria-label="edit" 
+                      sx={{ mr: 1 }}
+                      onClick={() => onEdit?.(transaction)}
+                      disabled={transaction.status === 'reconciled'}
+                    >
+                      <EditIcon />
+                    </IconButton>
+                    <IconButton 
+                      edge="end" 
+                      aria-label="delete"
+                      onClick={() => transaction.id && handleDelete(transaction.id)}
+                      disabled={transaction.status === 'reconciled'}
                     >
-                      {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount)}
-                    </Typography>
+                      <DeleteIcon />
+                    </IconButton>
                   </Box>
                 }
-                secondary={
-                  <Box 
-                    sx={{ 
-                      display: 'flex', 
-                      justifyContent: 'space-between', 
-                      mt: 1,
-                      alignItems: 'center' 
-                    }}
-                    component="div"
-                  >
-                    <Box component="div">
-                      <Chip 
-                        size="small" 
-                        label={transaction.category} 
-                        color={transaction.type === 'income' ? 'success' : 'error'}
-                        variant="outlined"
-                      />
+              >
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                      <Typography variant="body1" component="span">
+                        {transaction.description}
+                      </Typography>
+                      <Box component="span" sx={{ textAlign: 'right' }}>
+                        <Typography 
+                          variant="body1" 
+                          component="span"
+                          sx={{ 
+                            fontWeight: 'bold', 
+                            color: transaction.type === 'income' ? 'success.main' : 'error.main' 
+                          }}
+                        >
+                          {transaction.type === 'income' ? '+' : '-'} {formatCurrency(transaction.amount, transaction.currency)}
+                        </Typography>
+                        <BaseAmountCaption amount={transaction.amount} currency={transaction.currency} date={transaction.date} />
+                      </Box>
                     </Box>
-                    <Typography variant="body2" component="span" color="text.secondary">
-                      {formatDate(transaction.date)}
-                    </Typography>
-                  </Box>
-                }
-              />
-            </ListItem>
-          </Box>
-        ))}
-      </List>
-    </Paper>
+                  }
+                  secondary={
+                    <Box 
+                      sx={{ 
+                        display: 'flex', 
+                        justifyContent: 'space-between', 
+                        mt: 1,
+                        alignItems: 'center' 
+                      }}
+                      component="div"
+                    >
+                      <Box component="div" sx={{ display: 'flex', gap: 1 }}>
+                        <CategoryChip name={transaction.category} kind={transaction.type} />
+                        {transaction.subcategory && (
+                          <CategoryChip name={transaction.subcategory} kind={transaction.type} />
+                        )}
+                        {(transaction.expenseId || transaction.incomeId) && (
+                          <Chip size="small" label="Linked" variant="outlined" />
+                        )}
+                        {transaction.status && transaction.status !== 'uncleared' && (
+                          <Chip
+                            size="small"
+                            label={clearedStatusLabels[transaction.status]}
+                            color={transaction.status === 'reconciled' ? 'success' : 'default'}
+                            variant="outlined"
+                          />
+                        )}
+                      </Box>
+                      <Typography variant="body2" component="span" color="text.secondary">
+                        {formatDate(transaction.date)}
+                      </Typography>
+                    </Box>
+                  }
+                />
+              </ListItem>
+            </Box>
+          ))}
+        </List>
+      </Paper>
+    </Box>
   );
 } 
\ No newline at end of file
@@ -0,0 +1,137 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  TextField
+} from '@mui/material';
+import { DatePicker } from '@mui/x-date-pickers/DatePicker';
+import { AdapterDateFns } from '@mui/x-date-pickers/AdapterDateFns';
+import { LocalizationProvider } from '@mui/x-date-pickers/LocalizationProvider';
+import { Account, addTransfer } from '@/firebase/services';
+import { getRecordCurrency } from '@/utils/currency';
+import { parseMoney } from '@/utils/money';
+import AccountSelect from './AccountSelect';
+
+interface TransferFormProps {
+  open: boolean;
+  onClose: () => void;
+  onSaved?: () => void;
+  fromAccountId?: string;
+  accounts: Account[];
+}
+
+const TransferForm: React.FC<TransferFormProps> = ({ open, onClose, onSaved, fromAccountId = '', accounts }) => {
+  const [fromId, setFromId] = useState(fromAccountId);
+  const [toId, setToId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState<Date | null>(new Date());
+  const [description, setDescription] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Transfer amounts are entered in the source account's currency
+  const fromAccount = accounts.find(account => account.id === fromId);
+  const currency = fromAccount ? getRecordCurrency(fromAccount) : getRecordCurrency({});
+
+  useEffect(() => {
+    if (!open) return;
+    setFromId(fromAccountId);
+    setToId('');
+    setAmount('');
+    setDate(new Date());
+    setDescription('');
+    setError(null);
+  }, [open, fromAccountId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!fromId || !toId || !amount || !date) {
+      setError('Please fill all required fields');
+      return;
+    }
+
+    if (isNaN(Number(amount)) || Number(amount) <= 0) {
+      setError('Amount must be a positive number');
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      await addTransfer({
+        fromAccountId: fromId,
+        toAccountId: toId,
+        amount: parseMoney(amount, currency).cents,
+        date,
+        description
+      });
+      if (onSaved) onSaved();
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save transfer');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="sm">
+      <Box component="form" onSubmit={handleSubmit}>
+        <DialogTitle>Transfer Between Accounts</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+              {error}
+            </Alert>
+          )}
+
+          <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2, mt: 1 }}>
+            <AccountSelect label="From" value={fromId} onChange={setFromId} allowNone={false} excludeId={toId} required />
+            <AccountSelect label="To" value={toId} onChange={setToId} allowNone={false} excludeId={fromId} required />
+            <TextField
+              label={`Amount (${currency})`}
+              type="number"
+              inputProps={{ step: '0.01', min: '0' }}
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              helperText="Transfers are not counted as income or spending"
+              required
+              fullWidth
+            />
+            <LocalizationProvider dateAdapter={AdapterDateFns}>
+              <DatePicker
+                label="Date"
+                value={date}
+                onChange={(newDate: Date | null) => setDate(newDate)}
+                slotProps={{ textField: { fullWidth: true, required: true } }}
+              />
+            </LocalizationProvider>
+            <TextField
+              label="Description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="e.g. Credit card payment"
+              fullWidth
+            />
+          </Box>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={onClose} disabled={saving}>Cancel</Button>
+          <Button type="submit" variant="contained" disabled={saving}>
+            {saving ? 'Saving...' : 'Transfer'}
+          </Button>
+        </DialogActions>
+      </Box>
+    </Dialog>
+  );
+};
+
+export default TransferForm;
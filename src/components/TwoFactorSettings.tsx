@@ -0,0 +1,290 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  CircularProgress,
+  TextField,
+  Typography
+} from '@mui/material';
+import {
+  Download as DownloadIcon,
+  VerifiedUser as VerifiedUserIcon
+} from '@mui/icons-material';
+import { FirebaseError } from 'firebase/app';
+import { TotpSecret } from 'firebase/auth';
+import { QRCodeSVG } from 'qrcode.react';
+import { useAuth } from '@/context/AuthContext';
+import {
+  createRecoveryCodes,
+  disableTotp,
+  finishTotpEnrollment,
+  getTotpFactors,
+  getTotpQrCodeUrl,
+  hasPasswordSignIn,
+  reauthenticate,
+  startTotpEnrollment
+} from '@/firebase/auth';
+import { downloadFile } from '@/utils/dataExport';
+
+// What the user is confirming their sign-in for
+type PendingAction = 'enable' | 'disable' | 'regenerate';
+
+const actionLabels: Record<PendingAction, string> = {
+  enable: 'Continue',
+  disable: 'Turn Off',
+  regenerate: 'Create New Codes'
+};
+
+const getErrorMessage = (err: unknown): string => {
+  if (err instanceof FirebaseError) {
+    switch (err.code) {
+      case 'auth/wrong-password':
+      case 'auth/invalid-credential':
+        return 'That password is not correct.';
+      case 'auth/invalid-verification-code':
+        return 'That code is not valid. Check your authenticator app and try again.';
+      case 'auth/unverified-email':
+        return 'Verify your email address before turning on two-step verification.';
+    }
+  }
+  return err instanceof Error ? err.message : 'An unknown error occurred';
+};
+
+const TwoFactorSettings: React.FC = () => {
+  const { user } = useAuth();
+  const [enabled, setEnabled] = useState(() => !!user && getTotpFactors(user).length > 0);
+  const [pendingAction, setPendingAction] = useState<PendingAction | null>(null);
+  const [password, setPassword] = useState('');
+  const [totpCode, setTotpCode] = useState('');
+  // Secret being added to the authenticator app, until the user confirms it with a code
+  const [secret, setSecret] = useState<TotpSecret | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [working, setWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const needsPassword = hasPasswordSignIn(user);
+
+  const resetForm = () => {
+    setPendingAction(null);
+    setPassword('');
+    setTotpCode('');
+  };
+
+  const startAction = (action: PendingAction) => {
+    resetForm();
+    setPendingAction(action);
+    setRecoveryCodes(null);
+    setError(null);
+    setNotice(null);
+  };
+
+  // Confirm it's the user, then carry out what they asked for
+  const handleConfirm = async () => {
+    if (!pendingAction) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      await reauthenticate(password, enabled ? totpCode : undefined);
+
+      if (pendingAction === 'enable') {
+        setSecret(await startTotpEnrollment());
+      } else if (pendingAction === 'disable') {
+        await disableTotp();
+        setEnabled(false);
+        setNotice('Two-step verification is off.');
+      } else {
+        setRecoveryCodes(await createRecoveryCodes());
+      }
+      resetForm();
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleVerifySetup = async () => {
+    if (!secret) return;
+
+    try {
+      setWorking(true);
+      setError(null);
+      setRecoveryCodes(await finishTotpEnrollment(secret, totpCode));
+      setSecret(null);
+      setTotpCode('');
+      setEnabled(true);
+      setNotice('Two-step verification is on.');
+    } catch (err) {
+      setError(getErrorMessage(err));
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleCancelSetup = () => {
+    setSecret(null);
+    setTotpCode('');
+    setError(null);
+  };
+
+  const handleDownloadCodes = () => {
+    if (!recoveryCodes) return;
+    const content = [
+      'Budget This recovery codes',
+      `Account: ${user.email}`,
+      'Each code can be used once, and using one turns off two-step verification.',
+      '',
+      ...recoveryCodes
+    ].join('\n');
+    downloadFile('budget-this-recovery-codes.txt', content, 'text/plain');
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Typography variant="h6">
+          Two-Step Verification
+        </Typography>
+        {enabled && <Chip icon={<VerifiedUserIcon />} label="On" color="success" size="small" />}
+      </Box>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Ask for a code from an authenticator app, such as Google Authenticator or 1Password, whenever you log in.
+        Recovery codes let you in if you lose the app.
+      </Typography>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+      {notice && (
+        <Alert severity="success" sx={{ mb: 2 }} onClose={() => setNotice(null)}>
+          {notice}
+        </Alert>
+      )}
+
+      {recoveryCodes && (
+        <Box sx={{ mb: 2 }}>
+          <Alert severity="warning" sx={{ mb: 2 }}>
+            Save these recovery codes somewhere safe. They won&apos;t be shown again, and each one works only once.
+          </Alert>
+          <Box
+            sx={{
+              display: 'grid',
+              gridTemplateColumns: 'repeat(2, max-content)',
+              columnGap: 4,
+              rowGap: 0.5,
+              fontFamily: 'monospace',
+              mb: 2
+            }}
+          >
+            {recoveryCodes.map(code => <span key={code}>{code}</span>)}
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1 }}>
+            <Button variant="outlined" startIcon={<DownloadIcon />} onClick={handleDownloadCodes}>
+              Download Codes
+            </Button>
+            <Button onClick={() => setRecoveryCodes(null)}>Done</Button>
+          </Box>
+        </Box>
+      )}
+
+      {secret ? (
+        <Box>
+          <Typography variant="body2" sx={{ mb: 2 }}>
+            Scan this QR code with your authenticator app, or enter the key by hand. Then enter the 6-digit code the app shows.
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 3, alignItems: 'center', flexWrap: 'wrap', mb: 2 }}>
+            <Box sx={{ p: 1, bgcolor: 'common.white', borderRadius: 1, lineHeight: 0 }}>
+              <QRCodeSVG value={getTotpQrCodeUrl(secret, user)} size={160} />
+            </Box>
+            <Box>
+              <Typography variant="caption" color="text.secondary">
+                Setup key
+              </Typography>
+              <Typography sx={{ fontFamily: 'monospace', wordBreak: 'break-all' }}>
+                {secret.secretKey}
+              </Typography>
+            </Box>
+          </Box>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            <TextField
+              label="Authentication Code"
+              size="small"
+              value={totpCode}
+              onChange={(e) => setTotpCode(e.target.value)}
+              autoComplete="one-time-code"
+              slotProps={{ htmlInput: { inputMode: 'numeric', maxLength: 6 } }}
+            />
+            <Button variant="contained" onClick={handleVerifySetup} disabled={working || !totpCode.trim()}>
+              {working ? <CircularProgress size={24} color="inherit" /> : 'Verify'}
+            </Button>
+            <Button onClick={handleCancelSetup} disabled={working}>Cancel</Button>
+          </Box>
+        </Box>
+      ) : pendingAction ? (
+        <Box>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            {needsPassword
+              ? 'Confirm your password to continue.'
+              : 'Sign in with Google again to continue.'}
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 1, alignItems: 'center', flexWrap: 'wrap' }}>
+            {needsPassword && (
+              <TextField
+                label="Current Password"
+                type="password"
+                size="small"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                autoComplete="current-password"
+              />
+            )}
+            {enabled && (
+              <TextField
+                label="Authentication Code"
+                size="small"
+                value={totpCode}
+                onChange={(e) => setTotpCode(e.target.value)}
+                autoComplete="one-time-code"
+                slotProps={{ htmlInput: { inputMode: 'numeric', maxLength: 6 } }}
+              />
+            )}
+            <Button
+              variant="contained"
+              color={pendingAction === 'disable' ? 'error' : 'primary'}
+              onClick={handleConfirm}
+              disabled={working || (needsPassword && !password) || (enabled && !totpCode.trim())}
+            >
+              {working ? <CircularProgress size={24} color="inherit" /> : actionLabels[pendingAction]}
+            </Button>
+            <Button onClick={resetForm} disabled={working}>Cancel</Button>
+          </Box>
+        </Box>
+      ) : enabled ? (
+        <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+          <Button variant="outlined" onClick={() => startAction('regenerate')}>
+            New Recovery Codes
+          </Button>
+          <Button variant="outlined" color="error" onClick={() => startAction('disable')}>
+            Turn Off
+          </Button>
+        </Box>
+      ) : (
+        <Button variant="contained" onClick={() => startAction('enable')}>
+          Turn On
+        </Button>
+      )}
+    </Box>
+  );
+};
+
+export default TwoFactorSettings;
@@ -0,0 +1,65 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Alert, Button, Snackbar } from '@mui/material';
+import { restoreDeletion } from '@/firebase/services';
+
+interface UndoSnackbarProps {
+  deletionId: string | null;  // The delete to offer undoing; the snackbar is hidden when null
+  message: string;
+  onClose: () => void;
+  onRestored: () => void;
+}
+
+// Confirms a delete and lets the user take it back while the snackbar is showing
+const UndoSnackbar: React.FC<UndoSnackbarProps> = ({ deletionId, message, onClose, onRestored }) => {
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleUndo = async () => {
+    if (!deletionId) return;
+
+    try {
+      setRestoring(true);
+      await restoreDeletion(deletionId);
+      onClose();
+      onRestored();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to undo the delete');
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const handleClose = (_?: React.SyntheticEvent | Event, reason?: string) => {
+    // Keep the snackbar up while the undo is in progress
+    if (reason === 'clickaway' || restoring) return;
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Snackbar
+      open={!!deletionId}
+      autoHideDuration={8000}
+      onClose={handleClose}
+      anchorOrigin={{ vertical: 'bottom', horizontal: 'center' }}
+    >
+      <Alert
+        onClose={handleClose}
+        severity={error ? 'error' : 'info'}
+        variant="filled"
+        sx={{ width: '100%' }}
+        action={error ? undefined : (
+          <Button color="inherit" size="small" onClick={handleUndo} disabled={restoring}>
+            Undo
+          </Button>
+        )}
+      >
+        {error || message}
+      </Alert>
+    </Snackbar>
+  );
+};
+
+export default UndoSnackbar;
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, ReactNode } from 'react';
 import { User } from 'firebase/auth';
 import { FirebaseError } from 'firebase/app';
 import { 
@@ -10,7 +10,17 @@ import {
   logout, 
   resetPassword,
   signInWithGoogle,
-  changePassword
+  changePassword,
+  ensureSession,
+  endSession,
+  sendVerificationEmail,
+  reloadVerification,
+  completeMultiFactorSignIn,
+  recoverMultiFactorSignIn,
+  isMultiFactorChallenge,
+  MultiFactorChallenge,
+  updateDisplayName,
+  changeEmail
 } from '../firebase/auth';
 import { useRouter } from 'next/navigation';
 
@@ -57,28 +67,46 @@ const mockUser: User = {
 // Define the auth context type
 interface AuthContextType {
   user: User | null;
+  unverifiedUser: User | null;  // Signed in, but held at the verification page until their email is verified
   loading: boolean;
   error: string | null;
+  mfaChallenge: MultiFactorChallenge | null;  // Set while a sign-in waits for the authenticator code
   login: (email: string, password: string) => Promise<void>;
   loginWithGoogle: () => Promise<void>;
   register: (email: string, password: string, displayName: string) => Promise<void>;
   logOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<void>;
-  changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+  changePassword: (currentPassword: string, newPassword: string, totpCode?: string) => Promise<void>;
+  updateDisplayName: (displayName: string) => Promise<void>;
+  changeEmail: (newEmail: string, password?: string, totpCode?: string) => Promise<void>;
+  verifySecondFactor: (code: string) => Promise<void>;
+  recoverWithCode: (recoveryCode: string) => Promise<void>;
+  cancelChallenge: () => void;
+  resendVerification: () => Promise<void>;
+  checkVerification: () => Promise<boolean>;
   clearError: () => void;
 }
 
 // Create the auth context with a default value
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  unverifiedUser: null,
   loading: true,
   error: null,
+  mfaChallenge: null,
   login: async () => {},
   loginWithGoogle: async () => {},
   register: async () => {},
   logOut: async () => {},
   resetPassword: async () => {},
   changePassword: async () => {},
+  updateDisplayName: async () => {},
+  changeEmail: async () => {},
+  verifySecondFactor: async () => {},
+  recoverWithCode: async () => {},
+  cancelChallenge: () => {},
+  resendVerification: async () => {},
+  checkVerification: async () => false,
   clearError: () => {},
 });
 
@@ -91,7 +119,7 @@ interface AuthProviderProps {
 }
 
 // Check if the email is in the allowed list
-const isEmailAllowed = (email: string | null): boolean => {
+const isEmailListed = (email: string | null): boolean => {
   if (!email) {
     console.log("Email check failed: No email provided");
     return false;
@@ -118,13 +146,66 @@ const isEmailAllowed = (email: string | null): boolean => {
   return isAllowed;
 };
 
+// Check if a signed-in user may use the app: their email must be verified, so nobody gets in by
+// signing up with an allowed address they don't own, and on the allowed list
+const isEmailAllowed = (user: Pick<User, 'email' | 'emailVerified'>): boolean => {
+  if (!user.emailVerified) {
+    console.log("Email check failed: Email not verified");
+    return false;
+  }
+  
+  return isEmailListed(user.email);
+};
+
 // Auth provider component
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(BYPASS_AUTH ? mockUser : null);
+  const [unverifiedUser, setUnverifiedUser] = useState<User | null>(null);
   const [loading, setLoading] = useState<boolean>(!BYPASS_AUTH);
   const [error, setError] = useState<string | null>(null);
+  const [mfaChallenge, setMfaChallenge] = useState<MultiFactorChallenge | null>(null);
   const router = useRouter();
 
+  // Let a signed-in user into the app. Until their email is verified they are held at the
+  // verification page; users who aren't allowed are signed out.
+  const admitUser = useCallback((authUser: User) => {
+    if (!authUser.emailVerified) {
+      console.log("User email not verified:", authUser.email);
+      setUser(null);
+      setUnverifiedUser(authUser);
+      if (!window.location.pathname.startsWith('/auth/verify-email')) {
+        router.push('/auth/verify-email');
+      }
+      return;
+    }
+    
+    setUnverifiedUser(null);
+    
+    // Check if the authenticated user's email is allowed
+    if (!isEmailAllowed(authUser)) {
+      console.log("User email not allowed:", authUser.email);
+      logout().then(() => {
+        setUser(null);
+        setError('Access denied. This email is not authorized to use this app.');
+        router.push('/auth/login');
+      });
+      return;
+    }
+    
+    // User is authenticated and allowed
+    setUser(authUser);
+    
+    // Make sure the middleware will let them in, then leave the auth pages
+    ensureSession(authUser).then(() => {
+      const path = window.location.pathname;
+      if (path.includes('/auth/') && !path.includes('/auth/reset-password')) {
+        router.push('/dashboard');
+      }
+    }).catch(error => {
+      console.error("Error starting session in auth state change:", error);
+    });
+  }, [router]);
+
   // Set up auth state listener only if not in bypass mode
   useEffect(() => {
     if (BYPASS_AUTH) return;
@@ -135,48 +216,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       // Handle user authentication
       if (authUser) {
-        // Check if the authenticated user's email is allowed
-        if (!isEmailAllowed(authUser.email)) {
-          console.log("User email not allowed:", authUser.email);
-          logout().then(() => {
-            setUser(null);
-            setError('Access denied. This email is not authorized to use this app.');
-            router.push('/auth/login');
-          });
-        } else {
-          // User is authenticated and allowed
-          setUser(authUser);
-          
-          // Ensure session cookie is set
-          authUser.getIdToken().then(token => {
-            localStorage.setItem('firebaseToken', token);
-            document.cookie = `__session=${token}; path=/; max-age=86400; SameSite=Strict`;
-          }).catch(error => {
-            console.error("Error setting token in auth state change:", error);
-          });
-          
-          // Check if this is the primary user and log their UID for easy configuration
-          const primaryUserEmail = process.env.NEXT_PUBLIC_PRIMARY_USER_EMAIL;
-          if (authUser.email === primaryUserEmail) {
-            console.log('─────────────────────────────────────────────────────');
-            console.log('PRIMARY USER UID (copy this to .env.local):');
-            console.log(authUser.uid);
-            console.log('─────────────────────────────────────────────────────');
-          }
-          
-          // If we're on an auth page, redirect to dashboard
-          const path = window.location.pathname;
-          if (path.includes('/auth/') && !path.includes('/auth/reset-password')) {
-            router.push('/dashboard');
-          }
-        }
+        admitUser(authUser);
       } else {
         // No authenticated user
         setUser(null);
+        setUnverifiedUser(null);
         
-        // Ensure cookie is cleared
-        localStorage.removeItem('firebaseToken');
-        document.cookie = '__session=; path=/; expires=Thu, 01 Jan 1970 00:00:01 GMT;';
+        // Ensure the server session is ended too
+        endSession();
         
         // If the user is on a protected page, redirect to login
         const path = window.location.pathname;
@@ -193,17 +240,32 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       console.log("Cleaning up auth state change listener");
       unsubscribe();
     };
-  }, [router]);
+  }, [admitUser, router]);
+
+  // Send a user who has just signed in on to the app, or to verify their email address first
+  const finishLogin = async (signedInUser: User) => {
+    if (!signedInUser.emailVerified) {
+      router.push('/auth/verify-email');
+    } else if (!isEmailAllowed(signedInUser)) {
+      console.log("Email not allowed:", signedInUser.email);
+      await logout();
+      setError('Access denied. This email is not authorized to use this app.');
+    } else {
+      setUser(signedInUser);
+      router.push('/dashboard');
+    }
+  };
 
   // Login function
   const login = async (email: string, password: string) => {
     try {
       setLoading(true);
       setError(null);
+      setMfaChallenge(null);
       console.log("Attempting email/password login for:", email);
       
       // Check if the email is in the allowed list
-      if (!isEmailAllowed(email)) {
+      if (!isEmailListed(email)) {
         console.log("Email not allowed:", email);
         setError('Access denied. This email is not authorized to use this app.');
         setLoading(false);
@@ -216,10 +278,16 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         router.push('/dashboard');
       } else {
         const loggedInUser = await signIn(email, password);
+        
+        // Accounts with two-step verification wait here for the authenticator code
+        if (isMultiFactorChallenge(loggedInUser)) {
+          setMfaChallenge(loggedInUser);
+          return;
+        }
         console.log("Login successful, user:", loggedInUser?.email);
         
-        // After successful login, redirect to dashboard
-        router.push('/dashboard');
+        // After successful login, redirect to dashboard, or to verify the email address first
+        router.push(loggedInUser.emailVerified ? '/dashboard' : '/auth/verify-email');
       }
     } catch (err: unknown) {
       console.error("Login error:", err);
@@ -240,6 +308,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     try {
       setLoading(true);
       setError(null);
+      setMfaChallenge(null);
       console.log("Initiating Google sign-in with popup...");
       
       if (BYPASS_AUTH) {
@@ -250,17 +319,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Directly sign in with Google and get the result
         const googleUser = await signInWithGoogle();
         
-        if (googleUser) {
+        if (isMultiFactorChallenge(googleUser)) {
+          setMfaChallenge(googleUser);
+        } else if (googleUser) {
           // Check if the email is allowed
-          if (!isEmailAllowed(googleUser.email)) {
-            console.log("Email not allowed:", googleUser.email);
-            await logout();
-            setError('Access denied. This email is not authorized to use this app.');
-          } else {
-            console.log("Google sign-in successful, user:", googleUser.email);
-            setUser(googleUser);
-            router.push('/dashboard');
-          }
+          await finishLogin(googleUser);
         }
       }
     } catch (err: unknown) {
@@ -277,6 +340,62 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     }
   };
 
+  // Answer the sign-in challenge with a code from the authenticator app
+  const verifySecondFactor = async (code: string) => {
+    if (!mfaChallenge) return;
+    
+    try {
+      setLoading(true);
+      setError(null);
+      const signedInUser = await completeMultiFactorSignIn(mfaChallenge, code);
+      setMfaChallenge(null);
+      await finishLogin(signedInUser);
+    } catch (err: unknown) {
+      console.error("Two-step verification error:", err);
+      if (err instanceof FirebaseError && err.code === 'auth/invalid-verification-code') {
+        setError('That code is not valid. Check your authenticator app and try again.');
+      } else if (err instanceof FirebaseError) {
+        setError(err.message);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unknown error occurred');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Answer the sign-in challenge with a recovery code, which turns two-step verification off
+  const recoverWithCode = async (recoveryCode: string) => {
+    if (!mfaChallenge) return;
+    
+    try {
+      setLoading(true);
+      setError(null);
+      const signedInUser = await recoverMultiFactorSignIn(mfaChallenge, recoveryCode);
+      setMfaChallenge(null);
+      await finishLogin(signedInUser);
+    } catch (err: unknown) {
+      console.error("Recovery code error:", err);
+      if (err instanceof FirebaseError) {
+        setError(err.message);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unknown error occurred');
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Go back to the sign-in form without finishing the challenge
+  const cancelChallenge = () => {
+    setMfaChallenge(null);
+    setError(null);
+  };
+
   // Register function
   const register = async (email: string, password: string, displayName: string) => {
     try {
@@ -284,7 +403,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setError(null);
       
       // Check if the email is in the allowed list
-      if (!isEmailAllowed(email)) {
+      if (!isEmailListed(email)) {
         setError('Access denied. This email is not authorized to use this app.');
         setLoading(false);
         return;
@@ -299,8 +418,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         const newUser = await signUp(email, password, displayName);
         console.log("Registration successful, user:", newUser?.email);
         
-        // After successful registration, redirect to dashboard
-        router.push('/dashboard');
+        // New accounts verify their email address before they get in
+        router.push('/auth/verify-email');
       }
     } catch (err: unknown) {
       if (err instanceof FirebaseError) {
@@ -350,7 +469,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       setError(null);
       
       // Check if the email is in the allowed list
-      if (!isEmailAllowed(email)) {
+      if (!isEmailListed(email)) {
         setError('Access denied. This email is not authorized to use this app.');
         setLoading(false);
         return;
@@ -376,7 +495,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   };
 
   // Change password function
-  const changePasswordFn = async (currentPassword: string, newPassword: string) => {
+  const changePasswordFn = async (currentPassword: string, newPassword: string, totpCode?: string) => {
     try {
       setLoading(true);
       setError(null);
@@ -385,7 +504,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         // Simulate successful password change
         console.log('Password changed successfully (mock)');
       } else {
-        await changePassword(currentPassword, newPassword);
+        await changePassword(currentPassword, newPassword, totpCode);
       }
     } catch (err: unknown) {
       console.error("Password change error:", err);
@@ -396,11 +515,113 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       } else {
         setError('An unknown error occurred');
       }
+      // Let the dialog stay open so the user can correct their password or code
+      throw err;
     } finally {
       setLoading(false);
     }
   };
 
+  // Update the user's display name. Setting state re-renders everyone showing their profile.
+  const updateDisplayNameFn = async (displayName: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      
+      if (BYPASS_AUTH) {
+        console.log('Display name updated (mock)');
+      } else {
+        await updateDisplayName(displayName);
+      }
+    } catch (err: unknown) {
+      console.error("Profile update error:", err);
+      if (err instanceof FirebaseError) {
+        setError(err.message);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unknown error occurred');
+      }
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Change the user's email address, once they open the link sent to the new one
+  const changeEmailFn = async (newEmail: string, password?: string, totpCode?: string) => {
+    try {
+      setLoading(true);
+      setError(null);
+      
+      // The new address must be allowed too, or the user would lock themselves out
+      if (!isEmailListed(newEmail)) {
+        throw new Error('Access denied. This email is not authorized to use this app.');
+      }
+      
+      if (BYPASS_AUTH) {
+        console.log(`Verification sent to ${newEmail} (mock)`);
+      } else {
+        await changeEmail(newEmail, password, totpCode);
+      }
+    } catch (err: unknown) {
+      console.error("Email change error:", err);
+      if (err instanceof FirebaseError && err.code === 'auth/email-already-in-use') {
+        setError('Another account already uses that email address.');
+      } else if (err instanceof FirebaseError) {
+        setError(err.message);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unknown error occurred');
+      }
+      throw err;
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Send the verification link again
+  const resendVerification = async () => {
+    if (!unverifiedUser) return;
+    
+    try {
+      setError(null);
+      await sendVerificationEmail(unverifiedUser);
+    } catch (err: unknown) {
+      if (err instanceof FirebaseError) {
+        setError(err.message);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unknown error occurred');
+      }
+    }
+  };
+
+  // Check whether the email has been verified, letting the user in if it has
+  const checkVerification = useCallback(async (): Promise<boolean> => {
+    if (!unverifiedUser) return false;
+    
+    try {
+      setError(null);
+      const verified = await reloadVerification(unverifiedUser);
+      if (verified) {
+        admitUser(unverifiedUser);
+      }
+      return verified;
+    } catch (err: unknown) {
+      if (err instanceof FirebaseError) {
+        setError(err.message);
+      } else if (err instanceof Error) {
+        setError(err.message);
+      } else {
+        setError('An unknown error occurred');
+      }
+      return false;
+    }
+  }, [unverifiedUser, admitUser]);
+
   // Clear error function
   const clearError = () => {
     setError(null);
@@ -409,14 +630,23 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   // Context value
   const value = {
     user,
+    unverifiedUser,
     loading,
     error,
+    mfaChallenge,
     login,
     loginWithGoogle,
     register,
     logOut,
     resetPassword: resetPasswordFn,
     changePassword: changePasswordFn,
+    updateDisplayName: updateDisplayNameFn,
+    changeEmail: changeEmailFn,
+    verifySecondFactor,
+    recoverWithCode,
+    cancelChallenge,
+    resendVerification,
+    checkVerification,
     clearError,
   };
 
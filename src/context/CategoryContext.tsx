@@ -0,0 +1,72 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { Category, CategoryKind, getCategories } from '../firebase/services';
+import { normalizeCategoryName, uncategorizedColor } from '../utils/categories';
+
+interface CategoryContextType {
+  categories: Category[];  // Includes archived categories so history still resolves
+  loading: boolean;
+  refreshCategories: () => Promise<void>;
+  findCategory: (name: string | undefined, kind?: CategoryKind) => Category | undefined;
+  getCategoryColor: (name: string | undefined, kind?: CategoryKind) => string;
+}
+
+const CategoryContext = createContext<CategoryContextType>({
+  categories: [],
+  loading: true,
+  refreshCategories: async () => {},
+  findCategory: () => undefined,
+  getCategoryColor: () => uncategorizedColor
+});
+
+export const useCategories = () => useContext(CategoryContext);
+
+interface CategoryProviderProps {
+  children: ReactNode;
+}
+
+export const CategoryProvider: React.FC<CategoryProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshCategories = useCallback(async () => {
+    if (!user) {
+      setCategories([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setCategories(await getCategories(true));
+    } catch (error) {
+      console.error('Error loading categories:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshCategories();
+  }, [refreshCategories]);
+
+  // Look up a category by the name stored on a record
+  const findCategory = useCallback((name: string | undefined, kind: CategoryKind = 'expense') => {
+    if (!name) return undefined;
+    const normalizedName = normalizeCategoryName(name);
+    return categories.find(category => category.kind === kind && category.normalizedName === normalizedName);
+  }, [categories]);
+
+  const getCategoryColor = useCallback((name: string | undefined, kind: CategoryKind = 'expense') => {
+    return findCategory(name, kind)?.color || uncategorizedColor;
+  }, [findCategory]);
+
+  return (
+    <CategoryContext.Provider value={{ categories, loading, refreshCategories, findCategory, getCategoryColor }}>
+      {children}
+    </CategoryContext.Provider>
+  );
+};
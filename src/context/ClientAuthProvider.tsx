@@ -2,6 +2,11 @@
 
 import { ReactNode, useEffect, useState } from 'react';
 import { AuthProvider } from './AuthContext';
+import { CategoryProvider } from './CategoryContext';
+import { CurrencyProvider } from './CurrencyContext';
+import { HouseholdProvider } from './HouseholdContext';
+import { SyncProvider } from './SyncContext';
+import DataMigrationGate from '../components/DataMigrationGate';
 
 interface ClientAuthProviderProps {
   children: ReactNode;
@@ -20,5 +25,17 @@ export default function ClientAuthProvider({ children }: ClientAuthProviderProps
     return null; // Return nothing on server-side rendering
   }
 
-  return <AuthProvider>{children}</AuthProvider>;
+  return (
+    <AuthProvider>
+      <DataMigrationGate>
+        <SyncProvider>
+          <HouseholdProvider>
+            <CategoryProvider>
+              <CurrencyProvider>{children}</CurrencyProvider>
+            </CategoryProvider>
+          </HouseholdProvider>
+        </SyncProvider>
+      </DataMigrationGate>
+    </AuthProvider>
+  );
 } 
\ No newline at end of file
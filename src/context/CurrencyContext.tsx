@@ -0,0 +1,82 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import { ExchangeRate, getExchangeRates, getUserSettings } from '../firebase/services';
+import { createCurrencyConverter, CurrencyConverter } from '../utils/currency';
+import { DEFAULT_CURRENCY, Money } from '../utils/money';
+
+interface CurrencyContextType {
+  baseCurrency: string;
+  rates: ExchangeRate[];
+  loading: boolean;
+  refreshCurrency: () => Promise<void>;
+  converter: CurrencyConverter;
+  // Convert to the base currency for display; null when no rate is available
+  toBaseOrNull: (value: Money, date: Date) => Money | null;
+}
+
+const defaultConverter = createCurrencyConverter(DEFAULT_CURRENCY, []);
+
+const CurrencyContext = createContext<CurrencyContextType>({
+  baseCurrency: DEFAULT_CURRENCY,
+  rates: [],
+  loading: true,
+  refreshCurrency: async () => {},
+  converter: defaultConverter,
+  toBaseOrNull: () => null
+});
+
+export const useCurrency = () => useContext(CurrencyContext);
+
+interface CurrencyProviderProps {
+  children: ReactNode;
+}
+
+export const CurrencyProvider: React.FC<CurrencyProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshCurrency = useCallback(async () => {
+    if (!user) {
+      setBaseCurrency(DEFAULT_CURRENCY);
+      setRates([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [settings, exchangeRates] = await Promise.all([getUserSettings(), getExchangeRates()]);
+      setBaseCurrency(settings.baseCurrency);
+      setRates(exchangeRates);
+    } catch (error) {
+      console.error('Error loading currency settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    refreshCurrency();
+  }, [refreshCurrency]);
+
+  const converter = useMemo(() => createCurrencyConverter(baseCurrency, rates.map(rate => ({
+    fromCurrency: rate.fromCurrency,
+    toCurrency: rate.toCurrency,
+    rate: rate.rate,
+    effectiveDate: rate.effectiveDate instanceof Date ? rate.effectiveDate : rate.effectiveDate.toDate()
+  }))), [baseCurrency, rates]);
+
+  const toBaseOrNull = useCallback((value: Money, date: Date) => {
+    return converter.canConvert(value.currency) ? converter.toBase(value, date) : null;
+  }, [converter]);
+
+  return (
+    <CurrencyContext.Provider value={{ baseCurrency, rates, loading, refreshCurrency, converter, toBaseOrNull }}>
+      {children}
+    </CurrencyContext.Provider>
+  );
+};
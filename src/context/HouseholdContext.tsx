@@ -0,0 +1,121 @@
+'use client';
+
+import React, { createContext, Fragment, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  getCurrentHouseholdId,
+  getMyHouseholds,
+  getMyInvites,
+  Household,
+  HouseholdInvite,
+  setActiveHousehold
+} from '../firebase/services';
+import { canEditHousehold, HouseholdRole } from '../utils/households';
+
+interface HouseholdContextType {
+  households: Household[];
+  activeHouseholdId: string | null;
+  activeHousehold: Household | null;
+  role: HouseholdRole | null;
+  canEdit: boolean;
+  invites: HouseholdInvite[];   // Pending invitations to the signed-in user
+  loading: boolean;
+  switchHousehold: (householdId: string) => void;
+  refreshHouseholds: () => Promise<void>;
+}
+
+const HouseholdContext = createContext<HouseholdContextType>({
+  households: [],
+  activeHouseholdId: null,
+  activeHousehold: null,
+  role: null,
+  canEdit: false,
+  invites: [],
+  loading: true,
+  switchHousehold: () => {},
+  refreshHouseholds: async () => {}
+});
+
+export const useHousehold = () => useContext(HouseholdContext);
+
+interface HouseholdProviderProps {
+  children: ReactNode;
+}
+
+export const HouseholdProvider: React.FC<HouseholdProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [households, setHouseholds] = useState<Household[]>([]);
+  const [activeHouseholdId, setActiveHouseholdId] = useState<string | null>(() => user ? getCurrentHouseholdId() : null);
+  const [invites, setInvites] = useState<HouseholdInvite[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const refreshHouseholds = useCallback(async () => {
+    if (!user) {
+      setHouseholds([]);
+      setActiveHouseholdId(null);
+      setInvites([]);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const [myHouseholds, myInvites] = await Promise.all([getMyHouseholds(), getMyInvites()]);
+      setHouseholds(myHouseholds);
+      setInvites(myInvites);
+
+      // Fall back to the user's own household if they have left or been removed from the one
+      // they were working in
+      const storedId = getCurrentHouseholdId();
+      const activeId = myHouseholds.some(household => household.id === storedId) ? storedId : user.uid;
+      if (activeId !== storedId) {
+        setActiveHousehold(activeId);
+      }
+      setActiveHouseholdId(activeId);
+    } catch (error) {
+      console.error('Error loading households:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (user) {
+      setActiveHouseholdId(getCurrentHouseholdId());
+    }
+    refreshHouseholds();
+  }, [refreshHouseholds, user]);
+
+  const switchHousehold = useCallback((householdId: string) => {
+    setActiveHousehold(householdId);
+    setActiveHouseholdId(householdId);
+  }, []);
+
+  const activeHousehold = households.find(household => household.id === activeHouseholdId) || null;
+
+  // A user's own household is theirs even before its document exists
+  const role = useMemo<HouseholdRole | null>(() => {
+    if (!user || !activeHouseholdId) return null;
+    if (activeHousehold) return activeHousehold.members[user.uid]?.role || null;
+    return activeHouseholdId === user.uid ? 'owner' : null;
+  }, [user, activeHouseholdId, activeHousehold]);
+
+  return (
+    <HouseholdContext.Provider
+      value={{
+        households,
+        activeHouseholdId,
+        activeHousehold,
+        role,
+        canEdit: canEditHousehold(role),
+        invites,
+        loading,
+        switchHousehold,
+        refreshHouseholds
+      }}
+    >
+      {/* Everything below reloads its data when the household changes */}
+      <Fragment key={activeHouseholdId || 'none'}>{children}</Fragment>
+    </HouseholdContext.Provider>
+  );
+};
@@ -0,0 +1,152 @@
+'use client';
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState, ReactNode } from 'react';
+import { useAuth } from './AuthContext';
+import {
+  discardFailedWrite,
+  getFailedWrites,
+  getPendingRecordIds,
+  replayQueuedWrites,
+  retryFailedWrite
+} from '../firebase/services';
+import { QUEUE_CHANGE_EVENT, QueuedWrite, REPLAY_MESSAGE } from '../utils/offlineQueue';
+
+interface SyncContextType {
+  online: boolean;
+  pendingRecordIds: Set<string>;  // Records with changes made offline that haven't been written yet
+  failedWrites: QueuedWrite[];    // Changes Firestore rejected, waiting to be retried or discarded
+  syncing: boolean;
+  syncNow: () => Promise<void>;
+  retryWrite: (id: number) => Promise<void>;
+  discardWrite: (id: number) => Promise<void>;
+}
+
+const SyncContext = createContext<SyncContextType>({
+  online: true,
+  pendingRecordIds: new Set(),
+  failedWrites: [],
+  syncing: false,
+  syncNow: async () => {},
+  retryWrite: async () => {},
+  discardWrite: async () => {}
+});
+
+export const useSync = () => useContext(SyncContext);
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+// How often queued changes are tried again while the browser says it is online. A connection
+// that doesn't get through never fires the online event, so this is what picks them up.
+const RETRY_INTERVAL_MS = 30000;
+
+// Tracks changes queued while offline or unable to reach Firestore and writes them once the
+// device reconnects: when the page sees the connection come back, when the service worker's
+// Background Sync fires, or on a timer while changes are waiting
+export const SyncProvider: React.FC<SyncProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [online, setOnline] = useState(() => typeof navigator === 'undefined' || navigator.onLine);
+  const [pendingIds, setPendingIds] = useState<string[]>([]);
+  const [failedWrites, setFailedWrites] = useState<QueuedWrite[]>([]);
+  const [syncing, setSyncing] = useState(false);
+
+  const refreshPending = useCallback(async () => {
+    if (!user) {
+      setPendingIds([]);
+      setFailedWrites([]);
+      return;
+    }
+
+    try {
+      const [ids, failed] = await Promise.all([getPendingRecordIds(), getFailedWrites()]);
+      setPendingIds(ids);
+      setFailedWrites(failed);
+    } catch (error) {
+      console.error('Error loading queued changes:', error);
+    }
+  }, [user]);
+
+  const syncNow = useCallback(async () => {
+    if (!user || !navigator.onLine) return;
+
+    try {
+      setSyncing(true);
+      const result = await replayQueuedWrites();
+      if (result.failed > 0) {
+        console.warn(`${result.failed} offline changes could not be saved and are waiting to be retried or discarded`);
+      }
+    } catch (error) {
+      console.error('Error syncing offline changes:', error);
+    } finally {
+      setSyncing(false);
+      refreshPending();
+    }
+  }, [user, refreshPending]);
+
+  // Errors are left to the caller, which shows them next to the change
+  const retryWrite = useCallback(async (id: number) => {
+    try {
+      setSyncing(true);
+      await retryFailedWrite(id);
+    } finally {
+      setSyncing(false);
+      refreshPending();
+    }
+  }, [refreshPending]);
+
+  // Changes waiting behind a discarded one can sync straight away
+  const discardWrite = useCallback(async (id: number) => {
+    await discardFailedWrite(id);
+    await syncNow();
+  }, [syncNow]);
+
+  useEffect(() => {
+    refreshPending();
+    syncNow();
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setOnline(false);
+    const handleWorkerMessage = (event: MessageEvent) => {
+      if (event.data?.type === REPLAY_MESSAGE) {
+        syncNow();
+      }
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    window.addEventListener(QUEUE_CHANGE_EVENT, refreshPending);
+    navigator.serviceWorker?.addEventListener('message', handleWorkerMessage);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+      window.removeEventListener(QUEUE_CHANGE_EVENT, refreshPending);
+      navigator.serviceWorker?.removeEventListener('message', handleWorkerMessage);
+    };
+  }, [refreshPending, syncNow]);
+
+  useEffect(() => {
+    if (!online || pendingIds.length === 0) return;
+
+    const timer = setInterval(syncNow, RETRY_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [online, pendingIds.length, syncNow]);
+
+  const pendingRecordIds = useMemo(() => new Set(pendingIds), [pendingIds]);
+
+  const value = {
+    online,
+    pendingRecordIds,
+    failedWrites,
+    syncing,
+    syncNow,
+    retryWrite,
+    discardWrite
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+};
@@ -0,0 +1,321 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterAll, beforeAll, beforeEach, describe, it } from 'vitest';
+import {
+  assertFails,
+  assertSucceeds,
+  initializeTestEnvironment,
+  RulesTestContext,
+  RulesTestEnvironment
+} from '@firebase/rules-unit-testing';
+
+// Runs against the Firestore emulator: `npm run test:rules` starts one for the run. Without
+// an emulator the suite is skipped, so `npm test` works anywhere.
+const emulatorHost = process.env.FIRESTORE_EMULATOR_HOST;
+
+const HOUSEHOLD_ID = 'owner';
+const OTHER_HOUSEHOLD_ID = 'stranger';
+
+type Role = 'owner' | 'editor' | 'viewer' | 'stranger' | 'newcomer';
+
+const household = {
+  name: 'Home',
+  ownerId: 'owner',
+  members: {
+    owner: { role: 'owner', email: 'owner@example.com', joinedAt: new Date(2024, 0, 1) },
+    editor: { role: 'editor', email: 'editor@example.com', joinedAt: new Date(2024, 0, 2) },
+    viewer: { role: 'viewer', email: 'viewer@example.com', joinedAt: new Date(2024, 0, 3) }
+  },
+  memberIds: ['owner', 'editor', 'viewer'],
+  createdAt: new Date(2024, 0, 1)
+};
+
+// A valid record for each household collection, and a valid change to it
+const records: Record<string, { data: Record<string, unknown>; update: Record<string, unknown> }> = {
+  income: {
+    data: { source: 'Salary', amount: 250000, month: 3, year: 2024, isPaid: true },
+    update: { amount: 260000 }
+  },
+  expenses: {
+    data: { category: 'fixed', amount: 95000, month: 3, year: 2024, dueDayOfMonth: 1, isPaid: false },
+    update: { isPaid: true }
+  },
+  transactions: {
+    data: { type: 'expense', amount: 450, description: 'Coffee', category: 'Dining', date: new Date(2024, 2, 4), month: 3, year: 2024 },
+    update: { status: 'cleared' }
+  },
+  monthlySummaries: {
+    data: {
+      month: 3,
+      year: 2024,
+      totalIncome: 250000,
+      totalFixedExpenses: 95000,
+      totalVariableExpenses: 0,
+      totalSubscriptions: 0,
+      balance: 155000
+    },
+    update: { totalVariableExpenses: 450, balance: 154550 }
+  },
+  recurringSeries: {
+    data: { kind: 'expense', category: 'fixed', startDate: new Date(2024, 0, 1), amountHistory: [], frequency: 'monthly' },
+    update: { dueDayOfMonth: 15 }
+  },
+  budgetEnvelopes: {
+    data: { name: 'Groceries', category: 'Groceries', monthlyAllocation: 40000, rollover: false, startMonth: 1, startYear: 2024 },
+    update: { monthlyAllocation: 45000 }
+  },
+  categories: {
+    data: { name: 'Dining', normalizedName: 'dining', kind: 'expense', color: '#ff8042', archived: false },
+    update: { archived: true }
+  },
+  exchangeRates: {
+    data: { fromCurrency: 'EUR', toCurrency: 'USD', rate: 1.08, effectiveDate: new Date(2024, 0, 1) },
+    update: { rate: 1.1 }
+  },
+  accounts: {
+    data: { name: 'Checking', type: 'checking', openingBalance: 100000, openingDate: new Date(2024, 0, 1), archived: false },
+    update: { archived: true }
+  },
+  transfers: {
+    data: { fromAccountId: 'checking', toAccountId: 'savings', amount: 20000, date: new Date(2024, 2, 1) },
+    update: { amount: 25000 }
+  },
+  reconciliations: {
+    data: { accountId: 'checking', statementDate: new Date(2024, 1, 29), statementBalance: 100000, startingBalance: 90000, items: [] },
+    update: { statementBalance: 100100 }
+  },
+  importProfiles: {
+    data: { name: 'My bank', mapping: { hasHeader: true, date: 0 } },
+    update: { name: 'My old bank' }
+  }
+};
+
+const collections = Object.keys(records);
+const editors: Role[] = ['owner', 'editor'];
+const members: Role[] = ['owner', 'editor', 'viewer'];
+
+describe.skipIf(!emulatorHost)('firestore.rules', () => {
+  let testEnv: RulesTestEnvironment;
+
+  const as = (role: Role): RulesTestContext => testEnv.authenticatedContext(role, {
+    email: `${role}@example.com`,
+    email_verified: true
+  });
+
+  // Write documents as they are before each test, bypassing the rules
+  const seed = (path: string, data: Record<string, unknown>) =>
+    testEnv.withSecurityRulesDisabled(context => context.firestore().doc(path).set(data));
+
+  beforeAll(async () => {
+    testEnv = await initializeTestEnvironment({
+      projectId: 'demo-budget-this',
+      firestore: { rules: readFileSync(join(__dirname, '..', '..', '..', 'firestore.rules'), 'utf8') }
+    });
+  });
+
+  beforeEach(async () => {
+    await testEnv.clearFirestore();
+    await seed(`households/${HOUSEHOLD_ID}`, household);
+    await seed(`households/${OTHER_HOUSEHOLD_ID}`, {
+      ...household,
+      ownerId: 'stranger',
+      members: { stranger: { role: 'owner', email: 'stranger@example.com', joinedAt: new Date(2024, 0, 1) } },
+      memberIds: ['stranger']
+    });
+
+    for (const name of collections) {
+      await seed(`${name}/existing`, { ...records[name].data, householdId: HOUSEHOLD_ID });
+    }
+    await seed(`userSettings/${HOUSEHOLD_ID}`, { baseCurrency: 'USD' });
+  });
+
+  afterAll(async () => {
+    await testEnv.cleanup();
+  });
+
+  describe.each(collections)('%s', name => {
+    const { data, update } = records[name];
+    const existing = (role: Role) => as(role).firestore().doc(`${name}/existing`);
+    const householdRecords = (role: Role) => as(role).firestore().collection(name).where('householdId', '==', HOUSEHOLD_ID);
+
+    it.each(members)('lets the %s read', async role => {
+      await assertSucceeds(existing(role).get());
+      await assertSucceeds(householdRecords(role).get());
+    });
+
+    it('lets signed-in users look up an unused ID', async () => {
+      await assertSucceeds(as('stranger').firestore().doc(`${name}/unused`).get());
+      await assertFails(testEnv.unauthenticatedContext().firestore().doc(`${name}/unused`).get());
+    });
+
+    it('keeps strangers and signed-out users from reading', async () => {
+      await assertFails(existing('stranger').get());
+      await assertFails(householdRecords('stranger').get());
+      await assertFails(testEnv.unauthenticatedContext().firestore().doc(`${name}/existing`).get());
+    });
+
+    it.each(editors)('lets the %s create, update and delete', async role => {
+      await assertSucceeds(as(role).firestore().doc(`${name}/new`).set({ ...data, householdId: HOUSEHOLD_ID }));
+      await assertSucceeds(existing(role).update(update));
+      await assertSucceeds(existing(role).delete());
+    });
+
+    it.each<Role>(['viewer', 'stranger'])('keeps the %s from writing', async role => {
+      await assertFails(as(role).firestore().doc(`${name}/new`).set({ ...data, householdId: HOUSEHOLD_ID }));
+      await assertFails(existing(role).update(update));
+      await assertFails(existing(role).set({ ...data, householdId: HOUSEHOLD_ID }));
+      await assertFails(existing(role).delete());
+    });
+
+    it('keeps records in their household', async () => {
+      await assertFails(existing('owner').update({ householdId: OTHER_HOUSEHOLD_ID }));
+      await assertFails(as('stranger').firestore().doc(`${name}/existing`).set({ ...data, householdId: OTHER_HOUSEHOLD_ID }));
+    });
+
+    it('rejects records that fail validation', async () => {
+      await assertFails(as('owner').firestore().doc(`${name}/new`).set({ ...data }));
+      await assertFails(existing('owner').update({ householdId: 42 }));
+    });
+  });
+
+  describe('userSettings', () => {
+    const settings = (role: Role) => as(role).firestore().doc(`userSettings/${HOUSEHOLD_ID}`);
+
+    it.each(members)('lets the %s read', async role => {
+      await assertSucceeds(settings(role).get());
+    });
+
+    it('keeps strangers from reading', async () => {
+      await assertFails(settings('stranger').get());
+    });
+
+    it.each(editors)('lets the %s change them', async role => {
+      await assertSucceeds(settings(role).set({ baseCurrency: 'EUR', trashRetentionDays: 30 }));
+      await assertSucceeds(settings(role).delete());
+    });
+
+    it.each<Role>(['viewer', 'stranger'])('keeps the %s from changing them', async role => {
+      await assertFails(settings(role).set({ baseCurrency: 'EUR' }));
+      await assertFails(settings(role).delete());
+    });
+  });
+
+  describe('households', () => {
+    const home = (role: Role) => as(role).firestore().doc(`households/${HOUSEHOLD_ID}`);
+
+    it.each(members)('lets the %s read it', async role => {
+      await assertSucceeds(home(role).get());
+    });
+
+    it('keeps strangers from reading it', async () => {
+      await assertFails(home('stranger').get());
+    });
+
+    it('lets the owner rename it', async () => {
+      await assertSucceeds(home('owner').update({ name: 'Our home', updatedAt: new Date() }));
+    });
+
+    it.each<Role>(['editor', 'viewer', 'stranger'])('keeps the %s from renaming it', async role => {
+      await assertFails(home(role).update({ name: 'Our home', updatedAt: new Date() }));
+    });
+
+    it('keeps members from changing their own role', async () => {
+      await assertFails(home('viewer').update({ 'members.viewer.role': 'owner', updatedAt: new Date() }));
+    });
+
+    it('lets a member other than the owner leave', async () => {
+      const remaining: Record<string, unknown> = { ...household.members };
+      delete remaining.viewer;
+      await assertSucceeds(home('viewer').update({ members: remaining, memberIds: ['owner', 'editor'], updatedAt: new Date() }));
+    });
+
+    it('lets users without a household set up their own', async () => {
+      await assertSucceeds(as('newcomer').firestore().doc('households/newcomer').get());
+      await assertSucceeds(as('newcomer').firestore().doc('income/new').set({ ...records.income.data, householdId: 'newcomer' }));
+    });
+
+    it('keeps users from creating a household under someone else\'s ID', async () => {
+      await assertFails(as('stranger').firestore().doc('households/someone').set({
+        name: 'Mine',
+        ownerId: 'stranger',
+        members: { stranger: { role: 'owner' } },
+        memberIds: ['stranger']
+      }));
+    });
+  });
+
+  // The household keeps its creator's user ID as its ID after they hand it over
+  describe('a household handed over by its creator', () => {
+    const handedOver = {
+      ...household,
+      ownerId: 'editor',
+      members: {
+        ...household.members,
+        owner: { ...household.members.owner, role: 'editor' },
+        editor: { ...household.members.editor, role: 'owner' }
+      }
+    };
+    const income = () => as('owner').firestore().doc('income/existing');
+
+    it('shuts out the creator once they leave', async () => {
+      const members: Record<string, unknown> = { ...handedOver.members };
+      delete members.owner;
+      await seed(`households/${HOUSEHOLD_ID}`, { ...handedOver, members, memberIds: ['editor', 'viewer'] });
+
+      await assertFails(as('owner').firestore().doc(`households/${HOUSEHOLD_ID}`).get());
+      await assertFails(income().get());
+      await assertFails(income().update(records.income.update));
+      await assertFails(as('owner').firestore().doc('income/new').set({ ...records.income.data, householdId: HOUSEHOLD_ID }));
+      await assertFails(as('owner').firestore().doc(`userSettings/${HOUSEHOLD_ID}`).set({ baseCurrency: 'EUR' }));
+    });
+
+    it('keeps the creator to viewing once they are demoted to viewer', async () => {
+      await seed(`households/${HOUSEHOLD_ID}`, {
+        ...handedOver,
+        members: { ...handedOver.members, owner: { ...handedOver.members.owner, role: 'viewer' } }
+      });
+
+      await assertSucceeds(income().get());
+      await assertFails(income().update(records.income.update));
+      await assertFails(income().delete());
+      await assertFails(as('owner').firestore().doc('income/new').set({ ...records.income.data, householdId: HOUSEHOLD_ID }));
+    });
+  });
+
+  describe('householdInvites', () => {
+    const inviteId = `${HOUSEHOLD_ID}_friend@example.com`;
+    const invite = {
+      householdId: HOUSEHOLD_ID,
+      householdName: 'Home',
+      email: 'friend@example.com',
+      role: 'viewer',
+      status: 'pending',
+      invitedBy: 'owner',
+      invitedByEmail: 'owner@example.com',
+      createdAt: new Date(2024, 0, 1)
+    };
+
+    it('lets the owner send and read invitations', async () => {
+      await assertSucceeds(as('owner').firestore().doc(`householdInvites/${inviteId}`).set(invite));
+      await assertSucceeds(as('owner').firestore().doc(`householdInvites/${inviteId}`).get());
+    });
+
+    it.each<Role>(['editor', 'viewer', 'stranger'])('keeps the %s from sending or reading invitations', async role => {
+      await seed(`householdInvites/${inviteId}`, invite);
+      await assertFails(as(role).firestore().doc(`householdInvites/${HOUSEHOLD_ID}_other@example.com`).set({
+        ...invite,
+        email: 'other@example.com',
+        invitedBy: role
+      }));
+      await assertFails(as(role).firestore().doc(`householdInvites/${inviteId}`).get());
+    });
+  });
+
+  describe('mfaRecoveryCodes', () => {
+    it.each(members)('keeps the %s from reading or writing them', async role => {
+      await seed(`mfaRecoveryCodes/${role}`, { codes: [] });
+      await assertFails(as(role).firestore().doc(`mfaRecoveryCodes/${role}`).get());
+      await assertFails(as(role).firestore().doc(`mfaRecoveryCodes/${role}`).set({ codes: ['x'] }));
+    });
+  });
+});
@@ -0,0 +1,21 @@
+import { App, cert, getApps, initializeApp } from 'firebase-admin/app';
+import { Auth, getAuth } from 'firebase-admin/auth';
+import { Firestore, getFirestore } from 'firebase-admin/firestore';
+
+// Firebase Admin for server routes only. It signs in with a service account whose
+// credentials are kept in server-side environment variables.
+const getAdminApp = (): App => {
+  return getApps()[0] || initializeApp({
+    credential: cert({
+      projectId: process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID,
+      clientEmail: process.env.FIREBASE_CLIENT_EMAIL,
+      // Private keys are stored on one line with escaped newlines
+      privateKey: process.env.FIREBASE_PRIVATE_KEY?.replace(/\\n/g, '\n')
+    })
+  });
+};
+
+export const getAdminAuth = (): Auth => getAuth(getAdminApp());
+
+// Firestore with admin access, for data the security rules keep away from every client
+export const getAdminFirestore = (): Firestore => getFirestore(getAdminApp());
@@ -13,39 +13,69 @@ import {
   browserLocalPersistence,
   updatePassword,
   EmailAuthProvider,
-  reauthenticateWithCredential
+  reauthenticateWithCredential,
+  sendEmailVerification,
+  applyActionCode,
+  verifyPasswordResetCode,
+  confirmPasswordReset,
+  signInWithCredential,
+  reauthenticateWithPopup,
+  multiFactor,
+  getMultiFactorResolver,
+  MultiFactorError,
+  MultiFactorInfo,
+  MultiFactorResolver,
+  TotpMultiFactorGenerator,
+  TotpSecret,
+  verifyBeforeUpdateEmail,
+  deleteUser
 } from 'firebase/auth';
+import { FirebaseError } from 'firebase/app';
 import { auth } from './config';
+import type { RecoveryProof } from './mfaRecovery';
 
 // Initialize Google Auth Provider
 const googleProvider = new GoogleAuthProvider();
 
-// Set session cookie helper function
-export const setSessionCookie = async (user: User) => {
+// Start a server session for the user. Their ID token is exchanged for an httpOnly session
+// cookie, which the middleware checks on every page request.
+export const startSession = async (user: User): Promise<void> => {
   try {
-    // Get the Firebase ID token
-    const token = await user.getIdToken();
+    const idToken = await user.getIdToken();
+    const response = await fetch('/api/session', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ idToken })
+    });
     
-    // Store token in localStorage as a fallback for middleware
-    localStorage.setItem('firebaseToken', token);
-    
-    // Manually set a session cookie that middleware can read
-    // This simulates what would happen in a real backend with proper session cookies
-    document.cookie = `__session=${token}; path=/; max-age=86400; SameSite=Strict`;
-    
-    console.log("Session cookie set successfully");
-    return token;
+    if (!response.ok) {
+      throw new Error('Failed to start a session');
+    }
   } catch (error) {
-    console.error("Error setting session cookie:", error);
+    console.error('Error starting session:', error);
     throw error;
   }
 };
 
-// Clear session cookie on logout
-export const clearSessionCookie = () => {
-  localStorage.removeItem('firebaseToken');
-  document.cookie = '__session=; path=/; expires=Thu, 01 Jan 1970 00:00:01 GMT;';
-  console.log("Session cookie cleared");
+// Start a server session unless the user already has one, e.g. when they were signed in
+// before sessions existed or theirs has expired
+export const ensureSession = async (user: User): Promise<void> => {
+  const response = await fetch('/api/session');
+  if (response.ok) {
+    const { uid } = await response.json();
+    if (uid === user.uid) return;
+  }
+  
+  await startSession(user);
+};
+
+// End the server session, revoking it so it can't be used again
+export const endSession = async (): Promise<void> => {
+  try {
+    await fetch('/api/session', { method: 'DELETE' });
+  } catch (error) {
+    console.error('Error ending session:', error);
+  }
 };
 
 // Sign up with email and password
@@ -56,8 +86,8 @@ export const signUp = async (email: string, password: string, displayName: strin
     // Set the display name
     if (userCredential.user) {
       await updateProfile(userCredential.user, { displayName });
-      // Set session cookie
-      await setSessionCookie(userCredential.user);
+      // New accounts can't start a session until their email address is verified
+      await sendVerificationEmail(userCredential.user);
     }
     
     return userCredential.user;
@@ -67,25 +97,62 @@ export const signUp = async (email: string, password: string, displayName: strin
   }
 };
 
+// A sign-in that is waiting for the code from the user's authenticator app. The first factor
+// is kept so the user can give a recovery code instead.
+export interface MultiFactorChallenge {
+  resolver: MultiFactorResolver;
+  proof: RecoveryProof | null;
+}
+
+// Either the signed-in user or the second-factor challenge they still have to answer
+export type SignInResult = User | MultiFactorChallenge;
+
+export const isMultiFactorChallenge = (result: SignInResult | null): result is MultiFactorChallenge => {
+  return !!result && 'resolver' in result;
+};
+
+// The challenge behind a sign-in error, or null when the error is something else
+const getMultiFactorChallenge = (error: unknown, proof: RecoveryProof | null): MultiFactorChallenge | null => {
+  if (!(error instanceof FirebaseError) || error.code !== 'auth/multi-factor-auth-required') {
+    return null;
+  }
+  return { resolver: getMultiFactorResolver(auth, error as MultiFactorError), proof };
+};
+
+// Answer a challenge with a code from the user's authenticator app
+const resolveTotp = async (resolver: MultiFactorResolver, code: string): Promise<User> => {
+  const hint = resolver.hints.find(factor => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hint) {
+    throw new Error('This account has no authenticator app set up');
+  }
+  
+  const assertion = TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code.replace(/\s/g, ''));
+  const userCredential = await resolver.resolveSignIn(assertion);
+  return userCredential.user;
+};
+
 // Sign in with email and password
-export const signIn = async (email: string, password: string): Promise<User> => {
+export const signIn = async (email: string, password: string): Promise<SignInResult> => {
   try {
     // Set persistence to local to ensure user stays signed in
     await setPersistence(auth, browserLocalPersistence);
     const userCredential = await signInWithEmailAndPassword(auth, email, password);
-    
-    // Set session cookie
-    await setSessionCookie(userCredential.user);
+    if (userCredential.user.emailVerified) {
+      await startSession(userCredential.user);
+    }
     
     return userCredential.user;
   } catch (error) {
+    const challenge = getMultiFactorChallenge(error, { method: 'password', email, password });
+    if (challenge) return challenge;
+    
     console.error('Error signing in:', error);
     throw error;
   }
 };
 
 // Sign in with Google - Use popup for simplicity
-export const signInWithGoogle = async (): Promise<User | null> => {
+export const signInWithGoogle = async (): Promise<SignInResult | null> => {
   try {
     // Set persistence to LOCAL
     await setPersistence(auth, browserLocalPersistence);
@@ -94,23 +161,78 @@ export const signInWithGoogle = async (): Promise<User | null> => {
     const result = await signInWithPopup(auth, googleProvider);
     console.log("Google sign-in successful:", result.user.email);
     
-    // Set session cookie
-    await setSessionCookie(result.user);
+    if (result.user.emailVerified) {
+      await startSession(result.user);
+    }
     
     return result.user;
   } catch (error) {
+    // Google's ID token proves the first factor if the user falls back to a recovery code
+    const idToken = error instanceof FirebaseError ? GoogleAuthProvider.credentialFromError(error)?.idToken : undefined;
+    const challenge = getMultiFactorChallenge(error, idToken ? { method: 'google', idToken } : null);
+    if (challenge) return challenge;
+    
     console.error('Error signing in with Google:', error);
     throw error;
   }
 };
 
+// Finish a sign-in with the code from the user's authenticator app
+export const completeMultiFactorSignIn = async (challenge: MultiFactorChallenge, code: string): Promise<User> => {
+  try {
+    const user = await resolveTotp(challenge.resolver, code);
+    if (user.emailVerified) {
+      await startSession(user);
+    }
+    
+    return user;
+  } catch (error) {
+    console.error('Error completing two-step sign-in:', error);
+    throw error;
+  }
+};
+
+// Finish a sign-in with a recovery code instead. The server turns two-step verification off,
+// then the user signs in again with their first factor alone.
+export const recoverMultiFactorSignIn = async (challenge: MultiFactorChallenge, code: string): Promise<User> => {
+  try {
+    const { proof } = challenge;
+    if (!proof) {
+      throw new Error('Recovery codes cannot be used with this sign-in method');
+    }
+    
+    const response = await fetch('/api/mfa/recover', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ proof, code })
+    });
+    if (!response.ok) {
+      const { error } = await response.json();
+      throw new Error(error || 'Failed to use the recovery code');
+    }
+    
+    const userCredential = proof.method === 'password'
+      ? await signInWithEmailAndPassword(auth, proof.email, proof.password)
+      : await signInWithCredential(auth, GoogleAuthProvider.credential(proof.idToken));
+    if (userCredential.user.emailVerified) {
+      await startSession(userCredential.user);
+    }
+    
+    return userCredential.user;
+  } catch (error) {
+    console.error('Error signing in with a recovery code:', error);
+    throw error;
+  }
+};
+
 // Check for redirect result (in case we switch back to redirect method)
 export const getGoogleRedirectResult = async (): Promise<User | null> => {
   try {
     const result = await getRedirectResult(auth);
     if (result && result.user) {
-      // Set session cookie
-      await setSessionCookie(result.user);
+      if (result.user.emailVerified) {
+        await startSession(result.user);
+      }
       return result.user;
     }
     return null;
@@ -123,9 +245,9 @@ export const getGoogleRedirectResult = async (): Promise<User | null> => {
 // Sign out
 export const logout = async (): Promise<void> => {
   try {
+    // End the server session first; it needs the cookie the browser still holds
+    await endSession();
     await signOut(auth);
-    // Clear session cookie
-    clearSessionCookie();
   } catch (error) {
     console.error('Error signing out:', error);
     throw error;
@@ -135,13 +257,68 @@ export const logout = async (): Promise<void> => {
 // Reset password
 export const resetPassword = async (email: string): Promise<void> => {
   try {
-    await sendPasswordResetEmail(auth, email);
+    await sendPasswordResetEmail(auth, email, { url: `${window.location.origin}/auth/login` });
   } catch (error) {
     console.error('Error resetting password:', error);
     throw error;
   }
 };
 
+// Send a link that verifies the user's email address. It leads back to the verification page.
+export const sendVerificationEmail = async (user: User): Promise<void> => {
+  try {
+    await sendEmailVerification(user, { url: `${window.location.origin}/auth/verify-email` });
+  } catch (error) {
+    console.error('Error sending verification email:', error);
+    throw error;
+  }
+};
+
+// Apply the code from a verification link
+export const verifyEmail = async (actionCode: string): Promise<void> => {
+  try {
+    await applyActionCode(auth, actionCode);
+  } catch (error) {
+    console.error('Error verifying email:', error);
+    throw error;
+  }
+};
+
+// Reload the user to pick up a verification made from another tab or device, returning
+// whether their address is now verified. The ID token is refreshed so the server sees it too.
+export const reloadVerification = async (user: User): Promise<boolean> => {
+  try {
+    await user.reload();
+    if (!user.emailVerified) return false;
+    
+    await user.getIdToken(true);
+    return true;
+  } catch (error) {
+    console.error('Error reloading user:', error);
+    throw error;
+  }
+};
+
+// Check the code from a password reset link, returning the email address it is for
+export const checkPasswordResetCode = async (actionCode: string): Promise<string> => {
+  try {
+    return await verifyPasswordResetCode(auth, actionCode);
+  } catch (error) {
+    console.error('Error checking password reset code:', error);
+    throw error;
+  }
+};
+
+// Set a new password with the code from a password reset link
+export const completePasswordReset = async (actionCode: string, newPassword: string): Promise<void> => {
+  try {
+    await confirmPasswordReset(auth, actionCode, newPassword);
+  } catch (error) {
+    console.error('Error completing password reset:', error);
+    throw error;
+  }
+};
+
 // Get current user
 export const getCurrentUser = (): User | null => {
   return auth.currentUser;
@@ -152,8 +329,42 @@ export const subscribeToAuthChanges = (callback: (user: User | null) => void): (
   return onAuthStateChanged(auth, callback);
 };
 
+// Whether the user can sign in with a password, rather than only with Google
+export const hasPasswordSignIn = (user: User): boolean => {
+  return user.providerData.some(provider => provider.providerId === EmailAuthProvider.PROVIDER_ID);
+};
+
+// Confirm it's really the user before a sensitive change. Password accounts give their
+// password and others sign in with Google again; with two-step verification on, the
+// authenticator code is needed too.
+export const reauthenticate = async (password?: string, totpCode?: string): Promise<void> => {
+  const user = auth.currentUser;
+  if (!user) {
+    throw new Error('No authenticated user found');
+  }
+  
+  try {
+    if (hasPasswordSignIn(user)) {
+      if (!user.email || !password) {
+        throw new Error('Enter your current password');
+      }
+      await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+    } else {
+      await reauthenticateWithPopup(user, googleProvider);
+    }
+  } catch (error) {
+    const challenge = getMultiFactorChallenge(error, null);
+    if (!challenge) throw error;
+    if (!totpCode) {
+      throw new Error('Enter the code from your authenticator app');
+    }
+    
+    await resolveTotp(challenge.resolver, totpCode);
+  }
+};
+
 // Update password
-export const changePassword = async (currentPassword: string, newPassword: string): Promise<void> => {
+export const changePassword = async (currentPassword: string, newPassword: string, totpCode?: string): Promise<void> => {
   try {
     const user = auth.currentUser;
     
@@ -162,8 +373,7 @@ export const changePassword = async (currentPassword: string, newPassword: strin
     }
     
     // Re-authenticate user before changing password
-    const credential = EmailAuthProvider.credential(user.email, currentPassword);
-    await reauthenticateWithCredential(user, credential);
+    await reauthenticate(currentPassword, totpCode);
     
     // Update password
     await updatePassword(user, newPassword);
@@ -172,4 +382,155 @@ export const changePassword = async (currentPassword: string, newPassword: strin
     console.error('Error updating password:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
+
+// Update the name shown on the user's profile
+export const updateDisplayName = async (displayName: string): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    await updateProfile(user, { displayName: displayName.trim() || null });
+  } catch (error) {
+    console.error('Error updating profile:', error);
+    throw error;
+  }
+};
+
+// Change the email address the user signs in with. Firebase emails a link to the new address
+// and only switches to it once the link is opened.
+export const changeEmail = async (newEmail: string, password?: string, totpCode?: string): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    await reauthenticate(password, totpCode);
+    await verifyBeforeUpdateEmail(user, newEmail.trim(), { url: `${window.location.origin}/auth/login` });
+  } catch (error) {
+    console.error('Error changing email:', error);
+    throw error;
+  }
+};
+
+// Delete the signed-in user's account, once their data has been removed. Re-authenticate first.
+export const deleteAccount = async (): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    // Recovery codes are kept on the server, which only removes them for a recent sign-in
+    if (getTotpFactors(user).length > 0) {
+      await callRecoveryCodes(user, 'DELETE');
+    }
+    
+    await deleteUser(user);
+    await endSession();
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    throw error;
+  }
+};
+
+// The authenticator apps the user has set up for two-step verification
+export const getTotpFactors = (user: User): MultiFactorInfo[] => {
+  return multiFactor(user).enrolledFactors.filter(factor => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+};
+
+// Call a recovery code route with a fresh ID token. The server only accepts tokens from a
+// recent sign-in, so callers re-authenticate first.
+const callRecoveryCodes = async (user: User, method: 'POST' | 'DELETE'): Promise<Response> => {
+  const idToken = await user.getIdToken(true);
+  const response = await fetch('/api/mfa/recovery-codes', {
+    method,
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ idToken })
+  });
+  
+  if (!response.ok) {
+    const { error } = await response.json();
+    throw new Error(error || 'Failed to update recovery codes');
+  }
+  return response;
+};
+
+// Create a secret for the user to add to their authenticator app. Re-authenticate first.
+export const startTotpEnrollment = async (): Promise<TotpSecret> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    const session = await multiFactor(user).getSession();
+    return await TotpMultiFactorGenerator.generateSecret(session);
+  } catch (error) {
+    console.error('Error starting two-step verification setup:', error);
+    throw error;
+  }
+};
+
+// Link for the QR code that adds the secret to an authenticator app
+export const getTotpQrCodeUrl = (secret: TotpSecret, user: User): string => {
+  return secret.generateQrCodeUrl(user.email || user.uid, 'Budget This');
+};
+
+// Turn two-step verification on once the user has entered a code from their app, returning
+// the recovery codes to show them
+export const finishTotpEnrollment = async (secret: TotpSecret, code: string): Promise<string[]> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    const assertion = TotpMultiFactorGenerator.assertionForEnrollment(secret, code.replace(/\s/g, ''));
+    await multiFactor(user).enroll(assertion, 'Authenticator app');
+    return await createRecoveryCodes();
+  } catch (error) {
+    console.error('Error finishing two-step verification setup:', error);
+    throw error;
+  }
+};
+
+// Replace the user's recovery codes with a new set. Re-authenticate first.
+export const createRecoveryCodes = async (): Promise<string[]> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    const response = await callRecoveryCodes(user, 'POST');
+    const { codes } = await response.json();
+    return codes;
+  } catch (error) {
+    console.error('Error creating recovery codes:', error);
+    throw error;
+  }
+};
+
+// Turn two-step verification off. Re-authenticate first.
+export const disableTotp = async (): Promise<void> => {
+  try {
+    const user = auth.currentUser;
+    if (!user) {
+      throw new Error('No authenticated user found');
+    }
+    
+    // Remove the recovery codes while the ID token is still valid; unenrolling the factor
+    // the user signed in with can expire it
+    await callRecoveryCodes(user, 'DELETE');
+    for (const factor of getTotpFactors(user)) {
+      await multiFactor(user).unenroll(factor);
+    }
+  } catch (error) {
+    console.error('Error turning off two-step verification:', error);
+    throw error;
+  }
+};
@@ -1,7 +1,13 @@
 // Import the Firebase SDK functions
 import { initializeApp, getApps } from 'firebase/app';
-import { getFirestore } from 'firebase/firestore';
-import { getAuth, browserLocalPersistence, setPersistence } from 'firebase/auth';
+import {
+  Firestore,
+  getFirestore,
+  initializeFirestore,
+  persistentLocalCache,
+  persistentMultipleTabManager
+} from 'firebase/firestore';
+import { getAuth, browserLocalPersistence, setPersistence, connectAuthEmulator } from 'firebase/auth';
 
 // Firebase configuration object - values will be loaded from environment variables
 const firebaseConfig = {
@@ -17,10 +23,33 @@ const firebaseConfig = {
 // Initialize Firebase only if it hasn't been initialized already
 const app = !getApps().length ? initializeApp(firebaseConfig) : getApps()[0];
 
+// Keep a persistent local copy of Firestore data in the browser, shared between tabs, so that
+// records already seen can be read offline. Firestore can only be initialized once, so a
+// reloaded module reuses the existing instance.
+const createFirestore = (): Firestore => {
+  if (typeof window === 'undefined') {
+    return getFirestore(app);
+  }
+  
+  try {
+    return initializeFirestore(app, {
+      localCache: persistentLocalCache({ tabManager: persistentMultipleTabManager() })
+    });
+  } catch {
+    return getFirestore(app);
+  }
+};
+
 // Get Firestore and Auth instances
-const db = getFirestore(app);
+const db = createFirestore();
 const auth = getAuth(app);
 
+// Use the local Auth emulator when one is configured, e.g. to try sign-up and password reset
+// without sending real emails
+if (process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST) {
+  connectAuthEmulator(auth, `http://${process.env.NEXT_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST}`, { disableWarnings: true });
+}
+
 // Set persistence to LOCAL to ensure authentication state is maintained
 // This is wrapped in a try-catch because it might fail if called multiple times
 try {
@@ -0,0 +1,118 @@
+import { createHash, randomInt } from 'crypto';
+import { FieldValue } from 'firebase-admin/firestore';
+import { getAdminAuth, getAdminFirestore } from './admin';
+
+// Recovery codes let a user sign in when they lose their authenticator app. Firebase has no
+// such codes, so they are kept here, hashed, in a collection no client can read or write.
+// Using one turns two-step verification off so the user can set it up again.
+
+const RECOVERY_CODE_COUNT = 10;
+const RECOVERY_CODE_LENGTH = 10;
+
+// Letters and digits that can't be mistaken for one another
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+// How recently the user must have signed in (or re-authenticated) to manage their codes
+const RECENT_SIGN_IN_SECONDS = 5 * 60;
+
+const getRecoveryCodesDoc = (uid: string) => getAdminFirestore().collection('mfaRecoveryCodes').doc(uid);
+
+// Codes are compared without their separator and regardless of case
+const normalizeRecoveryCode = (code: string): string => code.replace(/[^a-z0-9]/gi, '').toUpperCase();
+
+const hashRecoveryCode = (uid: string, code: string): string => {
+  return createHash('sha256').update(`${uid}:${normalizeRecoveryCode(code)}`).digest('hex');
+};
+
+// A code as shown to the user, e.g. "ABCDE-23456"
+const generateRecoveryCode = (): string => {
+  const characters = Array.from({ length: RECOVERY_CODE_LENGTH }, () =>
+    RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]
+  );
+  const half = RECOVERY_CODE_LENGTH / 2;
+  return `${characters.slice(0, half).join('')}-${characters.slice(half).join('')}`;
+};
+
+// Verify an ID token from a user who has just signed in or re-authenticated, returning their UID
+export const verifyRecentSignIn = async (idToken: unknown): Promise<string> => {
+  if (typeof idToken !== 'string' || !idToken) {
+    throw new Error('An ID token is required');
+  }
+
+  const decodedToken = await getAdminAuth().verifyIdToken(idToken, true);
+  if (Date.now() / 1000 - decodedToken.auth_time > RECENT_SIGN_IN_SECONDS) {
+    throw new Error('Sign in again to manage recovery codes');
+  }
+  return decodedToken.uid;
+};
+
+// Replace a user's recovery codes with a new set, returning the codes to show them once
+export const replaceRecoveryCodes = async (uid: string): Promise<string[]> => {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, generateRecoveryCode);
+
+  await getRecoveryCodesDoc(uid).set({
+    hashes: codes.map(code => hashRecoveryCode(uid, code)),
+    createdAt: FieldValue.serverTimestamp()
+  });
+  return codes;
+};
+
+export const deleteRecoveryCodes = async (uid: string): Promise<void> => {
+  await getRecoveryCodesDoc(uid).delete();
+};
+
+// Use up one of a user's recovery codes, returning false when it doesn't match any they have left
+export const consumeRecoveryCode = async (uid: string, code: string): Promise<boolean> => {
+  const docRef = getRecoveryCodesDoc(uid);
+  const hash = hashRecoveryCode(uid, code);
+
+  return getAdminFirestore().runTransaction(async (transaction) => {
+    const snapshot = await transaction.get(docRef);
+    const hashes: string[] = snapshot.exists ? snapshot.data()?.hashes || [] : [];
+    if (!hashes.includes(hash)) return false;
+
+    transaction.update(docRef, { hashes: FieldValue.arrayRemove(hash) });
+    return true;
+  });
+};
+
+// Sign-in proof the user gives alongside a recovery code, since the code stands in only for
+// the second factor
+export type RecoveryProof =
+  | { method: 'password'; email: string; password: string }
+  | { method: 'google'; idToken: string };
+
+const getIdentityToolkitUrl = (method: string): string => {
+  const host = process.env.FIREBASE_AUTH_EMULATOR_HOST
+    ? `http://${process.env.FIREBASE_AUTH_EMULATOR_HOST}/identitytoolkit.googleapis.com`
+    : 'https://identitytoolkit.googleapis.com';
+  return `${host}/v1/accounts:${method}?key=${process.env.NEXT_PUBLIC_FIREBASE_API_KEY}`;
+};
+
+// Check the first factor with Firebase Auth, returning the UID of a user who still needs their
+// second one, or null when the proof is wrong or the user has no second factor
+export const verifyFirstFactor = async (proof: RecoveryProof, requestUri: string): Promise<string | null> => {
+  const [method, body] = proof.method === 'password'
+    ? ['signInWithPassword', { email: proof.email, password: proof.password, returnSecureToken: true }]
+    : ['signInWithIdp', {
+      postBody: `id_token=${encodeURIComponent(proof.idToken)}&providerId=google.com`,
+      requestUri,
+      returnSecureToken: true
+    }];
+
+  const response = await fetch(getIdentityToolkitUrl(method), {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body)
+  });
+  if (!response.ok) return null;
+
+  const result = await response.json();
+  return result.mfaPendingCredential && result.localId ? result.localId : null;
+};
+
+// Turn off two-step verification after a recovery code has been used
+export const removeSecondFactors = async (uid: string): Promise<void> => {
+  await getAdminAuth().updateUser(uid, { multiFactor: { enrolledFactors: null } });
+  await deleteRecoveryCodes(uid);
+};
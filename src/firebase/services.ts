@@ -5,51 +5,164 @@ import {
   updateDoc, 
   deleteDoc, 
   getDoc, 
+  setDoc,
   getDocs, 
+  increment,
+  onSnapshot,
   query,
+  runTransaction,
   where,
   orderBy,
   Timestamp,
   writeBatch,
-  limit
+  limit,
+  arrayUnion,
+  arrayRemove,
+  deleteField,
+  CollectionReference,
+  DocumentData,
+  DocumentReference,
+  QueryDocumentSnapshot,
+  QuerySnapshot,
+  Transaction as FirestoreTransaction,
+  Unsubscribe,
+  WriteBatch
 } from 'firebase/firestore';
+import { FirebaseError } from 'firebase/app';
+import { User } from 'firebase/auth';
 import { auth, db } from './config';
+import {
+  RecurrenceRule,
+  RecurringFrequency,
+  daysBetween,
+  frequencyLabels,
+  fromDateKey,
+  getOccurrencesBetween,
+  getOccurrencesInMonth,
+  toDateKey
+} from '../utils/recurrence';
 
-// Flag to track if we're accessing shared data
-let isAccessingSharedData = false;
+import { DEFAULT_CURRENCY, formatMoney, fromMajorUnits, money, sumMoney } from '../utils/money';
+import { createCurrencyConverter, CurrencyConverter, getRecordCurrency } from '../utils/currency';
+import { AccountType, ClearedStatus, isLiabilityAccount } from '../utils/accounts';
+import {
+  BankAccountInfo,
+  CsvColumnMapping,
+  getExternalKey,
+  getTransactionFingerprint,
+  ImportMatchData
+} from '../utils/bankImport';
+import { DataExport, EXPORT_SCHEMA_VERSION, ExportRecord, toExportValue } from '../utils/dataExport';
+import { ForecastItem, VariableSpend } from '../utils/forecast';
+import {
+  BACKUP_SCHEMA_VERSION,
+  BackupArchive,
+  BackupCollection,
+  backupCollections,
+  rebaseOwnerIds,
+  remapIds,
+  recordsEqual,
+  RestoreCollectionReport,
+  RestoreMode,
+  RestoreReport,
+  reviveDates
+} from '../utils/backup';
+import { CategoryKind, cleanCategoryName, defaultCategories, normalizeCategoryName } from '../utils/categories';
+import {
+  canEditHousehold,
+  HouseholdInviteStatus,
+  HouseholdRole,
+  isValidEmail,
+  normalizeEmail
+} from '../utils/households';
+import {
+  getQueuedWrites,
+  isOffline,
+  QUEUE_CHANGE_EVENT,
+  QueuedRecordKind,
+  QueuedWrite,
+  queueWrite,
+  removeQueuedWrite,
+  updateQueuedWrite
+} from '../utils/offlineQueue';
 
-// Function to check if we're accessing shared data
-export const isUsingSharedData = (): boolean => {
-  return isAccessingSharedData;
-};
+export type { RecurringFrequency } from '../utils/recurrence';
+export type { CategoryKind } from '../utils/categories';
+export type { AccountType, ClearedStatus } from '../utils/accounts';
+export type { HouseholdInviteStatus, HouseholdRole } from '../utils/households';
 
 // Base types
 interface BaseModel {
   id?: string;
-  userId: string;
+  householdId: string;
+  createdAt: Date | Timestamp;
+  updatedAt?: Date | Timestamp;
+}
+
+// A member of a household
+export interface HouseholdMember {
+  role: HouseholdRole;
+  email: string;
+  displayName?: string;
+  joinedAt: Date | Timestamp;
+}
+
+// Type for a household: a budget shared by its members. Every record belongs to one
+// household. A user's own household has their user ID as its ID, so records created
+// before households existed keep their owner-derived IDs.
+export interface Household {
+  id?: string;
+  name: string;
+  ownerId: string;
+  members: Record<string, HouseholdMember>;  // Keyed by user ID
+  memberIds: string[];                       // Member user IDs, for membership queries
   createdAt: Date | Timestamp;
   updatedAt?: Date | Timestamp;
 }
 
+// Type for an invitation to join a household
+export interface HouseholdInvite {
+  id?: string;
+  householdId: string;
+  householdName: string;
+  email: string;                          // Normalized address of the person invited
+  role: Exclude<HouseholdRole, 'owner'>;
+  status: HouseholdInviteStatus;
+  invitedBy: string;                      // User ID of the owner who sent it
+  invitedByEmail: string;
+  createdAt: Date | Timestamp;
+  respondedAt?: Date | Timestamp;
+}
+
 // Type for Income
 export interface Income extends BaseModel {
   source: string;  // e.g., "Job", "Second Job", "Other"
-  amount: number;
+  amount: number;  // Integer cents
+  currency?: string;  // ISO 4217 code; records without one are in the default currency (USD)
+  accountId?: string | null;  // Account the income is paid into
   month: number;   // 1-12
   year: number;
   recurring: boolean;
   startDate?: Date | Timestamp;
   endDate?: Date | Timestamp;
-  frequency?: 'weekly' | 'biweekly' | 'monthly' | 'once';
+  frequency?: RecurringFrequency;
   description?: string;
   isPaid?: boolean;
+  status?: ClearedStatus;  // Against the account's statement, for paid income with no linked transaction
+  expectedDate?: Date | Timestamp; // Date the payment is expected (set on series occurrences)
+  seriesId?: string;       // Recurring series this occurrence belongs to
+  occurrenceKey?: string;  // Occurrence date within the series (YYYY-MM-DD)
+  deletedAt?: Date | Timestamp;  // Set while the record is in the trash
+  deletionId?: string;           // The delete that moved it there
 }
 
 // Types for Expenses
 export interface Expense extends BaseModel {
   category: 'fixed' | 'variable' | 'subscription';
   subcategory?: string;  // e.g., "Mortgage", "Groceries", "Netflix" - now optional
-  amount: number;
+  amount: number;  // Integer cents
+  currency?: string;  // ISO 4217 code; records without one are in the default currency (USD)
+  accountId?: string | null;  // Account the expense is paid from
   month: number;   // 1-12
   year: number;
   description?: string;
@@ -58,27 +171,85 @@ export interface Expense extends BaseModel {
   recurring: boolean;
   startDate?: Date | Timestamp;
   endDate?: Date | Timestamp;
-  frequency?: 'weekly' | 'biweekly' | 'monthly' | 'once';
+  frequency?: RecurringFrequency;
   isPaid?: boolean;
-  actualAmount?: number;  // Used when the actual amount differs from budgeted
+  status?: ClearedStatus;  // Against the account's statement, for paid expenses with no linked transaction
+  actualAmount?: number;  // Integer cents; used when the actual amount differs from budgeted
+  seriesId?: string;       // Recurring series this occurrence belongs to
+  occurrenceKey?: string;  // Occurrence date within the series (YYYY-MM-DD)
+  deletedAt?: Date | Timestamp;  // Set while the record is in the trash
+  deletionId?: string;           // The delete that moved it there
+}
+
+// Amount in effect for a recurring series from a given date onwards
+export interface SeriesAmountChange {
+  amount: number;  // Integer cents
+  effectiveDate: Date | Timestamp;
+}
+
+// Type for a recurring income or expense series. Month occurrences are
+// materialized lazily as Income/Expense documents that reference the series.
+export interface RecurringSeries extends BaseModel {
+  kind: 'income' | 'expense';
+  frequency: RecurringFrequency;
+  anchorDate?: Date | Timestamp;     // A date the schedule falls on (defaults to startDate)
+  startDate: Date | Timestamp;
+  endDate?: Date | Timestamp;
+  dueDayOfMonth?: number;            // Day of month for monthly, quarterly and annual series
+  amountHistory: SeriesAmountChange[];
+  currency?: string;                 // Currency of the series amounts, copied to occurrences
+  accountId?: string | null;         // Account copied to occurrences
+  skippedOccurrences?: string[];     // Occurrence keys deleted individually
+  description?: string;
+  source?: string;                   // Income series only
+  category?: Expense['category'];    // Expense series only
+  subcategory?: string;              // Expense series only
+  deletedAt?: Date | Timestamp;      // Set while the whole series is in the trash
+  deletionId?: string;               // The delete that trashed or ended the series
+  endDateBeforeDeletion?: Date | Timestamp | null;  // End date to put back when a "from this date" delete is undone
 }
 
-// Type for Transaction (for tracking individual variable expenses)
+// Type for Transaction (an individual payment made or received)
 export interface Transaction extends BaseModel {
-  expenseId?: string;   // Related expense if applicable
-  amount: number;
+  type: 'income' | 'expense';
+  expenseId?: string;   // Planned expense this payment counts towards
+  incomeId?: string;    // Planned income this payment was received for
+  amount: number;  // Integer cents
+  currency?: string;    // ISO 4217 code; records without one are in the default currency (USD)
+  accountId?: string;   // Account the money moved in or out of
+  status?: ClearedStatus;  // Against the account's bank statement; missing means uncleared
+  externalId?: string;  // The bank's ID for an imported transaction (OFX FITID)
+  bankAccount?: BankAccountInfo;  // Account details from the file it was imported from
   description: string;
   category: string;
   subcategory?: string;
   date: Date | Timestamp;
-  month: number;
-  year: number;
+  month: number;        // Derived from date
+  year: number;         // Derived from date
+  deletedAt?: Date | Timestamp;  // Set while the transaction is in the trash
+  deletionId?: string;           // The delete that moved it there
 }
 
-// Type for monthly summary
+// Fields supplied when recording a transaction; month and year are derived from the date,
+// and the cleared status is only changed while reconciling
+export type TransactionInput = Omit<
+  Transaction,
+  'id' | 'householdId' | 'createdAt' | 'updatedAt' | 'month' | 'year' | 'status' | 'deletedAt' | 'deletionId'
+>;
+
+// Filters for browsing the transaction ledger
+export interface TransactionFilters {
+  startDate?: Date;
+  endDate?: Date;
+  type?: Transaction['type'];
+  category?: string;
+}
+
+// Type for monthly summary (all totals in integer cents of the base currency)
 export interface MonthlySummary extends BaseModel {
   month: number;
   year: number;
+  currency?: string;  // Base currency the totals were converted to
   totalIncome: number;
   totalFixedExpenses: number;
   totalVariableExpenses: number;
@@ -87,28 +258,206 @@ export interface MonthlySummary extends BaseModel {
   paidVariableExpenses?: number;
   paidSubscriptions?: number;
   balance: number;  // Surplus/deficit
+  envelopes?: EnvelopeBalance[];  // Per-envelope budget breakdown
+  unconvertedCurrencies?: string[];  // Currencies left out of the totals for lack of an exchange rate
+  version?: number;  // SUMMARY_VERSION the summary was calculated with
+  computedAt?: Date | Timestamp;  // When the summary was last calculated in full
+  staleSince?: Date | Timestamp;  // Set when a change to the month couldn't be applied to it
+}
+
+// Type for a user-defined category. Top-level categories are what transactions are filed
+// under; their children are subcategories. Records reference categories by name.
+export interface Category extends BaseModel {
+  name: string;
+  normalizedName: string;    // Used to match references regardless of case and spacing
+  kind: CategoryKind;
+  parentId?: string | null;  // Parent category for subcategories
+  color: string;
+  icon?: string;
+  archived: boolean;         // Hidden from pickers but kept for historical records
+}
+
+// Type for a budget envelope (a monthly spending allocation for a category)
+export interface BudgetEnvelope extends BaseModel {
+  name: string;                // e.g., "Groceries"
+  category: string;            // Transaction category the envelope tracks
+  subcategory?: string;        // Optional subcategory to narrow the match
+  monthlyAllocation: number;  // Integer cents
+  rollover: boolean;           // Carry unspent or overspent balances into the next month
+  startMonth: number;          // First month the envelope is funded (1-12)
+  startYear: number;
+}
+
+// Type for an envelope's balance in a given month (amounts in integer cents)
+export interface EnvelopeBalance {
+  envelopeId: string;
+  name: string;
+  allocated: number;
+  carriedOver: number;  // Balance rolled over from previous months (negative when overspent)
+  spent: number;
+  remaining: number;
+  unconvertedCurrencies?: string[];  // Currencies of spending left out for lack of an exchange rate
+}
+
+// Type for per-household settings, stored with the household ID as the document ID
+export interface UserSettings {
+  baseCurrency?: string;     // Currency totals are reported in (defaults to USD)
+  amountsInCents?: boolean;  // Set once stored amounts have been migrated to cents
+  recordsInHousehold?: boolean;  // Set once records from before households have been moved into one
+  recurringInSeries?: boolean;   // Set once recurring records from before series have been grouped into them
+  trashRetentionDays?: number;  // Days deleted records stay in the trash (defaults to 30)
+  updatedAt?: Date | Timestamp;
 }
 
-// Get current user ID safely
-const getCurrentUserId = (): string => {
+// Type for an exchange rate in effect from a date until the next rate for the same pair
+export interface ExchangeRate extends BaseModel {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;  // Units of toCurrency per unit of fromCurrency
+  effectiveDate: Date | Timestamp;
+}
+
+// Type for an account money is held in (or owed on, for credit cards)
+export interface Account extends BaseModel {
+  name: string;            // e.g., "Joint Checking"
+  type: AccountType;
+  institution?: string;    // Bank or card issuer
+  currency?: string;       // ISO 4217 code (defaults to USD)
+  openingBalance: number;  // Integer cents; negative for money owed
+  openingDate: Date | Timestamp;
+  archived: boolean;       // Hidden from pickers but kept for history
+}
+
+// Type for a transfer between two of the user's accounts. Transfers move money without
+// earning or spending it, so they are left out of income and spending totals.
+export interface Transfer extends BaseModel {
+  fromAccountId: string;
+  toAccountId: string;
+  amount: number;  // Integer cents in the source account's currency
+  date: Date | Timestamp;
+  description?: string;
+  statuses?: Record<string, ClearedStatus>;  // Cleared status keyed by account ID; each side clears on its own statement
+}
+
+// A line in an account register (amounts in integer cents of the account's currency)
+export interface AccountRegisterEntry {
+  id: string;       // ID of the record behind the entry
+  source: 'opening' | 'transaction' | 'income' | 'expense' | 'transfer';
+  date: Date;
+  description: string;
+  amount: number;   // Positive for money in, negative for money out
+  balance: number;  // Running balance after this entry
+  status?: ClearedStatus;  // Set on every entry but the opening balance, since each one gets reconciled
+}
+
+// A register entry that can be ticked off against a bank statement
+export type ReconcilableEntry = Pick<AccountRegisterEntry, 'id'> & { source: Exclude<AccountRegisterEntry['source'], 'opening'> };
+
+// Type for a completed reconciliation of an account against a bank statement
+export interface Reconciliation extends BaseModel {
+  accountId: string;
+  statementDate: Date | Timestamp;   // Ending date of the statement
+  statementBalance: number;          // Integer cents in the account's currency
+  startingBalance: number;           // Balance carried over from the previous reconciliation
+  items: ReconcilableEntry[];        // Entries locked by this reconciliation
+}
+
+// The entries still to be reconciled for an account, up to a statement date
+export interface ReconciliationWorksheet {
+  account: Account;
+  startingBalance: number;          // Previous statement balance, or the opening balance the first time
+  entries: AccountRegisterEntry[];  // Unreconciled register entries, oldest first
+}
+
+// Type for a saved bank file layout, so the same export can be imported again without remapping
+export interface ImportProfile extends BaseModel {
+  name: string;              // e.g., "Chase Checking CSV"
+  mapping: CsvColumnMapping;
+  accountId?: string;        // Account imported transactions are recorded against
+  currency?: string;         // Currency of the file's amounts (defaults to the account's or USD)
+}
+
+// A record in the trash
+export interface TrashItem {
+  id: string;
+  kind: 'income' | 'expense' | 'transaction' | 'series';
+  description: string;
+  amount: number;      // Integer cents (the latest amount, for a series)
+  currency?: string;
+  date: Date;          // When the record was due, happened or started
+}
+
+// Everything one delete moved to the trash
+export interface TrashEntry {
+  deletionId: string;
+  deletedAt: Date;
+  purgeAt: Date;       // When the items are permanently deleted unless restored
+  items: TrashItem[];
+}
+
+// Type for an account's current balance
+export interface AccountBalance {
+  account: Account;
+  balance: number;             // Integer cents in the account's currency
+  baseBalance: number | null;  // Integer cents in the base currency; null when no rate is available
+}
+
+// Get the signed-in user
+const getSignedInUser = (): User => {
   const user = auth.currentUser;
   if (!user) throw new Error('User not authenticated');
-  
-  // Get the primary user's email and ID from env variables
-  const primaryUserEmail = process.env.NEXT_PUBLIC_PRIMARY_USER_EMAIL;
-  const primaryUserId = process.env.NEXT_PUBLIC_PRIMARY_USER_ID;
-  
-  // If the user is not the primary user (based on email) and we have a primary user ID configured,
-  // use the primary user's ID for data access to enable sharing
-  if (user.email !== primaryUserEmail && primaryUserId) {
-    console.log(`Using primary user ID (${primaryUserId.substring(0, 6)}...) for data access instead of current user`);
-    isAccessingSharedData = true;
-    return primaryUserId;
+  return user;
+};
+
+// The household a user is working in is remembered per user on this device
+const getActiveHouseholdKey = (userId: string): string => `activeHousehold:${userId}`;
+
+// Get the household the signed-in user is working in: the one they last switched to, or their own
+export const getCurrentHouseholdId = (): string => {
+  const user = getSignedInUser();
+  const stored = typeof window !== 'undefined' ? localStorage.getItem(getActiveHouseholdKey(user.uid)) : null;
+  return stored || user.uid;
+};
+
+// Switch the household the signed-in user is working in
+export const setActiveHousehold = (householdId: string): void => {
+  const user = getSignedInUser();
+  if (householdId === user.uid) {
+    localStorage.removeItem(getActiveHouseholdKey(user.uid));
+  } else {
+    localStorage.setItem(getActiveHouseholdKey(user.uid), householdId);
   }
-  
-  // If the user is primary or we don't have sharing configured, use their own ID
-  isAccessingSharedData = false;
-  return user.uid;
+};
+
+// Get the signed-in user's role in a household, or null when they are not a member. Their
+// own household is theirs even before its document has been created.
+export const getHouseholdRole = async (householdId: string): Promise<HouseholdRole | null> => {
+  const user = getSignedInUser();
+  const householdSnap = await getDoc(doc(getHouseholdsCollection(), householdId));
+  if (!householdSnap.exists()) {
+    return householdId === user.uid ? 'owner' : null;
+  }
+  return (householdSnap.data() as Household).members?.[user.uid]?.role || null;
+};
+
+// Get the current household for a change, failing for members who can only view it
+const getEditableHouseholdId = async (): Promise<string> => {
+  const householdId = getCurrentHouseholdId();
+  const role = await getHouseholdRole(householdId);
+  if (!role) {
+    throw new Error('You are no longer a member of this household');
+  }
+  if (!canEditHousehold(role)) {
+    throw new Error('You have view-only access to this household');
+  }
+  return householdId;
+};
+
+// Check whether the signed-in user may write to a household. Reads that would otherwise
+// save derived data (occurrences, summaries, default categories) skip saving for viewers,
+// and while offline, when it is simply worked out again on the next read.
+const canWriteToHousehold = async (householdId: string): Promise<boolean> => {
+  return !isOffline() && canEditHousehold(await getHouseholdRole(householdId));
 };
 
 // Collection references
@@ -116,893 +465,5024 @@ const getIncomeCollection = () => collection(db, 'income');
 const getExpensesCollection = () => collection(db, 'expenses');
 const getTransactionsCollection = () => collection(db, 'transactions');
 const getMonthlySummaryCollection = () => collection(db, 'monthlySummaries');
+const getRecurringSeriesCollection = () => collection(db, 'recurringSeries');
+const getBudgetEnvelopesCollection = () => collection(db, 'budgetEnvelopes');
+const getCategoriesCollection = () => collection(db, 'categories');
+const getUserSettingsCollection = () => collection(db, 'userSettings');
+const getExchangeRatesCollection = () => collection(db, 'exchangeRates');
+const getAccountsCollection = () => collection(db, 'accounts');
+const getTransfersCollection = () => collection(db, 'transfers');
+const getReconciliationsCollection = () => collection(db, 'reconciliations');
+const getImportProfilesCollection = () => collection(db, 'importProfiles');
+const getHouseholdsCollection = () => collection(db, 'households');
+const getHouseholdInvitesCollection = () => collection(db, 'householdInvites');
+
+// Date a planned income applies to, used to pick its exchange rate
+export const getIncomeDate = (income: Income): Date => {
+  if (income.expectedDate) return toDate(income.expectedDate);
+  return new Date(income.year, income.month - 1, 1);
+};
+
+// Date a planned expense applies to, used to pick its exchange rate
+export const getExpenseDate = (expense: Expense): Date => {
+  if (expense.dueDate) return toDate(expense.dueDate);
+  return new Date(expense.year, expense.month - 1, 1);
+};
+
+// Total of stored amounts in the base currency, converting each at the rate on its date.
+// Amounts in a currency with no rate are left out and their currency added to unconverted.
+const sumInBaseCurrency = <T extends { amount: number; currency?: string }>(
+  converter: CurrencyConverter,
+  items: T[],
+  getDate: (item: T) => Date,
+  unconverted: Set<string>
+): number => {
+  return sumMoney(
+    items
+      .filter((item) => {
+        const currency = getRecordCurrency(item);
+        if (converter.canConvert(currency)) return true;
+        unconverted.add(currency);
+        return false;
+      })
+      .map(item => converter.toBase(money(item.amount, getRecordCurrency(item)), getDate(item))),
+    converter.baseCurrency
+  ).cents;
+};
+
+// Paid income and expenses that were reconciled are locked to what the statement showed, in
+// the same way reconciled transactions are
+const assertReconciledUnchanged = (label: string, before: DocumentData | null, after: DocumentData): void => {
+  if (before?.status !== 'reconciled') return;
+  
+  if (
+    after.amount !== before.amount
+    || (after.accountId ?? null) !== (before.accountId ?? null)
+    || !after.isPaid
+    || isDeleted(after)
+  ) {
+    throw new Error(`This ${label} has been reconciled, so its amount, account and paid status can no longer be changed`);
+  }
+};
 
 // ========================
-// INCOME OPERATIONS
+// HOUSEHOLD OPERATIONS
 // ========================
 
-// Add or update income
-export const addOrUpdateIncome = async (income: Omit<Income, 'id' | 'userId' | 'createdAt' | 'updatedAt'>, id?: string): Promise<string> => {
+// ID of the invitation to a household for an email address; a new invitation replaces an
+// old declined or revoked one
+const getInviteId = (householdId: string, email: string): string => `${householdId}_${normalizeEmail(email)}`;
+
+// Get a household the signed-in user owns, for member management
+const getOwnedHousehold = async (householdId: string): Promise<Household> => {
+  const user = getSignedInUser();
+  const householdSnap = await getDoc(doc(getHouseholdsCollection(), householdId));
+  if (!householdSnap.exists()) {
+    throw new Error('Household not found');
+  }
+  
+  const household = { ...householdSnap.data(), id: householdSnap.id } as Household;
+  if (household.ownerId !== user.uid) {
+    throw new Error('Only the household owner can manage its members');
+  }
+  
+  return household;
+};
+
+// Get the households the signed-in user belongs to, their own first
+export const getMyHouseholds = async (): Promise<Household[]> => {
   try {
-    const userId = getCurrentUserId();
+    const user = getSignedInUser();
     
-    const incomeData = {
-      ...income,
-      userId,
-      updatedAt: Timestamp.now(),
-      ...(id ? {} : { createdAt: Timestamp.now() }),
-    };
+    const querySnapshot = await getDocs(query(
+      getHouseholdsCollection(),
+      where('memberIds', 'array-contains', user.uid)
+    ));
+    const households = querySnapshot.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as Household));
     
-    // Convert dates to Timestamps if needed
-    if (income.startDate instanceof Date) {
-      incomeData.startDate = Timestamp.fromDate(income.startDate);
-    }
-    if (income.endDate instanceof Date) {
-      incomeData.endDate = Timestamp.fromDate(income.endDate);
+    return households.sort((a, b) =>
+      Number(b.id === user.uid) - Number(a.id === user.uid) || a.name.localeCompare(b.name)
+    );
+  } catch (error) {
+    console.error('Error getting households:', error);
+    throw error;
+  }
+};
+
+// Rename the current household
+export const renameHousehold = async (name: string): Promise<void> => {
+  try {
+    const household = await getOwnedHousehold(getCurrentHouseholdId());
+    const trimmed = name.trim();
+    if (!trimmed) {
+      throw new Error('Household name is required');
     }
     
-    if (id) {
-      const docRef = doc(getIncomeCollection(), id);
-      await updateDoc(docRef, incomeData);
-      return id;
-    } else {
-      const docRef = await addDoc(getIncomeCollection(), incomeData);
-      return docRef.id;
-    }
+    await updateDoc(doc(getHouseholdsCollection(), household.id), {
+      name: trimmed,
+      updatedAt: Timestamp.now()
+    });
   } catch (error) {
-    console.error('Error adding/updating income:', error);
+    console.error('Error renaming household:', error);
     throw error;
   }
 };
 
-// Get income by ID
-export const getIncome = async (id: string): Promise<Income | null> => {
+// Invite someone to the current household by email. They see the invitation once they
+// sign in with that address. Each household has one invitation per address, whose ID the
+// security rules derive from the invitee's email to check that they were invited.
+export const inviteToHousehold = async (email: string, role: HouseholdInvite['role']): Promise<string> => {
   try {
-    const docRef = doc(db, 'income', id);
-    const docSnap = await getDoc(docRef);
+    const user = getSignedInUser();
+    const household = await getOwnedHousehold(getCurrentHouseholdId());
+    const normalizedEmail = normalizeEmail(email);
     
-    if (docSnap.exists()) {
-      const data = docSnap.data() as Omit<Income, 'id'>;
-      return { ...data, id: docSnap.id } as Income;
+    if (!isValidEmail(normalizedEmail)) {
+      throw new Error('Enter a valid email address');
     }
-    return null;
+    if (Object.values(household.members).some(member => normalizeEmail(member.email) === normalizedEmail)) {
+      throw new Error('This person is already a member of the household');
+    }
+    
+    const pending = await getDocs(query(
+      getHouseholdInvitesCollection(),
+      where('householdId', '==', household.id),
+      where('email', '==', normalizedEmail),
+      where('status', '==', 'pending')
+    ));
+    if (!pending.empty) {
+      throw new Error('This person has already been invited');
+    }
+    
+    const invite: Omit<HouseholdInvite, 'id'> = {
+      householdId: household.id!,
+      householdName: household.name,
+      email: normalizedEmail,
+      role,
+      status: 'pending',
+      invitedBy: user.uid,
+      invitedByEmail: user.email || '',
+      createdAt: Timestamp.now()
+    };
+    
+    const inviteRef = doc(getHouseholdInvitesCollection(), getInviteId(household.id!, normalizedEmail));
+    await setDoc(inviteRef, invite);
+    return inviteRef.id;
   } catch (error) {
-    console.error('Error getting income:', error);
+    console.error('Error inviting to household:', error);
     throw error;
   }
 };
 
-// Get income for a specific month/year
-export const getMonthlyIncome = async (month: number, year: number): Promise<Income[]> => {
+// Get the pending invitations sent from the current household
+export const getSentInvites = async (): Promise<HouseholdInvite[]> => {
   try {
-    const userId = getCurrentUserId();
+    const household = await getOwnedHousehold(getCurrentHouseholdId());
     
-    try {
-      const q = query(
-        getIncomeCollection(), 
-        where('userId', '==', userId),
-        where('year', '==', year),
-        where('month', '==', month)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const incomeItems: Income[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        incomeItems.push({ ...doc.data(), id: doc.id } as Income);
-      });
-      
-      return incomeItems;
-    } catch (indexError) {
-      console.warn("Index error for income query, trying simpler query:", indexError);
-      
-      // Fallback to simpler query
-      const q = query(
-        getIncomeCollection(),
-        where('userId', '==', userId)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const incomeItems: Income[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as Income;
-        if (data.year === year && data.month === month) {
-          incomeItems.push({ ...data, id: doc.id } as Income);
-        }
-      });
-      
-      return incomeItems;
-    }
+    const querySnapshot = await getDocs(query(
+      getHouseholdInvitesCollection(),
+      where('householdId', '==', household.id),
+      where('status', '==', 'pending')
+    ));
+    return querySnapshot.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as HouseholdInvite));
   } catch (error) {
-    console.error('Error getting monthly income:', error);
+    console.error('Error getting sent invites:', error);
     throw error;
   }
 };
 
-// Delete income
-export const deleteIncome = async (id: string): Promise<void> => {
+// Get the pending invitations addressed to the signed-in user
+export const getMyInvites = async (): Promise<HouseholdInvite[]> => {
   try {
-    const userId = getCurrentUserId();
-    
-    const docRef = doc(db, 'income', id);
+    const user = getSignedInUser();
+    if (!user.email) return [];
     
-    // Verify ownership before deleting
-    const docSnap = await getDoc(docRef);
-    if (!docSnap.exists()) {
-      throw new Error('Income record not found');
-    }
-    
-    const income = docSnap.data();
-    if (income.userId !== userId) {
-      throw new Error('Not authorized to delete this income record');
-    }
-    
-    await deleteDoc(docRef);
+    const querySnapshot = await getDocs(query(
+      getHouseholdInvitesCollection(),
+      where('email', '==', normalizeEmail(user.email)),
+      where('status', '==', 'pending')
+    ));
+    return querySnapshot.docs.map(docSnap => ({ ...docSnap.data(), id: docSnap.id } as HouseholdInvite));
   } catch (error) {
-    console.error('Error deleting income:', error);
+    console.error('Error getting invites:', error);
     throw error;
   }
 };
 
-// ========================
-// EXPENSE OPERATIONS
-// ========================
+// Get a pending invitation addressed to the signed-in user
+const getMyPendingInvite = async (inviteId: string): Promise<HouseholdInvite> => {
+  const user = getSignedInUser();
+  const inviteSnap = await getDoc(doc(getHouseholdInvitesCollection(), inviteId));
+  if (!inviteSnap.exists()) {
+    throw new Error('Invitation not found');
+  }
+  
+  const invite = { ...inviteSnap.data(), id: inviteSnap.id } as HouseholdInvite;
+  if (!user.email || invite.email !== normalizeEmail(user.email)) {
+    throw new Error('This invitation is for someone else');
+  }
+  if (invite.status !== 'pending') {
+    throw new Error('This invitation is no longer open');
+  }
+  
+  return invite;
+};
 
-// Add or update expense
-export const addOrUpdateExpense = async (expense: Omit<Expense, 'id' | 'userId' | 'createdAt' | 'updatedAt'>, id?: string): Promise<string> => {
+// Accept an invitation, joining the household with the role it offers. Returns the household ID.
+export const acceptInvite = async (inviteId: string): Promise<string> => {
   try {
-    const userId = getCurrentUserId();
+    const user = getSignedInUser();
+    const invite = await getMyPendingInvite(inviteId);
     
-    const expenseData = {
-      ...expense,
-      userId,
-      updatedAt: Timestamp.now(),
-      ...(id ? {} : { createdAt: Timestamp.now() }),
+    const member: HouseholdMember = {
+      role: invite.role,
+      email: user.email || invite.email,
+      ...(user.displayName ? { displayName: user.displayName } : {}),
+      joinedAt: Timestamp.now()
     };
     
-    // Convert dates to Timestamps if needed
-    if (expense.dueDate instanceof Date) {
-      expenseData.dueDate = Timestamp.fromDate(expense.dueDate);
-    }
-    if (expense.startDate instanceof Date) {
-      expenseData.startDate = Timestamp.fromDate(expense.startDate);
-    }
-    if (expense.endDate instanceof Date) {
-      expenseData.endDate = Timestamp.fromDate(expense.endDate);
-    }
+    const batch = writeBatch(db);
+    batch.update(doc(getHouseholdsCollection(), invite.householdId), {
+      [`members.${user.uid}`]: member,
+      memberIds: arrayUnion(user.uid),
+      updatedAt: Timestamp.now()
+    });
+    batch.update(doc(getHouseholdInvitesCollection(), inviteId), {
+      status: 'accepted',
+      respondedAt: Timestamp.now()
+    });
+    await batch.commit();
     
-    if (id) {
-      const docRef = doc(getExpensesCollection(), id);
-      await updateDoc(docRef, expenseData);
-      return id;
-    } else {
-      const docRef = await addDoc(getExpensesCollection(), expenseData);
-      return docRef.id;
-    }
+    return invite.householdId;
   } catch (error) {
-    console.error('Error adding/updating expense:', error);
+    console.error('Error accepting invite:', error);
     throw error;
   }
 };
 
-// Get expense by ID
-export const getExpense = async (id: string): Promise<Expense | null> => {
+// Decline an invitation
+export const declineInvite = async (inviteId: string): Promise<void> => {
   try {
-    const docRef = doc(db, 'expenses', id);
-    const docSnap = await getDoc(docRef);
+    await getMyPendingInvite(inviteId);
     
-    if (docSnap.exists()) {
-      const data = docSnap.data() as Omit<Expense, 'id'>;
-      return { ...data, id: docSnap.id } as Expense;
-    }
-    return null;
+    await updateDoc(doc(getHouseholdInvitesCollection(), inviteId), {
+      status: 'declined',
+      respondedAt: Timestamp.now()
+    });
   } catch (error) {
-    console.error('Error getting expense:', error);
+    console.error('Error declining invite:', error);
     throw error;
   }
 };
 
-// Get expenses for a specific month/year and category
-export const getMonthlyExpensesByCategory = async (month: number, year: number, category: 'fixed' | 'variable' | 'subscription'): Promise<Expense[]> => {
+// Withdraw an invitation sent from the current household
+export const revokeInvite = async (inviteId: string): Promise<void> => {
   try {
-    const userId = getCurrentUserId();
+    const household = await getOwnedHousehold(getCurrentHouseholdId());
     
-    try {
-      const q = query(
-        getExpensesCollection(), 
-        where('userId', '==', userId),
-        where('category', '==', category),
-        where('year', '==', year),
-        where('month', '==', month)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const expenses: Expense[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        expenses.push({ ...doc.data(), id: doc.id } as Expense);
-      });
-      
-      return expenses;
-    } catch (indexError) {
-      console.warn(`Index error for ${category} expenses query, trying simpler query:`, indexError);
-      
-      // Fallback to simpler query
-      const q = query(
-        getExpensesCollection(),
-        where('userId', '==', userId),
-        where('category', '==', category)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const expenses: Expense[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as Expense;
-        if (data.year === year && data.month === month) {
-          expenses.push({ ...data, id: doc.id } as Expense);
-        }
-      });
-      
-      return expenses;
+    const inviteRef = doc(getHouseholdInvitesCollection(), inviteId);
+    const inviteSnap = await getDoc(inviteRef);
+    if (!inviteSnap.exists() || inviteSnap.data().householdId !== household.id) {
+      throw new Error('Invitation not found');
     }
+    
+    await updateDoc(inviteRef, {
+      status: 'revoked',
+      respondedAt: Timestamp.now()
+    });
   } catch (error) {
-    console.error(`Error getting monthly ${category} expenses:`, error);
+    console.error('Error revoking invite:', error);
     throw error;
   }
 };
 
-// Get all expenses for a specific month/year
-export const getAllMonthlyExpenses = async (month: number, year: number): Promise<Expense[]> => {
+// Change a member's role in the current household
+export const updateMemberRole = async (memberId: string, role: HouseholdInvite['role']): Promise<void> => {
   try {
-    const userId = getCurrentUserId();
+    const household = await getOwnedHousehold(getCurrentHouseholdId());
+    if (!household.members[memberId]) {
+      throw new Error('Member not found');
+    }
+    if (memberId === household.ownerId) {
+      throw new Error("The owner's role cannot be changed");
+    }
     
-    try {
-      const q = query(
-        getExpensesCollection(), 
-        where('userId', '==', userId),
-        where('year', '==', year),
-        where('month', '==', month)
-      );
-      
-      const querySnapshot = await getDocs(q);
-      const expenses: Expense[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        expenses.push({ ...doc.data(), id: doc.id } as Expense);
-      });
+    await updateDoc(doc(getHouseholdsCollection(), household.id), {
+      [`members.${memberId}.role`]: role,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    throw error;
+  }
+};
+
+// Remove a member from the current household
+export const removeMember = async (memberId: string): Promise<void> => {
+  try {
+    const household = await getOwnedHousehold(getCurrentHouseholdId());
+    if (memberId === household.ownerId) {
+      throw new Error('The owner cannot be removed from the household');
+    }
+    
+    await updateDoc(doc(getHouseholdsCollection(), household.id), {
+      [`members.${memberId}`]: deleteField(),
+      memberIds: arrayRemove(memberId),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error removing member:', error);
+    throw error;
+  }
+};
+
+// Leave a household the signed-in user was invited to. Owners cannot leave their own.
+export const leaveHousehold = async (householdId: string): Promise<void> => {
+  try {
+    const user = getSignedInUser();
+    
+    const householdRef = doc(getHouseholdsCollection(), householdId);
+    const householdSnap = await getDoc(householdRef);
+    if (!householdSnap.exists()) {
+      throw new Error('Household not found');
+    }
+    if (householdSnap.data().ownerId === user.uid) {
+      throw new Error('The owner cannot leave their own household');
+    }
+    
+    await updateDoc(householdRef, {
+      [`members.${user.uid}`]: deleteField(),
+      memberIds: arrayRemove(user.uid),
+      updatedAt: Timestamp.now()
+    });
+    
+    if (getCurrentHouseholdId() === householdId) {
+      setActiveHousehold(user.uid);
+    }
+  } catch (error) {
+    console.error('Error leaving household:', error);
+    throw error;
+  }
+};
+
+// Make another member the owner of a household the signed-in user owns. The old owner stays
+// on as an editor.
+export const transferHouseholdOwnership = async (householdId: string, newOwnerId: string): Promise<void> => {
+  try {
+    const household = await getOwnedHousehold(householdId);
+    if (newOwnerId === household.ownerId || !household.members[newOwnerId]) {
+      throw new Error('Choose another member of the household');
+    }
+    
+    await updateDoc(doc(getHouseholdsCollection(), household.id), {
+      ownerId: newOwnerId,
+      [`members.${newOwnerId}.role`]: 'owner',
+      [`members.${household.ownerId}.role`]: 'editor',
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error transferring household ownership:', error);
+    throw error;
+  }
+};
+
+// ========================
+// OFFLINE QUEUE
+// ========================
+
+// Income and expense changes made offline, or when Firestore can't be reached, are queued on
+// the device and written once it reconnects. Until then, reads show them as if they had
+// already been saved.
+
+// Whether Firestore couldn't be reached. The browser can report a connection that doesn't get
+// through, as in a basement with no signal, so this can happen while it says it is online.
+const isUnreachable = (error: unknown): boolean => {
+  return error instanceof FirebaseError && error.code === 'unavailable';
+};
+
+// Make a change now, or queue it when offline or when Firestore can't be reached
+const writeOrQueue = async (write: () => Promise<unknown>, queue: () => Promise<void>): Promise<void> => {
+  if (isOffline()) {
+    await queue();
+    return;
+  }
+  
+  try {
+    await write();
+  } catch (error) {
+    if (!isUnreachable(error)) throw error;
+    await queue();
+  }
+};
+
+// Timestamps don't survive being stored in IndexedDB, so queued records carry Dates instead
+const toQueuedRecord = (record: object): Record<string, unknown> => {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [
+    key,
+    value instanceof Timestamp ? value.toDate() : value
+  ]));
+};
+
+const queueRecordSave = async (
+  kind: QueuedRecordKind,
+  householdId: string,
+  recordId: string,
+  isNew: boolean,
+  record: object
+): Promise<void> => {
+  await queueWrite({
+    userId: getSignedInUser().uid,
+    householdId,
+    kind,
+    recordId,
+    queuedAt: Date.now(),
+    action: 'save',
+    isNew,
+    record: toQueuedRecord(record)
+  });
+};
+
+const queueRecordDelete = async (kind: QueuedRecordKind, householdId: string, recordId: string, deletionId: string): Promise<void> => {
+  await queueWrite({
+    userId: getSignedInUser().uid,
+    householdId,
+    kind,
+    recordId,
+    queuedAt: Date.now(),
+    action: 'delete',
+    deletionId
+  });
+};
+
+// Show a month's records with the queued changes applied: saves update or add records and
+// deletes hide them. Changes that failed to sync are left out.
+const applyQueuedWrites = async <T extends { id?: string; month: number; year: number }>(
+  kind: QueuedRecordKind,
+  householdId: string,
+  month: number,
+  year: number,
+  records: T[]
+): Promise<T[]> => {
+  const writes = (await getQueuedWrites(getSignedInUser().uid))
+    .filter(write => write.kind === kind && write.householdId === householdId && !write.failedAt);
+  
+  let result = records;
+  for (const write of writes) {
+    if (write.action === 'delete') {
+      result = result.filter(record => record.id !== write.recordId);
+      continue;
+    }
+    
+    const queued = { ...write.record, id: write.recordId, householdId } as unknown as T;
+    const inMonth = queued.month === month && queued.year === year;
+    if (result.some(record => record.id === write.recordId)) {
+      result = inMonth
+        ? result.map(record => record.id === write.recordId ? { ...record, ...queued } : record)
+        : result.filter(record => record.id !== write.recordId);
+    } else if (inMonth) {
+      result = [...result, queued];
+    }
+  }
+  return result;
+};
+
+const replayWrite = async (write: QueuedWrite): Promise<void> => {
+  if (write.action === 'delete') {
+    const trash = write.kind === 'income' ? trashIncome : trashExpense;
+    await trash(write.householdId, write.recordId, write.deletionId);
+  } else if (write.kind === 'income') {
+    await writeIncome(write.householdId, write.record as unknown as IncomeInput, write.recordId, write.isNew);
+  } else {
+    await writeExpense(write.householdId, write.record as unknown as ExpenseInput, write.recordId, write.isNew);
+  }
+};
+
+export interface ReplayResult {
+  synced: number;
+  failed: number;  // Changes Firestore rejected, e.g. because the user can no longer edit the household
+}
+
+// Reason a replayed change was rejected, as shown to the user
+const getFailureMessage = (error: unknown): string => {
+  if (error instanceof FirebaseError && error.code === 'permission-denied') {
+    return 'You no longer have permission to make this change';
+  }
+  return error instanceof Error ? error.message : 'The change could not be saved';
+};
+
+// Set while a replay is running, so that overlapping triggers share it
+let replayInProgress: Promise<ReplayResult> | null = null;
+
+// Write the signed-in user's queued changes in the order they were made. A change Firestore
+// rejects is kept as failed until the user retries or discards it, and later changes to the
+// same record wait behind it so they aren't applied out of order. Other records carry on;
+// replay stops if the connection drops again.
+export const replayQueuedWrites = (): Promise<ReplayResult> => {
+  if (replayInProgress) return replayInProgress;
+  
+  replayInProgress = (async () => {
+    try {
+      const result: ReplayResult = { synced: 0, failed: 0 };
+      const held = new Set<string>();
+      
+      for (const write of await getQueuedWrites(getSignedInUser().uid)) {
+        if (isOffline()) break;
+        if (write.failedAt || held.has(write.recordId)) {
+          held.add(write.recordId);
+          continue;
+        }
+        
+        try {
+          await replayWrite(write);
+          result.synced++;
+          await removeQueuedWrite(write.id!);
+        } catch (error) {
+          if (isUnreachable(error)) break;
+          console.error('Error replaying queued change, keeping it as failed:', error);
+          result.failed++;
+          held.add(write.recordId);
+          await updateQueuedWrite({ ...write, failedAt: Date.now(), failure: getFailureMessage(error) });
+        }
+      }
+      
+      return result;
+    } catch (error) {
+      console.error('Error replaying queued changes:', error);
+      throw error;
+    } finally {
+      replayInProgress = null;
+    }
+  })();
+  return replayInProgress;
+};
+
+// Get the IDs of records with changes still waiting to sync. Failed changes aren't pending;
+// see getFailedWrites.
+export const getPendingRecordIds = async (): Promise<string[]> => {
+  try {
+    const writes = await getQueuedWrites(getSignedInUser().uid);
+    return Array.from(new Set(writes.filter(write => !write.failedAt).map(write => write.recordId)));
+  } catch (error) {
+    console.error('Error getting queued changes:', error);
+    throw error;
+  }
+};
+
+// Get the queued changes Firestore rejected, oldest first
+export const getFailedWrites = async (): Promise<QueuedWrite[]> => {
+  try {
+    const writes = await getQueuedWrites(getSignedInUser().uid);
+    return writes.filter(write => write.failedAt);
+  } catch (error) {
+    console.error('Error getting failed changes:', error);
+    throw error;
+  }
+};
+
+// Try a failed change again, along with any changes waiting behind it
+export const retryFailedWrite = async (id: number): Promise<ReplayResult> => {
+  try {
+    const write = (await getQueuedWrites(getSignedInUser().uid)).find(item => item.id === id);
+    if (!write) {
+      throw new Error('This change is no longer waiting to sync');
+    }
+    
+    const retried = { ...write };
+    delete retried.failedAt;
+    delete retried.failure;
+    await updateQueuedWrite(retried);
+    
+    // A replay already running read the queue before the change was reset
+    await replayInProgress?.catch(() => undefined);
+    return await replayQueuedWrites();
+  } catch (error) {
+    console.error('Error retrying failed change:', error);
+    throw error;
+  }
+};
+
+// Give up on a failed change. Changes to the same record that were waiting behind it sync
+// on the next replay.
+export const discardFailedWrite = async (id: number): Promise<void> => {
+  try {
+    const write = (await getQueuedWrites(getSignedInUser().uid)).find(item => item.id === id);
+    if (!write?.failedAt) {
+      throw new Error('This change is no longer waiting to sync');
+    }
+    
+    await removeQueuedWrite(id);
+  } catch (error) {
+    console.error('Error discarding failed change:', error);
+    throw error;
+  }
+};
+
+// ========================
+// INCOME OPERATIONS
+// ========================
+
+type IncomeInput = Omit<Income, 'id' | 'householdId' | 'createdAt' | 'updatedAt'>;
+
+// Write income under a known ID, creating the record when it is new
+const writeIncome = async (householdId: string, income: IncomeInput, id: string, isNew: boolean): Promise<void> => {
+  const incomeData = {
+    ...income,
+    householdId,
+    updatedAt: Timestamp.now(),
+    ...(isNew ? { createdAt: Timestamp.now() } : {}),
+  };
+  
+  // Convert dates to Timestamps if needed
+  if (income.startDate instanceof Date) {
+    incomeData.startDate = Timestamp.fromDate(income.startDate);
+  }
+  if (income.endDate instanceof Date) {
+    incomeData.endDate = Timestamp.fromDate(income.endDate);
+  }
+  if (income.expectedDate instanceof Date) {
+    incomeData.expectedDate = Timestamp.fromDate(income.expectedDate);
+  }
+  
+  // Read what is stored in the same transaction so the summary moves by the difference, even
+  // while someone else is changing the record. A replayed offline change may find its new
+  // record already saved.
+  const docRef = doc(getIncomeCollection(), id);
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(docRef);
+    const before = existing.exists() ? existing.data() : null;
+    assertReconciledUnchanged('income', before, { ...before, ...incomeData });
+    
+    await addSummaryUpdates(transaction, householdId, [{ kind: 'income', before, after: { ...before, ...incomeData } }]);
+    if (isNew) {
+      transaction.set(docRef, incomeData);
+    } else {
+      transaction.update(docRef, incomeData);
+    }
+  });
+};
+
+// Add or update income. Offline or when Firestore can't be reached, the change is queued and
+// the ID returned straight away.
+export const addOrUpdateIncome = async (income: IncomeInput, id?: string): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const recordId = id || doc(getIncomeCollection()).id;
+    
+    await writeOrQueue(
+      () => writeIncome(householdId, income, recordId, !id),
+      () => queueRecordSave('income', householdId, recordId, !id, income)
+    );
+    return recordId;
+  } catch (error) {
+    console.error('Error adding/updating income:', error);
+    throw error;
+  }
+};
+
+// Get income by ID
+export const getIncome = async (id: string): Promise<Income | null> => {
+  try {
+    const docRef = doc(db, 'income', id);
+    const docSnap = await getDoc(docRef);
+    
+    if (docSnap.exists()) {
+      const data = docSnap.data() as Omit<Income, 'id'>;
+      return { ...data, id: docSnap.id } as Income;
+    }
+    return null;
+  } catch (error) {
+    console.error('Error getting income:', error);
+    throw error;
+  }
+};
+
+// Get income for a specific month/year
+export const getMonthlyIncome = async (month: number, year: number): Promise<Income[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const incomeItems: Income[] = [];
+    
+    try {
+      const q = query(
+        getIncomeCollection(), 
+        where('householdId', '==', householdId),
+        where('year', '==', year),
+        where('month', '==', month)
+      );
+      
+      const querySnapshot = await getDocs(q);
       
-      return expenses;
+      querySnapshot.forEach((doc) => {
+        incomeItems.push({ ...doc.data(), id: doc.id } as Income);
+      });
     } catch (indexError) {
-      console.warn("Index error for all expenses query, trying simpler query:", indexError);
+      console.warn("Index error for income query, trying simpler query:", indexError);
       
       // Fallback to simpler query
       const q = query(
-        getExpensesCollection(),
-        where('userId', '==', userId)
+        getIncomeCollection(),
+        where('householdId', '==', householdId)
       );
       
       const querySnapshot = await getDocs(q);
-      const expenses: Expense[] = [];
       
       querySnapshot.forEach((doc) => {
-        const data = doc.data() as Expense;
+        const data = doc.data() as Income;
         if (data.year === year && data.month === month) {
-          expenses.push({ ...data, id: doc.id } as Expense);
+          incomeItems.push({ ...data, id: doc.id } as Income);
         }
       });
-      
-      return expenses;
     }
+    
+    // Add any series occurrences for this month that haven't been materialized yet. Trashed
+    // occurrences count as existing so they aren't recreated.
+    const occurrences = await materializeIncomeOccurrences(householdId, month, year, incomeItems);
+    
+    return applyQueuedWrites('income', householdId, month, year, [
+      ...incomeItems.filter(item => !isDeleted(item)),
+      ...occurrences
+    ]);
   } catch (error) {
-    console.error('Error getting all monthly expenses:', error);
+    console.error('Error getting monthly income:', error);
     throw error;
   }
 };
 
-// Delete expense
-export const deleteExpense = async (id: string): Promise<void> => {
-  try {
-    const userId = getCurrentUserId();
-    
-    const docRef = doc(db, 'expenses', id);
-    
+// Move income to the trash under a deletion ID
+const trashIncome = async (householdId: string, id: string, deletionId: string): Promise<void> => {
+  const docRef = doc(getIncomeCollection(), id);
+  
+  await runTransaction(db, async (transaction) => {
     // Verify ownership before deleting
-    const docSnap = await getDoc(docRef);
+    const docSnap = await transaction.get(docRef);
     if (!docSnap.exists()) {
-      throw new Error('Expense not found');
+      throw new Error('Income record not found');
     }
     
-    const expense = docSnap.data();
-    if (expense.userId !== userId) {
-      throw new Error('Not authorized to delete this expense');
+    const income = docSnap.data();
+    if (income.householdId !== householdId) {
+      throw new Error('Not authorized to delete this income record');
     }
     
-    await deleteDoc(docRef);
+    const trashFields = getTrashFields(deletionId);
+    assertReconciledUnchanged('income', income, { ...income, ...trashFields });
+    
+    await addSummaryUpdates(transaction, householdId, [{ kind: 'income', before: income, after: { ...income, ...trashFields } }]);
+    transaction.update(docRef, trashFields);
+    
+    // Stop the series from materializing this occurrence again
+    if (income.seriesId && income.occurrenceKey) {
+      transaction.update(doc(getRecurringSeriesCollection(), income.seriesId), {
+        skippedOccurrences: arrayUnion(income.occurrenceKey)
+      });
+    }
+  });
+};
+
+// Move income to the trash. Returns the deletion ID, which restoreDeletion takes to undo it.
+// Offline or when Firestore can't be reached, the delete is queued.
+export const deleteIncome = async (id: string): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const deletionId = createDeletionId();
+    
+    await writeOrQueue(
+      () => trashIncome(householdId, id, deletionId),
+      () => queueRecordDelete('income', householdId, id, deletionId)
+    );
+    return deletionId;
   } catch (error) {
-    console.error('Error deleting expense:', error);
+    console.error('Error deleting income:', error);
     throw error;
   }
 };
 
 // ========================
-// TRANSACTION OPERATIONS (for variable expenses tracking)
+// EXPENSE OPERATIONS
 // ========================
 
-// Add transaction
-export const addTransaction = async (transaction: Omit<Transaction, 'id' | 'userId' | 'createdAt'>): Promise<string> => {
+type ExpenseInput = Omit<Expense, 'id' | 'householdId' | 'createdAt' | 'updatedAt'>;
+
+// Write an expense under a known ID, creating the record when it is new
+const writeExpense = async (householdId: string, expense: ExpenseInput, id: string, isNew: boolean): Promise<void> => {
+  const expenseData = {
+    ...expense,
+    householdId,
+    updatedAt: Timestamp.now(),
+    ...(isNew ? { createdAt: Timestamp.now() } : {}),
+  };
+  
+  // Convert dates to Timestamps if needed
+  if (expense.dueDate instanceof Date) {
+    expenseData.dueDate = Timestamp.fromDate(expense.dueDate);
+  }
+  if (expense.startDate instanceof Date) {
+    expenseData.startDate = Timestamp.fromDate(expense.startDate);
+  }
+  if (expense.endDate instanceof Date) {
+    expenseData.endDate = Timestamp.fromDate(expense.endDate);
+  }
+  
+  // Read what is stored in the same transaction so the summary moves by the difference, even
+  // while someone else is changing the record. A replayed offline change may find its new
+  // record already saved.
+  const docRef = doc(getExpensesCollection(), id);
+  await runTransaction(db, async (transaction) => {
+    const existing = await transaction.get(docRef);
+    const before = existing.exists() ? existing.data() : null;
+    assertReconciledUnchanged('expense', before, { ...before, ...expenseData });
+    
+    await addSummaryUpdates(transaction, householdId, [{ kind: 'expense', before, after: { ...before, ...expenseData } }]);
+    if (isNew) {
+      transaction.set(docRef, expenseData);
+    } else {
+      transaction.update(docRef, expenseData);
+    }
+  });
+};
+
+// Add or update an expense. Offline or when Firestore can't be reached, the change is queued
+// and the ID returned straight away.
+export const addOrUpdateExpense = async (expense: ExpenseInput, id?: string): Promise<string> => {
   try {
-    const userId = getCurrentUserId();
+    const householdId = await getEditableHouseholdId();
+    const recordId = id || doc(getExpensesCollection()).id;
     
-    const transactionData = {
-      ...transaction,
-      userId,
-      createdAt: Timestamp.now(),
-      // Make sure to extract month and year from the date if not provided
-      month: transaction.month || (transaction.date instanceof Date ? transaction.date.getMonth() + 1 : new Date((transaction.date as Timestamp).toDate()).getMonth() + 1),
-      year: transaction.year || (transaction.date instanceof Date ? transaction.date.getFullYear() : new Date((transaction.date as Timestamp).toDate()).getFullYear())
-    };
+    await writeOrQueue(
+      () => writeExpense(householdId, expense, recordId, !id),
+      () => queueRecordSave('expense', householdId, recordId, !id, expense)
+    );
+    return recordId;
+  } catch (error) {
+    console.error('Error adding/updating expense:', error);
+    throw error;
+  }
+};
+
+// Get expense by ID
+export const getExpense = async (id: string): Promise<Expense | null> => {
+  try {
+    const docRef = doc(db, 'expenses', id);
+    const docSnap = await getDoc(docRef);
     
-    // Convert date to Timestamp if it's a Date
-    if (transaction.date instanceof Date) {
-      transactionData.date = Timestamp.fromDate(transaction.date);
+    if (docSnap.exists()) {
+      const data = docSnap.data() as Omit<Expense, 'id'>;
+      return { ...data, id: docSnap.id } as Expense;
     }
-    
-    const docRef = await addDoc(getTransactionsCollection(), transactionData);
-    return docRef.id;
+    return null;
   } catch (error) {
-    console.error('Error adding transaction:', error);
+    console.error('Error getting expense:', error);
     throw error;
   }
 };
 
-// Get transactions for a specific month/year and category
-export const getMonthlyTransactionsByCategory = async (month: number, year: number, category?: string): Promise<Transaction[]> => {
+// Get expenses for a specific month/year and category
+export const getMonthlyExpensesByCategory = async (month: number, year: number, category: 'fixed' | 'variable' | 'subscription'): Promise<Expense[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const expenses: Expense[] = [];
+    
+    try {
+      const q = query(
+        getExpensesCollection(), 
+        where('householdId', '==', householdId),
+        where('category', '==', category),
+        where('year', '==', year),
+        where('month', '==', month)
+      );
+      
+      const querySnapshot = await getDocs(q);
+      
+      querySnapshot.forEach((doc) => {
+        expenses.push({ ...doc.data(), id: doc.id } as Expense);
+      });
+    } catch (indexError) {
+      console.warn(`Index error for ${category} expenses query, trying simpler query:`, indexError);
+      
+      // Fallback to simpler query
+      const q = query(
+        getExpensesCollection(),
+        where('householdId', '==', householdId),
+        where('category', '==', category)
+      );
+      
+      const querySnapshot = await getDocs(q);
+      
+      querySnapshot.forEach((doc) => {
+        const data = doc.data() as Expense;
+        if (data.year === year && data.month === month) {
+          expenses.push({ ...data, id: doc.id } as Expense);
+        }
+      });
+    }
+    
+    // Add any series occurrences for this month that haven't been materialized yet. Trashed
+    // occurrences count as existing so they aren't recreated.
+    const occurrences = await materializeExpenseOccurrences(householdId, month, year, expenses, category);
+    const withQueued = await applyQueuedWrites('expense', householdId, month, year, [
+      ...expenses.filter(item => !isDeleted(item)),
+      ...occurrences
+    ]);
+    
+    return withQueued.filter(expense => expense.category === category);
+  } catch (error) {
+    console.error(`Error getting monthly ${category} expenses:`, error);
+    throw error;
+  }
+};
+
+// Get all expenses for a specific month/year
+export const getAllMonthlyExpenses = async (month: number, year: number): Promise<Expense[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const expenses: Expense[] = [];
+    
+    try {
+      const q = query(
+        getExpensesCollection(), 
+        where('householdId', '==', householdId),
+        where('year', '==', year),
+        where('month', '==', month)
+      );
+      
+      const querySnapshot = await getDocs(q);
+      
+      querySnapshot.forEach((doc) => {
+        expenses.push({ ...doc.data(), id: doc.id } as Expense);
+      });
+    } catch (indexError) {
+      console.warn("Index error for all expenses query, trying simpler query:", indexError);
+      
+      // Fallback to simpler query
+      const q = query(
+        getExpensesCollection(),
+        where('householdId', '==', householdId)
+      );
+      
+      const querySnapshot = await getDocs(q);
+      
+      querySnapshot.forEach((doc) => {
+        const data = doc.data() as Expense;
+        if (data.year === year && data.month === month) {
+          expenses.push({ ...data, id: doc.id } as Expense);
+        }
+      });
+    }
+    
+    // Add any series occurrences for this month that haven't been materialized yet. Trashed
+    // occurrences count as existing so they aren't recreated.
+    const occurrences = await materializeExpenseOccurrences(householdId, month, year, expenses);
+    
+    return applyQueuedWrites('expense', householdId, month, year, [
+      ...expenses.filter(item => !isDeleted(item)),
+      ...occurrences
+    ]);
+  } catch (error) {
+    console.error('Error getting all monthly expenses:', error);
+    throw error;
+  }
+};
+
+// Move an expense to the trash under a deletion ID
+const trashExpense = async (householdId: string, id: string, deletionId: string): Promise<void> => {
+  const docRef = doc(getExpensesCollection(), id);
+  
+  await runTransaction(db, async (transaction) => {
+    // Verify ownership before deleting
+    const docSnap = await transaction.get(docRef);
+    if (!docSnap.exists()) {
+      throw new Error('Expense not found');
+    }
+    
+    const expense = docSnap.data();
+    if (expense.householdId !== householdId) {
+      throw new Error('Not authorized to delete this expense');
+    }
+    
+    const trashFields = getTrashFields(deletionId);
+    assertReconciledUnchanged('expense', expense, { ...expense, ...trashFields });
+    
+    await addSummaryUpdates(transaction, householdId, [{ kind: 'expense', before: expense, after: { ...expense, ...trashFields } }]);
+    transaction.update(docRef, trashFields);
+    
+    // Stop the series from materializing this occurrence again
+    if (expense.seriesId && expense.occurrenceKey) {
+      transaction.update(doc(getRecurringSeriesCollection(), expense.seriesId), {
+        skippedOccurrences: arrayUnion(expense.occurrenceKey)
+      });
+    }
+  });
+};
+
+// Move an expense to the trash. Returns the deletion ID, which restoreDeletion takes to undo it.
+// Offline or when Firestore can't be reached, the delete is queued.
+export const deleteExpense = async (id: string): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const deletionId = createDeletionId();
+    
+    await writeOrQueue(
+      () => trashExpense(householdId, id, deletionId),
+      () => queueRecordDelete('expense', householdId, id, deletionId)
+    );
+    return deletionId;
+  } catch (error) {
+    console.error('Error deleting expense:', error);
+    throw error;
+  }
+};
+
+// ========================
+// TRANSACTION OPERATIONS (for variable expenses tracking)
+// ========================
+
+// Transactions without a type predate income tracking and are treated as expenses
+const getTransactionKind = (data: { type?: string }): CategoryKind => {
+  return data.type === 'income' ? 'income' : 'expense';
+};
+
+// Convert a stored transaction to the typed model
+const toTransaction = (id: string, data: Omit<Transaction, 'id'>): Transaction => {
+  return { ...data, id, type: getTransactionKind(data) };
+};
+
+// Prepare transaction fields for Firestore, deriving month and year from the date
+const toTransactionData = (transaction: TransactionInput) => {
+  const date = toDate(transaction.date);
+  const data: Record<string, unknown> = {
+    ...transaction,
+    date: Timestamp.fromDate(date),
+    month: date.getMonth() + 1,
+    year: date.getFullYear()
+  };
+
+  // Firestore rejects undefined values
+  Object.keys(data).forEach(key => {
+    if (data[key] === undefined) delete data[key];
+  });
+
+  return data;
+};
+
+// Recompute a planned expense's actual amount from the transactions linked to it.
+// The expense is paid once linked payments cover the planned amount.
+const syncExpenseActuals = async (householdId: string, expenseId: string): Promise<void> => {
+  const expenseRef = doc(getExpensesCollection(), expenseId);
+  const expenseSnap = await getDoc(expenseRef);
+  if (!expenseSnap.exists() || expenseSnap.data().householdId !== householdId) return;
+  const expense = expenseSnap.data() as Expense;
+
+  const linkedSnapshot = await getDocs(query(
+    getTransactionsCollection(),
+    where('householdId', '==', householdId),
+    where('expenseId', '==', expenseId)
+  ));
+  const linked = linkedSnapshot.docs
+    .map(transactionDoc => transactionDoc.data() as Transaction)
+    .filter(data => getTransactionKind(data) === 'expense' && !isDeleted(data));
+
+  // Paying an expense moves it between its summary's pending and paid totals. The expense is
+  // read again in the transaction, so the summary moves from what is stored at the time.
+  const updateExpense = async (fields: DocumentData) => {
+    await runTransaction(db, async (transaction) => {
+      const current = await transaction.get(expenseRef);
+      if (!current.exists()) return;
+      
+      const before = current.data();
+      await addSummaryUpdates(transaction, householdId, [{ kind: 'expense', before, after: { ...before, ...fields } }]);
+      transaction.update(expenseRef, fields);
+    });
+  };
+
+  if (linked.length === 0) {
+    await updateExpense({ actualAmount: deleteField(), isPaid: false, updatedAt: Timestamp.now() });
+    return;
+  }
+
+  // Payments made in another currency count towards the expense at the rate on their date
+  const expenseCurrency = getRecordCurrency(expense);
+  const converter = await getCurrencyConverter();
+  const actualAmount = sumMoney(
+    linked.map(data => converter.convert(money(data.amount, getRecordCurrency(data)), expenseCurrency, toDate(data.date))),
+    expenseCurrency
+  ).cents;
+  
+  await updateExpense({
+    actualAmount,
+    isPaid: actualAmount >= expense.amount,
+    updatedAt: Timestamp.now()
+  });
+};
+
+// Add transaction
+export const addTransaction = async (transaction: TransactionInput): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getTransactionsCollection());
+    const transactionData = {
+      ...toTransactionData(transaction),
+      householdId,
+      createdAt: Timestamp.now()
+    };
+    
+    await runTransaction(db, async (firestoreTransaction) => {
+      await addSummaryUpdates(firestoreTransaction, householdId, [{ kind: 'transaction', before: null, after: transactionData }]);
+      firestoreTransaction.set(docRef, transactionData);
+    });
+    
+    if (transaction.type === 'expense' && transaction.expenseId) {
+      await syncExpenseActuals(householdId, transaction.expenseId);
+    }
+    
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding transaction:', error);
+    throw error;
+  }
+};
+
+// Update transaction
+export const updateTransaction = async (id: string, transaction: TransactionInput): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getTransactionsCollection(), id);
+    const transactionData = toTransactionData(transaction);
+    
+    const existing = await runTransaction(db, async (firestoreTransaction) => {
+      // Verify ownership before updating
+      const docSnap = await firestoreTransaction.get(docRef);
+      if (!docSnap.exists()) {
+        throw new Error('Transaction not found');
+      }
+      
+      const stored = docSnap.data();
+      if (stored.householdId !== householdId) {
+        throw new Error('Not authorized to update this transaction');
+      }
+      
+      if (stored.status === 'reconciled') {
+        throw new Error('This transaction has been reconciled and can no longer be changed');
+      }
+      
+      // Links and optional fields that are not supplied are removed
+      const after: DocumentData = { ...stored, ...transactionData };
+      ['expenseId', 'incomeId', 'subcategory', 'accountId']
+        .filter(field => !(field in transactionData))
+        .forEach(field => delete after[field]);
+      await addSummaryUpdates(firestoreTransaction, householdId, [{ kind: 'transaction', before: stored, after }]);
+      
+      firestoreTransaction.update(docRef, {
+        expenseId: deleteField(),
+        incomeId: deleteField(),
+        subcategory: deleteField(),
+        accountId: deleteField(),
+        ...transactionData,
+        updatedAt: Timestamp.now()
+      });
+      return stored;
+    });
+    
+    // Both the previously and newly linked expenses may need new actuals
+    const affectedExpenses = new Set<string>();
+    if (existing.expenseId) affectedExpenses.add(existing.expenseId);
+    if (transaction.type === 'expense' && transaction.expenseId) affectedExpenses.add(transaction.expenseId);
+    
+    for (const expenseId of affectedExpenses) {
+      await syncExpenseActuals(householdId, expenseId);
+    }
+  } catch (error) {
+    console.error('Error updating transaction:', error);
+    throw error;
+  }
+};
+
+// Get the household's transactions, newest first, optionally filtered
+export const getUserTransactions = async (filters: TransactionFilters = {}): Promise<Transaction[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    let querySnapshot;
+    try {
+      querySnapshot = await getDocs(query(
+        getTransactionsCollection(),
+        where('householdId', '==', householdId),
+        orderBy('date', 'desc')
+      ));
+    } catch (indexError) {
+      console.warn("Index error for transactions query, using fallback:", indexError);
+      querySnapshot = await getDocs(query(getTransactionsCollection(), where('householdId', '==', householdId)));
+    }
+    
+    const startKey = filters.startDate ? toDateKey(filters.startDate) : null;
+    const endKey = filters.endDate ? toDateKey(filters.endDate) : null;
+    const category = filters.category ? normalizeCategoryName(filters.category) : null;
+    const transactions: Transaction[] = [];
+    
+    querySnapshot.forEach((doc) => {
+      const transaction = toTransaction(doc.id, doc.data() as Omit<Transaction, 'id'>);
+      const dateKey = toDateKey(toDate(transaction.date));
+      
+      if (isDeleted(transaction)) return;
+      if (startKey && dateKey < startKey) return;
+      if (endKey && dateKey > endKey) return;
+      if (filters.type && transaction.type !== filters.type) return;
+      if (category && normalizeCategoryName(transaction.category || '') !== category) return;
+      
+      transactions.push(transaction);
+    });
+    
+    // Sort in memory in case the fallback query was used
+    return transactions.sort((a, b) => toDate(b.date).getTime() - toDate(a.date).getTime());
+  } catch (error) {
+    console.error('Error getting transactions:', error);
+    throw error;
+  }
+};
+
+// Get transactions for a specific month/year and category
+export const getMonthlyTransactionsByCategory = async (month: number, year: number, category?: string): Promise<Transaction[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    try {
+      // Build query based on whether category is provided
+      let q;
+      if (category) {
+        q = query(
+          getTransactionsCollection(), 
+          where('householdId', '==', householdId),
+          where('year', '==', year),
+          where('month', '==', month),
+          where('category', '==', category),
+          orderBy('date', 'desc')
+        );
+      } else {
+        q = query(
+          getTransactionsCollection(), 
+          where('householdId', '==', householdId),
+          where('year', '==', year),
+          where('month', '==', month),
+          orderBy('date', 'desc')
+        );
+      }
+      
+      const querySnapshot = await getDocs(q);
+      const transactions: Transaction[] = [];
+      
+      querySnapshot.forEach((doc) => {
+        const data = doc.data() as Omit<Transaction, 'id'>;
+        if (!isDeleted(data)) {
+          transactions.push(toTransaction(doc.id, data));
+        }
+      });
+      
+      return transactions;
+    } catch (indexError) {
+      console.warn("Index error for transactions query, using fallback:", indexError);
+      
+      // Fallback to simpler query
+      const baseQuery = query(
+        getTransactionsCollection(),
+        where('householdId', '==', householdId)
+      );
+      
+      const querySnapshot = await getDocs(baseQuery);
+      const transactions: Transaction[] = [];
+      
+      querySnapshot.forEach((doc) => {
+        const data = doc.data() as Transaction;
+        if (data.year === year && data.month === month && (!category || data.category === category) && !isDeleted(data)) {
+          transactions.push(toTransaction(doc.id, data));
+        }
+      });
+      
+      // Sort in memory
+      return transactions.sort((a, b) => {
+        const dateA = a.date instanceof Date ? a.date : (a.date as Timestamp).toDate();
+        const dateB = b.date instanceof Date ? b.date : (b.date as Timestamp).toDate();
+        return dateB.getTime() - dateA.getTime();
+      });
+    }
+  } catch (error) {
+    console.error('Error getting monthly transactions:', error);
+    throw error;
+  }
+};
+
+// Move a transaction to the trash. Returns the deletion ID, which restoreDeletion takes to undo it.
+export const deleteTransaction = async (id: string): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(db, 'transactions', id);
+    const deletionId = createDeletionId();
+    const trashFields = getTrashFields(deletionId);
+    
+    const transaction = await runTransaction(db, async (firestoreTransaction) => {
+      // Verify ownership before deleting
+      const docSnap = await firestoreTransaction.get(docRef);
+      if (!docSnap.exists()) {
+        throw new Error('Transaction not found');
+      }
+      
+      const stored = docSnap.data();
+      if (stored.householdId !== householdId) {
+        throw new Error('Not authorized to delete this transaction');
+      }
+      
+      if (stored.status === 'reconciled') {
+        throw new Error('This transaction has been reconciled and can no longer be deleted');
+      }
+      
+      await addSummaryUpdates(firestoreTransaction, householdId, [{ kind: 'transaction', before: stored, after: { ...stored, ...trashFields } }]);
+      firestoreTransaction.update(docRef, trashFields);
+      return stored;
+    });
+    
+    if (transaction.expenseId) {
+      await syncExpenseActuals(householdId, transaction.expenseId);
+    }
+    
+    return deletionId;
+  } catch (error) {
+    console.error('Error deleting transaction:', error);
+    throw error;
+  }
+};
+
+// ========================
+// BUDGET ENVELOPE OPERATIONS
+// ========================
+
+// Add or update a budget envelope
+export const addOrUpdateEnvelope = async (
+  envelope: Omit<BudgetEnvelope, 'id' | 'householdId' | 'createdAt'> & { id?: string }
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const { id, ...envelopeData } = envelope;
+
+    // Firestore rejects undefined values
+    if (!envelopeData.subcategory) {
+      delete envelopeData.subcategory;
+    }
+
+    if (id) {
+      const docRef = doc(db, 'budgetEnvelopes', id);
+
+      // Verify ownership before updating
+      const docSnap = await getDoc(docRef);
+      if (!docSnap.exists()) {
+        throw new Error('Envelope not found');
+      }
+      if (docSnap.data().householdId !== householdId) {
+        throw new Error('Not authorized to update this envelope');
+      }
+
+      await updateDoc(docRef, {
+        ...envelopeData,
+        subcategory: envelopeData.subcategory || null,
+        updatedAt: Timestamp.now()
+      });
+      await markSummariesStale(householdId);
+      return id;
+    }
+
+    const docRef = await addDoc(getBudgetEnvelopesCollection(), {
+      ...envelopeData,
+      householdId,
+      createdAt: Timestamp.now()
+    });
+    
+    // Saved summaries break spending down by envelope, so they need recalculating
+    await markSummariesStale(householdId, new Date(envelopeData.startYear, envelopeData.startMonth - 1, 1));
+    return docRef.id;
+  } catch (error) {
+    console.error('Error saving budget envelope:', error);
+    throw error;
+  }
+};
+
+// Get all budget envelopes for the current household
+export const getEnvelopes = async (): Promise<BudgetEnvelope[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+
+    const q = query(getBudgetEnvelopesCollection(), where('householdId', '==', householdId));
+    const querySnapshot = await getDocs(q);
+    const envelopes: BudgetEnvelope[] = [];
+
+    querySnapshot.forEach((doc) => {
+      envelopes.push({ ...doc.data(), id: doc.id } as BudgetEnvelope);
+    });
+
+    return envelopes.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting budget envelopes:', error);
+    throw error;
+  }
+};
+
+// Delete a budget envelope (its transactions are left untouched)
+export const deleteEnvelope = async (id: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+
+    const docRef = doc(db, 'budgetEnvelopes', id);
+
+    // Verify ownership before deleting
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists()) {
+      throw new Error('Envelope not found');
+    }
+    if (docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to delete this envelope');
+    }
+
+    await deleteDoc(docRef);
+    await markSummariesStale(householdId);
+  } catch (error) {
+    console.error('Error deleting budget envelope:', error);
+    throw error;
+  }
+};
+
+// Whether a transaction counts against an envelope
+const isEnvelopeTransaction = (envelope: BudgetEnvelope, transaction: Transaction): boolean => {
+  if (getTransactionKind(transaction) !== 'expense') return false;
+  if (normalizeCategoryName(transaction.category || '') !== normalizeCategoryName(envelope.category)) return false;
+  return !envelope.subcategory
+    || normalizeCategoryName(transaction.subcategory || '') === normalizeCategoryName(envelope.subcategory);
+};
+
+// Get each envelope's balance for a month. Spending is derived from transactions; envelopes
+// with rollover carry every earlier month's leftover (or overspend) forward from their start month.
+export const getEnvelopeBalances = async (month: number, year: number): Promise<EnvelopeBalance[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const targetIndex = year * 12 + (month - 1);
+
+    const envelopes = (await getEnvelopes())
+      .filter(envelope => envelope.startYear * 12 + (envelope.startMonth - 1) <= targetIndex);
+    // Allocations are in the base currency; spending is converted to it
+
+    if (envelopes.length === 0) {
+      return [];
+    }
+
+    // Total spending per month for each envelope, keyed by month index. Spending in a currency
+    // with no rate is left out and reported with the envelope.
+    const spentByEnvelope = new Map<string, Map<number, number>>();
+    const unconvertedByEnvelope = new Map<string, Set<string>>();
+    envelopes.forEach(envelope => {
+      spentByEnvelope.set(envelope.id!, new Map());
+      unconvertedByEnvelope.set(envelope.id!, new Set());
+    });
+
+    const converter = await getCurrencyConverter();
+    const q = query(getTransactionsCollection(), where('householdId', '==', householdId));
+    const querySnapshot = await getDocs(q);
+
+    querySnapshot.forEach((doc) => {
+      const transaction = doc.data() as Transaction;
+      const index = transaction.year * 12 + (transaction.month - 1);
+      if (index > targetIndex || isDeleted(transaction)) return;
+
+      envelopes.forEach(envelope => {
+        if (!isEnvelopeTransaction(envelope, transaction)) return;
+        const currency = getRecordCurrency(transaction);
+        if (!converter.canConvert(currency)) {
+          unconvertedByEnvelope.get(envelope.id!)!.add(currency);
+          return;
+        }
+        const spentByMonth = spentByEnvelope.get(envelope.id!)!;
+        const amount = converter.toBase(money(transaction.amount, currency), toDate(transaction.date)).cents;
+        spentByMonth.set(index, (spentByMonth.get(index) || 0) + amount);
+      });
+    });
+
+    return envelopes.map(envelope => {
+      const spentByMonth = spentByEnvelope.get(envelope.id!)!;
+      const startIndex = envelope.startYear * 12 + (envelope.startMonth - 1);
+      let carriedOver = 0;
+
+      if (envelope.rollover) {
+        for (let index = startIndex; index < targetIndex; index++) {
+          carriedOver += envelope.monthlyAllocation - (spentByMonth.get(index) || 0);
+        }
+      }
+
+      const spent = spentByMonth.get(targetIndex) || 0;
+      const unconverted = unconvertedByEnvelope.get(envelope.id!)!;
+
+      return {
+        envelopeId: envelope.id!,
+        name: envelope.name,
+        allocated: envelope.monthlyAllocation,
+        carriedOver,
+        spent,
+        remaining: envelope.monthlyAllocation + carriedOver - spent,
+        ...(unconverted.size > 0 ? { unconvertedCurrencies: Array.from(unconverted) } : {})
+      };
+    });
+  } catch (error) {
+    console.error('Error calculating envelope balances:', error);
+    throw error;
+  }
+};
+
+// ========================
+// CURRENCY OPERATIONS
+// ========================
+
+// Get the current household's settings, with defaults for anything not set yet
+export const getUserSettings = async (): Promise<UserSettings & { baseCurrency: string }> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const settingsSnap = await getDoc(doc(getUserSettingsCollection(), householdId));
+    const settings = settingsSnap.exists() ? settingsSnap.data() as UserSettings : {};
+    
+    return { ...settings, baseCurrency: settings.baseCurrency || DEFAULT_CURRENCY };
+  } catch (error) {
+    console.error('Error getting user settings:', error);
+    throw error;
+  }
+};
+
+// Set the currency totals are reported in. Stored summaries are recalculated in the new
+// currency the next time they are loaded.
+export const updateBaseCurrency = async (baseCurrency: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    await setDoc(doc(getUserSettingsCollection(), householdId), {
+      baseCurrency,
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating base currency:', error);
+    throw error;
+  }
+};
+
+// Exchange rates are keyed by pair and date, so re-entering or re-importing a rate
+// replaces the earlier one instead of duplicating it
+const getExchangeRateId = (householdId: string, fromCurrency: string, toCurrency: string, effectiveDate: Date): string => {
+  return `${householdId}_${fromCurrency}_${toCurrency}_${toDateKey(effectiveDate)}`;
+};
+
+// Get all exchange rates for the current household, newest first
+export const getExchangeRates = async (): Promise<ExchangeRate[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const q = query(getExchangeRatesCollection(), where('householdId', '==', householdId));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as ExchangeRate))
+      .sort((a, b) => toDate(b.effectiveDate).getTime() - toDate(a.effectiveDate).getTime());
+  } catch (error) {
+    console.error('Error getting exchange rates:', error);
+    throw error;
+  }
+};
+
+// Validate an exchange rate and prepare it for Firestore
+const toExchangeRateData = (householdId: string, rate: Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>) => {
+  const fromCurrency = rate.fromCurrency.toUpperCase();
+  const toCurrency = rate.toCurrency.toUpperCase();
+  
+  if (fromCurrency === toCurrency) {
+    throw new Error('An exchange rate needs two different currencies');
+  }
+  if (!Number.isFinite(rate.rate) || rate.rate <= 0) {
+    throw new Error('Exchange rate must be a positive number');
+  }
+  
+  const effectiveDate = toDate(rate.effectiveDate);
+  return {
+    id: getExchangeRateId(householdId, fromCurrency, toCurrency, effectiveDate),
+    data: {
+      householdId,
+      fromCurrency,
+      toCurrency,
+      rate: rate.rate,
+      effectiveDate: Timestamp.fromDate(effectiveDate),
+      createdAt: Timestamp.now()
+    }
+  };
+};
+
+// Add an exchange rate, replacing any rate for the same pair on the same date
+export const addExchangeRate = async (
+  rate: Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const { id, data } = toExchangeRateData(householdId, rate);
+    
+    await setDoc(doc(getExchangeRatesCollection(), id), data);
+    
+    // Amounts may convert differently now, including those before the rate when it is the earliest
+    await markSummariesStale(householdId);
+    return id;
+  } catch (error) {
+    console.error('Error adding exchange rate:', error);
+    throw error;
+  }
+};
+
+// Import exchange rates (e.g. parsed from a CSV file). Returns the number of rates saved.
+export const importExchangeRates = async (
+  rates: Pick<ExchangeRate, 'fromCurrency' | 'toCurrency' | 'rate' | 'effectiveDate'>[]
+): Promise<number> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const operations: BatchOperation[] = rates.map(rate => {
+      const { id, data } = toExchangeRateData(householdId, rate);
+      return batch => batch.set(doc(getExchangeRatesCollection(), id), data);
+    });
+    
+    await commitInChunks(operations);
+    
+    if (operations.length > 0) {
+      await markSummariesStale(householdId);
+    }
+    return operations.length;
+  } catch (error) {
+    console.error('Error importing exchange rates:', error);
+    throw error;
+  }
+};
+
+// Delete an exchange rate
+export const deleteExchangeRate = async (id: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getExchangeRatesCollection(), id);
+    const docSnap = await getDoc(docRef);
+    
+    if (!docSnap.exists()) {
+      throw new Error('Exchange rate not found');
+    }
+    
+    if (docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to delete this exchange rate');
+    }
+    
+    await deleteDoc(docRef);
+    await markSummariesStale(householdId);
+  } catch (error) {
+    console.error('Error deleting exchange rate:', error);
+    throw error;
+  }
+};
+
+// Get a converter to the household's base currency over its exchange rates
+export const getCurrencyConverter = async (): Promise<CurrencyConverter> => {
+  const [{ baseCurrency }, rates] = await Promise.all([getUserSettings(), getExchangeRates()]);
+  
+  return createCurrencyConverter(baseCurrency, rates.map(rate => ({
+    fromCurrency: rate.fromCurrency,
+    toCurrency: rate.toCurrency,
+    rate: rate.rate,
+    effectiveDate: toDate(rate.effectiveDate)
+  })));
+};
+
+// ========================
+// ACCOUNT OPERATIONS
+// ========================
+
+// Add or update an account
+export const addOrUpdateAccount = async (
+  account: Omit<Account, 'id' | 'householdId' | 'createdAt' | 'updatedAt'>,
+  id?: string
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    if (!account.name.trim()) {
+      throw new Error('Account name is required');
+    }
+    
+    const accountData = {
+      ...account,
+      name: account.name.trim(),
+      institution: account.institution?.trim() || '',
+      openingDate: Timestamp.fromDate(toDate(account.openingDate)),
+      householdId,
+      updatedAt: Timestamp.now(),
+      ...(id ? {} : { createdAt: Timestamp.now() })
+    };
+    
+    if (id) {
+      const existing = await getDoc(doc(getAccountsCollection(), id));
+      if (!existing.exists() || existing.data().householdId !== householdId) {
+        throw new Error('Not authorized to update this account');
+      }
+      await updateDoc(doc(getAccountsCollection(), id), accountData);
+      return id;
+    }
+    
+    const docRef = await addDoc(getAccountsCollection(), accountData);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding/updating account:', error);
+    throw error;
+  }
+};
+
+// Get the current household's accounts, sorted by name
+export const getAccounts = async (includeArchived: boolean = false): Promise<Account[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const q = query(getAccountsCollection(), where('householdId', '==', householdId));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as Account))
+      .filter(account => includeArchived || !account.archived)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting accounts:', error);
+    throw error;
+  }
+};
+
+// Archive or restore an account
+export const setAccountArchived = async (id: string, archived: boolean): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getAccountsCollection(), id);
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists() || docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to update this account');
+    }
+    
+    await updateDoc(docRef, { archived, updatedAt: Timestamp.now() });
+  } catch (error) {
+    console.error('Error archiving account:', error);
+    throw error;
+  }
+};
+
+// Delete an account. Accounts that records still point at must be archived instead,
+// so that history keeps resolving.
+export const deleteAccount = async (id: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getAccountsCollection(), id);
+    const docSnap = await getDoc(docRef);
+    
+    if (!docSnap.exists()) {
+      throw new Error('Account not found');
+    }
+    
+    if (docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to delete this account');
+    }
+    
+    const referenceQueries = [
+      query(getTransactionsCollection(), where('householdId', '==', householdId), where('accountId', '==', id), limit(1)),
+      query(getIncomeCollection(), where('householdId', '==', householdId), where('accountId', '==', id), limit(1)),
+      query(getExpensesCollection(), where('householdId', '==', householdId), where('accountId', '==', id), limit(1)),
+      query(getRecurringSeriesCollection(), where('householdId', '==', householdId), where('accountId', '==', id), limit(1)),
+      query(getTransfersCollection(), where('householdId', '==', householdId), where('fromAccountId', '==', id), limit(1)),
+      query(getTransfersCollection(), where('householdId', '==', householdId), where('toAccountId', '==', id), limit(1))
+    ];
+    
+    for (const referenceQuery of referenceQueries) {
+      if (!(await getDocs(referenceQuery)).empty) {
+        throw new Error('This account has records linked to it. Archive it instead.');
+      }
+    }
+    
+    await deleteDoc(docRef);
+  } catch (error) {
+    console.error('Error deleting account:', error);
+    throw error;
+  }
+};
+
+// Record a transfer between two accounts
+export const addTransfer = async (transfer: Omit<Transfer, 'id' | 'householdId' | 'createdAt' | 'updatedAt'>): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    if (transfer.fromAccountId === transfer.toAccountId) {
+      throw new Error('Choose two different accounts');
+    }
+    if (!Number.isInteger(transfer.amount) || transfer.amount <= 0) {
+      throw new Error('Transfer amount must be a positive number');
+    }
+    
+    const accountIds = new Set((await getAccounts(true)).map(account => account.id));
+    if (!accountIds.has(transfer.fromAccountId) || !accountIds.has(transfer.toAccountId)) {
+      throw new Error('Account not found');
+    }
+    
+    const docRef = await addDoc(getTransfersCollection(), {
+      ...transfer,
+      description: transfer.description || '',
+      date: Timestamp.fromDate(toDate(transfer.date)),
+      householdId,
+      createdAt: Timestamp.now()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding transfer:', error);
+    throw error;
+  }
+};
+
+// Delete a transfer
+export const deleteTransfer = async (id: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getTransfersCollection(), id);
+    const docSnap = await getDoc(docRef);
+    
+    if (!docSnap.exists()) {
+      throw new Error('Transfer not found');
+    }
+    
+    const transfer = docSnap.data() as Transfer;
+    if (transfer.householdId !== householdId) {
+      throw new Error('Not authorized to delete this transfer');
+    }
+    
+    if (Object.values(transfer.statuses || {}).includes('reconciled')) {
+      throw new Error('This transfer has been reconciled and can no longer be deleted');
+    }
+    
+    await deleteDoc(docRef);
+  } catch (error) {
+    console.error('Error deleting transfer:', error);
+    throw error;
+  }
+};
+
+// Build the register for each account from every record that moves money in or out of it.
+// Transactions are the actual payments; a paid income or expense only counts on its own
+// when no transaction is linked to it, so linked payments are not counted twice.
+const buildAccountRegisters = async (
+  householdId: string,
+  accounts: Account[],
+  converter: CurrencyConverter
+): Promise<Map<string, AccountRegisterEntry[]>> => {
+  const byUser = (collectionRef: ReturnType<typeof collection>) => getDocs(query(collectionRef, where('householdId', '==', householdId)));
+  const [transactionSnap, incomeSnap, expenseSnap, transferSnap] = await Promise.all([
+    byUser(getTransactionsCollection()),
+    byUser(getIncomeCollection()),
+    byUser(getExpensesCollection()),
+    byUser(getTransfersCollection())
+  ]);
+  
+  const registers = new Map<string, AccountRegisterEntry[]>();
+  const currencies = new Map<string, string>();
+  accounts.forEach(account => {
+    registers.set(account.id!, [{
+      id: account.id!,
+      source: 'opening',
+      date: toDate(account.openingDate),
+      description: 'Opening balance',
+      amount: account.openingBalance,
+      balance: 0
+    }]);
+    currencies.set(account.id!, getRecordCurrency(account));
+  });
+  
+  // Add an entry, converting the amount to the account's currency at the rate on its date
+  const addEntry = (
+    accountId: string | null | undefined,
+    entry: Omit<AccountRegisterEntry, 'balance' | 'amount'>,
+    amount: number,
+    currency: string
+  ) => {
+    const register = accountId ? registers.get(accountId) : undefined;
+    if (!register) return;
+    const converted = converter.convert(money(amount, currency), currencies.get(accountId!)!, entry.date);
+    register.push({ ...entry, amount: converted.cents, balance: 0 });
+  };
+  
+  const linkedExpenseIds = new Set<string>();
+  const linkedIncomeIds = new Set<string>();
+  
+  transactionSnap.forEach(docSnap => {
+    const transaction = toTransaction(docSnap.id, docSnap.data() as Omit<Transaction, 'id'>);
+    if (isDeleted(transaction)) return;
+    if (transaction.expenseId) linkedExpenseIds.add(transaction.expenseId);
+    if (transaction.incomeId) linkedIncomeIds.add(transaction.incomeId);
+    
+    addEntry(transaction.accountId, {
+      id: docSnap.id,
+      source: 'transaction',
+      date: toDate(transaction.date),
+      description: transaction.description,
+      status: transaction.status || 'uncleared'
+    }, transaction.type === 'income' ? transaction.amount : -transaction.amount, getRecordCurrency(transaction));
+  });
+  
+  incomeSnap.forEach(docSnap => {
+    const income = { ...docSnap.data(), id: docSnap.id } as Income;
+    if (!income.isPaid || isDeleted(income) || linkedIncomeIds.has(docSnap.id)) return;
+    
+    addEntry(income.accountId, {
+      id: docSnap.id,
+      source: 'income',
+      date: getIncomeDate(income),
+      description: income.source,
+      status: income.status || 'uncleared'
+    }, income.amount, getRecordCurrency(income));
+  });
+  
+  expenseSnap.forEach(docSnap => {
+    const expense = { ...docSnap.data(), id: docSnap.id } as Expense;
+    if (!expense.isPaid || isDeleted(expense) || linkedExpenseIds.has(docSnap.id)) return;
+    
+    addEntry(expense.accountId, {
+      id: docSnap.id,
+      source: 'expense',
+      date: getExpenseDate(expense),
+      description: expense.description || expense.subcategory || 'Expense',
+      status: expense.status || 'uncleared'
+    }, -expense.amount, getRecordCurrency(expense));
+  });
+  
+  transferSnap.forEach(docSnap => {
+    const transfer = docSnap.data() as Transfer;
+    const currency = currencies.get(transfer.fromAccountId) || DEFAULT_CURRENCY;
+    const entry = { id: docSnap.id, source: 'transfer' as const, date: toDate(transfer.date), description: transfer.description || 'Transfer' };
+    const statusIn = (accountId: string): ClearedStatus => transfer.statuses?.[accountId] || 'uncleared';
+    
+    addEntry(transfer.fromAccountId, { ...entry, status: statusIn(transfer.fromAccountId) }, -transfer.amount, currency);
+    addEntry(transfer.toAccountId, { ...entry, status: statusIn(transfer.toAccountId) }, transfer.amount, currency);
+  });
+  
+  // Oldest first with a running balance; the opening balance always comes first
+  registers.forEach(register => {
+    const [opening, ...entries] = register;
+    entries.sort((a, b) => a.date.getTime() - b.date.getTime());
+    
+    let balance = 0;
+    [opening, ...entries].forEach((entry, index) => {
+      balance += entry.amount;
+      register[index] = { ...entry, balance };
+    });
+  });
+  
+  return registers;
+};
+
+// Get an account's register, oldest entry first
+export const getAccountRegister = async (accountId: string): Promise<AccountRegisterEntry[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const account = (await getAccounts(true)).find(item => item.id === accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    
+    const registers = await buildAccountRegisters(householdId, [account], await getCurrencyConverter());
+    return registers.get(accountId) || [];
+  } catch (error) {
+    console.error('Error getting account register:', error);
+    throw error;
+  }
+};
+
+// Get the current balance of every account, with each balance also in the base currency
+export const getAccountBalances = async (includeArchived: boolean = false): Promise<AccountBalance[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const accounts = await getAccounts(includeArchived);
+    if (accounts.length === 0) {
+      return [];
+    }
+    
+    const converter = await getCurrencyConverter();
+    const registers = await buildAccountRegisters(householdId, accounts, converter);
+    const today = new Date();
+    
+    return accounts.map(account => {
+      const register = registers.get(account.id!) || [];
+      const balance = register.length > 0 ? register[register.length - 1].balance : 0;
+      const currency = getRecordCurrency(account);
+      
+      return {
+        account,
+        balance,
+        baseBalance: converter.canConvert(currency) ? converter.toBase(money(balance, currency), today).cents : null
+      };
+    });
+  } catch (error) {
+    console.error('Error getting account balances:', error);
+    throw error;
+  }
+};
+
+// ========================
+// RECONCILIATION OPERATIONS
+// ========================
+
+// Firestore reference for a reconcilable register entry
+const getEntryRef = (entry: ReconcilableEntry) => {
+  const collections = {
+    transaction: getTransactionsCollection,
+    transfer: getTransfersCollection,
+    income: getIncomeCollection,
+    expense: getExpensesCollection
+  };
+  return doc(collections[entry.source](), entry.id);
+};
+
+// Field holding an entry's cleared status; transfers keep one status per account
+const getStatusField = (entry: ReconcilableEntry, accountId: string): string => {
+  return entry.source === 'transfer' ? `statuses.${accountId}` : 'status';
+};
+
+// Get an account's completed reconciliations, most recent statement first
+export const getReconciliations = async (accountId: string): Promise<Reconciliation[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const q = query(
+      getReconciliationsCollection(),
+      where('householdId', '==', householdId),
+      where('accountId', '==', accountId)
+    );
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as Reconciliation))
+      .sort((a, b) => toDate(b.statementDate).getTime() - toDate(a.statementDate).getTime());
+  } catch (error) {
+    console.error('Error getting reconciliations:', error);
+    throw error;
+  }
+};
+
+// Get the entries to tick off against a statement ending on the given date. Reconciling
+// starts from the last statement's balance, so earlier history never has to add up again.
+export const getReconciliationWorksheet = async (accountId: string, statementDate: Date): Promise<ReconciliationWorksheet> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const account = (await getAccounts(true)).find(item => item.id === accountId);
+    if (!account) {
+      throw new Error('Account not found');
+    }
+    
+    const [registers, reconciliations] = await Promise.all([
+      buildAccountRegisters(householdId, [account], await getCurrencyConverter()),
+      getReconciliations(accountId)
+    ]);
+    
+    const endKey = toDateKey(statementDate);
+    const entries = (registers.get(accountId) || []).filter(entry =>
+      entry.source !== 'opening' &&
+      entry.status !== 'reconciled' &&
+      toDateKey(entry.date) <= endKey
+    );
+    
+    return {
+      account,
+      startingBalance: reconciliations.length > 0 ? reconciliations[0].statementBalance : account.openingBalance,
+      entries
+    };
+  } catch (error) {
+    console.error('Error getting reconciliation worksheet:', error);
+    throw error;
+  }
+};
+
+// Balance the statement should show if every cleared entry on the worksheet is correct
+export const getClearedBalance = (worksheet: ReconciliationWorksheet): number => {
+  return worksheet.entries
+    .filter(entry => entry.status === 'cleared')
+    .reduce((balance, entry) => balance + entry.amount, worksheet.startingBalance);
+};
+
+// Mark a register entry, or one side of a transfer, as cleared (or uncleared) in an account
+export const setEntryCleared = async (accountId: string, entry: ReconcilableEntry, cleared: boolean): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = getEntryRef(entry);
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists() || docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to update this entry');
+    }
+    
+    const data = docSnap.data();
+    const status = entry.source === 'transfer' ? data.statuses?.[accountId] : data.status;
+    if (status === 'reconciled') {
+      throw new Error('This entry has already been reconciled');
+    }
+    
+    await updateDoc(docRef, {
+      [getStatusField(entry, accountId)]: cleared ? 'cleared' : deleteField(),
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating cleared status:', error);
+    throw error;
+  }
+};
+
+// Finish reconciling a statement: the cleared entries must account for the statement
+// balance exactly. They are locked as reconciled and the statement is recorded.
+export const finishReconciliation = async (
+  accountId: string,
+  statementDate: Date,
+  statementBalance: number
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    if (!Number.isInteger(statementBalance)) {
+      throw new Error('Statement balance must be a whole number of cents');
+    }
+    
+    const worksheet = await getReconciliationWorksheet(accountId, statementDate);
+    const difference = statementBalance - getClearedBalance(worksheet);
+    if (difference !== 0) {
+      const currency = getRecordCurrency(worksheet.account);
+      throw new Error(`Cleared items are ${formatMoney(money(Math.abs(difference), currency))} away from the statement balance`);
+    }
+    
+    const items: ReconcilableEntry[] = worksheet.entries
+      .filter(entry => entry.status === 'cleared')
+      .map(entry => ({ id: entry.id, source: entry.source as ReconcilableEntry['source'] }));
+    
+    const reconciliationRef = doc(getReconciliationsCollection());
+    const operations: BatchOperation[] = items.map(item => (batch: WriteBatch) => {
+      batch.update(getEntryRef(item), {
+        [getStatusField(item, accountId)]: 'reconciled',
+        updatedAt: Timestamp.now()
+      });
+    });
+    operations.push(batch => batch.set(reconciliationRef, {
+      accountId,
+      statementDate: Timestamp.fromDate(statementDate),
+      statementBalance,
+      startingBalance: worksheet.startingBalance,
+      items,
+      householdId,
+      createdAt: Timestamp.now()
+    }));
+    
+    await commitInChunks(operations);
+    return reconciliationRef.id;
+  } catch (error) {
+    console.error('Error finishing reconciliation:', error);
+    throw error;
+  }
+};
+
+// Undo an account's most recent reconciliation, returning its entries to cleared
+export const undoReconciliation = async (id: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docSnap = await getDoc(doc(getReconciliationsCollection(), id));
+    if (!docSnap.exists() || docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to undo this reconciliation');
+    }
+    
+    const reconciliation = { ...docSnap.data(), id } as Reconciliation;
+    const [latest] = await getReconciliations(reconciliation.accountId);
+    if (latest?.id !== id) {
+      throw new Error('Only the most recent reconciliation can be undone');
+    }
+    
+    const operations: BatchOperation[] = reconciliation.items.map(item => (batch: WriteBatch) => {
+      batch.update(getEntryRef(item), {
+        [getStatusField(item, reconciliation.accountId)]: 'cleared',
+        updatedAt: Timestamp.now()
+      });
+    });
+    operations.push(batch => batch.delete(docSnap.ref));
+    
+    await commitInChunks(operations);
+  } catch (error) {
+    console.error('Error undoing reconciliation:', error);
+    throw error;
+  }
+};
+
+// ========================
+// IMPORT OPERATIONS
+// ========================
+
+// Get the household's saved bank file layouts, sorted by name
+export const getImportProfiles = async (): Promise<ImportProfile[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const q = query(getImportProfilesCollection(), where('householdId', '==', householdId));
+    const querySnapshot = await getDocs(q);
+    
+    return querySnapshot.docs
+      .map(doc => ({ ...doc.data(), id: doc.id } as ImportProfile))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting import profiles:', error);
+    throw error;
+  }
+};
+
+// Add or update a bank file layout
+export const saveImportProfile = async (
+  profile: Omit<ImportProfile, 'id' | 'householdId' | 'createdAt' | 'updatedAt'>,
+  id?: string
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    if (!profile.name.trim()) {
+      throw new Error('Profile name is required');
+    }
+    
+    const profileData = {
+      name: profile.name.trim(),
+      mapping: profile.mapping,
+      accountId: profile.accountId || '',
+      currency: profile.currency || DEFAULT_CURRENCY,
+      householdId,
+      updatedAt: Timestamp.now(),
+      ...(id ? {} : { createdAt: Timestamp.now() })
+    };
+    
+    if (id) {
+      const existing = await getDoc(doc(getImportProfilesCollection(), id));
+      if (!existing.exists() || existing.data().householdId !== householdId) {
+        throw new Error('Not authorized to update this profile');
+      }
+      await updateDoc(doc(getImportProfilesCollection(), id), profileData);
+      return id;
+    }
+    
+    const docRef = await addDoc(getImportProfilesCollection(), profileData);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error saving import profile:', error);
+    throw error;
+  }
+};
+
+// Delete a bank file layout
+export const deleteImportProfile = async (id: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const docRef = doc(getImportProfilesCollection(), id);
+    const docSnap = await getDoc(docRef);
+    if (!docSnap.exists() || docSnap.data().householdId !== householdId) {
+      throw new Error('Not authorized to delete this profile');
+    }
+    
+    await deleteDoc(docRef);
+  } catch (error) {
+    console.error('Error deleting import profile:', error);
+    throw error;
+  }
+};
+
+// Identify the transactions already recorded between two dates, for duplicate detection
+export const getImportMatchData = async (startDate: Date, endDate: Date): Promise<ImportMatchData> => {
+  try {
+    const transactions = await getUserTransactions({ startDate, endDate });
+    
+    return {
+      fingerprints: transactions.map(transaction => getTransactionFingerprint({
+        date: toDate(transaction.date),
+        type: transaction.type,
+        amount: transaction.amount,
+        description: transaction.description
+      })),
+      externalKeys: transactions
+        .filter(transaction => transaction.externalId)
+        .map(transaction => getExternalKey(transaction.externalId!, transaction.bankAccount))
+    };
+  } catch (error) {
+    console.error('Error getting import match data:', error);
+    throw error;
+  }
+};
+
+// Imported transactions saved per Firestore transaction, leaving room under the write limit
+// for the summary updates that go with them
+const IMPORT_CHUNK_SIZE = 250;
+
+// Record imported transactions. Transactions the bank identified get an ID derived from that,
+// and each chunk is saved in a transaction that skips the IDs already recorded, so importing
+// the same file again leaves the existing records (and their edits) alone. Returns the number
+// of transactions saved.
+export const importTransactions = async (transactions: TransactionInput[]): Promise<number> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const records = transactions.map(transaction => ({
+      ref: transaction.externalId
+        ? doc(getTransactionsCollection(), `${householdId}_${getExternalKey(transaction.externalId, transaction.bankAccount)}`)
+        : doc(getTransactionsCollection()),
+      identified: !!transaction.externalId,
+      data: {
+        ...toTransactionData(transaction),
+        householdId,
+        createdAt: Timestamp.now()
+      }
+    }));
+    
+    let saved = 0;
+    for (let i = 0; i < records.length; i += IMPORT_CHUNK_SIZE) {
+      const chunk = records.slice(i, i + IMPORT_CHUNK_SIZE);
+      
+      saved += await runTransaction(db, async (transaction) => {
+        const identified = chunk.filter(record => record.identified);
+        const snapshots = await Promise.all(identified.map(({ ref }) => transaction.get(ref)));
+        const recorded = new Set(identified.filter((_, index) => snapshots[index].exists()).map(({ ref }) => ref.id));
+        
+        // A file can list the same bank ID twice; only the first is saved
+        const missing = chunk.filter(({ ref }) => {
+          if (recorded.has(ref.id)) return false;
+          recorded.add(ref.id);
+          return true;
+        });
+        
+        await addSummaryUpdates(transaction, householdId, missing.map(({ data }) => ({ kind: 'transaction', before: null, after: data })));
+        missing.forEach(({ ref, data }) => transaction.set(ref, data));
+        return missing.length;
+      });
+    }
+    
+    return saved;
+  } catch (error) {
+    console.error('Error importing transactions:', error);
+    throw error;
+  }
+};
+
+// ========================
+// EXPORT OPERATIONS
+// ========================
+
+// Stored record as plain JSON, without the owner so it can be read back into any household.
+// Records from before households existed may still carry their creator's user ID.
+const toExportRecord = (id: string, data: DocumentData): ExportRecord => {
+  const fields = { ...data };
+  delete fields.householdId;
+  delete fields.userId;
+  return { ...(toExportValue(fields) as Record<string, unknown>), id };
+};
+
+// Export the household's income, expenses, transactions and monthly summaries between two dates.
+// Monthly records are included for every month the range touches.
+export const getExportData = async (startDate: Date, endDate: Date): Promise<DataExport> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const byUser = (collectionRef: ReturnType<typeof collection>) => getDocs(query(collectionRef, where('householdId', '==', householdId)));
+    const [incomeSnap, expenseSnap, transactionSnap, summarySnap, settings] = await Promise.all([
+      byUser(getIncomeCollection()),
+      byUser(getExpensesCollection()),
+      byUser(getTransactionsCollection()),
+      byUser(getMonthlySummaryCollection()),
+      getUserSettings()
+    ]);
+    
+    const startKey = toDateKey(startDate);
+    const endKey = toDateKey(endDate);
+    const startMonth = startDate.getFullYear() * 12 + startDate.getMonth();
+    const endMonth = endDate.getFullYear() * 12 + endDate.getMonth();
+    const inMonthRange = (data: DocumentData) => {
+      const monthIndex = data.year * 12 + data.month - 1;
+      return monthIndex >= startMonth && monthIndex <= endMonth;
+    };
+    const byMonth = (a: ExportRecord, b: ExportRecord) =>
+      (a.year as number) - (b.year as number) || (a.month as number) - (b.month as number);
+    
+    // Records in the trash are left out
+    const monthlyRecords = (snapshot: typeof incomeSnap) => snapshot.docs
+      .filter(docSnap => inMonthRange(docSnap.data()) && !isDeleted(docSnap.data()))
+      .map(docSnap => toExportRecord(docSnap.id, docSnap.data()))
+      .sort(byMonth);
+    
+    const transactions = transactionSnap.docs
+      .filter(docSnap => !isDeleted(docSnap.data()))
+      .map(docSnap => ({ docSnap, dateKey: toDateKey(toDate(docSnap.data().date)) }))
+      .filter(({ dateKey }) => dateKey >= startKey && dateKey <= endKey)
+      .sort((a, b) => a.dateKey.localeCompare(b.dateKey))
+      .map(({ docSnap }) => toExportRecord(docSnap.id, { ...docSnap.data(), type: getTransactionKind(docSnap.data()) }));
+    
+    return {
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      range: { start: startKey, end: endKey },
+      baseCurrency: settings.baseCurrency,
+      income: monthlyRecords(incomeSnap),
+      expenses: monthlyRecords(expenseSnap),
+      transactions,
+      monthlySummaries: monthlyRecords(summarySnap)
+    };
+  } catch (error) {
+    console.error('Error exporting data:', error);
+    throw error;
+  }
+};
+
+// ========================
+// BACKUP OPERATIONS
+// ========================
+
+// The household's stored records in a backed-up collection, keyed by ID. Settings are a single
+// document with the household ID as its ID; every other collection is queried by household.
+const getOwnedRecords = async (householdId: string, name: BackupCollection): Promise<Map<string, ExportRecord>> => {
+  const records = new Map<string, ExportRecord>();
+  
+  if (name === 'userSettings') {
+    const settingsSnap = await getDoc(doc(getUserSettingsCollection(), householdId));
+    if (settingsSnap.exists()) {
+      records.set(householdId, toExportRecord(householdId, settingsSnap.data()));
+    }
+    return records;
+  }
+  
+  const querySnapshot = await getDocs(query(collection(db, name), where('householdId', '==', householdId)));
+  querySnapshot.forEach(docSnap => {
+    records.set(docSnap.id, toExportRecord(docSnap.id, docSnap.data()));
+  });
+  return records;
+};
+
+// Back up everything the household owns, the current one unless another is given
+export const createBackup = async (householdId: string = getCurrentHouseholdId()): Promise<BackupArchive> => {
+  try {
+    const collections: BackupArchive['collections'] = {};
+    for (const name of backupCollections) {
+      collections[name] = Array.from((await getOwnedRecords(householdId, name)).values());
+    }
+    
+    return {
+      kind: 'budget-backup',
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt: new Date().toISOString(),
+      sourceHouseholdId: householdId,
+      collections
+    };
+  } catch (error) {
+    console.error('Error creating backup:', error);
+    throw error;
+  }
+};
+
+// Whether a record ID is in use outside the household. Other households' records can't be
+// read, so a refused read means the ID is taken.
+const isRecordIdTaken = async (name: BackupCollection, id: string): Promise<boolean> => {
+  try {
+    return (await getDoc(doc(collection(db, name), id))).exists();
+  } catch (error) {
+    if (error instanceof FirebaseError && error.code === 'permission-denied') return true;
+    throw error;
+  }
+};
+
+// Record IDs are global, so a backup restored into another household can name records that
+// still exist elsewhere, usually in the household it was made from. Those records get an ID
+// of their own under this household, the same one on every restore; occurrences of a series
+// that moves go with it so their IDs still derive from the series'.
+const getRestoreIdMap = async (
+  householdId: string,
+  archive: BackupArchive,
+  owned: Map<BackupCollection, Map<string, ExportRecord>>
+): Promise<Map<string, string>> => {
+  const taken = new Set<string>();
+  
+  for (const [name, existing] of owned) {
+    if (name === 'userSettings') continue;
+    
+    const ids = archive.collections[name]!
+      .map(record => rebaseOwnerIds(record.id, archive.sourceHouseholdId, householdId))
+      .filter(id => !existing.has(id));
+    const results = await Promise.all(ids.map(id => isRecordIdTaken(name, id)));
+    ids.forEach((id, index) => {
+      if (results[index]) taken.add(id);
+    });
+  }
+  
+  for (const name of ['income', 'expenses'] as const) {
+    archive.collections[name]?.forEach(record => {
+      const seriesId = rebaseOwnerIds(record.seriesId, archive.sourceHouseholdId, householdId);
+      if (typeof seriesId === 'string' && taken.has(seriesId)) {
+        taken.add(rebaseOwnerIds(record.id, archive.sourceHouseholdId, householdId));
+      }
+    });
+  }
+  
+  return new Map(Array.from(taken, id => [id, `${householdId}_${id}`]));
+};
+
+// Work out what restoring a backup would do. Records are matched by ID: in merge mode
+// records only in the backup are added and stored records are kept, with records that
+// differ reported as conflicts; replace mode also overwrites conflicts and deletes stored
+// records the backup does not have.
+const planRestore = async (
+  householdId: string,
+  archive: BackupArchive,
+  mode: RestoreMode,
+  overwriteConflicts: boolean
+): Promise<{ report: RestoreReport; operations: BatchOperation[] }> => {
+  const operations: BatchOperation[] = [];
+  const collections: RestoreCollectionReport[] = [];
+  
+  const owned = new Map<BackupCollection, Map<string, ExportRecord>>();
+  for (const name of backupCollections) {
+    if (archive.collections[name]) {
+      owned.set(name, await getOwnedRecords(householdId, name));
+    }
+  }
+  const idMap = await getRestoreIdMap(householdId, archive, owned);
+  
+  for (const name of backupCollections) {
+    const records = archive.collections[name];
+    if (!records) continue;
+    
+    const existing = owned.get(name)!;
+    const report: RestoreCollectionReport = { collection: name, added: 0, unchanged: 0, conflicts: [], overwritten: 0, deleted: 0 };
+    const restoredIds = new Set<string>();
+    
+    records.forEach(backupRecord => {
+      const record = remapIds(rebaseOwnerIds(backupRecord, archive.sourceHouseholdId, householdId), idMap);
+      const { id, ...fields } = record;
+      restoredIds.add(id);
+      
+      const stored = existing.get(id);
+      if (stored && recordsEqual(stored, record)) {
+        report.unchanged += 1;
+        return;
+      }
+      
+      if (stored) {
+        report.conflicts.push(id);
+        if (mode === 'merge' && !overwriteConflicts) return;
+        report.overwritten += 1;
+      } else {
+        report.added += 1;
+      }
+      
+      const docRef = doc(collection(db, name), id);
+      operations.push(batch => batch.set(docRef, { ...(reviveDates(fields) as DocumentData), householdId }));
+    });
+    
+    if (mode === 'replace') {
+      existing.forEach((_, id) => {
+        if (restoredIds.has(id)) return;
+        report.deleted += 1;
+        operations.push(batch => batch.delete(doc(collection(db, name), id)));
+      });
+    }
+    
+    collections.push(report);
+  }
+  
+  return { report: { mode, collections }, operations };
+};
+
+// Report what restoring a backup would do, without changing anything
+export const previewRestore = async (
+  archive: BackupArchive,
+  mode: RestoreMode,
+  overwriteConflicts: boolean = false
+): Promise<RestoreReport> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    return (await planRestore(householdId, archive, mode, overwriteConflicts)).report;
+  } catch (error) {
+    console.error('Error previewing restore:', error);
+    throw error;
+  }
+};
+
+// Restore a backup into the current household's data
+export const restoreBackup = async (
+  archive: BackupArchive,
+  mode: RestoreMode,
+  overwriteConflicts: boolean = false
+): Promise<RestoreReport> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const { report, operations } = await planRestore(householdId, archive, mode, overwriteConflicts);
+    await commitInChunks(operations);
+    
+    // Restored records and summaries may no longer agree with one another
+    await markSummariesStale(householdId);
+    return report;
+  } catch (error) {
+    console.error('Error restoring backup:', error);
+    throw error;
+  }
+};
+
+// ========================
+// MONTHLY SUMMARY OPERATIONS
+// ========================
+
+// Summaries have one document per household and month
+const getSummaryRef = (householdId: string, month: number, year: number) => {
+  return doc(getMonthlySummaryCollection(), `${householdId}_${year}-${String(month).padStart(2, '0')}`);
+};
+
+// Calculate and save the monthly summary
+export const calculateAndSaveMonthSummary = async (month: number, year: number): Promise<MonthlySummary> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const summaryRef = getSummaryRef(householdId, month, year);
+    
+    // Every amount is converted to the base currency at the rate on its date. Amounts in a
+    // currency with no rate are left out and their currencies recorded with the summary.
+    const converter = await getCurrencyConverter();
+    const unconverted = new Set<string>();
+    const sumExpenses = (expenses: Expense[]) => sumInBaseCurrency(converter, expenses, getExpenseDate, unconverted);
+    
+    // Load the month's income, expenses and envelope breakdown together
+    const [incomeItems, expenses, envelopes] = await Promise.all([
+      getMonthlyIncome(month, year),
+      getAllMonthlyExpenses(month, year),
+      getEnvelopeBalances(month, year)
+    ]);
+    const totalIncome = sumInBaseCurrency(converter, incomeItems, getIncomeDate, unconverted);
+    
+    // Total and paid amounts for each expense category
+    const fixedExpenses = expenses.filter(expense => expense.category === 'fixed');
+    const totalFixedExpenses = sumExpenses(fixedExpenses);
+    const paidFixedExpenses = sumExpenses(fixedExpenses.filter(expense => expense.isPaid));
+    
+    const variableExpenses = expenses.filter(expense => expense.category === 'variable');
+    const totalVariableExpenses = sumExpenses(variableExpenses);
+    const paidVariableExpenses = sumExpenses(variableExpenses.filter(expense => expense.isPaid));
+    
+    const subscriptions = expenses.filter(expense => expense.category === 'subscription');
+    const totalSubscriptions = sumExpenses(subscriptions);
+    const paidSubscriptions = sumExpenses(subscriptions.filter(expense => expense.isPaid));
+    
+    // Calculate balance
+    const balance = totalIncome - totalFixedExpenses - totalVariableExpenses - totalSubscriptions;
+    
+    // Create the summary object
+    const summary: Omit<MonthlySummary, 'id'> = {
+      householdId,
+      month,
+      year,
+      currency: converter.baseCurrency,
+      totalIncome,
+      totalFixedExpenses,
+      totalVariableExpenses,
+      totalSubscriptions,
+      paidFixedExpenses,
+      paidVariableExpenses,
+      paidSubscriptions,
+      balance,
+      envelopes,
+      ...(unconverted.size > 0 ? { unconvertedCurrencies: Array.from(unconverted) } : {}),
+      version: SUMMARY_VERSION,
+      computedAt: Timestamp.now(),
+      createdAt: Timestamp.now()
+    };
+    
+    // Viewers get the figures without them being saved
+    if (!(await canWriteToHousehold(householdId))) {
+      return { ...summary, id: summaryRef.id };
+    }
+    
+    // Summaries saved before there was one document per month are replaced
+    const legacySnap = await getDocs(query(
+      getMonthlySummaryCollection(),
+      where('householdId', '==', householdId),
+      where('month', '==', month),
+      where('year', '==', year)
+    ));
+    
+    const batch = writeBatch(db);
+    batch.set(summaryRef, summary);
+    legacySnap.docs
+      .filter(summaryDoc => summaryDoc.id !== summaryRef.id)
+      .forEach(summaryDoc => batch.delete(summaryDoc.ref));
+    await batch.commit();
+    
+    return { ...summary, id: summaryRef.id };
+  } catch (error) {
+    console.error('Error calculating monthly summary:', error);
+    throw error;
+  }
+};
+
+// Get monthly summary
+export const getMonthlySummary = async (month: number, year: number): Promise<MonthlySummary | null> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const summarySnap = await getDoc(getSummaryRef(householdId, month, year));
+    
+    if (summarySnap.exists()) {
+      const summary = { ...summarySnap.data(), id: summarySnap.id } as MonthlySummary;
+      
+      // Summaries saved in a different base currency are recalculated below
+      const { baseCurrency } = await getUserSettings();
+      if ((summary.currency || DEFAULT_CURRENCY) === baseCurrency) {
+        return summary;
+      }
+    }
+    
+    // If no summary exists, calculate and save it
+    return await calculateAndSaveMonthSummary(month, year);
+  } catch (error) {
+    console.error('Error getting monthly summary:', error);
+    throw error;
+  }
+};
+
+// ========================
+// SUMMARY MAINTENANCE
+// ========================
+
+// Every income, expense or transaction write moves its month's summary by the difference it
+// makes, in the same transaction as the write, so summaries stay current without recalculating
+// them. Changes that can't be applied that way flag the summary stale until it is recalculated.
+
+// Bump when the way summaries are calculated changes, so those saved before are flagged stale
+export const SUMMARY_VERSION = 2;
+
+// Whether a summary may no longer match its month's records
+export const isSummaryStale = (summary: MonthlySummary): boolean => {
+  return (summary.version || 0) < SUMMARY_VERSION || !!summary.staleSince;
+};
+
+// A record as stored before and after a write; null when it didn't exist before or doesn't after
+interface RecordChange {
+  kind: 'income' | 'expense' | 'transaction';
+  before: DocumentData | null;
+  after: DocumentData | null;
+}
+
+type SummaryTotalField =
+  | 'totalIncome'
+  | 'totalFixedExpenses'
+  | 'totalVariableExpenses'
+  | 'totalSubscriptions'
+  | 'paidFixedExpenses'
+  | 'paidVariableExpenses'
+  | 'paidSubscriptions'
+  | 'balance';
+
+const expenseTotalFields: Record<Expense['category'], { total: SummaryTotalField; paid: SummaryTotalField }> = {
+  fixed: { total: 'totalFixedExpenses', paid: 'paidFixedExpenses' },
+  variable: { total: 'totalVariableExpenses', paid: 'paidVariableExpenses' },
+  subscription: { total: 'totalSubscriptions', paid: 'paidSubscriptions' }
+};
+
+// What records add to a month's summary, in base-currency cents
+interface SummaryDelta {
+  totals: Partial<Record<SummaryTotalField, number>>;
+  envelopes: Map<string, number>;  // Spending per envelope, from transactions
+}
+
+const getMonthIndex = (month: number, year: number): number => year * 12 + (month - 1);
+
+// What a stored record adds to its month's summary. Throws when its amount can't be converted
+// to the base currency.
+const getRecordDelta = (
+  kind: RecordChange['kind'],
+  data: DocumentData,
+  converter: CurrencyConverter,
+  envelopes: BudgetEnvelope[]
+): SummaryDelta => {
+  const delta: SummaryDelta = { totals: {}, envelopes: new Map() };
+  
+  if (kind === 'income') {
+    const amount = converter.toBase(money(data.amount, getRecordCurrency(data)), getIncomeDate(data as Income)).cents;
+    delta.totals = { totalIncome: amount, balance: amount };
+  } else if (kind === 'expense') {
+    const fields = expenseTotalFields[data.category as Expense['category']];
+    if (!fields) return delta;
+    
+    const amount = converter.toBase(money(data.amount, getRecordCurrency(data)), getExpenseDate(data as Expense)).cents;
+    delta.totals = { [fields.total]: amount, ...(data.isPaid ? { [fields.paid]: amount } : {}), balance: -amount };
+  } else {
+    // Transactions count towards the envelopes they are filed under, from each envelope's start
+    const transaction = data as Transaction;
+    const monthIndex = getMonthIndex(transaction.month, transaction.year);
+    const matching = envelopes.filter(envelope =>
+      getMonthIndex(envelope.startMonth, envelope.startYear) <= monthIndex && isEnvelopeTransaction(envelope, transaction)
+    );
+    if (matching.length === 0) return delta;
+    
+    const amount = converter.toBase(money(transaction.amount, getRecordCurrency(transaction)), toDate(transaction.date)).cents;
+    matching.forEach(envelope => delta.envelopes.set(envelope.id!, amount));
+  }
+  
+  return delta;
+};
+
+// An update to a saved summary, made in the same batch or transaction as the change it follows
+interface SummaryUpdate {
+  ref: DocumentReference;
+  data: DocumentData;
+}
+
+// Get the updates that move each affected month's summary by a set of record changes. Months
+// without a saved summary are skipped, since they are calculated in full when first read.
+// Totals move by increments, but envelope spending is a list written back whole, so it is only
+// moved when the summaries are read through the transaction making the updates. Without one,
+// months whose envelopes change are flagged stale instead.
+const getSummaryUpdates = async (
+  householdId: string,
+  changes: RecordChange[],
+  transaction?: FirestoreTransaction
+): Promise<SummaryUpdate[]> => {
+  if (changes.length === 0) return [];
+  
+  const converter = await getCurrencyConverter();
+  const envelopes = changes.some(change => change.kind === 'transaction') ? await getEnvelopes() : [];
+  
+  // Net change per month, keyed by month index
+  const deltas = new Map<number, SummaryDelta>();
+  const staleMonths = new Set<number>();
+  const addDelta = (data: DocumentData, delta: SummaryDelta, sign: number) => {
+    const monthIndex = getMonthIndex(data.month, data.year);
+    const monthDelta: SummaryDelta = deltas.get(monthIndex) || { totals: {}, envelopes: new Map() };
+    
+    Object.entries(delta.totals).forEach(([field, amount]) => {
+      const key = field as SummaryTotalField;
+      monthDelta.totals[key] = (monthDelta.totals[key] || 0) + sign * amount;
+    });
+    delta.envelopes.forEach((amount, envelopeId) => {
+      monthDelta.envelopes.set(envelopeId, (monthDelta.envelopes.get(envelopeId) || 0) + sign * amount);
+    });
+    deltas.set(monthIndex, monthDelta);
+  };
+  
+  for (const { kind, before, after } of changes) {
+    // Records in the trash count for nothing
+    const counted = [before, after].map(data => data && !isDeleted(data) ? data : null);
+    
+    try {
+      const [beforeDelta, afterDelta] = counted.map(data => data ? getRecordDelta(kind, data, converter, envelopes) : null);
+      if (beforeDelta) addDelta(counted[0]!, beforeDelta, -1);
+      if (afterDelta) addDelta(counted[1]!, afterDelta, 1);
+    } catch (error) {
+      console.warn('Could not apply change to monthly summary, flagging it stale:', error);
+      counted.forEach(data => data && staleMonths.add(getMonthIndex(data.month, data.year)));
+    }
+  }
+  
+  // Spending in an envelope that rolls over also changes what later months carry over
+  const rolloverIds = new Set(envelopes.filter(envelope => envelope.rollover).map(envelope => envelope.id!));
+  const affectsLaterMonths = Array.from(deltas.values())
+    .some(delta => Array.from(delta.envelopes.keys()).some(envelopeId => rolloverIds.has(envelopeId)));
+  
+  // Queries can't run in a transaction, so the saved months are found first and then read
+  const summaryRefs = affectsLaterMonths
+    ? (await getDocs(query(getMonthlySummaryCollection(), where('householdId', '==', householdId)))).docs
+      .filter(snapshot => snapshot.id === getSummaryRef(householdId, snapshot.data().month, snapshot.data().year).id)
+      .map(snapshot => snapshot.ref)
+    : Array.from(new Set([...deltas.keys(), ...staleMonths]))
+      .map(monthIndex => getSummaryRef(householdId, monthIndex % 12 + 1, Math.floor(monthIndex / 12)));
+  const summaryDocs = (await Promise.all(summaryRefs.map(ref => transaction ? transaction.get(ref) : getDoc(ref))))
+    .filter(snapshot => snapshot.exists())
+    .map(snapshot => ({ ref: snapshot.ref, data: snapshot.data() as MonthlySummary }));
+  
+  const updates: SummaryUpdate[] = [];
+  
+  for (const { ref, data: summary } of summaryDocs) {
+    // Summaries in another base currency are recalculated when next read
+    if ((summary.currency || DEFAULT_CURRENCY) !== converter.baseCurrency) continue;
+    
+    const monthIndex = getMonthIndex(summary.month, summary.year);
+    const delta = deltas.get(monthIndex);
+    const update: DocumentData = {};
+    
+    if (staleMonths.has(monthIndex)) {
+      update.staleSince = Timestamp.now();
+    }
+    Object.entries(delta?.totals || {}).forEach(([field, amount]) => {
+      if (amount !== 0) update[field] = increment(amount);
+    });
+    
+    if (summary.envelopes) {
+      let envelopesChanged = false;
+      const updatedEnvelopes = summary.envelopes.map(entry => {
+        const spent = delta?.envelopes.get(entry.envelopeId) || 0;
+        const carried = !rolloverIds.has(entry.envelopeId) ? 0 : Array.from(deltas.entries())
+          .filter(([index]) => index < monthIndex)
+          .reduce((total, [, earlier]) => total + (earlier.envelopes.get(entry.envelopeId) || 0), 0);
+        if (spent === 0 && carried === 0) return entry;
+        
+        envelopesChanged = true;
+        return {
+          ...entry,
+          spent: entry.spent + spent,
+          carriedOver: entry.carriedOver - carried,
+          remaining: entry.remaining - spent - carried
+        };
+      });
+      if (envelopesChanged) {
+        if (transaction) {
+          update.envelopes = updatedEnvelopes;
+        } else {
+          update.staleSince = Timestamp.now();
+        }
+      }
+    }
+    
+    if (Object.keys(update).length > 0) {
+      updates.push({ ref, data: { ...update, updatedAt: Timestamp.now() } });
+    }
+  }
+  
+  return updates;
+};
+
+// Add the summary updates for a set of record changes to the transaction that makes them,
+// reading the summaries through it. Firestore wants every read in a transaction before its
+// first write, so this comes before the records are written.
+const addSummaryUpdates = async (transaction: FirestoreTransaction, householdId: string, changes: RecordChange[]): Promise<void> => {
+  (await getSummaryUpdates(householdId, changes, transaction)).forEach(({ ref, data }) => transaction.update(ref, data));
+};
+
+// Get the summary updates for a set of record changes as operations for commitInChunks, for
+// writes too large for one transaction. Envelope spending they change is recalculated later.
+const getSummaryOperations = async (householdId: string, changes: RecordChange[]): Promise<BatchOperation[]> => {
+  return (await getSummaryUpdates(householdId, changes)).map(({ ref, data }) => batch => batch.update(ref, data));
+};
+
+// Flag a household's saved summaries stale, from the month a date falls in onwards, after a
+// change that affects them in ways a delta can't follow, such as a new exchange rate
+const markSummariesStale = async (householdId: string, fromDate?: Date): Promise<void> => {
+  const fromIndex = fromDate ? getMonthIndex(fromDate.getMonth() + 1, fromDate.getFullYear()) : 0;
+  const summarySnap = await getDocs(query(getMonthlySummaryCollection(), where('householdId', '==', householdId)));
+  
+  await commitInChunks(summarySnap.docs
+    .filter(summaryDoc => getMonthIndex(summaryDoc.data().month, summaryDoc.data().year) >= fromIndex)
+    .map(summaryDoc => batch => batch.update(summaryDoc.ref, { staleSince: Timestamp.now() })));
+};
+
+// Recalculate the summary of every month the household has records in, replacing what is
+// saved. Returns the number of months rebuilt.
+export const rebuildAllSummaries = async (onProgress?: (done: number, total: number) => void): Promise<number> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    const byHousehold = (collectionRef: CollectionReference) => getDocs(query(collectionRef, where('householdId', '==', householdId)));
+    const snapshots = await Promise.all([
+      getIncomeCollection(),
+      getExpensesCollection(),
+      getTransactionsCollection(),
+      getMonthlySummaryCollection()
+    ].map(byHousehold));
+    
+    const months = new Set<number>();
+    snapshots.forEach(snapshot => snapshot.docs.forEach(recordDoc => {
+      const { month, year } = recordDoc.data();
+      if (typeof month === 'number' && typeof year === 'number') {
+        months.add(getMonthIndex(month, year));
+      }
+    }));
+    
+    const monthIndexes = Array.from(months).sort((a, b) => a - b);
+    for (let i = 0; i < monthIndexes.length; i++) {
+      await calculateAndSaveMonthSummary(monthIndexes[i] % 12 + 1, Math.floor(monthIndexes[i] / 12));
+      onProgress?.(i + 1, monthIndexes.length);
+    }
+    
+    return monthIndexes.length;
+  } catch (error) {
+    console.error('Error rebuilding monthly summaries:', error);
+    throw error;
+  }
+};
+
+// ========================
+// LIVE UPDATES
+// ========================
+
+// Subscriptions that call back with a month's data whenever anyone in the household changes
+// it. Each returns a function that stops listening.
+
+type ErrorCallback = (error: Error) => void;
+
+// Listen to a month's documents in a collection. When the month query needs an index that
+// hasn't been created, listen to the whole household instead and filter by month.
+const listenToMonth = <T>(
+  collectionRef: CollectionReference,
+  householdId: string,
+  month: number,
+  year: number,
+  onDocs: (docs: T[]) => void,
+  onError: ErrorCallback
+): Unsubscribe => {
+  const toRecords = (snapshot: QuerySnapshot) => snapshot.docs
+    .filter(doc => doc.data().month === month && doc.data().year === year)
+    .map(doc => ({ ...doc.data(), id: doc.id }) as T);
+  
+  let unsubscribe = onSnapshot(
+    query(
+      collectionRef,
+      where('householdId', '==', householdId),
+      where('year', '==', year),
+      where('month', '==', month)
+    ),
+    snapshot => onDocs(toRecords(snapshot)),
+    error => {
+      if (error.code !== 'failed-precondition') {
+        onError(error);
+        return;
+      }
+      
+      console.warn('Index error for live query, trying simpler query:', error);
+      unsubscribe = onSnapshot(
+        query(collectionRef, where('householdId', '==', householdId)),
+        snapshot => onDocs(toRecords(snapshot)),
+        onError
+      );
+    }
+  );
+  
+  return () => unsubscribe();
+};
+
+// Call back with the latest result of an async load, ignoring results that a newer load has
+// overtaken or that arrive after the subscription has ended
+const createPublisher = <T>(onChange: (data: T) => void, onError: ErrorCallback) => {
+  let latest = 0;
+  let active = true;
+  
+  const publish = async (load: () => Promise<T>) => {
+    const current = ++latest;
+    try {
+      const data = await load();
+      if (active && current === latest) onChange(data);
+    } catch (error) {
+      if (active && current === latest) onError(error as Error);
+    }
+  };
+  const stop = () => {
+    active = false;
+  };
+  
+  return { publish, stop };
+};
+
+// Listen to a month's income or expenses, with series occurrences filled in and changes
+// queued offline applied. Queued changes don't touch Firestore, so the queue is watched too.
+const subscribeToMonthRecords = <T extends { id?: string; month: number; year: number; deletedAt?: unknown }>(
+  kind: QueuedRecordKind,
+  month: number,
+  year: number,
+  materialize: (householdId: string, existing: T[]) => Promise<T[]>,
+  onChange: (records: T[]) => void,
+  onError: ErrorCallback
+): Unsubscribe => {
+  const householdId = getCurrentHouseholdId();
+  const { publish, stop } = createPublisher(onChange, onError);
+  let records: T[] | null = null;
+  
+  const publishRecords = () => {
+    if (!records) return;
+    const existing = records;
+    
+    publish(async () => {
+      // Trashed occurrences count as existing so they aren't recreated
+      const occurrences = await materialize(householdId, existing);
+      return applyQueuedWrites(kind, householdId, month, year, [
+        ...existing.filter(item => !isDeleted(item)),
+        ...occurrences
+      ]);
+    });
+  };
+  
+  const unsubscribe = listenToMonth<T>(
+    kind === 'income' ? getIncomeCollection() : getExpensesCollection(),
+    householdId,
+    month,
+    year,
+    docs => {
+      records = docs;
+      publishRecords();
+    },
+    onError
+  );
+  window.addEventListener(QUEUE_CHANGE_EVENT, publishRecords);
+  
+  return () => {
+    stop();
+    unsubscribe();
+    window.removeEventListener(QUEUE_CHANGE_EVENT, publishRecords);
+  };
+};
+
+// Live version of getMonthlyIncome
+export const subscribeToMonthlyIncome = (
+  month: number,
+  year: number,
+  onChange: (incomes: Income[]) => void,
+  onError: ErrorCallback
+): Unsubscribe => {
+  return subscribeToMonthRecords<Income>(
+    'income',
+    month,
+    year,
+    (householdId, existing) => materializeIncomeOccurrences(householdId, month, year, existing),
+    onChange,
+    onError
+  );
+};
+
+// Live version of getAllMonthlyExpenses
+export const subscribeToAllMonthlyExpenses = (
+  month: number,
+  year: number,
+  onChange: (expenses: Expense[]) => void,
+  onError: ErrorCallback
+): Unsubscribe => {
+  return subscribeToMonthRecords<Expense>(
+    'expense',
+    month,
+    year,
+    (householdId, existing) => materializeExpenseOccurrences(householdId, month, year, existing),
+    onChange,
+    onError
+  );
+};
+
+// Live version of getMonthlySummary. Writes keep the saved summary current, so this follows it.
+export const subscribeToMonthlySummary = (
+  month: number,
+  year: number,
+  onChange: (summary: MonthlySummary | null) => void,
+  onError: ErrorCallback
+): Unsubscribe => {
+  const householdId = getCurrentHouseholdId();
+  const { publish, stop } = createPublisher(onChange, onError);
+  
+  const unsubscribe = onSnapshot(
+    getSummaryRef(householdId, month, year),
+    snapshot => publish(async () => {
+      if (snapshot.exists()) {
+        const summary = { ...snapshot.data(), id: snapshot.id } as MonthlySummary;
+        
+        // Summaries saved in a different base currency are recalculated below
+        const { baseCurrency } = await getUserSettings();
+        if ((summary.currency || DEFAULT_CURRENCY) === baseCurrency) {
+          return summary;
+        }
+      }
+      return calculateAndSaveMonthSummary(month, year);
+    }),
+    onError
+  );
+  
+  return () => {
+    stop();
+    unsubscribe();
+  };
+};
+
+
+// ========================
+// RECURRING SERIES OPERATIONS
+// ========================
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500;
+
+type BatchOperation = (batch: WriteBatch) => void;
+
+// Commit a list of batch operations, splitting them across as many batches as needed
+const commitInChunks = async (operations: BatchOperation[]): Promise<void> => {
+  for (let i = 0; i < operations.length; i += MAX_BATCH_WRITES) {
+    const batch = writeBatch(db);
+    operations.slice(i, i + MAX_BATCH_WRITES).forEach(apply => apply(batch));
+    await batch.commit();
+  }
+};
+
+// Convert a Date or Timestamp to a Date
+const toDate = (value: Date | Timestamp): Date => {
+  return value instanceof Date ? value : value.toDate();
+};
+
+// Occurrences use deterministic IDs so concurrent materialization can't create duplicates
+const getOccurrenceId = (seriesId: string, occurrenceKey: string): string => {
+  return `${seriesId}_${occurrenceKey}`;
+};
+
+const getOccurrenceCollection = (kind: RecurringSeries['kind']) => {
+  return kind === 'income' ? getIncomeCollection() : getExpensesCollection();
+};
+
+// Check whether a date is today or in the past
+const isOnOrBeforeToday = (date: Date): boolean => {
+  return daysBetween(date, new Date()) >= 0;
+};
+
+// Build the occurrence rule for a series
+const getSeriesRule = (series: RecurringSeries): RecurrenceRule => ({
+  frequency: series.frequency,
+  anchorDate: toDate(series.anchorDate || series.startDate),
+  startDate: toDate(series.startDate),
+  endDate: series.endDate ? toDate(series.endDate) : null,
+  dayOfMonth: series.dueDayOfMonth
+});
+
+// Get the dates on which a series occurs within a month
+const getSeriesOccurrenceDates = (series: RecurringSeries, month: number, year: number): Date[] => {
+  return getOccurrencesInMonth(getSeriesRule(series), month, year);
+};
+
+// Get the amount in effect for an occurrence on the given date
+const getSeriesAmount = (series: RecurringSeries, date: Date): number => {
+  const history = [...series.amountHistory].sort(
+    (a, b) => toDate(a.effectiveDate).getTime() - toDate(b.effectiveDate).getTime()
+  );
+  
+  let amount = history.length > 0 ? history[0].amount : 0;
+  for (const change of history) {
+    if (daysBetween(toDate(change.effectiveDate), date) >= 0) {
+      amount = change.amount;
+    }
+  }
+  
+  return amount;
+};
+
+// Get all series of a kind for a household
+const getUserSeries = async (householdId: string, kind: RecurringSeries['kind']): Promise<RecurringSeries[]> => {
+  const q = query(
+    getRecurringSeriesCollection(),
+    where('householdId', '==', householdId),
+    where('kind', '==', kind)
+  );
+  
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs
+    .map(doc => ({ ...doc.data(), id: doc.id } as RecurringSeries))
+    .filter(series => !isDeleted(series));
+};
+
+// Save newly materialized occurrences and add them to their month's summary. Another member
+// may be materializing the same occurrences, so a transaction saves and counts only those
+// that are still missing.
+const saveOccurrences = async (
+  kind: RecurringSeries['kind'],
+  householdId: string,
+  occurrences: (Income | Expense)[]
+): Promise<void> => {
+  const collectionRef = getOccurrenceCollection(kind);
+  
+  await runTransaction(db, async (transaction) => {
+    const snapshots = await Promise.all(occurrences.map(occurrence => transaction.get(doc(collectionRef, occurrence.id!))));
+    const missing = occurrences
+      .filter((_, index) => !snapshots[index].exists())
+      .map(({ id, ...data }) => ({ id: id!, data }));
+    
+    await addSummaryUpdates(transaction, householdId, missing.map(({ data }) => ({ kind, before: null, after: data })));
+    missing.forEach(({ id, data }) => transaction.set(doc(collectionRef, id), data));
+  });
+};
+
+// Create the income occurrences for a month that aren't in the existing list yet. They are
+// only saved for members who can edit the household.
+const materializeIncomeOccurrences = async (
+  householdId: string,
+  month: number,
+  year: number,
+  existing: Income[]
+): Promise<Income[]> => {
+  const seriesList = await getUserSeries(householdId, 'income');
+  const existingIds = new Set(existing.map(item => item.id));
+  const created: Income[] = [];
+  
+  for (const series of seriesList) {
+    if (!series.id) continue;
+    
+    for (const date of getSeriesOccurrenceDates(series, month, year)) {
+      const occurrenceKey = toDateKey(date);
+      const id = getOccurrenceId(series.id, occurrenceKey);
+      if (existingIds.has(id) || series.skippedOccurrences?.includes(occurrenceKey)) continue;
+      
+      const occurrence: Omit<Income, 'id'> = {
+        householdId,
+        source: series.source || '',
+        amount: getSeriesAmount(series, date),
+        ...(series.currency ? { currency: series.currency } : {}),
+        ...(series.accountId ? { accountId: series.accountId } : {}),
+        month,
+        year,
+        recurring: true,
+        frequency: series.frequency,
+        startDate: series.startDate,
+        ...(series.endDate ? { endDate: series.endDate } : {}),
+        description: series.description || '',
+        isPaid: isOnOrBeforeToday(date),
+        expectedDate: Timestamp.fromDate(date),
+        seriesId: series.id,
+        occurrenceKey,
+        createdAt: Timestamp.now()
+      };
+      
+      created.push({ ...occurrence, id });
+    }
+  }
+  
+  if (created.length > 0 && await canWriteToHousehold(householdId)) {
+    await saveOccurrences('income', householdId, created);
+  }
+  return created;
+};
+
+// Create the expense occurrences for a month that aren't in the existing list yet. They are
+// only saved for members who can edit the household.
+const materializeExpenseOccurrences = async (
+  householdId: string,
+  month: number,
+  year: number,
+  existing: Expense[],
+  category?: Expense['category']
+): Promise<Expense[]> => {
+  const seriesList = await getUserSeries(householdId, 'expense');
+  const existingIds = new Set(existing.map(item => item.id));
+  const created: Expense[] = [];
+  
+  for (const series of seriesList) {
+    if (!series.id || (category && series.category !== category)) continue;
+    
+    for (const date of getSeriesOccurrenceDates(series, month, year)) {
+      const occurrenceKey = toDateKey(date);
+      const id = getOccurrenceId(series.id, occurrenceKey);
+      if (existingIds.has(id) || series.skippedOccurrences?.includes(occurrenceKey)) continue;
+      
+      const occurrence: Omit<Expense, 'id'> = {
+        householdId,
+        category: series.category || 'fixed',
+        ...(series.subcategory ? { subcategory: series.subcategory } : {}),
+        amount: getSeriesAmount(series, date),
+        ...(series.currency ? { currency: series.currency } : {}),
+        ...(series.accountId ? { accountId: series.accountId } : {}),
+        month,
+        year,
+        description: series.description || '',
+        dueDate: Timestamp.fromDate(date),
+        ...(series.dueDayOfMonth ? { dueDayOfMonth: series.dueDayOfMonth } : {}),
+        recurring: true,
+        frequency: series.frequency,
+        startDate: series.startDate,
+        ...(series.endDate ? { endDate: series.endDate } : {}),
+        // Expenses are considered paid once their due date has passed
+        isPaid: isOnOrBeforeToday(date),
+        seriesId: series.id,
+        occurrenceKey,
+        createdAt: Timestamp.now()
+      };
+      
+      created.push({ ...occurrence, id });
+    }
+  }
+  
+  if (created.length > 0 && await canWriteToHousehold(householdId)) {
+    await saveOccurrences('expense', householdId, created);
+  }
+  return created;
+};
+
+// Get the materialized occurrences of a series
+const getSeriesOccurrences = async (series: RecurringSeries): Promise<(Income | Expense)[]> => {
+  const q = query(
+    getOccurrenceCollection(series.kind),
+    where('householdId', '==', series.householdId),
+    where('seriesId', '==', series.id)
+  );
+  
+  const querySnapshot = await getDocs(q);
+  return querySnapshot.docs.map(doc => ({ ...doc.data(), id: doc.id } as Income | Expense));
+};
+
+// Field that links a transaction to the planned record of each kind it was paid against
+const linkFields: Record<RecurringSeries['kind'], 'incomeId' | 'expenseId'> = {
+  income: 'incomeId',
+  expense: 'expenseId'
+};
+
+// Firestore allows at most 30 values in an 'in' filter
+const MAX_IN_FILTER_VALUES = 30;
+
+// Get the transactions paid against any of the given records, keyed by record ID
+const getLinkedTransactionDocs = async (
+  householdId: string,
+  kind: RecurringSeries['kind'],
+  recordIds: string[]
+): Promise<Map<string, QueryDocumentSnapshot[]>> => {
+  const field = linkFields[kind];
+  const linked = new Map<string, QueryDocumentSnapshot[]>();
+  
+  for (let i = 0; i < recordIds.length; i += MAX_IN_FILTER_VALUES) {
+    const snapshot = await getDocs(query(
+      getTransactionsCollection(),
+      where('householdId', '==', householdId),
+      where(field, 'in', recordIds.slice(i, i + MAX_IN_FILTER_VALUES))
+    ));
+    snapshot.forEach((transactionDoc) => {
+      const recordId = transactionDoc.data()[field] as string;
+      linked.set(recordId, [...(linked.get(recordId) || []), transactionDoc]);
+    });
+  }
+  
+  return linked;
+};
+
+// Move an occurrence to another document ID, re-pointing the transactions paid against it
+const getOccurrenceMoveOperations = (
+  kind: RecurringSeries['kind'],
+  fromId: string,
+  toId: string,
+  data: DocumentData,
+  linked: QueryDocumentSnapshot[] = []
+): BatchOperation[] => {
+  const collectionRef = getOccurrenceCollection(kind);
+  return [
+    batch => batch.set(doc(collectionRef, toId), data),
+    batch => batch.delete(doc(collectionRef, fromId)),
+    ...linked.map((transactionDoc): BatchOperation => batch => batch.update(transactionDoc.ref, { [linkFields[kind]]: toId }))
+  ];
+};
+
+// Work out where occurrences go when a series' schedule changes: the occurrences in a month
+// take the new schedule's dates in that month, in order. Keys left without a date map to null.
+const getRescheduledKeys = (rule: RecurrenceRule, keys: string[]): Map<string, string | null> => {
+  const byMonth = new Map<string, string[]>();
+  keys.forEach((key) => {
+    const monthKey = key.slice(0, 7);
+    byMonth.set(monthKey, [...(byMonth.get(monthKey) || []), key]);
+  });
+  
+  const moves = new Map<string, string | null>();
+  for (const [monthKey, monthKeys] of byMonth) {
+    const [year, month] = monthKey.split('-').map(Number);
+    const dates = getOccurrencesInMonth(rule, month, year);
+    [...monthKeys].sort().forEach((key, index) => {
+      moves.set(key, dates[index] ? toDateKey(dates[index]) : null);
+    });
+  }
+  return moves;
+};
+
+// Dates reconciled occurrences would have moved to. They stay on their own date, so these
+// are skipped rather than materialized as a second occurrence in the same month.
+const getLockedMoveKeys = (reconciled: (Income | Expense)[], moves: Map<string, string | null>): string[] => {
+  return reconciled.flatMap((occurrence) => {
+    const newKey = moves.get(occurrence.occurrenceKey || '');
+    return newKey && newKey !== occurrence.occurrenceKey ? [newKey] : [];
+  });
+};
+
+// The date field an occurrence of each kind falls on
+const getOccurrenceDateFields = (kind: RecurringSeries['kind'], occurrenceKey: string) => {
+  const date = Timestamp.fromDate(fromDateKey(occurrenceKey));
+  return kind === 'income' ? { expectedDate: date } : { dueDate: date };
+};
+
+// Get a recurring series by ID, verifying it belongs to the current household
+export const getRecurringSeries = async (id: string): Promise<RecurringSeries | null> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    
+    const docSnap = await getDoc(doc(getRecurringSeriesCollection(), id));
+    if (!docSnap.exists()) {
+      return null;
+    }
+    
+    const series = { ...docSnap.data(), id: docSnap.id } as RecurringSeries;
+    if (series.householdId !== householdId) {
+      throw new Error('Not authorized to access this recurring series');
+    }
+    
+    return series;
+  } catch (error) {
+    console.error('Error getting recurring series:', error);
+    throw error;
+  }
+};
+
+// Create a recurring income series. Occurrences are materialized when a month is loaded;
+// the optional anchor date is a known pay date that sets the phase of the schedule.
+export const createRecurringIncome = async (
+  incomeTemplate: Omit<Income, 'id' | 'householdId' | 'createdAt' | 'month' | 'year'>,
+  anchorDate?: Date
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const startDate = incomeTemplate.startDate ? toDate(incomeTemplate.startDate) : new Date();
+    
+    const series: Omit<RecurringSeries, 'id'> = {
+      householdId,
+      kind: 'income',
+      frequency: incomeTemplate.frequency || 'monthly',
+      ...(anchorDate ? { anchorDate: Timestamp.fromDate(anchorDate) } : {}),
+      startDate: Timestamp.fromDate(startDate),
+      // Without an end date the series keeps going until it is ended or deleted
+      ...(incomeTemplate.endDate ? { endDate: Timestamp.fromDate(toDate(incomeTemplate.endDate)) } : {}),
+      amountHistory: [{ amount: incomeTemplate.amount, effectiveDate: Timestamp.fromDate(startDate) }],
+      ...(incomeTemplate.currency ? { currency: incomeTemplate.currency } : {}),
+      ...(incomeTemplate.accountId ? { accountId: incomeTemplate.accountId } : {}),
+      skippedOccurrences: [],
+      source: incomeTemplate.source,
+      description: incomeTemplate.description || '',
+      createdAt: Timestamp.now()
+    };
+    
+    const docRef = await addDoc(getRecurringSeriesCollection(), series);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error creating recurring income:', error);
+    throw error;
+  }
+};
+
+// Create a recurring expense series. Occurrences are materialized when a month is loaded;
+// the optional anchor date is a known due date that sets the phase of the schedule.
+export const createRecurringExpense = async (
+  expenseTemplate: Omit<Expense, 'id' | 'householdId' | 'createdAt' | 'month' | 'year'>,
+  anchorDate?: Date
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const startDate = expenseTemplate.startDate ? toDate(expenseTemplate.startDate) : new Date();
+    
+    const series: Omit<RecurringSeries, 'id'> = {
+      householdId,
+      kind: 'expense',
+      frequency: expenseTemplate.frequency || 'monthly',
+      ...(anchorDate ? { anchorDate: Timestamp.fromDate(anchorDate) } : {}),
+      startDate: Timestamp.fromDate(startDate),
+      // Without an end date the series keeps going until it is ended or deleted
+      ...(expenseTemplate.endDate ? { endDate: Timestamp.fromDate(toDate(expenseTemplate.endDate)) } : {}),
+      dueDayOfMonth: expenseTemplate.dueDayOfMonth || (anchorDate || startDate).getDate(),
+      amountHistory: [{ amount: expenseTemplate.amount, effectiveDate: Timestamp.fromDate(startDate) }],
+      ...(expenseTemplate.currency ? { currency: expenseTemplate.currency } : {}),
+      ...(expenseTemplate.accountId ? { accountId: expenseTemplate.accountId } : {}),
+      skippedOccurrences: [],
+      category: expenseTemplate.category,
+      ...(expenseTemplate.subcategory ? { subcategory: expenseTemplate.subcategory } : {}),
+      description: expenseTemplate.description || '',
+      createdAt: Timestamp.now()
+    };
+    
+    const docRef = await addDoc(getRecurringSeriesCollection(), series);
+    return docRef.id;
+  } catch (error) {
+    console.error('Error creating recurring expense:', error);
+    throw error;
+  }
+};
+
+// Changes that can be applied to a recurring series
+export interface RecurringSeriesChanges {
+  amount?: number;
+  currency?: string;
+  accountId?: string | null;
+  dueDayOfMonth?: number;
+  description?: string;
+  source?: string;
+  subcategory?: string;
+  isPaid?: boolean;  // Applied to materialized occurrences only
+}
+
+// Which occurrences of a recurring series an edit or delete applies to
+export type SeriesScope = 'single' | 'future' | 'all';
+
+// Update a series and its materialized occurrences. When effectiveDate is given the
+// change only applies to occurrences on or after that date; otherwise it applies to
+// the whole series.
+export const updateRecurringSeries = async (
+  seriesId: string,
+  changes: RecurringSeriesChanges,
+  effectiveDate?: Date
+): Promise<number> => {
+  try {
+    await getEditableHouseholdId();
+    const series = await getRecurringSeries(seriesId);
+    if (!series) {
+      throw new Error('Recurring series not found');
+    }
+    
+    const effectiveKey = effectiveDate ? toDateKey(effectiveDate) : null;
+    const { amount, isPaid, ...fieldChanges } = changes;
+    const seriesUpdate: Partial<RecurringSeries> = { ...fieldChanges, updatedAt: Timestamp.now() };
+    
+    if (amount !== undefined) {
+      if (effectiveDate) {
+        // Keep earlier amounts and start the new one from the effective date
+        const earlier = series.amountHistory.filter(
+          change => daysBetween(toDate(change.effectiveDate), effectiveDate) > 0
+        );
+        seriesUpdate.amountHistory = [...earlier, { amount, effectiveDate: Timestamp.fromDate(effectiveDate) }];
+      } else {
+        seriesUpdate.amountHistory = [{ amount, effectiveDate: series.startDate }];
+      }
+    }
+    
+    const occurrences = await getSeriesOccurrences(series);
+    const inScope = occurrences.filter(
+      occurrence => !effectiveKey || (occurrence.occurrenceKey || '') >= effectiveKey
+    );
+    // Reconciled occurrences are locked to what the statement showed, so they keep their
+    // amount, paid state, date and ID
+    const affected = inScope.filter(occurrence => occurrence.status !== 'reconciled');
+    const reconciled = inScope.filter(occurrence => occurrence.status === 'reconciled' && occurrence.occurrenceKey);
+    
+    // A new due day moves occurrence dates. Occurrences keep their paid state and payments,
+    // and move to their date under the new rule along with their skipped keys. A reconciled
+    // occurrence stays put, and the date it would move to is skipped so it isn't paid twice.
+    const scheduleChanged = changes.dueDayOfMonth !== undefined && changes.dueDayOfMonth !== series.dueDayOfMonth;
+    const skippedAffected = (series.skippedOccurrences || []).filter(key => !effectiveKey || key >= effectiveKey);
+    const moves = scheduleChanged
+      ? getRescheduledKeys(
+        getSeriesRule({ ...series, ...seriesUpdate }),
+        [...inScope.map(occurrence => occurrence.occurrenceKey || ''), ...skippedAffected].filter(key => key)
+      )
+      : new Map<string, string | null>();
+    if (scheduleChanged) {
+      seriesUpdate.skippedOccurrences = [
+        ...(series.skippedOccurrences || []).map(key => moves.get(key) || key),
+        ...getLockedMoveKeys(reconciled, moves)
+      ];
+    }
+    const linked = scheduleChanged
+      ? await getLinkedTransactionDocs(series.householdId, series.kind, affected.map(occurrence => occurrence.id!))
+      : new Map<string, QueryDocumentSnapshot[]>();
+    
+    const operations: BatchOperation[] = [
+      batch => batch.update(doc(getRecurringSeriesCollection(), seriesId), seriesUpdate)
+    ];
+    const summaryChanges: RecordChange[] = [];
+    
+    for (const occurrence of affected) {
+      if (!occurrence.id) continue;
+      const docRef = doc(getOccurrenceCollection(series.kind), occurrence.id);
+      const occurrenceUpdate = {
+        ...fieldChanges,
+        ...(amount !== undefined ? { amount } : {}),
+        ...(isPaid !== undefined ? { isPaid } : {}),
+        updatedAt: Timestamp.now()
+      };
+      const newKey = moves.get(occurrence.occurrenceKey || '');
+      
+      if (newKey && newKey !== occurrence.occurrenceKey) {
+        const { id, ...data } = occurrence;
+        const moved = { ...data, ...occurrenceUpdate, ...getOccurrenceDateFields(series.kind, newKey), occurrenceKey: newKey };
+        operations.push(...getOccurrenceMoveOperations(series.kind, id, getOccurrenceId(seriesId, newKey), moved, linked.get(id)));
+        summaryChanges.push({ kind: series.kind, before: occurrence, after: moved });
+      } else {
+        operations.push(batch => batch.update(docRef, occurrenceUpdate));
+        summaryChanges.push({ kind: series.kind, before: occurrence, after: { ...occurrence, ...occurrenceUpdate } });
+      }
+    }
+    
+    operations.push(...await getSummaryOperations(series.householdId, summaryChanges));
+    await commitInChunks(operations);
+    return affected.length;
+  } catch (error) {
+    console.error('Error updating recurring series:', error);
+    throw error;
+  }
+};
+
+// Split a series at the given date: the original series ends the day before and a new
+// series with the changes applied takes over from that date. Materialized occurrences
+// from that date on move to the new series. Returns the ID of the new series.
+export const splitRecurringSeries = async (
+  seriesId: string,
+  fromDate: Date,
+  changes: RecurringSeriesChanges
+): Promise<string> => {
+  try {
+    await getEditableHouseholdId();
+    const series = await getRecurringSeries(seriesId);
+    if (!series) {
+      throw new Error('Recurring series not found');
+    }
+    
+    const fromKey = toDateKey(fromDate);
+    const { amount, isPaid, ...fieldChanges } = changes;
+    const newSeriesRef = doc(getRecurringSeriesCollection());
+    const newAmount = amount !== undefined ? amount : getSeriesAmount(series, fromDate);
+    
+    const newSeries: RecurringSeries = {
+      ...series,
+      ...fieldChanges,
+      startDate: Timestamp.fromDate(fromDate),
+      amountHistory: [{ amount: newAmount, effectiveDate: Timestamp.fromDate(fromDate) }],
+      skippedOccurrences: (series.skippedOccurrences || []).filter(key => key >= fromKey),
+      createdAt: Timestamp.now()
+    };
+    // The new series starts out of the trash, whatever the original went through
+    delete newSeries.id;
+    delete newSeries.updatedAt;
+    delete newSeries.deletedAt;
+    delete newSeries.deletionId;
+    delete newSeries.endDateBeforeDeletion;
+    
+    const dayBefore = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate() - 1);
+    const operations: BatchOperation[] = [
+      batch => batch.set(newSeriesRef, newSeries),
+      batch => batch.update(doc(getRecurringSeriesCollection(), seriesId), {
+        endDate: Timestamp.fromDate(dayBefore),
+        updatedAt: Timestamp.now()
+      })
+    ];
+    
+    // Occurrences move to the new series with their paid state, and the payments made against
+    // them follow. If the due day changed they also move to their date under the new rule.
+    // Reconciled occurrences stay on the original series under their own ID, and the new
+    // series skips their date.
+    const scheduleChanged = changes.dueDayOfMonth !== undefined && changes.dueDayOfMonth !== series.dueDayOfMonth;
+    const inScope = (await getSeriesOccurrences(series))
+      .filter(occurrence => occurrence.id && occurrence.occurrenceKey && occurrence.occurrenceKey >= fromKey);
+    const occurrences = inScope.filter(occurrence => occurrence.status !== 'reconciled');
+    const reconciled = inScope.filter(occurrence => occurrence.status === 'reconciled');
+    const moves = scheduleChanged
+      ? getRescheduledKeys(getSeriesRule(newSeries), [...inScope.map(occurrence => occurrence.occurrenceKey!), ...newSeries.skippedOccurrences!])
+      : new Map<string, string | null>();
+    newSeries.skippedOccurrences = [
+      ...newSeries.skippedOccurrences!.map(key => moves.get(key) || key),
+      ...reconciled.map(occurrence => moves.get(occurrence.occurrenceKey!) || occurrence.occurrenceKey!)
+    ];
+    const linked = await getLinkedTransactionDocs(series.householdId, series.kind, occurrences.map(occurrence => occurrence.id!));
+    const summaryChanges: RecordChange[] = [];
+    
+    for (const occurrence of occurrences) {
+      const { id, ...data } = occurrence;
+      const occurrenceKey = moves.get(occurrence.occurrenceKey!) || occurrence.occurrenceKey!;
+      const moved: Omit<Income | Expense, 'id'> = {
+        ...data,
+        ...fieldChanges,
+        amount: newAmount,
+        ...(isPaid !== undefined ? { isPaid } : {}),
+        ...(occurrenceKey !== occurrence.occurrenceKey ? getOccurrenceDateFields(series.kind, occurrenceKey) : {}),
+        startDate: newSeries.startDate,
+        seriesId: newSeriesRef.id,
+        occurrenceKey,
+        updatedAt: Timestamp.now()
+      };
+      operations.push(...getOccurrenceMoveOperations(
+        series.kind,
+        id!,
+        getOccurrenceId(newSeriesRef.id, occurrenceKey),
+        moved,
+        linked.get(id!)
+      ));
+      summaryChanges.push({ kind: series.kind, before: occurrence, after: moved });
+    }
+    
+    operations.push(...await getSummaryOperations(series.householdId, summaryChanges));
+    await commitInChunks(operations);
+    return newSeriesRef.id;
+  } catch (error) {
+    console.error('Error splitting recurring series:', error);
+    throw error;
+  }
+};
+
+// Apply an edit made on one occurrence to this and future occurrences (splitting the
+// series) or to the entire series. Single-occurrence edits go through addOrUpdateIncome
+// or addOrUpdateExpense instead.
+export const updateSeriesFromOccurrence = async (
+  occurrence: Income | Expense,
+  scope: Exclude<SeriesScope, 'single'>,
+  changes: RecurringSeriesChanges
+): Promise<void> => {
+  if (!occurrence.seriesId) {
+    throw new Error('This item is not part of a recurring series');
+  }
+  
+  await getEditableHouseholdId();
+  const series = await getRecurringSeries(occurrence.seriesId);
+  if (!series) {
+    throw new Error('Recurring series not found');
+  }
+  
+  const fromDate = occurrence.occurrenceKey ? fromDateKey(occurrence.occurrenceKey) : null;
+  const startsSeries = !fromDate || daysBetween(toDate(series.startDate), fromDate) <= 0;
+  
+  if (scope === 'all' || startsSeries) {
+    await updateRecurringSeries(series.id as string, changes);
+  } else {
+    await splitRecurringSeries(series.id as string, fromDate, changes);
+  }
+};
+
+// How many records an edit or delete would change. An open-ended series also changes
+// every occurrence still to come, which can't be counted.
+export interface SeriesScopeCount {
+  count: number;
+  openEnded: boolean;
+  reconciled: number;  // Reconciled occurrences in the scope, which are left as they are
+}
+
+// Count the records an edit or delete with the given scope would change: materialized
+// occurrences plus those still to be materialized up to the series end date
+export const countSeriesScope = async (occurrence: Income | Expense, scope: SeriesScope): Promise<SeriesScopeCount> => {
+  try {
+    if (scope === 'single' || !occurrence.seriesId) {
+      return { count: 1, openEnded: false, reconciled: 0 };
+    }
+    
+    const series = await getRecurringSeries(occurrence.seriesId);
+    if (!series) {
+      return { count: 1, openEnded: false, reconciled: 0 };
+    }
+    
+    const fromKey = scope === 'future' && occurrence.occurrenceKey ? occurrence.occurrenceKey : '';
+    const keys = new Set<string>();
+    const reconciledKeys = new Set<string>();
+    
+    const occurrences = await getSeriesOccurrences(series);
+    occurrences.forEach(item => {
+      if (item.occurrenceKey && item.occurrenceKey >= fromKey && !isDeleted(item)) {
+        (item.status === 'reconciled' ? reconciledKeys : keys).add(item.occurrenceKey);
+      }
+    });
+    
+    if (series.endDate) {
+      const start = fromKey ? fromDateKey(fromKey) : toDate(series.startDate);
+      
+      getOccurrencesBetween(getSeriesRule(series), start, toDate(series.endDate)).forEach(date => {
+        const key = toDateKey(date);
+        if (!series.skippedOccurrences?.includes(key) && !reconciledKeys.has(key)) {
+          keys.add(key);
+        }
+      });
+    }
+    
+    return { count: keys.size, openEnded: !series.endDate, reconciled: reconciledKeys.size };
+  } catch (error) {
+    console.error('Error counting series occurrences:', error);
+    throw error;
+  }
+};
+
+// Move a recurring series to the trash. When fromDate is given, only occurrences on or after
+// that date are trashed and the series is ended the day before; otherwise the whole series
+// goes. Returns the deletion ID, which restoreDeletion takes to undo it.
+export const deleteRecurringSeries = async (seriesId: string, fromDate?: Date): Promise<string> => {
+  try {
+    const series = await getRecurringSeries(seriesId);
+    if (!series) {
+      throw new Error('Recurring series not found');
+    }
+    
+    const start = toDate(series.startDate);
+    const deleteAll = !fromDate || daysBetween(start, fromDate) <= 0;
+    const fromKey = fromDate ? toDateKey(fromDate) : '';
+    
+    // Occurrences already in the trash stay with the delete that put them there, and reconciled
+    // ones are kept since the statement they were matched to still shows them
+    const occurrences = await getSeriesOccurrences(series);
+    const toDelete = occurrences.filter(
+      occurrence => !isDeleted(occurrence)
+        && occurrence.status !== 'reconciled'
+        && (deleteAll || (occurrence.occurrenceKey || '') >= fromKey)
+    );
+    
+    const deletionId = createDeletionId();
+    const trashFields = getTrashFields(deletionId);
+    const trashed = toDelete.filter(occurrence => occurrence.id);
+    const operations: BatchOperation[] = trashed
+      .map(occurrence => batch => batch.update(
+        doc(getOccurrenceCollection(series.kind), occurrence.id as string),
+        trashFields
+      ));
+    
+    const seriesRef = doc(getRecurringSeriesCollection(), seriesId);
+    if (deleteAll) {
+      operations.push(batch => batch.update(seriesRef, getTrashFields(deletionId)));
+    } else if (fromDate) {
+      const dayBefore = new Date(fromDate.getFullYear(), fromDate.getMonth(), fromDate.getDate() - 1);
+      operations.push(batch => batch.update(seriesRef, {
+        endDate: Timestamp.fromDate(dayBefore),
+        endDateBeforeDeletion: series.endDate || null,
+        deletionId,
+        updatedAt: Timestamp.now()
+      }));
+    }
+    
+    operations.push(...await getSummaryOperations(series.householdId, trashed.map(occurrence => ({
+      kind: series.kind,
+      before: occurrence,
+      after: { ...occurrence, ...trashFields }
+    }))));
+    await commitInChunks(operations);
+    return deletionId;
+  } catch (error) {
+    console.error('Error deleting recurring series:', error);
+    throw error;
+  }
+};
+
+// Move a recurring expense's series to the trash, either entirely or from the given month on.
+// Expenses that aren't part of a series are only ever deleted on their own.
+// Returns the deletion ID, which restoreDeletion takes to undo it.
+export const bulkDeleteRecurringExpenses = async (
+  templateExpense: Expense,
+  deleteAll: boolean = false,
+  fromMonth?: number,
+  fromYear?: number
+): Promise<string> => {
+  try {
+    if (!templateExpense.seriesId) {
+      throw new Error('This expense is not part of a recurring series');
+    }
+    
+    const fromDate = !deleteAll && fromMonth && fromYear
+      ? new Date(fromYear, fromMonth - 1, 1)
+      : undefined;
+    return await deleteRecurringSeries(templateExpense.seriesId, fromDate);
+  } catch (error) {
+    console.error('Error bulk deleting recurring expenses:', error);
+    throw error;
+  }
+};
+
+// ========================
+// FORECAST OPERATIONS
+// ========================
+
+// Full months of past transactions the average variable spend is taken from
+const VARIABLE_SPEND_MONTHS = 3;
+
+// What a cash-flow forecast is projected from, in integer cents of the base currency
+export interface ForecastInputs {
+  currency: string;
+  startingBalance: number;     // Current balance of the checking, savings and cash accounts
+  items: ForecastItem[];       // Recurring income and expense series
+  variableSpend: VariableSpend[];
+  unconvertedItems: string[];  // Series left out because there is no rate to the base currency
+}
+
+const getSeriesLabel = (series: RecurringSeries): string => {
+  return series.kind === 'income'
+    ? series.source || series.description || 'Income'
+    : series.description || series.subcategory || 'Expense';
+};
+
+// Load the recurring series, account balances and recent spending a forecast is built from.
+// Spending paid against a planned expense is left out of the variable spend, since planned
+// expenses are either scheduled already or one-offs.
+export const getForecastInputs = async (): Promise<ForecastInputs> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const today = new Date();
+    const spendStart = new Date(today.getFullYear(), today.getMonth() - VARIABLE_SPEND_MONTHS, 1);
+    const spendEnd = new Date(today.getFullYear(), today.getMonth(), 0);
+    
+    const [incomeSeries, expenseSeries, balances, transactions, converter] = await Promise.all([
+      getUserSeries(householdId, 'income'),
+      getUserSeries(householdId, 'expense'),
+      getAccountBalances(),
+      getUserTransactions({ startDate: spendStart, endDate: spendEnd, type: 'expense' }),
+      getCurrencyConverter()
+    ]);
+    
+    const items: ForecastItem[] = [];
+    const unconvertedItems: string[] = [];
+    for (const series of [...incomeSeries, ...expenseSeries]) {
+      const currency = getRecordCurrency(series);
+      if (!converter.canConvert(currency)) {
+        unconvertedItems.push(getSeriesLabel(series));
+        continue;
+      }
+      
+      items.push({
+        id: series.id!,
+        label: getSeriesLabel(series),
+        kind: series.kind,
+        rule: getSeriesRule(series),
+        amountOn: date => converter.toBase(money(getSeriesAmount(series, date), currency), date).cents,
+        skippedDates: series.skippedOccurrences
+      });
+    }
+    
+    // Average over the months with transactions, so a household that started recently isn't
+    // averaged over months it has no records for
+    const unplanned = transactions.filter(transaction => !transaction.expenseId && converter.canConvert(getRecordCurrency(transaction)));
+    const categoryTotals = new Map<string, number>();
+    let firstDate = spendEnd;
+    for (const transaction of unplanned) {
+      const date = toDate(transaction.date);
+      const category = transaction.category || 'Uncategorized';
+      const amount = converter.toBase(money(transaction.amount, getRecordCurrency(transaction)), date).cents;
+      categoryTotals.set(category, (categoryTotals.get(category) || 0) + amount);
+      if (date < firstDate) firstDate = date;
+    }
+    
+    const spendDays = daysBetween(new Date(firstDate.getFullYear(), firstDate.getMonth(), 1), spendEnd) + 1;
+    const variableSpend = Array.from(categoryTotals, ([category, total]) => ({ category, dailyAmount: total / spendDays }))
+      .filter(spend => spend.dailyAmount > 0);
+    
+    const startingBalance = balances
+      .filter(({ account, baseBalance }) => !isLiabilityAccount(account.type) && baseBalance !== null)
+      .reduce((sum, { baseBalance }) => sum + baseBalance!, 0);
+    
+    return {
+      currency: converter.baseCurrency,
+      startingBalance,
+      items,
+      variableSpend,
+      unconvertedItems
+    };
+  } catch (error) {
+    console.error('Error getting forecast inputs:', error);
+    throw error;
+  }
+};
+
+// ========================
+// TRASH OPERATIONS
+// ========================
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+// Collections whose records are moved to the trash instead of being deleted straight away
+const getTrashCollections = () => [
+  getIncomeCollection(),
+  getExpensesCollection(),
+  getTransactionsCollection(),
+  getRecurringSeriesCollection()
+];
+
+// Check whether a record is in the trash
+const isDeleted = (data: { deletedAt?: unknown }): boolean => {
+  return !!data.deletedAt;
+};
+
+// Every record trashed by one delete shares its ID, so the delete is undone as a whole
+const createDeletionId = (): string => {
+  return crypto.randomUUID();
+};
+
+// The kind of record kept in each trash collection that counts towards monthly summaries
+const summaryRecordKinds: Record<string, RecordChange['kind']> = {
+  income: 'income',
+  expenses: 'expense',
+  transactions: 'transaction'
+};
+
+const getTrashFields = (deletionId: string) => ({
+  deletedAt: Timestamp.now(),
+  deletionId
+});
+
+const getTrashRetentionDays = async (householdId: string): Promise<number> => {
+  const settingsSnap = await getDoc(doc(getUserSettingsCollection(), householdId));
+  const settings = settingsSnap.exists() ? settingsSnap.data() as UserSettings : {};
+  return settings.trashRetentionDays || DEFAULT_TRASH_RETENTION_DAYS;
+};
+
+// The household's records touched by deletes, grouped by deletion ID. Besides trashed records this
+// includes series that were only ended early, which a restore extends again.
+const getDeletionGroups = async (householdId: string): Promise<Map<string, QueryDocumentSnapshot[]>> => {
+  const snapshots = await Promise.all(
+    getTrashCollections().map(collectionRef => getDocs(query(collectionRef, where('householdId', '==', householdId))))
+  );
+
+  const groups = new Map<string, QueryDocumentSnapshot[]>();
+  snapshots.forEach(snapshot => snapshot.forEach(docSnap => {
+    const { deletionId } = docSnap.data();
+    if (!deletionId) return;
+    groups.set(deletionId, [...(groups.get(deletionId) || []), docSnap]);
+  }));
+  return groups;
+};
+
+// The records touched by a single delete
+const getDeletionDocs = async (householdId: string, deletionId: string): Promise<QueryDocumentSnapshot[]> => {
+  const snapshots = await Promise.all(getTrashCollections().map(collectionRef => getDocs(query(
+    collectionRef,
+    where('householdId', '==', householdId),
+    where('deletionId', '==', deletionId)
+  ))));
+  return snapshots.flatMap(snapshot => snapshot.docs);
+};
+
+// When a delete happened. A delete that only ended a series early has no trashed records,
+// so the series' last update is used instead.
+const getDeletionDate = (docs: QueryDocumentSnapshot[]): Date => {
+  const dates = docs.map(docSnap => {
+    const data = docSnap.data();
+    return toDate(data.deletedAt || data.updatedAt || data.createdAt);
+  });
+  return new Date(Math.max(...dates.map(date => date.getTime())));
+};
+
+// Describe a trashed record for the trash list
+const toTrashItem = (docSnap: QueryDocumentSnapshot): TrashItem => {
+  const data = docSnap.data();
+
+  switch (docSnap.ref.parent.id) {
+    case 'income': {
+      const income = data as Income;
+      return { id: docSnap.id, kind: 'income', description: income.source || income.description || 'Income', amount: income.amount, currency: income.currency, date: getIncomeDate(income) };
+    }
+    case 'expenses': {
+      const expense = data as Expense;
+      return { id: docSnap.id, kind: 'expense', description: expense.description || expense.subcategory || 'Expense', amount: expense.amount, currency: expense.currency, date: getExpenseDate(expense) };
+    }
+    case 'transactions': {
+      const transaction = data as Transaction;
+      return { id: docSnap.id, kind: 'transaction', description: transaction.description, amount: transaction.amount, currency: transaction.currency, date: toDate(transaction.date) };
+    }
+    default: {
+      const series = data as RecurringSeries;
+      const amount = series.amountHistory.length > 0 ? series.amountHistory[series.amountHistory.length - 1].amount : 0;
+      return {
+        id: docSnap.id,
+        kind: 'series',
+        description: series.description || series.source || series.subcategory || 'Recurring series',
+        amount,
+        currency: series.currency,
+        date: toDate(series.startDate)
+      };
+    }
+  }
+};
+
+// Batch operations that permanently delete the records trashed by a delete. Series that were
+// only ended early keep their new end date and lose the way back.
+const getPurgeOperations = (docs: QueryDocumentSnapshot[]): BatchOperation[] => {
+  return docs.map(docSnap => isDeleted(docSnap.data())
+    ? (batch: WriteBatch) => batch.delete(docSnap.ref)
+    : (batch: WriteBatch) => batch.update(docSnap.ref, {
+      deletionId: deleteField(),
+      endDateBeforeDeletion: deleteField()
+    })
+  );
+};
+
+// Permanently delete everything that has been in the trash longer than the retention period,
+// returning the deletes that remain. Viewers just don't see expired deletes.
+const purgeExpiredDeletions = async (householdId: string): Promise<{ groups: Map<string, QueryDocumentSnapshot[]>; retentionDays: number }> => {
+  const [groups, retentionDays] = await Promise.all([getDeletionGroups(householdId), getTrashRetentionDays(householdId)]);
+  const today = new Date();
+  const operations: BatchOperation[] = [];
+
+  groups.forEach((docs, deletionId) => {
+    if (daysBetween(getDeletionDate(docs), today) >= retentionDays) {
+      operations.push(...getPurgeOperations(docs));
+      groups.delete(deletionId);
+    }
+  });
+
+  if (operations.length > 0 && await canWriteToHousehold(householdId)) {
+    await commitInChunks(operations);
+  }
+  return { groups, retentionDays };
+};
+
+// Get the trash, most recent delete first. Expired deletes are purged on the way.
+export const getTrash = async (): Promise<TrashEntry[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    const { groups, retentionDays } = await purgeExpiredDeletions(householdId);
+    const entries: TrashEntry[] = [];
+
+    groups.forEach((docs, deletionId) => {
+      const items = docs.filter(docSnap => isDeleted(docSnap.data())).map(toTrashItem);
+      if (items.length === 0) return;
+
+      const deletedAt = getDeletionDate(docs);
+      entries.push({
+        deletionId,
+        deletedAt,
+        purgeAt: new Date(deletedAt.getFullYear(), deletedAt.getMonth(), deletedAt.getDate() + retentionDays),
+        items
+      });
+    });
+
+    return entries.sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime());
+  } catch (error) {
+    console.error('Error getting trash:', error);
+    throw error;
+  }
+};
+
+// Permanently delete everything that has been in the trash longer than the retention period
+export const purgeExpiredTrash = async (): Promise<void> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    await purgeExpiredDeletions(householdId);
+  } catch (error) {
+    console.error('Error purging expired trash:', error);
+    throw error;
+  }
+};
+
+// Undo a delete, bringing back everything it trashed. Returns the number of records restored.
+export const restoreDeletion = async (deletionId: string): Promise<number> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    
+    // A delete that hasn't synced yet is undone by taking it out of the queue
+    const queuedDelete = (await getQueuedWrites(getSignedInUser().uid))
+      .find(write => write.action === 'delete' && write.deletionId === deletionId);
+    if (queuedDelete) {
+      await removeQueuedWrite(queuedDelete.id!);
+      return 1;
+    }
+    
+    const docs = await getDeletionDocs(householdId, deletionId);
+    if (docs.length === 0) {
+      throw new Error('These items are no longer in the trash');
+    }
+
+    const operations: BatchOperation[] = [];
+    const summaryChanges: RecordChange[] = [];
+    const skippedBySeries = new Map<string, string[]>();
+    const affectedExpenses = new Set<string>();
+    let restored = 0;
+
+    docs.forEach(docSnap => {
+      const data = docSnap.data();
+
+      if (!isDeleted(data)) {
+        // A series that was ended early gets its old end date back
+        operations.push(batch => batch.update(docSnap.ref, {
+          endDate: data.endDateBeforeDeletion || deleteField(),
+          endDateBeforeDeletion: deleteField(),
+          deletionId: deleteField(),
+          updatedAt: Timestamp.now()
+        }));
+        return;
+      }
+
+      operations.push(batch => batch.update(docSnap.ref, {
+        deletedAt: deleteField(),
+        deletionId: deleteField()
+      }));
+      restored += 1;
+
+      // Restored records count towards their month's summary again
+      const kind = summaryRecordKinds[docSnap.ref.parent.id];
+      if (kind) {
+        const restoredData = { ...data };
+        delete restoredData.deletedAt;
+        delete restoredData.deletionId;
+        summaryChanges.push({ kind, before: data, after: restoredData });
+      }
+
+      if (data.seriesId && data.occurrenceKey) {
+        skippedBySeries.set(data.seriesId, [...(skippedBySeries.get(data.seriesId) || []), data.occurrenceKey]);
+      }
+      if (docSnap.ref.parent.id === 'transactions' && data.expenseId) {
+        affectedExpenses.add(data.expenseId);
+      }
+    });
+
+    // Occurrences deleted on their own were skipped by their series; let the series have them
+    // back, unless the series itself has since been removed
+    for (const [seriesId, keys] of skippedBySeries) {
+      const seriesRef = doc(getRecurringSeriesCollection(), seriesId);
+      if ((await getDoc(seriesRef)).exists()) {
+        operations.push(batch => batch.update(seriesRef, { skippedOccurrences: arrayRemove(...keys) }));
+      }
+    }
+
+    operations.push(...await getSummaryOperations(householdId, summaryChanges));
+    await commitInChunks(operations);
+
+    for (const expenseId of affectedExpenses) {
+      await syncExpenseActuals(householdId, expenseId);
+    }
+
+    return restored;
+  } catch (error) {
+    console.error('Error restoring deleted items:', error);
+    throw error;
+  }
+};
+
+// Permanently delete everything a delete moved to the trash
+export const purgeDeletion = async (deletionId: string): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const docs = await getDeletionDocs(householdId, deletionId);
+    await commitInChunks(getPurgeOperations(docs));
+  } catch (error) {
+    console.error('Error purging deleted items:', error);
+    throw error;
+  }
+};
+
+// Permanently delete everything in the trash
+export const emptyTrash = async (): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const groups = await getDeletionGroups(householdId);
+    await commitInChunks(Array.from(groups.values()).flatMap(getPurgeOperations));
+  } catch (error) {
+    console.error('Error emptying trash:', error);
+    throw error;
+  }
+};
+
+// Get how many days deleted records stay in the trash
+export const getTrashRetention = async (): Promise<number> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+    return await getTrashRetentionDays(householdId);
+  } catch (error) {
+    console.error('Error getting trash retention:', error);
+    throw error;
+  }
+};
+
+// Set how many days deleted records stay in the trash before they are purged
+export const updateTrashRetention = async (days: number): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+
+    if (!Number.isInteger(days) || days < 1) {
+      throw new Error('Keep deleted items for at least one day');
+    }
+
+    await setDoc(doc(getUserSettingsCollection(), householdId), {
+      trashRetentionDays: days,
+      updatedAt: Timestamp.now()
+    }, { merge: true });
+  } catch (error) {
+    console.error('Error updating trash retention:', error);
+    throw error;
+  }
+};
+
+// ========================
+// CATEGORY OPERATIONS
+// ========================
+
+// Whether a stored name refers to a category
+const matchesCategory = (name: string | undefined | null, category: Category): boolean => {
+  return !!name && normalizeCategoryName(name) === category.normalizedName;
+};
+
+// Seed a new household's tree with the defaults plus any subcategories already used on expenses.
+// Deterministic IDs keep concurrent first loads from seeding twice.
+const seedDefaultCategories = async (householdId: string): Promise<void> => {
+  const seeds = defaultCategories.map(category => ({ ...category }));
+  const seen = new Set(seeds.map(category => `${category.kind}:${normalizeCategoryName(category.name)}`));
+
+  const expenseSnapshot = await getDocs(query(getExpensesCollection(), where('householdId', '==', householdId)));
+  expenseSnapshot.forEach((doc) => {
+    const subcategory = (doc.data() as Expense).subcategory;
+    if (!subcategory || !cleanCategoryName(subcategory)) return;
+
+    const key = `expense:${normalizeCategoryName(subcategory)}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    seeds.push({ name: cleanCategoryName(subcategory), kind: 'expense', color: '#90a4ae', icon: 'other' });
+  });
+
+  const operations: BatchOperation[] = seeds.map(seed => batch => {
+    const normalizedName = normalizeCategoryName(seed.name);
+    const categoryRef = doc(getCategoriesCollection(), `${householdId}_${seed.kind}_${normalizedName.replace(/[^a-z0-9]+/g, '-')}`);
+    batch.set(categoryRef, {
+      ...seed,
+      normalizedName,
+      parentId: null,
+      archived: false,
+      householdId,
+      createdAt: Timestamp.now()
+    });
+  });
+
+  await commitInChunks(operations);
+};
+
+// Get the current household's categories, seeding the defaults on first use
+export const getCategories = async (includeArchived: boolean = false): Promise<Category[]> => {
+  try {
+    const householdId = getCurrentHouseholdId();
+
+    const q = query(getCategoriesCollection(), where('householdId', '==', householdId));
+    let querySnapshot = await getDocs(q);
+
+    if (querySnapshot.empty && await canWriteToHousehold(householdId)) {
+      await seedDefaultCategories(householdId);
+      querySnapshot = await getDocs(q);
+    }
+
+    const categories: Category[] = [];
+    querySnapshot.forEach((doc) => {
+      const category = { ...doc.data(), id: doc.id } as Category;
+      if (includeArchived || !category.archived) {
+        categories.push(category);
+      }
+    });
+
+    return categories.sort((a, b) => a.name.localeCompare(b.name));
+  } catch (error) {
+    console.error('Error getting categories:', error);
+    throw error;
+  }
+};
+
+// Get a category the current household owns
+const getOwnedCategory = async (id: string, householdId: string): Promise<Category> => {
+  const docSnap = await getDoc(doc(getCategoriesCollection(), id));
+  if (!docSnap.exists()) {
+    throw new Error('Category not found');
+  }
+
+  const category = { ...docSnap.data(), id: docSnap.id } as Category;
+  if (category.householdId !== householdId) {
+    throw new Error('Not authorized to modify this category');
+  }
+
+  return category;
+};
+
+// Names are unique within a kind so that records can reference categories by name
+const assertCategoryNameAvailable = (categories: Category[], kind: CategoryKind, name: string, exceptId?: string) => {
+  const normalizedName = normalizeCategoryName(name);
+  const existing = categories.find(category =>
+    category.kind === kind && category.normalizedName === normalizedName && category.id !== exceptId
+  );
+  if (existing) {
+    throw new Error(`A category named "${existing.name}" already exists`);
+  }
+};
+
+// Add a category or subcategory
+export const addCategory = async (
+  category: Pick<Category, 'name' | 'kind' | 'color'> & { parentId?: string | null; icon?: string }
+): Promise<string> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    const name = cleanCategoryName(category.name);
+    if (!name) {
+      throw new Error('Category name is required');
+    }
+
+    const categories = await getCategories(true);
+    assertCategoryNameAvailable(categories, category.kind, name);
+
+    if (category.parentId) {
+      const parent = categories.find(item => item.id === category.parentId);
+      if (!parent || parent.kind !== category.kind) {
+        throw new Error('Parent category not found');
+      }
+      if (parent.parentId) {
+        throw new Error('Subcategories cannot have their own subcategories');
+      }
+    }
+
+    const docRef = await addDoc(getCategoriesCollection(), {
+      name,
+      normalizedName: normalizeCategoryName(name),
+      kind: category.kind,
+      parentId: category.parentId || null,
+      color: category.color,
+      ...(category.icon ? { icon: category.icon } : {}),
+      archived: false,
+      householdId,
+      createdAt: Timestamp.now()
+    });
+    return docRef.id;
+  } catch (error) {
+    console.error('Error adding category:', error);
+    throw error;
+  }
+};
+
+// Update a category's appearance or archive it
+export const updateCategory = async (
+  id: string,
+  changes: Partial<Pick<Category, 'color' | 'icon' | 'archived'>>
+): Promise<void> => {
+  try {
+    const householdId = await getEditableHouseholdId();
+    await getOwnedCategory(id, householdId);
+
+    await updateDoc(doc(getCategoriesCollection(), id), {
+      ...changes,
+      updatedAt: Timestamp.now()
+    });
+  } catch (error) {
+    console.error('Error updating category:', error);
+    throw error;
+  }
+};
+
+// Batch updates that point every record referencing a category at a replacement name.
+// Matching is case-insensitive, so "netflix" and "Netflix" records are both rewritten.
+// When a subcategory moves to another parent, `parentName` refiles its transactions too.
+const getCategoryReferenceUpdates = async (
+  householdId: string,
+  category: Category,
+  replacement: { name: string; parentName?: string }
+): Promise<BatchOperation[]> => {
+  const operations: BatchOperation[] = [];
+  const isSubcategory = !!category.parentId;
+
+  const transactionSnapshot = await getDocs(query(getTransactionsCollection(), where('householdId', '==', householdId)));
+  transactionSnapshot.forEach((transactionDoc) => {
+    const data = transactionDoc.data();
+    if (getTransactionKind(data) !== category.kind) return;
+
+    if (!isSubcategory && matchesCategory(data.category, category)) {
+      operations.push(batch => batch.update(transactionDoc.ref, { category: replacement.name }));
+    } else if (isSubcategory && matchesCategory(data.subcategory, category)) {
+      operations.push(batch => batch.update(transactionDoc.ref, {
+        subcategory: replacement.name,
+        ...(replacement.parentName ? { category: replacement.parentName } : {})
+      }));
+    }
+  });
+
+  // Expenses, recurring series and envelopes only use expense categories
+  if (category.kind !== 'expense') {
+    return operations;
+  }
+
+  const [expenseSnapshot, seriesSnapshot, envelopeSnapshot] = await Promise.all([
+    getDocs(query(getExpensesCollection(), where('householdId', '==', householdId))),
+    getDocs(query(getRecurringSeriesCollection(), where('householdId', '==', householdId), where('kind', '==', 'expense'))),
+    getDocs(query(getBudgetEnvelopesCollection(), where('householdId', '==', householdId)))
+  ]);
+
+  [...expenseSnapshot.docs, ...seriesSnapshot.docs].forEach((recordDoc) => {
+    if (matchesCategory(recordDoc.data().subcategory, category)) {
+      operations.push(batch => batch.update(recordDoc.ref, { subcategory: replacement.name }));
+    }
+  });
+
+  envelopeSnapshot.forEach((envelopeDoc) => {
+    const data = envelopeDoc.data();
+    if (!isSubcategory && matchesCategory(data.category, category)) {
+      operations.push(batch => batch.update(envelopeDoc.ref, { category: replacement.name }));
+    } else if (isSubcategory && matchesCategory(data.subcategory, category)) {
+      operations.push(batch => batch.update(envelopeDoc.ref, {
+        subcategory: replacement.name,
+        ...(replacement.parentName ? { category: replacement.parentName } : {})
+      }));
+    }
+  });
+
+  return operations;
+};
+
+// Rename a category and rewrite every record that references it
+export const renameCategory = async (id: string, newName: string): Promise<void> => {
   try {
-    const userId = getCurrentUserId();
-    
-    try {
-      // Build query based on whether category is provided
-      let q;
-      if (category) {
-        q = query(
-          getTransactionsCollection(), 
-          where('userId', '==', userId),
-          where('year', '==', year),
-          where('month', '==', month),
-          where('category', '==', category),
-          orderBy('date', 'desc')
-        );
-      } else {
-        q = query(
-          getTransactionsCollection(), 
-          where('userId', '==', userId),
-          where('year', '==', year),
-          where('month', '==', month),
-          orderBy('date', 'desc')
-        );
-      }
-      
-      const querySnapshot = await getDocs(q);
-      const transactions: Transaction[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        transactions.push({ ...doc.data(), id: doc.id } as Transaction);
-      });
-      
-      return transactions;
-    } catch (indexError) {
-      console.warn("Index error for transactions query, using fallback:", indexError);
-      
-      // Fallback to simpler query
-      const baseQuery = query(
-        getTransactionsCollection(),
-        where('userId', '==', userId)
-      );
-      
-      const querySnapshot = await getDocs(baseQuery);
-      const transactions: Transaction[] = [];
-      
-      querySnapshot.forEach((doc) => {
-        const data = doc.data() as Transaction;
-        if (data.year === year && data.month === month && (!category || data.category === category)) {
-          transactions.push({ ...data, id: doc.id } as Transaction);
-        }
-      });
-      
-      // Sort in memory
-      return transactions.sort((a, b) => {
-        const dateA = a.date instanceof Date ? a.date : (a.date as Timestamp).toDate();
-        const dateB = b.date instanceof Date ? b.date : (b.date as Timestamp).toDate();
-        return dateB.getTime() - dateA.getTime();
-      });
+    const householdId = await getEditableHouseholdId();
+    const category = await getOwnedCategory(id, householdId);
+    const name = cleanCategoryName(newName);
+    if (!name) {
+      throw new Error('Category name is required');
     }
+
+    const categories = await getCategories(true);
+    assertCategoryNameAvailable(categories, category.kind, name, id);
+
+    const operations = await getCategoryReferenceUpdates(householdId, category, { name });
+    operations.push(batch => batch.update(doc(getCategoriesCollection(), id), {
+      name,
+      normalizedName: normalizeCategoryName(name),
+      updatedAt: Timestamp.now()
+    }));
+
+    await commitInChunks(operations);
   } catch (error) {
-    console.error('Error getting monthly transactions:', error);
+    console.error('Error renaming category:', error);
     throw error;
   }
 };
 
-// Delete transaction
-export const deleteTransaction = async (id: string): Promise<void> => {
+// Merge one category into another: records are rewritten to the target, the source's
+// subcategories move under the target, and the source is deleted
+export const mergeCategories = async (sourceId: string, targetId: string): Promise<void> => {
   try {
-    const userId = getCurrentUserId();
-    
-    const docRef = doc(db, 'transactions', id);
-    
-    // Verify ownership before deleting
-    const docSnap = await getDoc(docRef);
-    if (!docSnap.exists()) {
-      throw new Error('Transaction not found');
+    const householdId = await getEditableHouseholdId();
+    if (sourceId === targetId) {
+      throw new Error('Cannot merge a category into itself');
     }
-    
-    const transaction = docSnap.data();
-    if (transaction.userId !== userId) {
-      throw new Error('Not authorized to delete this transaction');
+
+    const [source, target] = await Promise.all([
+      getOwnedCategory(sourceId, householdId),
+      getOwnedCategory(targetId, householdId)
+    ]);
+
+    if (source.kind !== target.kind) {
+      throw new Error('Cannot merge income and expense categories');
     }
-    
-    await deleteDoc(docRef);
+    if (!!source.parentId !== !!target.parentId) {
+      throw new Error('Categories can only be merged with others at the same level');
+    }
+
+    let parentName: string | undefined;
+    if (target.parentId && target.parentId !== source.parentId) {
+      parentName = (await getOwnedCategory(target.parentId, householdId)).name;
+    }
+
+    const operations = await getCategoryReferenceUpdates(householdId, source, { name: target.name, parentName });
+
+    if (!source.parentId) {
+      const childSnapshot = await getDocs(query(
+        getCategoriesCollection(),
+        where('householdId', '==', householdId),
+        where('parentId', '==', sourceId)
+      ));
+      childSnapshot.forEach((childDoc) => {
+        operations.push(batch => batch.update(childDoc.ref, { parentId: targetId, updatedAt: Timestamp.now() }));
+      });
+    }
+
+    operations.push(batch => batch.delete(doc(getCategoriesCollection(), sourceId)));
+
+    await commitInChunks(operations);
   } catch (error) {
-    console.error('Error deleting transaction:', error);
+    console.error('Error merging categories:', error);
     throw error;
   }
 };
 
 // ========================
-// MONTHLY SUMMARY OPERATIONS
+// ACCOUNT OPERATIONS
 // ========================
 
-// Calculate and save the monthly summary
-export const calculateAndSaveMonthSummary = async (month: number, year: number): Promise<MonthlySummary> => {
+// Households the signed-in user owns that others still belong to. Ownership of each has to be
+// handed over before the account can be deleted.
+export const getHouseholdsToHandOver = async (): Promise<Household[]> => {
   try {
-    const userId = getCurrentUserId();
-    
-    // Get all income for the month
-    const incomeItems = await getMonthlyIncome(month, year);
-    const totalIncome = incomeItems.reduce((sum, item) => sum + item.amount, 0);
-    
-    // Get fixed expenses
-    const fixedExpenses = await getMonthlyExpensesByCategory(month, year, 'fixed');
-    const totalFixedExpenses = fixedExpenses.reduce((sum, item) => sum + item.amount, 0);
-    
-    // Get paid fixed expenses
-    const paidFixedExpenses = fixedExpenses
-      .filter(expense => expense.isPaid)
-      .reduce((sum, item) => sum + item.amount, 0);
-    
-    // Get variable expenses
-    const variableExpenses = await getMonthlyExpensesByCategory(month, year, 'variable');
-    const totalVariableExpenses = variableExpenses.reduce((sum, item) => sum + item.amount, 0);
-    
-    // Get paid variable expenses
-    const paidVariableExpenses = variableExpenses
-      .filter(expense => expense.isPaid)
-      .reduce((sum, item) => sum + item.amount, 0);
-    
-    // Get subscriptions
-    const subscriptions = await getMonthlyExpensesByCategory(month, year, 'subscription');
-    const totalSubscriptions = subscriptions.reduce((sum, item) => sum + item.amount, 0);
-    
-    // Get paid subscriptions
-    const paidSubscriptions = subscriptions
-      .filter(expense => expense.isPaid)
-      .reduce((sum, item) => sum + item.amount, 0);
-    
-    // Calculate balance
-    const balance = totalIncome - totalFixedExpenses - totalVariableExpenses - totalSubscriptions;
-    
-    // Create the summary object
-    const summary: Omit<MonthlySummary, 'id'> = {
-      userId,
-      month,
-      year,
-      totalIncome,
-      totalFixedExpenses,
-      totalVariableExpenses,
-      totalSubscriptions,
-      paidFixedExpenses,
-      paidVariableExpenses,
-      paidSubscriptions,
-      balance,
-      createdAt: Timestamp.now()
-    };
-    
-    // Find existing summary document or create new one
-    const summaryQuery = query(
-      getMonthlySummaryCollection(),
-      where('userId', '==', userId),
-      where('month', '==', month),
-      where('year', '==', year),
-      limit(1)
-    );
-    
-    const summarySnap = await getDocs(summaryQuery);
-    let summaryId: string;
-    
-    if (!summarySnap.empty) {
-      // Update existing summary
-      summaryId = summarySnap.docs[0].id;
-      await updateDoc(doc(getMonthlySummaryCollection(), summaryId), summary);
-    } else {
-      // Create new summary
-      const docRef = await addDoc(getMonthlySummaryCollection(), summary);
-      summaryId = docRef.id;
-    }
-    
-    return { ...summary, id: summaryId } as MonthlySummary;
+    const user = getSignedInUser();
+    const households = await getMyHouseholds();
+    return households.filter(household => household.ownerId === user.uid && household.memberIds.length > 1);
   } catch (error) {
-    console.error('Error calculating monthly summary:', error);
+    console.error('Error getting households to hand over:', error);
     throw error;
   }
 };
 
-// Get monthly summary
-export const getMonthlySummary = async (month: number, year: number): Promise<MonthlySummary | null> => {
+// Permanently delete everything the signed-in user owns, ahead of deleting their account.
+// Households only they belong to are purged along with all of their records; they leave the
+// rest. Fails while they still own a household others belong to.
+export const deleteAccountData = async (): Promise<void> => {
   try {
-    const userId = getCurrentUserId();
-    
-    const q = query(
-      getMonthlySummaryCollection(),
-      where('userId', '==', userId),
-      where('month', '==', month),
-      where('year', '==', year),
-      limit(1)
-    );
+    const user = getSignedInUser();
+    const households = await getMyHouseholds();
     
-    const querySnapshot = await getDocs(q);
+    if (households.some(household => household.ownerId === user.uid && household.memberIds.length > 1)) {
+      throw new Error('Hand over the households you share before deleting your account');
+    }
     
-    if (!querySnapshot.empty) {
-      const doc = querySnapshot.docs[0];
-      return { ...doc.data(), id: doc.id } as MonthlySummary;
+    for (const household of households) {
+      if (household.ownerId !== user.uid) {
+        await leaveHousehold(household.id!);
+        continue;
+      }
+      
+      const operations: BatchOperation[] = [
+        batch => batch.delete(doc(getUserSettingsCollection(), household.id))
+      ];
+      for (const collectionName of backupCollections) {
+        if (collectionName === 'userSettings') continue;
+        
+        const snapshot = await getDocs(query(collection(db, collectionName), where('householdId', '==', household.id)));
+        snapshot.forEach(docSnap => operations.push(batch => batch.delete(docSnap.ref)));
+      }
+      
+      const invitesSnapshot = await getDocs(query(getHouseholdInvitesCollection(), where('householdId', '==', household.id)));
+      invitesSnapshot.forEach(docSnap => operations.push(batch => batch.delete(docSnap.ref)));
+      
+      await commitInChunks(operations);
+      
+      // The household goes last, since the security rules check every delete above against it
+      await deleteDoc(doc(getHouseholdsCollection(), household.id));
     }
     
-    // If no summary exists, calculate and save it
-    return await calculateAndSaveMonthSummary(month, year);
+    localStorage.removeItem(getActiveHouseholdKey(user.uid));
   } catch (error) {
-    console.error('Error getting monthly summary:', error);
+    console.error('Error deleting account data:', error);
     throw error;
   }
 };
 
 // ========================
-// HELPER FUNCTIONS FOR RECURRING ITEMS
+// DATA MIGRATIONS
 // ========================
 
-// Create recurring income entries for specified period
-export const createRecurringIncome = async (
-  incomeTemplate: Omit<Income, 'id' | 'userId' | 'createdAt' | 'month' | 'year'>,
-  startMonth: number,
-  startYear: number,
-  endMonth?: number,
-  endYear?: number
-): Promise<string[]> => {
-  try {
-    const userId = getCurrentUserId();
-    const batch = writeBatch(db);
-    const createdIds: string[] = [];
-    
-    // Default end date to end of current year if not specified
-    if (!endMonth || !endYear) {
-      endMonth = 12;
-      endYear = startYear;
-    }
-    
-    // Calculate total months to create
-    const totalMonths = (endYear - startYear) * 12 + (endMonth - startMonth + 1);
-    
-    // Determine frequency
-    let frequencyMonths = 1; // Default monthly
-    if (incomeTemplate.frequency === 'weekly') frequencyMonths = 0.25;
-    else if (incomeTemplate.frequency === 'biweekly') frequencyMonths = 0.5;
-    
-    // Starting point
-    let currentMonth = startMonth;
-    let currentYear = startYear;
+// Convert a stored float dollar amount to integer cents
+const toCents = (value: unknown) => typeof value === 'number' ? fromMajorUnits(value).cents : value;
+
+// Amount fields to convert in each collection
+const centsMigrations: Record<string, (data: DocumentData) => DocumentData> = {
+  income: data => ({ amount: toCents(data.amount) }),
+  expenses: data => ({
+    amount: toCents(data.amount),
+    ...(data.actualAmount !== undefined ? { actualAmount: toCents(data.actualAmount) } : {})
+  }),
+  transactions: data => ({ amount: toCents(data.amount) }),
+  recurringSeries: data => ({
+    amountHistory: (data.amountHistory || []).map((change: DocumentData) => ({ ...change, amount: toCents(change.amount) }))
+  }),
+  budgetEnvelopes: data => ({ monthlyAllocation: toCents(data.monthlyAllocation) }),
+  monthlySummaries: data => ({
+    ...Object.fromEntries(
+      ['totalIncome', 'totalFixedExpenses', 'totalVariableExpenses', 'totalSubscriptions',
+        'paidFixedExpenses', 'paidVariableExpenses', 'paidSubscriptions', 'balance']
+        .filter(field => data[field] !== undefined)
+        .map(field => [field, toCents(data[field])])
+    ),
+    ...(data.envelopes ? {
+      envelopes: data.envelopes.map((envelope: DocumentData) => ({
+        ...envelope,
+        allocated: toCents(envelope.allocated),
+        carriedOver: toCents(envelope.carriedOver),
+        spent: toCents(envelope.spent),
+        remaining: toCents(envelope.remaining)
+      }))
+    } : {})
+  })
+};
+
+// One-time migration of records created before households existed: the user's own household is
+// created, with their user ID as its ID, and each of their records is moved into it.
+export const migrateToHouseholds = async (): Promise<void> => {
+  try {
+    const user = getSignedInUser();
     
-    // First create entry for the current month explicitly to ensure it's not skipped
-    const currentMonthDocRef = doc(getIncomeCollection());
-    const currentMonthData: Omit<Income, 'id'> = {
-      ...incomeTemplate,
-      userId,
-      month: currentMonth,
-      year: currentYear,
-      createdAt: Timestamp.now()
-    };
-    batch.set(currentMonthDocRef, currentMonthData);
-    createdIds.push(currentMonthDocRef.id);
-    
-    // Advance to next period based on frequency
-    if (incomeTemplate.frequency === 'weekly') {
-      currentMonth += 0.25;
-    } else if (incomeTemplate.frequency === 'biweekly') {
-      currentMonth += 0.5;
-    } else {
-      currentMonth += 1;
+    const settingsRef = doc(getUserSettingsCollection(), user.uid);
+    const settingsSnap = await getDoc(settingsRef);
+    if (settingsSnap.exists() && settingsSnap.data().recordsInHousehold) {
+      return;
     }
     
-    // Adjust if we crossed to the next year
-    if (currentMonth > 12) {
-      currentMonth -= 12;
-      currentYear += 1;
-    }
+    const operations: BatchOperation[] = [];
     
-    // Now create the remaining entries
-    for (let i = frequencyMonths; i < totalMonths; i += frequencyMonths) {
-      // Skip if we've gone past the end date
-      if (currentYear > endYear || (currentYear === endYear && currentMonth > endMonth)) {
-        break;
-      }
-      
-      // Create new income document reference
-      const docRef = doc(getIncomeCollection());
-      
-      // Prepare data
-      const incomeData: Omit<Income, 'id'> = {
-        ...incomeTemplate,
-        userId,
-        month: Math.floor(currentMonth), // Ensure whole month number
-        year: currentYear,
+    const householdRef = doc(getHouseholdsCollection(), user.uid);
+    if (!(await getDoc(householdRef)).exists()) {
+      const household: Omit<Household, 'id'> = {
+        name: user.displayName ? `${user.displayName}'s Household` : 'My Household',
+        ownerId: user.uid,
+        members: {
+          [user.uid]: {
+            role: 'owner',
+            email: user.email || '',
+            ...(user.displayName ? { displayName: user.displayName } : {}),
+            joinedAt: Timestamp.now()
+          }
+        },
+        memberIds: [user.uid],
         createdAt: Timestamp.now()
       };
+      operations.push(batch => batch.set(householdRef, household));
+    }
+    
+    for (const collectionName of backupCollections) {
+      if (collectionName === 'userSettings') continue;
       
-      // Add to batch
-      batch.set(docRef, incomeData);
-      createdIds.push(docRef.id);
-      
-      // Update month for next iteration
-      if (incomeTemplate.frequency === 'weekly') {
-        currentMonth += 0.25; // Approximate - not precise
-      } else if (incomeTemplate.frequency === 'biweekly') {
-        currentMonth += 0.5; // Approximate
-      } else {
-        currentMonth += 1; // Monthly
-      }
-      
-      // Adjust if we crossed to the next year
-      while (currentMonth > 12) {
-        currentMonth -= 12;
-        currentYear += 1;
-      }
+      const snapshot = await getDocs(query(collection(db, collectionName), where('userId', '==', user.uid)));
+      snapshot.forEach((docSnap) => {
+        if (docSnap.data().householdId) return;
+        operations.push(batch => batch.update(docSnap.ref, { householdId: user.uid }));
+      });
     }
     
-    // Commit the batch
-    await batch.commit();
+    operations.push(batch => batch.set(settingsRef, { recordsInHousehold: true, updatedAt: Timestamp.now() }, { merge: true }));
     
-    return createdIds;
+    await commitInChunks(operations);
   } catch (error) {
-    console.error('Error creating recurring income:', error);
+    console.error('Error migrating records to households:', error);
     throw error;
   }
 };
 
-// Create recurring expense entries for specified period
-export const createRecurringExpense = async (
-  expenseTemplate: Omit<Expense, 'id' | 'userId' | 'createdAt' | 'month' | 'year'>,
-  startMonth: number,
-  startYear: number,
-  endMonth?: number,
-  endYear?: number
-): Promise<string[]> => {
-  try {
-    const userId = getCurrentUserId();
-    const batch = writeBatch(db);
-    const createdIds: string[] = [];
-    
-    // Current date for determining isPaid status
-    const today = new Date();
-    today.setHours(0, 0, 0, 0); // Set to midnight for accurate comparison
+// One-time migration of stored amounts from float dollars to integer cents. Converted
+// documents are marked, so an interrupted run resumes without converting anything twice.
+export const migrateAmountsToCents = async (): Promise<void> => {
+  try {
+    // Amounts in dollars predate households, so only the user's own household has any
+    const householdId = getSignedInUser().uid;
     
-    // Default end date to end of current year if not specified
-    if (!endMonth || !endYear) {
-      endMonth = 12;
-      endYear = startYear;
+    const settingsRef = doc(getUserSettingsCollection(), householdId);
+    const settingsSnap = await getDoc(settingsRef);
+    if (settingsSnap.exists() && settingsSnap.data().amountsInCents) {
+      return;
     }
     
-    // Calculate total months to create
-    const totalMonths = (endYear - startYear) * 12 + (endMonth - startMonth + 1);
-    
-    // Determine frequency
-    let frequencyMonths = 1; // Default monthly
-    if (expenseTemplate.frequency === 'weekly') frequencyMonths = 0.25;
-    else if (expenseTemplate.frequency === 'biweekly') frequencyMonths = 0.5;
-    
-    // Starting point
-    let currentMonth = startMonth;
-    let currentYear = startYear;
-    
-    // First create entry for the current month explicitly to ensure it's not skipped
-    const currentMonthDocRef = doc(getExpensesCollection());
-    
-    // Calculate proper due date for this month using dueDayOfMonth if provided
-    let dueDate = expenseTemplate.dueDate;
-    if (expenseTemplate.dueDayOfMonth) {
-      // Create a date using the dueDayOfMonth for the current month/year
-      // Handle months with fewer days by using the last day of the month
-      const daysInMonth = new Date(currentYear, currentMonth, 0).getDate();
-      const actualDueDay = Math.min(expenseTemplate.dueDayOfMonth, daysInMonth);
-      dueDate = new Date(currentYear, currentMonth - 1, actualDueDay);
-      
-      // Convert to Timestamp if necessary
-      if (dueDate instanceof Date) {
-        dueDate = Timestamp.fromDate(dueDate);
-      }
-    }
+    const operations: BatchOperation[] = [];
     
-    // Set isPaid based on due date vs current date
-    let isPaid = expenseTemplate.isPaid;
-    if (dueDate) {
-      const dueDateObj = dueDate instanceof Date ? dueDate : dueDate.toDate();
-      isPaid = dueDateObj <= today;
+    for (const [collectionName, convert] of Object.entries(centsMigrations)) {
+      const snapshot = await getDocs(query(collection(db, collectionName), where('householdId', '==', householdId)));
+      snapshot.forEach((docSnap) => {
+        const data = docSnap.data();
+        if (data.amountsInCents) return;
+        operations.push(batch => batch.update(docSnap.ref, { ...convert(data), amountsInCents: true }));
+      });
     }
     
-    const currentMonthData: Omit<Expense, 'id'> = {
-      ...expenseTemplate,
-      userId,
-      month: currentMonth,
-      year: currentYear,
-      dueDate,
-      isPaid,
-      createdAt: Timestamp.now()
-    };
-    
-    batch.set(currentMonthDocRef, currentMonthData);
-    createdIds.push(currentMonthDocRef.id);
-    
-    // Advance to next period based on frequency
-    if (expenseTemplate.frequency === 'weekly') {
-      currentMonth += 0.25;
-    } else if (expenseTemplate.frequency === 'biweekly') {
-      currentMonth += 0.5;
-    } else {
-      currentMonth += 1;
-    }
+    operations.push(batch => batch.set(settingsRef, { amountsInCents: true, updatedAt: Timestamp.now() }, { merge: true }));
     
-    // Adjust if we crossed to the next year
-    if (currentMonth > 12) {
-      currentMonth -= 12;
-      currentYear += 1;
+    await commitInChunks(operations);
+  } catch (error) {
+    console.error('Error migrating amounts to cents:', error);
+    throw error;
+  }
+};
+
+// Records saved by one call of the old recurring create are at most this far apart
+const LEGACY_RUN_GAP_MS = 60 * 1000;
+
+const getMillis = (value: unknown): number | null => {
+  return value instanceof Timestamp || value instanceof Date ? toDate(value).getTime() : null;
+};
+
+// The template fields a legacy recurring record was created with. Records from the same create
+// call share these, while individual edits to an amount or description don't change them.
+const getLegacySeriesKey = (kind: RecurringSeries['kind'], data: DocumentData): string => {
+  return JSON.stringify([
+    kind,
+    data.source ?? null,
+    data.category ?? null,
+    data.subcategory ?? null,
+    data.frequency || 'monthly',
+    data.dueDayOfMonth ?? null,
+    getMillis(data.startDate),
+    getMillis(data.endDate),
+    getRecordCurrency(data),
+    data.accountId ?? null
+  ]);
+};
+
+// Split legacy recurring records into the groups each old create call saved: records with the
+// same template fields, created within a minute of one another
+const groupLegacyRecords = (kind: RecurringSeries['kind'], docs: QueryDocumentSnapshot[]): QueryDocumentSnapshot[][] => {
+  const byKey = new Map<string, QueryDocumentSnapshot[]>();
+  docs.forEach((docSnap) => {
+    const key = getLegacySeriesKey(kind, docSnap.data());
+    byKey.set(key, [...(byKey.get(key) || []), docSnap]);
+  });
+  
+  const groups: QueryDocumentSnapshot[][] = [];
+  for (const keyDocs of byKey.values()) {
+    const sorted = [...keyDocs].sort((a, b) => (getMillis(a.data().createdAt) ?? 0) - (getMillis(b.data().createdAt) ?? 0));
+    let group: QueryDocumentSnapshot[] = [];
+    let lastCreated: number | null = null;
+    for (const docSnap of sorted) {
+      const created = getMillis(docSnap.data().createdAt) ?? 0;
+      if (lastCreated !== null && created - lastCreated > LEGACY_RUN_GAP_MS) {
+        groups.push(group);
+        group = [];
+      }
+      group.push(docSnap);
+      lastCreated = created;
     }
+    groups.push(group);
+  }
+  return groups;
+};
+
+// Turn one group of legacy records into a series. Each record becomes the occurrence on the
+// next schedule date in its month; dates in the covered months with no record are skipped so
+// they aren't recreated, and records left over once a month's dates run out stay as one-offs.
+const getLegacySeriesOperations = (
+  kind: RecurringSeries['kind'],
+  householdId: string,
+  group: QueryDocumentSnapshot[],
+  linked: Map<string, QueryDocumentSnapshot[]>
+): BatchOperation[] => {
+  const records = [...group].sort((a, b) => {
+    const aData = a.data();
+    const bData = b.data();
+    return getMonthIndex(aData.month, aData.year) - getMonthIndex(bData.month, bData.year)
+      || (getMillis(aData.createdAt) ?? 0) - (getMillis(bData.createdAt) ?? 0);
+  });
+  const first = records[0].data();
+  const last = records[records.length - 1].data();
+  
+  const frequency: RecurringFrequency = first.frequency in frequencyLabels ? first.frequency : 'monthly';
+  const startDate = first.startDate ? toDate(first.startDate) : new Date(first.year, first.month - 1, 1);
+  const endDate = first.endDate ? toDate(first.endDate) : new Date(last.year, last.month, 0);
+  const dueDayOfMonth = kind === 'expense' ? first.dueDayOfMonth || startDate.getDate() : undefined;
+  const seriesRef = doc(getRecurringSeriesCollection());
+  const rule: RecurrenceRule = {
+    frequency,
+    anchorDate: startDate,
+    startDate,
+    endDate,
+    dayOfMonth: dueDayOfMonth
+  };
+  
+  const operations: BatchOperation[] = [];
+  const skippedOccurrences: string[] = [];
+  
+  for (let index = getMonthIndex(first.month, first.year); index <= getMonthIndex(last.month, last.year); index++) {
+    const month = (index % 12) + 1;
+    const year = Math.floor(index / 12);
+    const dates = getOccurrencesInMonth(rule, month, year);
+    const monthRecords = records.filter(record => getMonthIndex(record.data().month, record.data().year) === index);
     
-    // Now create the remaining entries
-    for (let i = frequencyMonths; i < totalMonths; i += frequencyMonths) {
-      // Skip if we've gone past the end date
-      if (currentYear > endYear || (currentYear === endYear && currentMonth > endMonth)) {
-        break;
-      }
-      
-      // Create new expense document reference
-      const docRef = doc(getExpensesCollection());
-      
-      // Calculate proper due date for this period using dueDayOfMonth if provided
-      let periodDueDate = expenseTemplate.dueDate;
-      if (expenseTemplate.dueDayOfMonth) {
-        // Create a date using the dueDayOfMonth for the current month/year
-        // Handle months with fewer days by using the last day of the month
-        const daysInMonth = new Date(currentYear, Math.floor(currentMonth), 0).getDate();
-        const actualDueDay = Math.min(expenseTemplate.dueDayOfMonth, daysInMonth);
-        periodDueDate = new Date(currentYear, Math.floor(currentMonth) - 1, actualDueDay);
-        
-        // Convert to Timestamp if necessary
-        if (periodDueDate instanceof Date) {
-          periodDueDate = Timestamp.fromDate(periodDueDate);
-        }
-      }
-      
-      // Set isPaid based on due date vs current date for each month
-      let monthIsPaid = false;
-      if (periodDueDate) {
-        const dueDateObj = periodDueDate instanceof Date ? periodDueDate : periodDueDate.toDate();
-        monthIsPaid = dueDateObj <= today;
+    dates.forEach((date, i) => {
+      const occurrenceKey = toDateKey(date);
+      const record = monthRecords[i];
+      if (!record || isDeleted(record.data())) {
+        skippedOccurrences.push(occurrenceKey);
       }
+      if (!record) return;
       
-      // Prepare data
-      const expenseData: Omit<Expense, 'id'> = {
-        ...expenseTemplate,
-        userId,
-        month: Math.floor(currentMonth), // Ensure whole month number
-        year: currentYear,
-        dueDate: periodDueDate,
-        isPaid: monthIsPaid,
-        createdAt: Timestamp.now()
+      const data = {
+        ...record.data(),
+        recurring: true,
+        frequency,
+        seriesId: seriesRef.id,
+        occurrenceKey,
+        ...(kind === 'income' ? { expectedDate: Timestamp.fromDate(date) } : { dueDate: Timestamp.fromDate(date) })
       };
-      
-      // Add to batch
-      batch.set(docRef, expenseData);
-      createdIds.push(docRef.id);
-      
-      // Update month for next iteration
-      if (expenseTemplate.frequency === 'weekly') {
-        currentMonth += 0.25; // Approximate - not precise
-      } else if (expenseTemplate.frequency === 'biweekly') {
-        currentMonth += 0.5; // Approximate
-      } else {
-        currentMonth += 1; // Monthly
-      }
-      
-      // Adjust if we crossed to the next year
-      while (currentMonth > 12) {
-        currentMonth -= 12;
-        currentYear += 1;
-      }
-    }
-    
-    // Commit the batch
-    await batch.commit();
+      const id = getOccurrenceId(seriesRef.id, occurrenceKey);
+      operations.push(...getOccurrenceMoveOperations(kind, record.id, id, data, linked.get(record.id)));
+    });
     
-    return createdIds;
-  } catch (error) {
-    console.error('Error creating recurring expense:', error);
-    throw error;
+    monthRecords.slice(dates.length).forEach((record) => {
+      operations.push(batch => batch.update(record.ref, { recurring: false }));
+    });
   }
+  
+  const series: Omit<RecurringSeries, 'id'> = {
+    householdId,
+    kind,
+    frequency,
+    startDate: Timestamp.fromDate(startDate),
+    endDate: Timestamp.fromDate(endDate),
+    ...(dueDayOfMonth ? { dueDayOfMonth } : {}),
+    amountHistory: [{ amount: first.amount, effectiveDate: Timestamp.fromDate(startDate) }],
+    ...(first.currency ? { currency: first.currency } : {}),
+    ...(first.accountId ? { accountId: first.accountId } : {}),
+    skippedOccurrences,
+    description: first.description || '',
+    ...(kind === 'income'
+      ? { source: first.source || '' }
+      : { category: first.category, ...(first.subcategory ? { subcategory: first.subcategory } : {}) }),
+    createdAt: Timestamp.now()
+  };
+  
+  return [batch => batch.set(seriesRef, series), ...operations];
 };
 
-// Delete multiple recurring expense entries based on common properties
-export const bulkDeleteRecurringExpenses = async (
-  templateExpense: Expense,
-  deleteAll: boolean = false,
-  fromMonth?: number,
-  fromYear?: number
-): Promise<number> => {
+// One-time migration of recurring income and expenses created before series existed, which
+// were saved as a separate record for each month. Each set of records is grouped into the
+// series it was created as, so later edits and deletes apply to exactly that set.
+export const migrateRecurringToSeries = async (): Promise<void> => {
   try {
-    const userId = getCurrentUserId();
-    const batch = writeBatch(db);
-    let deleteCount = 0;
-    
-    // Create a query to find all similar recurring expenses
-    const q = query(
-      getExpensesCollection(),
-      where('userId', '==', userId),
-      where('category', '==', templateExpense.category),
-      where('subcategory', '==', templateExpense.subcategory),
-      where('recurring', '==', true)
-    );
-    
-    const querySnapshot = await getDocs(q);
-    const matchingExpenses: Expense[] = [];
+    // Records like these predate households, so only the user's own household has any
+    const householdId = getSignedInUser().uid;
     
-    // First gather all potential matches
-    querySnapshot.forEach((doc) => {
-      const expense = { ...doc.data(), id: doc.id } as Expense;
-      
-      // Check if this expense matches our template (same amount, frequency, dueDayOfMonth)
-      if (
-        expense.amount === templateExpense.amount &&
-        expense.frequency === templateExpense.frequency &&
-        expense.dueDayOfMonth === templateExpense.dueDayOfMonth
-      ) {
-        matchingExpenses.push(expense);
-      }
-    });
-    
-    // Sort expenses by date for processing
-    matchingExpenses.sort((a, b) => {
-      if (a.year !== b.year) return a.year - b.year;
-      return a.month - b.month;
-    });
-    
-    // If deleteAll is true, delete all matching expenses
-    // Otherwise, delete only expenses from the specified month/year onwards
-    for (const expense of matchingExpenses) {
-      if (
-        deleteAll || 
-        (expense.year > (fromYear || 0)) || 
-        (expense.year === fromYear && expense.month >= (fromMonth || 0))
-      ) {
-        if (expense.id) {
-          batch.delete(doc(getExpensesCollection(), expense.id));
-          deleteCount++;
-        }
-      }
+    const settingsRef = doc(getUserSettingsCollection(), householdId);
+    const settingsSnap = await getDoc(settingsRef);
+    if (settingsSnap.exists() && settingsSnap.data().recurringInSeries) {
+      return;
     }
     
-    if (deleteCount > 0) {
-      await batch.commit();
+    for (const kind of ['income', 'expense'] as const) {
+      const snapshot = await getDocs(query(
+        getOccurrenceCollection(kind),
+        where('householdId', '==', householdId),
+        where('recurring', '==', true)
+      ));
+      const legacy = snapshot.docs.filter(docSnap => !docSnap.data().seriesId);
+      if (legacy.length === 0) continue;
+      
+      // Each group is saved on its own, so an interrupted run resumes with the groups still
+      // missing a series
+      const linked = await getLinkedTransactionDocs(householdId, kind, legacy.map(docSnap => docSnap.id));
+      for (const group of groupLegacyRecords(kind, legacy)) {
+        await commitInChunks(getLegacySeriesOperations(kind, householdId, group, linked));
+      }
     }
     
-    return deleteCount;
+    await setDoc(settingsRef, { recurringInSeries: true, updatedAt: Timestamp.now() }, { merge: true });
   } catch (error) {
-    console.error('Error bulk deleting recurring expenses:', error);
+    console.error('Error migrating recurring records to series:', error);
     throw error;
   }
-}; 
\ No newline at end of file
+};
@@ -0,0 +1,88 @@
+import { decodeJwt, decodeProtectedHeader, importX509, JWTPayload, jwtVerify } from 'jose';
+
+// Session cookies are Firebase session cookies minted by /api/session. This module only
+// verifies them, so it runs in the middleware as well as on the server.
+
+export const SESSION_COOKIE_NAME = '__session';
+
+// How long a session lasts before the user has to sign in again
+export const SESSION_MAX_AGE_SECONDS = 60 * 60 * 24 * 5;
+
+// Google's public keys for Firebase session cookies, as X.509 certificates keyed by key ID
+const SESSION_KEYS_URL = 'https://www.googleapis.com/identitytoolkit/v3/relyingparty/publicKeys';
+
+const projectId = process.env.NEXT_PUBLIC_FIREBASE_PROJECT_ID;
+
+export interface SessionClaims {
+  uid: string;
+  email?: string;
+  emailVerified: boolean;
+  expiresAt: Date;
+}
+
+// Keys are fetched once and reused for as long as Google says they can be cached
+let cachedKeys: { keys: Map<string, CryptoKey>; certificates: Record<string, string>; expiresAt: number } | null = null;
+
+const getSigningKey = async (keyId: string): Promise<CryptoKey | null> => {
+  if (!cachedKeys || cachedKeys.expiresAt <= Date.now()) {
+    const response = await fetch(SESSION_KEYS_URL);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch session keys: ${response.status}`);
+    }
+
+    const maxAge = /max-age=(\d+)/.exec(response.headers.get('cache-control') || '');
+    cachedKeys = {
+      keys: new Map(),
+      certificates: await response.json(),
+      expiresAt: Date.now() + (maxAge ? Number(maxAge[1]) : 3600) * 1000
+    };
+  }
+
+  const certificate = cachedKeys.certificates[keyId];
+  if (!certificate) return null;
+
+  if (!cachedKeys.keys.has(keyId)) {
+    cachedKeys.keys.set(keyId, await importX509(certificate, 'RS256'));
+  }
+  return cachedKeys.keys.get(keyId)!;
+};
+
+// The Auth emulator issues unsigned session cookies, so while it is in use only their expiry
+// is checked
+const verifyEmulatorSession = (sessionCookie: string): JWTPayload | null => {
+  const payload = decodeJwt(sessionCookie);
+  return payload.exp && payload.exp * 1000 > Date.now() ? payload : null;
+};
+
+// Check a session cookie's signature, issuer and expiry, returning its claims, or null when it
+// is not a valid session. Revoked sessions are only caught by the server, which asks Firebase.
+export const verifySession = async (sessionCookie: string): Promise<SessionClaims | null> => {
+  try {
+    let payload: JWTPayload | null;
+
+    if (process.env.FIREBASE_AUTH_EMULATOR_HOST) {
+      payload = verifyEmulatorSession(sessionCookie);
+    } else {
+      const { kid } = decodeProtectedHeader(sessionCookie);
+      const key = kid ? await getSigningKey(kid) : null;
+      if (!key) return null;
+
+      ({ payload } = await jwtVerify(sessionCookie, key, {
+        algorithms: ['RS256'],
+        issuer: `https://session.firebase.google.com/${projectId}`,
+        audience: projectId
+      }));
+    }
+    if (!payload?.sub || !payload.exp) return null;
+
+    return {
+      uid: payload.sub,
+      email: typeof payload.email === 'string' ? payload.email : undefined,
+      emailVerified: payload.email_verified === true,
+      expiresAt: new Date(payload.exp * 1000)
+    };
+  } catch (error) {
+    console.error('Error verifying session:', error);
+    return null;
+  }
+};
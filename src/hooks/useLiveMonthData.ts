@@ -0,0 +1,79 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Unsubscribe } from 'firebase/firestore';
+import { useAuth } from '@/context/AuthContext';
+import { useCurrency } from '@/context/CurrencyContext';
+import {
+  Expense,
+  Income,
+  MonthlySummary,
+  subscribeToAllMonthlyExpenses,
+  subscribeToMonthlyIncome,
+  subscribeToMonthlySummary
+} from '@/firebase/services';
+
+export interface LiveData<T> {
+  data: T;
+  loading: boolean;  // True until the first result for the current month arrives
+  error: Error | null;
+}
+
+type MonthSubscription<T> = (
+  month: number,
+  year: number,
+  onChange: (data: T) => void,
+  onError: (error: Error) => void
+) => Unsubscribe;
+
+// Keep a month's data up to date while the component is mounted. The previous month's data
+// stays in place while the next one loads, and the listener is removed on unmount.
+const useMonthSubscription = <T>(
+  subscribe: MonthSubscription<T>,
+  month: number,
+  year: number,
+  initialData: T,
+  resubscribeKey?: string
+): LiveData<T> => {
+  const { user } = useAuth();
+  const [data, setData] = useState<T>(initialData);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    setLoading(true);
+    setError(null);
+    return subscribe(
+      month,
+      year,
+      (next) => {
+        setData(next);
+        setError(null);
+        setLoading(false);
+      },
+      (err) => {
+        console.error('Error listening for changes:', err);
+        setError(err);
+        setLoading(false);
+      }
+    );
+  }, [user, subscribe, month, year, resubscribeKey]);
+
+  return { data, loading, error };
+};
+
+export const useMonthlyIncome = (month: number, year: number): LiveData<Income[]> => {
+  return useMonthSubscription(subscribeToMonthlyIncome, month, year, []);
+};
+
+export const useMonthlyExpenses = (month: number, year: number): LiveData<Expense[]> => {
+  return useMonthSubscription(subscribeToAllMonthlyExpenses, month, year, []);
+};
+
+// Resubscribes when the base currency changes, so the summary is recalculated in it
+export const useMonthlySummary = (month: number, year: number): LiveData<MonthlySummary | null> => {
+  const { baseCurrency } = useCurrency();
+  return useMonthSubscription(subscribeToMonthlySummary, month, year, null, baseCurrency);
+};
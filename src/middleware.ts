@@ -1,21 +1,30 @@
 import { NextResponse } from 'next/server';
 import type { NextRequest } from 'next/server';
+import { SESSION_COOKIE_NAME, verifySession } from './firebase/session';
 
 // List of public paths that don't require authentication
 const publicPaths = [
   '/auth/login',
   '/auth/signup',
-  '/auth/reset-password'
+  '/auth/reset-password',
+  '/auth/verify-email',
+  '/auth/action'
 ];
 
-export function middleware(request: NextRequest) {
+// Public paths that signed-in users are sent away from; links from emails still open for them
+const signInPaths = [
+  '/auth/login',
+  '/auth/signup'
+];
+
+export async function middleware(request: NextRequest) {
   const { pathname } = request.nextUrl;
   
-  // Check if the user is authenticated based on Firebase session cookie
-  // Note: Firebase typically uses '__session' cookie for authentication
-  // But we need to verify if this cookie exists and is being set correctly
-  const firebaseSession = request.cookies.get('__session');
-  const hasFirebaseSession = !!firebaseSession?.value;
+  // Check if the user is authenticated: the session cookie must be one issued by /api/session,
+  // with a valid signature, that hasn't expired
+  const sessionCookie = request.cookies.get(SESSION_COOKIE_NAME)?.value;
+  const session = sessionCookie ? await verifySession(sessionCookie) : null;
+  const hasFirebaseSession = !!session;
   
   // Check if this is a public path that doesn't require authentication
   const isPublicPath = publicPaths.some(path => pathname.startsWith(path));
@@ -31,12 +40,17 @@ export function middleware(request: NextRequest) {
   // If trying to access a protected route without authentication, redirect to login
   if (!isPublicPath && !isNextInternal && !hasFirebaseSession) {
     console.log(`Redirecting to login from: ${pathname}`);
-    return NextResponse.redirect(new URL('/auth/login', request.url));
+    const response = NextResponse.redirect(new URL('/auth/login', request.url));
+    // Drop a cookie that failed verification so it isn't checked again
+    if (sessionCookie) {
+      response.cookies.delete(SESSION_COOKIE_NAME);
+    }
+    return response;
   }
   
-  // If authenticated user tries to access auth pages, redirect to dashboard
+  // If authenticated user tries to access the sign-in pages, redirect to dashboard
   // Only do this if we're sure they're logged in
-  if (hasFirebaseSession && isPublicPath) {
+  if (hasFirebaseSession && signInPaths.some(path => pathname.startsWith(path))) {
     console.log(`Redirecting authenticated user to dashboard from: ${pathname}`);
     return NextResponse.redirect(new URL('/dashboard', request.url));
   }
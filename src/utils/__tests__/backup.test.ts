@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { rebaseOwnerIds, remapIds } from '../backup';
+
+describe('rebaseOwnerIds', () => {
+  it('rewrites the household ID and IDs derived from it', () => {
+    expect(rebaseOwnerIds({ id: 'old_dining', householdId: 'old', category: 'Dining' }, 'old', 'new'))
+      .toEqual({ id: 'new_dining', householdId: 'new', category: 'Dining' });
+  });
+});
+
+describe('remapIds', () => {
+  const ids = new Map([['series1', 'home_series1'], ['checking', 'home_checking']]);
+
+  it('rewrites IDs in values, arrays and object keys', () => {
+    expect(remapIds({
+      id: 'series1',
+      accountId: 'checking',
+      items: ['checking', 'other'],
+      statuses: { checking: 'cleared', savings: 'uncleared' }
+    }, ids)).toEqual({
+      id: 'home_series1',
+      accountId: 'home_checking',
+      items: ['home_checking', 'other'],
+      statuses: { home_checking: 'cleared', savings: 'uncleared' }
+    });
+  });
+
+  it('leaves partial matches and other values alone', () => {
+    expect(remapIds({ id: 'series1_2024-03-01', amount: 500, note: null }, ids))
+      .toEqual({ id: 'series1_2024-03-01', amount: 500, note: null });
+  });
+});
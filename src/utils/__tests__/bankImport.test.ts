@@ -0,0 +1,223 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import {
+  applyCsvMapping,
+  CsvColumnMapping,
+  flagDuplicates,
+  getExternalKey,
+  getTransactionFingerprint,
+  guessCsvMapping,
+  ImportedTransaction,
+  parseBankAmount
+} from '../bankImport';
+import { parseCsv } from '../csv';
+import { toDateKey } from '../recurrence';
+
+const fixture = (name: string) => parseCsv(readFileSync(join(__dirname, 'fixtures', name), 'utf8'));
+
+const summarize = (transactions: ImportedTransaction[]) =>
+  transactions.map(({ row, date, description, amount, type }) => [row, toDateKey(date), description, amount, type]);
+
+describe('parseBankAmount', () => {
+  it('reads plain and signed amounts as cents', () => {
+    expect(parseBankAmount('42.17', 'USD')).toBe(4217);
+    expect(parseBankAmount('-42.17', 'USD')).toBe(-4217);
+    expect(parseBankAmount('$1,234.50', 'USD')).toBe(123450);
+    expect(parseBankAmount('-$5', 'USD')).toBe(-500);
+    expect(parseBankAmount('$-5.00', 'USD')).toBe(-500);
+    expect(parseBankAmount('5.00-', 'USD')).toBe(-500);
+  });
+
+  it('reads parentheses and CR/DR suffixes', () => {
+    expect(parseBankAmount('(1,234.56)', 'USD')).toBe(-123456);
+    expect(parseBankAmount('45.00DR', 'GBP')).toBe(-4500);
+    expect(parseBankAmount('£45.00 CR', 'GBP')).toBe(4500);
+  });
+
+  it('reads a comma decimal separator', () => {
+    expect(parseBankAmount('-1.250,00', 'EUR', ',')).toBe(-125000);
+    expect(parseBankAmount('3.100,50 €', 'EUR', ',')).toBe(310050);
+  });
+
+  it('rounds to the currency\'s minor units', () => {
+    expect(parseBankAmount('1500', 'JPY')).toBe(1500);
+  });
+
+  it('returns null for blank or unreadable values', () => {
+    expect(parseBankAmount('', 'USD')).toBeNull();
+    expect(parseBankAmount('   ', 'USD')).toBeNull();
+    expect(parseBankAmount('n/a', 'EUR', ',')).toBeNull();
+  });
+});
+
+describe('guessCsvMapping', () => {
+  it('maps a single signed amount column', () => {
+    const [header, sample] = fixture('checking-us.csv');
+
+    expect(guessCsvMapping(header, sample)).toMatchObject({
+      hasHeader: true,
+      date: 0,
+      description: 1,
+      amountMode: 'single',
+      amount: 2,
+      debit: -1,
+      credit: -1,
+      dateFormat: 'yyyy-MM-dd'
+    });
+  });
+
+  it('maps separate money out and money in columns', () => {
+    const [header, sample] = fixture('savings-uk.csv');
+
+    expect(guessCsvMapping(header, sample)).toMatchObject({
+      date: 0,
+      description: 1,
+      amountMode: 'split',
+      amount: -1,
+      debit: 2,
+      credit: 3,
+      dateFormat: 'dd/MM/yyyy'
+    });
+  });
+
+  it('takes the first header matching a field', () => {
+    const [header, sample] = fixture('card-multiline.csv');
+
+    expect(guessCsvMapping(header, sample)).toMatchObject({ date: 0, description: 1, amount: 3, dateFormat: 'MM/dd/yyyy' });
+  });
+
+  it('leaves unrecognised columns unmapped', () => {
+    const mapping = guessCsvMapping(['Buchungstag', 'Verwendungszweck', 'Betrag']);
+
+    expect(mapping).toMatchObject({ date: -1, description: -1, amount: -1, dateFormat: 'MM/dd/yyyy' });
+  });
+});
+
+describe('applyCsvMapping', () => {
+  const germanMapping: CsvColumnMapping = {
+    hasHeader: true,
+    date: 0,
+    description: 1,
+    amountMode: 'single',
+    amount: 2,
+    debit: -1,
+    credit: -1,
+    dateFormat: 'dd.MM.yyyy',
+    decimalSeparator: ',',
+    invertAmounts: false
+  };
+
+  it('turns money in into income and money out into expenses', () => {
+    const rows = fixture('checking-us.csv');
+    const { transactions, errors } = applyCsvMapping(rows, guessCsvMapping(rows[0], rows[1]), 'USD');
+
+    expect(errors).toEqual([]);
+    expect(summarize(transactions)).toEqual([
+      [2, '2024-03-01', 'AMAZON.COM, INC', 4217, 'expense'],
+      [3, '2024-03-01', 'PAYROLL ACME CORP', 250000, 'income'],
+      [4, '2024-03-04', 'COFFEE SHOP', 450, 'expense'],
+      [5, '2024-03-04', 'COFFEE SHOP', 450, 'expense']
+    ]);
+  });
+
+  it('combines split columns and reports rows it cannot read', () => {
+    const rows = fixture('savings-uk.csv');
+    const { transactions, errors } = applyCsvMapping(rows, guessCsvMapping(rows[0], rows[1]), 'GBP');
+
+    expect(summarize(transactions)).toEqual([
+      [2, '2024-02-28', 'TESCO STORES 2231', 1240, 'expense'],
+      [3, '2024-02-29', 'SALARY', 180000, 'income'],
+      [5, '2024-03-01', 'RENT STANDING ORDER', 95000, 'expense']
+    ]);
+    expect(errors).toEqual(['Row 4: could not read the date "31/02/2024"']);
+  });
+
+  it('reads comma decimals and reports unreadable amounts', () => {
+    const { transactions, errors } = applyCsvMapping(fixture('giro-de.csv'), germanMapping, 'EUR');
+
+    expect(summarize(transactions)).toEqual([
+      [2, '2024-03-01', 'Miete März', 125000, 'expense'],
+      [3, '2024-03-05', 'Gehalt', 310050, 'income']
+    ]);
+    expect(errors).toEqual(['Row 4: could not read the amount']);
+  });
+
+  it('inverts card exports that show charges as positive', () => {
+    const rows = fixture('card-multiline.csv');
+    const mapping = { ...guessCsvMapping(rows[0], rows[1]), invertAmounts: true };
+    const { transactions } = applyCsvMapping(rows, mapping, 'USD');
+
+    expect(summarize(transactions)).toEqual([
+      [2, '2024-03-15', 'HARDWARE STORE', 5820, 'expense'],
+      [3, '2024-03-16', 'PAYMENT THANK YOU', 30000, 'income']
+    ]);
+  });
+
+  it('numbers rows from the first line when there is no header', () => {
+    const rows = fixture('giro-de.csv').slice(1);
+    const { transactions } = applyCsvMapping(rows, { ...germanMapping, hasHeader: false }, 'EUR');
+
+    expect(transactions.map(transaction => transaction.row)).toEqual([1, 2]);
+  });
+
+  it('skips zero amounts and falls back to a default description', () => {
+    const rows = [['2024-03-01', '', '0.00'], ['2024-03-02', '', '-1.00']];
+    const mapping: CsvColumnMapping = { ...germanMapping, hasHeader: false, dateFormat: 'yyyy-MM-dd', decimalSeparator: '.' };
+    const { transactions } = applyCsvMapping(rows, mapping, 'USD');
+
+    expect(summarize(transactions)).toEqual([[2, '2024-03-02', 'Imported transaction', 100, 'expense']]);
+  });
+
+  it('asks for the date and amount columns before reading anything', () => {
+    const { transactions, errors } = applyCsvMapping(fixture('giro-de.csv'), { ...germanMapping, amount: -1 }, 'EUR');
+
+    expect(transactions).toEqual([]);
+    expect(errors).toEqual(['Choose the date and amount columns']);
+  });
+});
+
+describe('flagDuplicates', () => {
+  const coffee = (row: number, extra: Partial<ImportedTransaction> = {}): ImportedTransaction => ({
+    row,
+    date: new Date(2024, 2, 4),
+    description: 'COFFEE SHOP',
+    amount: 450,
+    type: 'expense',
+    ...extra
+  });
+
+  it('matches recorded transactions on day, direction, amount and description', () => {
+    const existing = { fingerprints: [getTransactionFingerprint({ ...coffee(0), description: 'Coffee  shop!' })], externalKeys: [] };
+
+    expect(flagDuplicates([coffee(1), coffee(2, { amount: 451 }), coffee(3, { type: 'income' })], existing))
+      .toEqual([true, false, false]);
+  });
+
+  it('lets each recorded transaction match only one imported row', () => {
+    const existing = { fingerprints: [getTransactionFingerprint(coffee(0))], externalKeys: [] };
+
+    expect(flagDuplicates([coffee(1), coffee(2)], existing)).toEqual([true, false]);
+  });
+
+  it('matches on the bank ID within the same bank account', () => {
+    const bankAccount = { bankId: '021000021', accountNumber: '••••6789' };
+    const existing = { fingerprints: [], externalKeys: [getExternalKey('FIT-1', bankAccount)] };
+
+    expect(flagDuplicates([
+      coffee(1, { externalId: 'FIT-1', bankAccount }),
+      coffee(2, { externalId: 'FIT-1', bankAccount: { ...bankAccount, accountNumber: '••••1111' } }),
+      coffee(3, { externalId: 'FIT-2', bankAccount })
+    ], existing)).toEqual([true, false, false]);
+  });
+
+  it('uses up the fingerprint of a record matched by bank ID', () => {
+    const bankAccount = { bankId: '021000021', accountNumber: '••••6789' };
+    const existing = {
+      fingerprints: [getTransactionFingerprint(coffee(0))],
+      externalKeys: [getExternalKey('FIT-1', bankAccount)]
+    };
+
+    expect(flagDuplicates([coffee(1), coffee(2, { externalId: 'FIT-1', bankAccount })], existing)).toEqual([false, true]);
+  });
+});
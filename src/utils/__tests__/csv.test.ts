@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { detectCsvDelimiter, getCsvLines, parseCsv, splitCsvLine, toCsv } from '../csv';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+describe('splitCsvLine', () => {
+  it('keeps delimiters and escaped quotes inside quoted fields', () => {
+    expect(splitCsvLine('a,"b, c","say ""hi""", d ')).toEqual(['a', 'b, c', 'say "hi"', 'd']);
+  });
+
+  it('keeps empty fields', () => {
+    expect(splitCsvLine(',x,,')).toEqual(['', 'x', '', '']);
+  });
+});
+
+describe('getCsvLines', () => {
+  it('drops the byte order mark and blank lines', () => {
+    expect(getCsvLines('\uFEFFa,b\r\n\r\n  \nc,d\n')).toEqual(['a,b', 'c,d']);
+  });
+
+  it('keeps line breaks that are inside quoted fields', () => {
+    expect(getCsvLines('a,"line one\r\nline two"\nb,"x ""quoted""\nstill x"\nc,d')).toEqual([
+      'a,"line one\r\nline two"',
+      'b,"x ""quoted""\nstill x"',
+      'c,d'
+    ]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks the delimiter that splits the line into the most fields', () => {
+    expect(detectCsvDelimiter('Date,Description,Amount')).toBe(',');
+    expect(detectCsvDelimiter('Datum;Text;Betrag')).toBe(';');
+    expect(detectCsvDelimiter('Date\tMemo\tAmount')).toBe('\t');
+  });
+
+  it('ignores delimiters inside quotes', () => {
+    expect(detectCsvDelimiter('"a,b,c";d;e')).toBe(';');
+  });
+});
+
+describe('parseCsv', () => {
+  it('reads a comma-separated export with quoted amounts', () => {
+    const rows = parseCsv(fixture('checking-us.csv'));
+
+    expect(rows).toHaveLength(5);
+    expect(rows[1]).toEqual(['2024-03-01', 'AMAZON.COM, INC', '-42.17', '1,957.83']);
+  });
+
+  it('reads a semicolon-separated export with a byte order mark', () => {
+    const rows = parseCsv(fixture('giro-de.csv'));
+
+    expect(rows[0]).toEqual(['Buchungstag', 'Verwendungszweck', 'Betrag']);
+    expect(rows[1]).toEqual(['01.03.2024', 'Miete März', '-1.250,00']);
+  });
+
+  it('reads a quoted field that spans lines as one field', () => {
+    const rows = parseCsv(fixture('card-multiline.csv'));
+
+    expect(rows).toHaveLength(3);
+    expect(rows[1]).toEqual(['03/15/2024', 'HARDWARE STORE', 'Paint, brushes\r\nand tape', '58.20']);
+    expect(rows[2]).toEqual(['03/16/2024', 'PAYMENT THANK YOU', 'Autopay "March"', '-300.00']);
+  });
+
+  it('returns no rows for an empty file', () => {
+    expect(parseCsv('\uFEFF\r\n')).toEqual([]);
+  });
+});
+
+describe('toCsv', () => {
+  it('round-trips fields with delimiters, quotes and line breaks', () => {
+    const rows = [['Description', 'Amount'], ['Paint, brushes\nand tape', '58.20'], ['Say "hi"', '1']];
+
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
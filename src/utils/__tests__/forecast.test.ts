@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { buildCashFlowForecast, ForecastItem } from '../forecast';
+
+const monthly = (id: string, endDate?: Date): ForecastItem => ({
+  id,
+  label: id,
+  kind: 'expense',
+  rule: { frequency: 'monthly', anchorDate: new Date(2024, 0, 15), dayOfMonth: 15, endDate },
+  amountOn: () => 10000
+});
+
+const forecast = (items: ForecastItem[]) => buildCashFlowForecast({
+  startDate: new Date(2024, 0, 1),
+  months: 6,
+  startingBalance: 100000,
+  items
+});
+
+describe('buildCashFlowForecast', () => {
+  it('projects a series with no end date through the whole forecast', () => {
+    const result = forecast([monthly('Rent')]);
+
+    expect(result.endingBalance).toBe(40000);
+    expect(result.endingItems).toEqual([]);
+  });
+
+  it('flags series that end inside the forecast, soonest first', () => {
+    const result = forecast([
+      monthly('Gym', new Date(2024, 2, 31)),
+      monthly('Phone', new Date(2024, 0, 31)),
+      monthly('Rent', new Date(2024, 11, 31))
+    ]);
+
+    expect(result.endingItems.map(item => [item.label, item.endDate])).toEqual([
+      ['Phone', new Date(2024, 0, 31)],
+      ['Gym', new Date(2024, 2, 31)]
+    ]);
+    expect(result.endingBalance).toBe(100000 - 10000 - 3 * 10000 - 6 * 10000);
+  });
+
+  it('does not flag a series ending on the last day', () => {
+    expect(forecast([monthly('Rent', new Date(2024, 5, 30))]).endingItems).toEqual([]);
+  });
+});
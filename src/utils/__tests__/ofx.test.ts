@@ -0,0 +1,96 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { ImportedTransaction } from '../bankImport';
+import { isOfx, parseOfx, parseOfxDate } from '../ofx';
+import { toDateKey } from '../recurrence';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const summarize = (transactions: ImportedTransaction[]) =>
+  transactions.map(({ row, date, description, amount, type, externalId }) => [row, toDateKey(date), description, amount, type, externalId]);
+
+describe('parseOfxDate', () => {
+  it('keeps the calendar date and ignores the time and time zone', () => {
+    expect(toDateKey(parseOfxDate('20240301')!)).toBe('2024-03-01');
+    expect(toDateKey(parseOfxDate('20240301235959.000[-12:BIT]')!)).toBe('2024-03-01');
+    expect(toDateKey(parseOfxDate('20240229000000[+14:LINT]')!)).toBe('2024-02-29');
+  });
+
+  it('rejects dates that do not exist', () => {
+    expect(parseOfxDate('20240230')).toBeNull();
+    expect(parseOfxDate('2024-03-01')).toBeNull();
+    expect(parseOfxDate('')).toBeNull();
+  });
+});
+
+describe('isOfx', () => {
+  it('recognises both dialects', () => {
+    expect(isOfx(fixture('checking-sgml.ofx'))).toBe(true);
+    expect(isOfx(fixture('card-xml.qfx'))).toBe(true);
+    expect(isOfx(fixture('checking.qif'))).toBe(false);
+  });
+});
+
+describe('parseOfx', () => {
+  it('reads an SGML bank statement with unclosed elements', () => {
+    const { statements, errors } = parseOfx(fixture('checking-sgml.ofx'));
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0].currency).toBe('USD');
+    expect(statements[0].bankAccount).toEqual({ bankId: '021000021', accountNumber: '••••6789', accountType: 'CHECKING' });
+    expect(summarize(statements[0].transactions)).toEqual([
+      [1, '2024-03-01', 'AMAZON.COM', 4217, 'expense', '202403010001'],
+      [2, '2024-03-01', 'PAYROLL ACME & SONS', 250000, 'income', '202403010002'],
+      [3, '2024-03-04', 'FEE', 500, 'expense', '202403040001'],
+      [4, '2024-03-05', 'COFFEE SHOP', 450, 'expense', '202403050001']
+    ]);
+    expect(errors).toEqual(['Transaction 5: could not read the date']);
+  });
+
+  it('ends a transaction missing its closing tag where the next one starts', () => {
+    const { statements } = parseOfx(fixture('checking-sgml.ofx'));
+    const fee = statements[0].transactions.find(transaction => transaction.externalId === '202403040001');
+
+    expect(fee).toMatchObject({ description: 'FEE', amount: 500 });
+  });
+
+  it('attaches the bank account to every transaction', () => {
+    const { statements } = parseOfx(fixture('checking-sgml.ofx'));
+
+    expect(statements[0].transactions.every(transaction => transaction.bankAccount === statements[0].bankAccount)).toBe(true);
+  });
+
+  it('reads an XML credit card statement', () => {
+    const { statements, errors } = parseOfx(fixture('card-xml.qfx'));
+
+    expect(statements).toHaveLength(1);
+    expect(statements[0].currency).toBe('EUR');
+    expect(statements[0].bankAccount).toEqual({ accountNumber: '••••1111', accountType: 'CREDITCARD' });
+    expect(summarize(statements[0].transactions)).toEqual([
+      [1, '2024-03-15', 'Baumarkt <Filiale 12>', 5820, 'expense', 'CC-0315-A'],
+      [2, '2024-03-16', 'Autopay', 30000, 'income', 'CC-0316-A']
+    ]);
+    expect(errors).toEqual(['Transaction 3: could not read the amount']);
+  });
+
+  it('reads an SGML file whose elements are all on one line', () => {
+    const text = '<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>GBP<BANKACCTFROM><ACCTID>9876</BANKACCTFROM>'
+      + '<BANKTRANLIST><STMTTRN><DTPOSTED>20240102<TRNAMT>-1.99<FITID>A1<NAME>Tea'
+      + '<STMTTRN><DTPOSTED>20240103<TRNAMT>10<FITID>A2</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>';
+    const { statements } = parseOfx(text);
+
+    expect(statements[0].bankAccount).toEqual({ accountNumber: '9876' });
+    expect(summarize(statements[0].transactions)).toEqual([
+      [1, '2024-01-02', 'Tea', 199, 'expense', 'A1'],
+      [2, '2024-01-03', 'Imported transaction', 1000, 'income', 'A2']
+    ]);
+  });
+
+  it('explains files it cannot read', () => {
+    expect(parseOfx('Date,Amount\n2024-01-01,5').errors).toEqual(['This does not look like an OFX file']);
+    expect(parseOfx('<OFX><SIGNONMSGSRSV1></SIGNONMSGSRSV1></OFX>').errors).toEqual([
+      'The file has no bank or credit card statements'
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { ImportedTransaction } from '../bankImport';
+import { isQif, parseQif, parseQifDate } from '../qif';
+import { toDateKey } from '../recurrence';
+
+const fixture = (name: string) => readFileSync(join(__dirname, 'fixtures', name), 'utf8');
+
+const summarize = (transactions: ImportedTransaction[]) =>
+  transactions.map(({ row, date, description, amount, type }) => [row, toDateKey(date), description, amount, type]);
+
+describe('parseQifDate', () => {
+  it('reads the date layouts Quicken writes', () => {
+    expect(toDateKey(parseQifDate('1/25/24')!)).toBe('2024-01-25');
+    expect(toDateKey(parseQifDate("1/25'24")!)).toBe('2024-01-25');
+    expect(toDateKey(parseQifDate("1/25' 4")!)).toBe('2004-01-25');
+    expect(toDateKey(parseQifDate('01/25/2024')!)).toBe('2024-01-25');
+    expect(toDateKey(parseQifDate('01-25-2024')!)).toBe('2024-01-25');
+  });
+
+  it('reads ISO dates', () => {
+    expect(toDateKey(parseQifDate('2024-01-28')!)).toBe('2024-01-28');
+    expect(toDateKey(parseQifDate('2024-01-28', true)!)).toBe('2024-01-28');
+  });
+
+  it('reads the day first when asked', () => {
+    expect(toDateKey(parseQifDate('25/01/2024', true)!)).toBe('2024-01-25');
+    expect(toDateKey(parseQifDate('3.2.24', true)!)).toBe('2024-02-03');
+    expect(parseQifDate('25/01/2024')).toBeNull();
+  });
+
+  it('puts two-digit years 50 and up in the last century', () => {
+    expect(toDateKey(parseQifDate('12/31/99')!)).toBe('1999-12-31');
+    expect(toDateKey(parseQifDate('1/1/49')!)).toBe('2049-01-01');
+  });
+
+  it('rejects dates that do not exist or cannot be read', () => {
+    expect(parseQifDate('2/30/24')).toBeNull();
+    expect(parseQifDate('1/25')).toBeNull();
+    expect(parseQifDate('')).toBeNull();
+  });
+});
+
+describe('isQif', () => {
+  it('recognises files starting with a header line', () => {
+    expect(isQif(fixture('checking.qif'))).toBe(true);
+    expect(isQif('\r\n!Type:Bank\r\n')).toBe(true);
+    expect(isQif('!Option:AutoSwitch\n')).toBe(true);
+    expect(isQif(fixture('checking-sgml.ofx'))).toBe(false);
+  });
+});
+
+describe('parseQif', () => {
+  it('reads a bank section and the account named before it', () => {
+    const { transactions, bankAccount, errors } = parseQif(fixture('checking.qif'), 'USD');
+
+    expect(bankAccount).toEqual({ accountName: 'Everyday Checking', accountType: 'Bank' });
+    expect(summarize(transactions)).toEqual([
+      [1, '2024-01-25', 'AMAZON.COM', 4217, 'expense'],
+      [2, '2024-01-26', 'PAYROLL ACME CORP', 250000, 'income'],
+      [3, '2024-01-27', 'Water bill', 12000, 'expense'],
+      [4, '2024-01-28', 'COFFEE SHOP', 450, 'expense']
+    ]);
+    expect(errors).toEqual(['Transaction 5: could not read the date "2/30/24"']);
+  });
+
+  it('uses the transaction total rather than its splits', () => {
+    const { transactions } = parseQif(fixture('checking.qif'), 'USD');
+
+    expect(transactions.find(transaction => transaction.description === 'Water bill')?.amount).toBe(12000);
+  });
+
+  it('skips investment sections', () => {
+    const { transactions } = parseQif(fixture('checking.qif'), 'USD');
+
+    expect(transactions.some(transaction => transaction.amount === 100000)).toBe(false);
+  });
+
+  it('reads a credit card section with day-first dates and CRLF line endings', () => {
+    const { transactions, bankAccount, errors } = parseQif(fixture('card-dayfirst.qif'), 'GBP', true);
+
+    expect(bankAccount).toBeUndefined();
+    expect(errors).toEqual([]);
+    expect(summarize(transactions)).toEqual([
+      [1, '2024-01-25', 'TESCO STORES', 1240, 'expense'],
+      [2, '2024-02-03', 'REFUND', 4500, 'income']
+    ]);
+  });
+
+  it('reads a last record with no closing caret', () => {
+    const { transactions } = parseQif('!Type:Cash\nD1/2/24\nT-3.00\nPBus fare', 'USD');
+
+    expect(summarize(transactions)).toEqual([[1, '2024-01-02', 'Bus fare', 300, 'expense']]);
+  });
+
+  it('reports a file with no bank, cash or credit card transactions', () => {
+    const { transactions, errors } = parseQif('!Type:Invst\nD1/2/24\nT-3.00\n^\n', 'USD');
+
+    expect(transactions).toEqual([]);
+    expect(errors).toEqual(['The file has no bank, cash or credit card transactions']);
+  });
+});
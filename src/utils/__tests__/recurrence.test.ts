@@ -0,0 +1,233 @@
+import { describe, expect, it } from 'vitest';
+import {
+  daysBetween,
+  fromDateKey,
+  getOccurrencesBetween,
+  getOccurrencesInMonth,
+  RecurrenceRule,
+  toDateKey
+} from '../recurrence';
+
+const keys = (dates: Date[]) => dates.map(toDateKey);
+
+describe('month-based rules', () => {
+  it('clamps the 31st to the last day of shorter months', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', anchorDate: new Date(2023, 0, 31) };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2023, 0, 1), new Date(2023, 4, 31)))).toEqual([
+      '2023-01-31',
+      '2023-02-28',
+      '2023-03-31',
+      '2023-04-30',
+      '2023-05-31'
+    ]);
+  });
+
+  it('clamps to February 29th in leap years', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', anchorDate: new Date(2024, 0, 30) };
+
+    expect(keys(getOccurrencesInMonth(rule, 2, 2024))).toEqual(['2024-02-29']);
+    expect(keys(getOccurrencesInMonth(rule, 2, 2025))).toEqual(['2025-02-28']);
+  });
+
+  it('keeps an annual leap-day rule on the last day of February', () => {
+    const rule: RecurrenceRule = { frequency: 'annual', anchorDate: new Date(2024, 1, 29) };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 0, 1), new Date(2028, 11, 31)))).toEqual([
+      '2024-02-29',
+      '2025-02-28',
+      '2026-02-28',
+      '2027-02-28',
+      '2028-02-29'
+    ]);
+  });
+
+  it('uses dayOfMonth over the anchor day', () => {
+    const rule: RecurrenceRule = { frequency: 'monthly', anchorDate: new Date(2024, 0, 10), dayOfMonth: 31 };
+
+    expect(keys(getOccurrencesInMonth(rule, 4, 2024))).toEqual(['2024-04-30']);
+  });
+
+  it('repeats quarterly from the anchor month', () => {
+    const rule: RecurrenceRule = { frequency: 'quarterly', anchorDate: new Date(2024, 1, 15) };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 0, 1), new Date(2024, 11, 31)))).toEqual([
+      '2024-02-15',
+      '2024-05-15',
+      '2024-08-15',
+      '2024-11-15'
+    ]);
+  });
+
+  it('occurs in the start month even when the day is before the start date', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'monthly',
+      anchorDate: new Date(2024, 2, 20),
+      startDate: new Date(2024, 2, 20),
+      dayOfMonth: 1
+    };
+
+    expect(keys(getOccurrencesInMonth(rule, 3, 2024))).toEqual(['2024-03-01']);
+    expect(keys(getOccurrencesInMonth(rule, 2, 2024))).toEqual([]);
+  });
+});
+
+describe('weekly and biweekly rules', () => {
+  it('steps weekly from the anchor', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', anchorDate: new Date(2024, 0, 5) };
+
+    expect(keys(getOccurrencesInMonth(rule, 2, 2024))).toEqual([
+      '2024-02-02',
+      '2024-02-09',
+      '2024-02-16',
+      '2024-02-23'
+    ]);
+  });
+
+  it('keeps the biweekly phase of the anchor across months and years', () => {
+    const rule: RecurrenceRule = { frequency: 'biweekly', anchorDate: new Date(2024, 10, 22) };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 11, 1), new Date(2025, 1, 10)))).toEqual([
+      '2024-12-06',
+      '2024-12-20',
+      '2025-01-03',
+      '2025-01-17',
+      '2025-01-31'
+    ]);
+  });
+
+  it('extends backwards from an anchor after the start date', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'biweekly',
+      anchorDate: new Date(2024, 2, 15),
+      startDate: new Date(2024, 1, 1)
+    };
+
+    expect(keys(getOccurrencesInMonth(rule, 2, 2024))).toEqual(['2024-02-02', '2024-02-16']);
+  });
+
+  it('is not shifted by daylight saving changes', () => {
+    const rule: RecurrenceRule = { frequency: 'weekly', anchorDate: new Date(2024, 2, 3) };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 2, 1), new Date(2024, 3, 1)))).toEqual([
+      '2024-03-03',
+      '2024-03-10',
+      '2024-03-17',
+      '2024-03-24',
+      '2024-03-31'
+    ]);
+  });
+});
+
+describe('other rules', () => {
+  it('falls on the 1st and 15th for semimonthly rules', () => {
+    const rule: RecurrenceRule = { frequency: 'semimonthly', anchorDate: new Date(2024, 0, 1) };
+
+    expect(keys(getOccurrencesInMonth(rule, 6, 2024))).toEqual(['2024-06-01', '2024-06-15']);
+  });
+
+  it('moves the last business day off weekends', () => {
+    const rule: RecurrenceRule = { frequency: 'lastBusinessDay', anchorDate: new Date(2024, 0, 31) };
+
+    // August 31st 2024 is a Saturday
+    expect(keys(getOccurrencesInMonth(rule, 8, 2024))).toEqual(['2024-08-30']);
+  });
+
+  it('occurs only on the anchor date for one-time rules', () => {
+    const rule: RecurrenceRule = { frequency: 'once', anchorDate: new Date(2024, 4, 12) };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 0, 1), new Date(2024, 11, 31)))).toEqual(['2024-05-12']);
+    expect(keys(getOccurrencesInMonth(rule, 6, 2024))).toEqual([]);
+  });
+});
+
+describe('start and end dates', () => {
+  it('includes an occurrence on the end date', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'weekly',
+      anchorDate: new Date(2024, 0, 1),
+      endDate: new Date(2024, 0, 29)
+    };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 0, 1), new Date(2024, 1, 29)))).toEqual([
+      '2024-01-01',
+      '2024-01-08',
+      '2024-01-15',
+      '2024-01-22',
+      '2024-01-29'
+    ]);
+  });
+
+  it('includes a monthly occurrence on the end date but not after it', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'monthly',
+      anchorDate: new Date(2024, 0, 15),
+      endDate: new Date(2024, 2, 15)
+    };
+
+    expect(keys(getOccurrencesBetween(rule, new Date(2024, 0, 1), new Date(2024, 11, 31)))).toEqual([
+      '2024-01-15',
+      '2024-02-15',
+      '2024-03-15'
+    ]);
+  });
+
+  it('ignores an end date time of day', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'monthly',
+      anchorDate: new Date(2024, 0, 15),
+      endDate: new Date(2024, 1, 15, 0, 0, 1)
+    };
+
+    expect(keys(getOccurrencesInMonth(rule, 2, 2024))).toEqual(['2024-02-15']);
+  });
+
+  it('returns nothing when the range ends before the start date', () => {
+    const rule: RecurrenceRule = {
+      frequency: 'weekly',
+      anchorDate: new Date(2024, 5, 1),
+      startDate: new Date(2024, 5, 1)
+    };
+
+    expect(getOccurrencesInMonth(rule, 5, 2024)).toEqual([]);
+  });
+});
+
+describe('occurrence keys', () => {
+  it('formats local dates as zero-padded YYYY-MM-DD keys', () => {
+    expect(toDateKey(new Date(2024, 0, 5))).toBe('2024-01-05');
+    expect(toDateKey(new Date(2024, 11, 31, 23, 59))).toBe('2024-12-31');
+  });
+
+  it('round-trips keys to the same local date', () => {
+    const key = '2024-02-29';
+    const date = fromDateKey(key);
+
+    expect(date.getFullYear()).toBe(2024);
+    expect(date.getMonth()).toBe(1);
+    expect(date.getDate()).toBe(29);
+    expect(toDateKey(date)).toBe(key);
+  });
+
+  it('produces the same keys for a rule however the range is split', () => {
+    const rule: RecurrenceRule = { frequency: 'biweekly', anchorDate: new Date(2024, 0, 12) };
+    const wholeYear = keys(getOccurrencesBetween(rule, new Date(2024, 0, 1), new Date(2024, 11, 31)));
+    const byMonth = Array.from({ length: 12 }, (_, i) => keys(getOccurrencesInMonth(rule, i + 1, 2024))).flat();
+
+    expect(byMonth).toEqual(wholeYear);
+    expect(new Set(wholeYear).size).toBe(wholeYear.length);
+  });
+
+  it('produces the same keys whatever time of day the anchor has', () => {
+    const at = (hours: number): RecurrenceRule => ({ frequency: 'monthly', anchorDate: new Date(2024, 0, 31, hours, 30) });
+
+    expect(keys(getOccurrencesInMonth(at(0), 2, 2024))).toEqual(keys(getOccurrencesInMonth(at(23), 2, 2024)));
+  });
+});
+
+describe('daysBetween', () => {
+  it('counts whole days across daylight saving changes', () => {
+    expect(daysBetween(new Date(2024, 2, 9), new Date(2024, 2, 11))).toBe(2);
+    expect(daysBetween(new Date(2024, 10, 4), new Date(2024, 10, 2))).toBe(-2);
+  });
+});
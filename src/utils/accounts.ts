@@ -0,0 +1,25 @@
+/**
+ * Account types and their display labels.
+ */
+
+export type AccountType = 'checking' | 'savings' | 'credit' | 'cash';
+
+// Labels for the supported account types, in display order
+export const accountTypeLabels: Record<AccountType, string> = {
+  checking: 'Checking',
+  savings: 'Savings',
+  credit: 'Credit Card',
+  cash: 'Cash'
+};
+
+// Credit accounts hold debt: their balance is what is owed, stored as a negative amount
+export const isLiabilityAccount = (type: AccountType): boolean => type === 'credit';
+
+// Where a transaction stands against the bank statement. Reconciled items are locked.
+export type ClearedStatus = 'uncleared' | 'cleared' | 'reconciled';
+
+export const clearedStatusLabels: Record<ClearedStatus, string> = {
+  uncleared: 'Uncleared',
+  cleared: 'Cleared',
+  reconciled: 'Reconciled'
+};
@@ -0,0 +1,210 @@
+/**
+ * Backup archives of everything a household owns, and reading them back in. Archives are plain
+ * JSON (see utils/dataExport for how records are written) with a schema version; archives
+ * from older versions are migrated forward before they are restored.
+ */
+
+import { DataExport, ExportRecord } from './dataExport';
+
+export const BACKUP_SCHEMA_VERSION = 3;
+
+// Every collection a household owns, in the order they are restored
+export const backupCollections = [
+  'userSettings',
+  'categories',
+  'accounts',
+  'exchangeRates',
+  'recurringSeries',
+  'income',
+  'expenses',
+  'transactions',
+  'transfers',
+  'reconciliations',
+  'budgetEnvelopes',
+  'monthlySummaries',
+  'importProfiles'
+] as const;
+
+export type BackupCollection = typeof backupCollections[number];
+
+export const backupCollectionLabels: Record<BackupCollection, string> = {
+  userSettings: 'Settings',
+  categories: 'Categories',
+  accounts: 'Accounts',
+  exchangeRates: 'Exchange Rates',
+  recurringSeries: 'Recurring Series',
+  income: 'Income',
+  expenses: 'Expenses',
+  transactions: 'Transactions',
+  transfers: 'Transfers',
+  reconciliations: 'Reconciliations',
+  budgetEnvelopes: 'Budget Envelopes',
+  monthlySummaries: 'Monthly Summaries',
+  importProfiles: 'Import Profiles'
+};
+
+export interface BackupArchive {
+  kind: 'budget-backup';
+  schemaVersion: number;
+  createdAt: string;      // ISO 8601
+  sourceHouseholdId: string;  // Household the backup was made from; IDs derived from it are rebased on restore
+  collections: Partial<Record<BackupCollection, ExportRecord[]>>;  // Missing collections are left alone on restore
+}
+
+// How a restore treats what is already stored
+export type RestoreMode = 'replace' | 'merge';
+
+// What a restore would do (or did) to one collection
+export interface RestoreCollectionReport {
+  collection: BackupCollection;
+  added: number;        // In the backup only
+  unchanged: number;    // Identical in both
+  conflicts: string[];  // IDs in both, with different contents
+  overwritten: number;  // Conflicts replaced with the backup's version
+  deleted: number;      // Stored but not in the backup (replace mode only)
+}
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  collections: RestoreCollectionReport[];
+}
+
+// Version 2 archives, made before households existed, as they were written
+type BackupArchiveV2 = Omit<BackupArchive, 'sourceHouseholdId'> & { sourceUserId: string };
+
+// Version 1 archives are the JSON data exports, which hold a date range of income, expenses,
+// transactions and monthly summaries and do not record their owner. Only those four
+// collections are restored from them.
+const migrateFromV1 = (archive: DataExport): BackupArchiveV2 => {
+  return {
+    kind: 'budget-backup',
+    schemaVersion: 2,
+    createdAt: archive.exportedAt,
+    sourceUserId: '',
+    collections: {
+      income: archive.income || [],
+      expenses: archive.expenses || [],
+      transactions: archive.transactions || [],
+      monthlySummaries: archive.monthlySummaries || []
+    }
+  };
+};
+
+// Version 2 archives were made by a user, whose own household now has their user ID as its ID
+const migrateFromV2 = (archive: BackupArchiveV2): BackupArchive => {
+  const { sourceUserId, ...rest } = archive;
+  return { ...rest, schemaVersion: 3, sourceHouseholdId: sourceUserId };
+};
+
+// Migrations from each schema version to the next
+const migrations: Record<number, (archive: never) => { schemaVersion: number }> = {
+  1: migrateFromV1,
+  2: migrateFromV2
+};
+
+// Parse and validate a backup file, migrating older archives to the current version
+export const readBackupArchive = (text: string): BackupArchive => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!parsed || typeof parsed !== 'object' || typeof (parsed as { schemaVersion?: unknown }).schemaVersion !== 'number') {
+    throw new Error('The file is not a backup: it has no schema version');
+  }
+
+  let archive = parsed as { schemaVersion: number };
+  if (archive.schemaVersion > BACKUP_SCHEMA_VERSION) {
+    throw new Error('This backup was made by a newer version of the app. Update the app and try again.');
+  }
+  while (archive.schemaVersion < BACKUP_SCHEMA_VERSION) {
+    const migrate = migrations[archive.schemaVersion];
+    if (!migrate) {
+      throw new Error(`Backups with schema version ${archive.schemaVersion} are not supported`);
+    }
+    archive = migrate(archive as never);
+  }
+
+  const backup = archive as BackupArchive;
+  if (!backup.collections || typeof backup.collections !== 'object') {
+    throw new Error('The backup has no collections');
+  }
+
+  backupCollections.forEach(name => {
+    const records = backup.collections[name];
+    if (records === undefined) return;
+    if (!Array.isArray(records) || records.some(record => !record || typeof record !== 'object' || typeof record.id !== 'string' || !record.id)) {
+      throw new Error(`The backup's ${backupCollectionLabels[name].toLowerCase()} are not valid`);
+    }
+  });
+
+  return backup;
+};
+
+// Replace the original household's ID in document IDs and references derived from it
+// (category IDs, exchange rate IDs, the settings document) with the new household's
+export const rebaseOwnerIds = <T>(value: T, fromHouseholdId: string, toHouseholdId: string): T => {
+  if (!fromHouseholdId || fromHouseholdId === toHouseholdId) return value;
+
+  if (typeof value === 'string') {
+    if (value === fromHouseholdId) return toHouseholdId as T;
+    return (value.startsWith(`${fromHouseholdId}_`) ? `${toHouseholdId}${value.slice(fromHouseholdId.length)}` : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => rebaseOwnerIds(item, fromHouseholdId, toHouseholdId)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, rebaseOwnerIds(item, fromHouseholdId, toHouseholdId)])
+    ) as T;
+  }
+  return value;
+};
+
+// Replace record IDs, wherever they appear as a value or an object key, with the IDs in the map
+export const remapIds = <T>(value: T, ids: Map<string, string>): T => {
+  if (ids.size === 0) return value;
+
+  if (typeof value === 'string') {
+    return (ids.get(value) ?? value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => remapIds(item, ids)) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [ids.get(key) ?? key, remapIds(item, ids)])
+    ) as T;
+  }
+  return value;
+};
+
+const ISO_TIMESTAMP = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+// Turn the ISO strings written by an export back into dates, at any depth
+export const reviveDates = (value: unknown): unknown => {
+  if (typeof value === 'string' && ISO_TIMESTAMP.test(value)) {
+    return new Date(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(reviveDates);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, reviveDates(item)]));
+  }
+  return value;
+};
+
+// Compare two records as JSON, ignoring key order
+export const recordsEqual = (a: unknown, b: unknown): boolean => {
+  const canonical = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(canonical);
+    if (value && typeof value === 'object') {
+      return Object.keys(value).sort().map(key => [key, canonical((value as Record<string, unknown>)[key])]);
+    }
+    return value;
+  };
+  return JSON.stringify(canonical(a)) === JSON.stringify(canonical(b));
+};
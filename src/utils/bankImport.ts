@@ -0,0 +1,257 @@
+/**
+ * Turning bank export files into transactions, and spotting ones already recorded.
+ * Parsed transactions are previewed before anything is written.
+ */
+
+import { isValid, parse } from 'date-fns';
+import { parseMoney } from './money';
+import { toDateKey } from './recurrence';
+
+// Details of the bank account a file was downloaded from
+export interface BankAccountInfo {
+  bankId?: string;         // Routing or sort code, when the file has one
+  accountNumber?: string;  // Masked to the last four digits
+  accountName?: string;    // QIF files name the account instead of numbering it
+  accountType?: string;    // As named in the file, e.g. CHECKING or CREDITCARD
+}
+
+// A transaction read from a bank file, before it is saved
+export interface ImportedTransaction {
+  row: number;           // Line in the file (or transaction number), for messages
+  date: Date;
+  description: string;
+  amount: number;        // Integer cents, always positive
+  type: 'income' | 'expense';
+  externalId?: string;   // The bank's own ID for the transaction (OFX FITID)
+  bankAccount?: BankAccountInfo;
+}
+
+// What is already recorded, for flagging duplicates in an import
+export interface ImportMatchData {
+  fingerprints: string[];  // See getTransactionFingerprint
+  externalKeys: string[];  // See getExternalKey
+}
+
+// Hide all but the last four characters of an account number
+export const maskAccountNumber = (accountNumber: string): string => {
+  const trimmed = accountNumber.trim();
+  return trimmed.length > 4 ? `••••${trimmed.slice(-4)}` : trimmed;
+};
+
+// 32-bit FNV-1a hash as hex, for short IDs derived from bank data
+const hashText = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+// Stable key for a transaction the bank identified, unique per bank account. Importing the
+// same file twice produces the same keys, so re-imports can be recognised.
+export const getExternalKey = (externalId: string, bankAccount?: BankAccountInfo): string => {
+  const account = bankAccount ? `${bankAccount.bankId || ''}|${bankAccount.accountNumber || ''}` : '';
+  return `${hashText(account)}${hashText(`${account}|${externalId}`)}`;
+};
+
+// Date layouts found in bank exports, with labels for the column mapping step
+export type CsvDateFormat = 'yyyy-MM-dd' | 'MM/dd/yyyy' | 'dd/MM/yyyy' | 'dd.MM.yyyy' | 'MM/dd/yy' | 'dd/MM/yy';
+
+export const csvDateFormats: Record<CsvDateFormat, string> = {
+  'yyyy-MM-dd': 'YYYY-MM-DD',
+  'MM/dd/yyyy': 'MM/DD/YYYY',
+  'dd/MM/yyyy': 'DD/MM/YYYY',
+  'dd.MM.yyyy': 'DD.MM.YYYY',
+  'MM/dd/yy': 'MM/DD/YY',
+  'dd/MM/yy': 'DD/MM/YY'
+};
+
+// Which CSV columns hold which fields. Columns are zero-based indexes; -1 means unmapped.
+export interface CsvColumnMapping {
+  hasHeader: boolean;
+  date: number;
+  description: number;
+  amountMode: 'single' | 'split';  // One signed amount column, or separate money out/in columns
+  amount: number;
+  debit: number;                   // Money out, when split
+  credit: number;                  // Money in, when split
+  dateFormat: CsvDateFormat;
+  decimalSeparator: '.' | ',';
+  invertAmounts: boolean;          // For exports that show money out as positive (common for credit cards)
+}
+
+// Find the first header matching any of the keywords
+const findColumn = (header: string[], keywords: string[]): number => {
+  const normalized = header.map(column => column.toLowerCase());
+  return normalized.findIndex(column => keywords.some(keyword => column.includes(keyword)));
+};
+
+// Guess a mapping from a header row and a sample of values
+export const guessCsvMapping = (header: string[], sample: string[] = []): CsvColumnMapping => {
+  const debit = findColumn(header, ['debit', 'withdrawal', 'money out', 'paid out']);
+  const credit = findColumn(header, ['credit', 'deposit', 'money in', 'paid in']);
+  const split = debit !== -1 && credit !== -1 && debit !== credit;
+  const date = findColumn(header, ['date']);
+
+  // Pick the first date layout that reads the sample date
+  const sampleDate = date !== -1 ? sample[date] || '' : '';
+  const dateFormat = (Object.keys(csvDateFormats) as CsvDateFormat[])
+    .find(format => parseBankDate(sampleDate, format) !== null) || 'MM/dd/yyyy';
+
+  return {
+    hasHeader: true,
+    date,
+    description: findColumn(header, ['description', 'payee', 'merchant', 'details', 'memo', 'narrative', 'name']),
+    amountMode: split ? 'split' : 'single',
+    amount: split ? -1 : findColumn(header, ['amount', 'value']),
+    debit: split ? debit : -1,
+    credit: split ? credit : -1,
+    dateFormat,
+    decimalSeparator: '.',
+    invertAmounts: false
+  };
+};
+
+// Parse a date as laid out by the bank, ignoring any time of day
+export const parseBankDate = (value: string, format: CsvDateFormat): Date | null => {
+  const text = value.trim().split(/[\sT]/)[0];
+  if (!text) return null;
+
+  const date = parse(text, format, new Date());
+  return isValid(date) && date.getFullYear() > 1900 ? date : null;
+};
+
+// Parse a bank amount into signed cents. Handles currency symbols, thousands separators,
+// parentheses or a leading or trailing minus for negatives, and CR/DR suffixes.
+export const parseBankAmount = (value: string, currency: string, decimalSeparator: '.' | ',' = '.'): number | null => {
+  let text = value.trim().toUpperCase();
+  if (!text) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1);
+  }
+  if (text.endsWith('DR')) {
+    negative = true;
+    text = text.slice(0, -2);
+  } else if (text.endsWith('CR')) {
+    text = text.slice(0, -2);
+  }
+  // A minus sign may come before or after the currency symbol, or after the number
+  if (text.includes('-')) {
+    negative = !negative;
+  }
+
+  const thousands = decimalSeparator === '.' ? ',' : '.';
+  text = text.replace(/[^\d.,]/g, '').split(thousands).join('');
+  if (decimalSeparator === ',') {
+    text = text.replace(',', '.');
+  }
+
+  try {
+    const cents = parseMoney(text, currency).cents;
+    return negative ? -cents : cents;
+  } catch {
+    return null;
+  }
+};
+
+// Read the rows of a CSV file through a column mapping. Money in becomes income and
+// money out an expense; rows that cannot be read are reported rather than guessed at.
+export const applyCsvMapping = (
+  rows: string[][],
+  mapping: CsvColumnMapping,
+  currency: string
+): { transactions: ImportedTransaction[]; errors: string[] } => {
+  const transactions: ImportedTransaction[] = [];
+  const errors: string[] = [];
+  const offset = mapping.hasHeader ? 1 : 0;
+
+  if (mapping.date === -1 || (mapping.amountMode === 'single' ? mapping.amount === -1 : mapping.debit === -1 && mapping.credit === -1)) {
+    return { transactions, errors: ['Choose the date and amount columns'] };
+  }
+
+  rows.slice(offset).forEach((fields, index) => {
+    const rowNumber = index + offset + 1;
+    const date = parseBankDate(fields[mapping.date] || '', mapping.dateFormat);
+    if (!date) {
+      errors.push(`Row ${rowNumber}: could not read the date "${fields[mapping.date] || ''}"`);
+      return;
+    }
+
+    let amount: number | null;
+    if (mapping.amountMode === 'single') {
+      amount = parseBankAmount(fields[mapping.amount] || '', currency, mapping.decimalSeparator);
+    } else {
+      const debit = mapping.debit !== -1 ? parseBankAmount(fields[mapping.debit] || '', currency, mapping.decimalSeparator) : null;
+      const credit = mapping.credit !== -1 ? parseBankAmount(fields[mapping.credit] || '', currency, mapping.decimalSeparator) : null;
+      amount = debit === null && credit === null ? null : (credit || 0) - Math.abs(debit || 0);
+    }
+
+    if (amount === null) {
+      errors.push(`Row ${rowNumber}: could not read the amount`);
+      return;
+    }
+    if (mapping.invertAmounts) {
+      amount = -amount;
+    }
+    if (amount === 0) {
+      return;
+    }
+
+    transactions.push({
+      row: rowNumber,
+      date,
+      description: (mapping.description !== -1 ? fields[mapping.description] : '') || 'Imported transaction',
+      amount: Math.abs(amount),
+      type: amount > 0 ? 'income' : 'expense'
+    });
+  });
+
+  return { transactions, errors };
+};
+
+// Identity of a transaction for duplicate detection: same day, direction, amount and description
+export const getTransactionFingerprint = (transaction: {
+  date: Date;
+  type: 'income' | 'expense';
+  amount: number;
+  description: string;
+}): string => {
+  const description = transaction.description.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+  return [toDateKey(transaction.date), transaction.type, transaction.amount, description].join('|');
+};
+
+// Flag the imported transactions that are already recorded. Transactions with a bank ID
+// match on that; the rest match on their fingerprint. Each existing record matches at most
+// one imported row, so two identical purchases on the same day are both kept when only
+// one of them has been recorded.
+export const flagDuplicates = (transactions: ImportedTransaction[], existing: ImportMatchData): boolean[] => {
+  const externalKeys = new Set(existing.externalKeys);
+  const remaining = new Map<string, number>();
+  existing.fingerprints.forEach(fingerprint => {
+    remaining.set(fingerprint, (remaining.get(fingerprint) || 0) + 1);
+  });
+
+  // Fingerprints of records matched by bank ID are used up first, so they cannot also
+  // claim a different transaction that happens to look the same
+  const fingerprints = transactions.map(getTransactionFingerprint);
+  const imported = transactions.map(transaction =>
+    transaction.externalId !== undefined && externalKeys.has(getExternalKey(transaction.externalId, transaction.bankAccount))
+  );
+  const useFingerprint = (fingerprint: string): boolean => {
+    const count = remaining.get(fingerprint) || 0;
+    if (count === 0) return false;
+
+    remaining.set(fingerprint, count - 1);
+    return true;
+  };
+
+  imported.forEach((match, index) => {
+    if (match) useFingerprint(fingerprints[index]);
+  });
+
+  return transactions.map((_, index) => imported[index] || useFingerprint(fingerprints[index]));
+};
@@ -0,0 +1,50 @@
+/**
+ * Shared helpers for the user-defined category taxonomy.
+ * Records reference categories by name, so names are compared in normalized form.
+ */
+
+export type CategoryKind = 'income' | 'expense';
+
+// Normalize a category name for matching ("  netflix " and "Netflix" are the same category)
+export const normalizeCategoryName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ').toLowerCase();
+};
+
+// Tidy a category name for display, keeping the user's capitalization
+export const cleanCategoryName = (name: string): string => {
+  return name.trim().replace(/\s+/g, ' ');
+};
+
+// Palette offered when picking a category color
+export const categoryColors = [
+  '#8884d8', '#82ca9d', '#ffc658', '#ff8042', '#0088FE',
+  '#00C49F', '#FFBB28', '#e57373', '#ba68c8', '#4db6ac',
+  '#90a4ae', '#a1887f'
+];
+
+// Fallback color for names that are not in the taxonomy
+export const uncategorizedColor = '#9e9e9e';
+
+interface DefaultCategory {
+  name: string;
+  kind: CategoryKind;
+  color: string;
+  icon: string;
+}
+
+// Categories every new user starts with
+export const defaultCategories: DefaultCategory[] = [
+  { name: 'Housing', kind: 'expense', color: '#8884d8', icon: 'home' },
+  { name: 'Food', kind: 'expense', color: '#82ca9d', icon: 'food' },
+  { name: 'Transportation', kind: 'expense', color: '#0088FE', icon: 'car' },
+  { name: 'Entertainment', kind: 'expense', color: '#ba68c8', icon: 'entertainment' },
+  { name: 'Utilities', kind: 'expense', color: '#ffc658', icon: 'utilities' },
+  { name: 'Healthcare', kind: 'expense', color: '#e57373', icon: 'health' },
+  { name: 'Subscriptions', kind: 'expense', color: '#ff8042', icon: 'subscription' },
+  { name: 'Other', kind: 'expense', color: '#90a4ae', icon: 'other' },
+  { name: 'Salary', kind: 'income', color: '#00C49F', icon: 'work' },
+  { name: 'Freelance', kind: 'income', color: '#4db6ac', icon: 'work' },
+  { name: 'Investments', kind: 'income', color: '#0088FE', icon: 'savings' },
+  { name: 'Gifts', kind: 'income', color: '#FFBB28', icon: 'gift' },
+  { name: 'Other', kind: 'income', color: '#90a4ae', icon: 'other' }
+];
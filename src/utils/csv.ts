@@ -0,0 +1,83 @@
+/**
+ * Minimal CSV reading and writing shared by the file importers and exports.
+ */
+
+// Split a CSV line, honouring double-quoted fields
+export const splitCsvLine = (line: string, delimiter: string = ','): string[] => {
+  const fields: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === delimiter && !quoted) {
+      fields.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+
+  fields.push(current.trim());
+  return fields;
+};
+
+// Split CSV text into its non-blank records, dropping a leading byte order mark. A line
+// break inside a double-quoted field is part of the field, so a record may span lines.
+export const getCsvLines = (text: string): string[] => {
+  const body = text.replace(/^\uFEFF/, '');
+  const lines: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < body.length; i++) {
+    const char = body[i];
+    if ((char === '\n' || char === '\r') && !quoted) {
+      if (char === '\r' && body[i + 1] === '\n') i++;
+      lines.push(current);
+      current = '';
+    } else {
+      // An escaped quote ("") flips the state twice, leaving it unchanged
+      if (char === '"') quoted = !quoted;
+      current += char;
+    }
+  }
+
+  lines.push(current);
+  return lines.filter(line => line.trim() !== '');
+};
+
+// Guess the delimiter from the first line; some banks export semicolon or tab separated files
+export const detectCsvDelimiter = (line: string): string => {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    splitCsvLine(line, candidate).length > splitCsvLine(line, best).length ? candidate : best
+  );
+};
+
+// Parse CSV text into rows of trimmed fields
+export const parseCsv = (text: string): string[][] => {
+  const lines = getCsvLines(text);
+  if (lines.length === 0) return [];
+
+  const delimiter = detectCsvDelimiter(lines[0]);
+  return lines.map(line => splitCsvLine(line, delimiter));
+};
+
+// Quote a field when it contains a delimiter, quote or line break
+const escapeCsvField = (value: string | number | boolean | null | undefined): string => {
+  const text = value === null || value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Build CSV text from a header row and data rows
+export const toCsv = (rows: (string | number | boolean | null | undefined)[][]): string => {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n');
+};
@@ -0,0 +1,139 @@
+/**
+ * Exchange-rate lookup and conversion to the user's base currency.
+ * Rates are maintained by the user (or imported from CSV); no live rate service is used.
+ */
+
+import { convertMoney, DEFAULT_CURRENCY, Money } from './money';
+import { getCsvLines, splitCsvLine } from './csv';
+import { daysBetween, fromDateKey } from './recurrence';
+
+// Currencies offered in pickers, in display order
+export const supportedCurrencies = ['USD', 'EUR', 'CAD', 'GBP', 'AUD', 'NZD', 'CHF', 'JPY', 'MXN', 'SEK', 'INR', 'CNY'];
+
+// A rate in effect from a date onwards: 1 unit of fromCurrency = rate units of toCurrency
+export interface ExchangeRateEntry {
+  fromCurrency: string;
+  toCurrency: string;
+  rate: number;
+  effectiveDate: Date;
+}
+
+// Currency of a stored record; records saved before currencies existed are in the default
+export const getRecordCurrency = (record: { currency?: string }): string => {
+  return record.currency || DEFAULT_CURRENCY;
+};
+
+// Rate to convert between two currencies on a date. Uses the latest rate effective on or
+// before the date, in either direction; dates before the first rate use the earliest rate.
+export const findExchangeRate = (
+  rates: ExchangeRateEntry[],
+  fromCurrency: string,
+  toCurrency: string,
+  date: Date
+): number | null => {
+  if (fromCurrency === toCurrency) return 1;
+
+  const candidates = rates
+    .map(entry => {
+      if (entry.fromCurrency === fromCurrency && entry.toCurrency === toCurrency) {
+        return { rate: entry.rate, effectiveDate: entry.effectiveDate };
+      }
+      if (entry.fromCurrency === toCurrency && entry.toCurrency === fromCurrency) {
+        return { rate: 1 / entry.rate, effectiveDate: entry.effectiveDate };
+      }
+      return null;
+    })
+    .filter((candidate): candidate is { rate: number; effectiveDate: Date } => candidate !== null && candidate.rate > 0)
+    .sort((a, b) => a.effectiveDate.getTime() - b.effectiveDate.getTime());
+
+  if (candidates.length === 0) return null;
+
+  let rate = candidates[0].rate;
+  for (const candidate of candidates) {
+    if (daysBetween(candidate.effectiveDate, date) >= 0) {
+      rate = candidate.rate;
+    }
+  }
+  return rate;
+};
+
+export interface CurrencyConverter {
+  baseCurrency: string;
+  // Convert an amount on a date; throws when no rate links the two currencies
+  convert: (value: Money, currency: string, date: Date) => Money;
+  toBase: (value: Money, date: Date) => Money;
+  canConvert: (fromCurrency: string, toCurrency?: string) => boolean;
+}
+
+// Build a converter over a set of rates. Pairs without a direct rate are converted
+// through the base currency.
+export const createCurrencyConverter = (baseCurrency: string, rates: ExchangeRateEntry[]): CurrencyConverter => {
+  const getRate = (fromCurrency: string, toCurrency: string, date: Date): number | null => {
+    const direct = findExchangeRate(rates, fromCurrency, toCurrency, date);
+    if (direct !== null) return direct;
+
+    const toBaseRate = findExchangeRate(rates, fromCurrency, baseCurrency, date);
+    const fromBaseRate = findExchangeRate(rates, baseCurrency, toCurrency, date);
+    return toBaseRate !== null && fromBaseRate !== null ? toBaseRate * fromBaseRate : null;
+  };
+
+  const convert = (value: Money, currency: string, date: Date): Money => {
+    const rate = getRate(value.currency, currency, date);
+    if (rate === null) {
+      throw new Error(`No exchange rate from ${value.currency} to ${currency}. Add one in Settings.`);
+    }
+    return convertMoney(value, rate, currency);
+  };
+
+  return {
+    baseCurrency,
+    convert,
+    toBase: (value, date) => convert(value, baseCurrency, date),
+    canConvert: (fromCurrency, toCurrency = baseCurrency) => getRate(fromCurrency, toCurrency, new Date()) !== null
+  };
+};
+
+// Parse exchange rates from CSV text with a header row of date, from, to and rate
+// (e.g. "2024-01-01,EUR,USD,1.0950"). Invalid rows are reported rather than imported.
+export const parseExchangeRateCsv = (text: string): { rates: ExchangeRateEntry[]; errors: string[] } => {
+  const lines = getCsvLines(text);
+  const rates: ExchangeRateEntry[] = [];
+  const errors: string[] = [];
+
+  if (lines.length === 0) {
+    return { rates, errors: ['The file is empty'] };
+  }
+
+  const header = splitCsvLine(lines[0]).map(column => column.toLowerCase());
+  const columns = {
+    date: header.indexOf('date'),
+    from: header.indexOf('from'),
+    to: header.indexOf('to'),
+    rate: header.indexOf('rate')
+  };
+
+  if (Object.values(columns).some(index => index === -1)) {
+    return { rates, errors: ['The header row must contain date, from, to and rate columns'] };
+  }
+
+  lines.slice(1).forEach((line, index) => {
+    const fields = splitCsvLine(line);
+    const rowNumber = index + 2;
+    const dateKey = fields[columns.date] || '';
+    const fromCurrency = (fields[columns.from] || '').toUpperCase();
+    const toCurrency = (fields[columns.to] || '').toUpperCase();
+    const rate = Number(fields[columns.rate]);
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(dateKey)) {
+      errors.push(`Row ${rowNumber}: date must be in YYYY-MM-DD format`);
+    } else if (!/^[A-Z]{3}$/.test(fromCurrency) || !/^[A-Z]{3}$/.test(toCurrency) || fromCurrency === toCurrency) {
+      errors.push(`Row ${rowNumber}: from and to must be two different 3-letter currency codes`);
+    } else if (!Number.isFinite(rate) || rate <= 0) {
+      errors.push(`Row ${rowNumber}: rate must be a positive number`);
+    } else {
+      rates.push({ fromCurrency, toCurrency, rate, effectiveDate: fromDateKey(dateKey) });
+    }
+  });
+
+  return { rates, errors };
+};
@@ -0,0 +1,120 @@
+/**
+ * Export format for the user's data. The JSON document carries a schema version so that
+ * later versions of the app can read older exports back in.
+ */
+
+import { toCsv } from './csv';
+import { DEFAULT_CURRENCY, money, toInputValue } from './money';
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export type ExportEntity = 'income' | 'expenses' | 'transactions' | 'monthlySummaries';
+
+export const exportEntityLabels: Record<ExportEntity, string> = {
+  income: 'Income',
+  expenses: 'Expenses',
+  transactions: 'Transactions',
+  monthlySummaries: 'Monthly Summaries'
+};
+
+// A stored record as plain JSON: timestamps are ISO 8601 strings and amounts stay in integer cents
+export type ExportRecord = { id: string } & Record<string, unknown>;
+
+export interface DataExport {
+  schemaVersion: number;
+  exportedAt: string;                     // ISO 8601
+  range: { start: string; end: string };  // Inclusive, as YYYY-MM-DD
+  baseCurrency: string;
+  income: ExportRecord[];
+  expenses: ExportRecord[];
+  transactions: ExportRecord[];
+  monthlySummaries: ExportRecord[];
+}
+
+// Convert Firestore Timestamps and Dates, at any depth, to ISO strings
+export const toExportValue = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (value && typeof value === 'object' && 'toDate' in value && typeof value.toDate === 'function') {
+    return (value.toDate() as Date).toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toExportValue);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toExportValue(item)]));
+  }
+  return value;
+};
+
+type CsvValue = string | number | boolean | null | undefined;
+
+interface CsvColumn {
+  header: string;
+  value: (record: ExportRecord) => CsvValue;
+}
+
+// Read a field as a CSV value; nested values are written as JSON
+const field = (name: string) => (record: ExportRecord): CsvValue => {
+  const value = record[name];
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : value as CsvValue;
+};
+
+// Amount fields in major units ("12.30") so spreadsheets can total them
+const amountField = (name: string, currencyField: string = 'currency') => (record: ExportRecord): CsvValue => {
+  const cents = record[name];
+  if (typeof cents !== 'number') return '';
+  return toInputValue(money(cents, (record[currencyField] as string) || DEFAULT_CURRENCY));
+};
+
+const column = (header: string, value: CsvColumn['value'] = field(header)): CsvColumn => ({ header, value });
+
+const csvColumns: Record<ExportEntity, CsvColumn[]> = {
+  income: [
+    column('id'), column('year'), column('month'), column('source'), column('description'),
+    column('amount', amountField('amount')), column('currency'), column('expectedDate'), column('isPaid'),
+    column('recurring'), column('frequency'), column('accountId'), column('seriesId'), column('createdAt')
+  ],
+  expenses: [
+    column('id'), column('year'), column('month'), column('category'), column('subcategory'), column('description'),
+    column('amount', amountField('amount')), column('actualAmount', amountField('actualAmount')), column('currency'),
+    column('dueDate'), column('isPaid'), column('recurring'), column('frequency'), column('accountId'),
+    column('seriesId'), column('createdAt')
+  ],
+  transactions: [
+    column('id'), column('date'), column('type'), column('description'), column('category'), column('subcategory'),
+    column('amount', amountField('amount')), column('currency'), column('accountId'), column('status'),
+    column('expenseId'), column('incomeId'), column('externalId'), column('createdAt')
+  ],
+  monthlySummaries: [
+    column('year'), column('month'), column('currency'),
+    column('totalIncome', amountField('totalIncome')),
+    column('totalFixedExpenses', amountField('totalFixedExpenses')),
+    column('totalVariableExpenses', amountField('totalVariableExpenses')),
+    column('totalSubscriptions', amountField('totalSubscriptions')),
+    column('balance', amountField('balance')),
+    column('createdAt')
+  ]
+};
+
+// CSV for one kind of record, with amounts in major units of each record's currency
+export const toEntityCsv = (entity: ExportEntity, records: ExportRecord[]): string => {
+  const columns = csvColumns[entity];
+  return toCsv([
+    columns.map(item => item.header),
+    ...records.map(record => columns.map(item => item.value(record)))
+  ]);
+};
+
+// Save text as a file in the browser
+export const downloadFile = (fileName: string, content: string, type: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,198 @@
+/**
+ * Cash-flow forecast. Projects a daily balance from recurring income and expenses plus an
+ * optional average daily spend, and finds the low points the balance dips to.
+ */
+
+import { getOccurrencesBetween, RecurrenceRule, toDateKey } from './recurrence';
+
+export const MIN_FORECAST_MONTHS = 3;
+export const MAX_FORECAST_MONTHS = 12;
+
+// A recurring income or expense to project. Amounts are integer cents in the forecast's currency.
+export interface ForecastItem {
+  id: string;
+  label: string;
+  kind: 'income' | 'expense';
+  rule: RecurrenceRule;
+  amountOn: (date: Date) => number;  // Amount of the occurrence on a date
+  skippedDates?: string[];           // Occurrence keys (YYYY-MM-DD) that won't happen
+}
+
+// Average spending in a category that isn't scheduled as a recurring expense
+export interface VariableSpend {
+  category: string;
+  dailyAmount: number;  // Cents per day; may be fractional, and is rounded as it accumulates
+}
+
+// Money moving in or out on a projected day
+export interface ForecastEntry {
+  itemId: string;  // The forecast item, or the category for variable spend
+  label: string;
+  kind: 'income' | 'expense' | 'variable';
+  amount: number;  // Integer cents; negative for money going out
+}
+
+export interface ForecastDay {
+  date: Date;
+  dateKey: string;
+  balance: number;  // End-of-day balance in integer cents
+  entries: ForecastEntry[];
+}
+
+// The bottom of a dip in the projected balance
+export interface ForecastLowPoint {
+  date: Date;
+  dateKey: string;
+  balance: number;
+  drop: number;              // How far the balance fell from the peak before the dip
+  causes: ForecastEntry[];   // Money out during the dip, largest first, totalled per item
+}
+
+// A recurring item whose end date falls inside the forecast, so nothing is projected after it
+export interface ForecastItemEnd {
+  itemId: string;
+  label: string;
+  kind: 'income' | 'expense';
+  endDate: Date;
+}
+
+export interface CashFlowForecast {
+  startingBalance: number;
+  days: ForecastDay[];
+  lowPoints: ForecastLowPoint[];  // The lowest dip in each month, oldest first
+  lowestBalance: number;
+  endingBalance: number;
+  endingItems: ForecastItemEnd[];  // Soonest first
+}
+
+export interface ForecastOptions {
+  startDate: Date;          // First day projected
+  months: number;           // Clamped to MIN_FORECAST_MONTHS-MAX_FORECAST_MONTHS
+  startingBalance: number;  // Balance before the first day's entries
+  items: ForecastItem[];
+  variableSpend?: VariableSpend[];
+}
+
+// Total the money going out over a stretch of days per item, largest first
+const getDipCauses = (days: ForecastDay[]): ForecastEntry[] => {
+  const totals = new Map<string, ForecastEntry>();
+  for (const day of days) {
+    for (const entry of day.entries) {
+      if (entry.amount >= 0) continue;
+
+      const key = `${entry.kind}:${entry.itemId}`;
+      const total = totals.get(key);
+      totals.set(key, total ? { ...total, amount: total.amount + entry.amount } : { ...entry });
+    }
+  }
+  return Array.from(totals.values()).sort((a, b) => a.amount - b.amount);
+};
+
+// Find the bottom of every dip: a day the balance falls to before it next rises. Each dip
+// runs from the highest balance since the previous bottom, and only the lowest dip in each
+// month is kept so a weekly paycheck doesn't mark every week.
+const findLowPoints = (days: ForecastDay[], startingBalance: number): ForecastLowPoint[] => {
+  const lowestByMonth = new Map<string, ForecastLowPoint>();
+  let previousBottom = -1;
+
+  for (let i = 0; i < days.length - 1; i++) {
+    const before = i === 0 ? startingBalance : days[i - 1].balance;
+    const isBottom = days[i].balance <= before && days[i + 1].balance > days[i].balance;
+    if (!isBottom) continue;
+
+    // The peak is the highest balance after the previous bottom, or the starting balance
+    let peakIndex = previousBottom;
+    let peak = previousBottom < 0 ? startingBalance : days[previousBottom].balance;
+    for (let j = previousBottom + 1; j < i; j++) {
+      if (days[j].balance >= peak) {
+        peak = days[j].balance;
+        peakIndex = j;
+      }
+    }
+    previousBottom = i;
+
+    const drop = peak - days[i].balance;
+    if (drop <= 0) continue;
+
+    const lowPoint: ForecastLowPoint = {
+      date: days[i].date,
+      dateKey: days[i].dateKey,
+      balance: days[i].balance,
+      drop,
+      causes: getDipCauses(days.slice(peakIndex + 1, i + 1))
+    };
+    const monthKey = days[i].dateKey.slice(0, 7);
+    const lowest = lowestByMonth.get(monthKey);
+    if (!lowest || lowPoint.balance < lowest.balance) {
+      lowestByMonth.set(monthKey, lowPoint);
+    }
+  }
+
+  return Array.from(lowestByMonth.values()).sort((a, b) => a.dateKey.localeCompare(b.dateKey));
+};
+
+// Project the balance for each day from the start date through the given number of months
+export const buildCashFlowForecast = (options: ForecastOptions): CashFlowForecast => {
+  const { startDate, startingBalance, items, variableSpend = [] } = options;
+  const months = Math.min(MAX_FORECAST_MONTHS, Math.max(MIN_FORECAST_MONTHS, Math.round(options.months)));
+  const start = new Date(startDate.getFullYear(), startDate.getMonth(), startDate.getDate());
+  const end = new Date(start.getFullYear(), start.getMonth() + months, start.getDate() - 1);
+
+  // Scheduled entries for each day
+  const scheduled = new Map<string, ForecastEntry[]>();
+  for (const item of items) {
+    for (const date of getOccurrencesBetween(item.rule, start, end)) {
+      const dateKey = toDateKey(date);
+      if (item.skippedDates?.includes(dateKey)) continue;
+
+      const amount = item.amountOn(date);
+      if (amount === 0) continue;
+
+      const entries = scheduled.get(dateKey) || [];
+      entries.push({
+        itemId: item.id,
+        label: item.label,
+        kind: item.kind,
+        amount: item.kind === 'income' ? amount : -amount
+      });
+      scheduled.set(dateKey, entries);
+    }
+  }
+
+  const days: ForecastDay[] = [];
+  let balance = startingBalance;
+
+  for (let dayNumber = 1; ; dayNumber++) {
+    const date = new Date(start.getFullYear(), start.getMonth(), start.getDate() + dayNumber - 1);
+    if (date > end) break;
+
+    const dateKey = toDateKey(date);
+    const entries = [...(scheduled.get(dateKey) || [])];
+
+    // Round the running total rather than each day's share, so fractions of a cent don't add up
+    for (const spend of variableSpend) {
+      const amount = Math.round(spend.dailyAmount * dayNumber) - Math.round(spend.dailyAmount * (dayNumber - 1));
+      if (amount !== 0) {
+        entries.push({ itemId: spend.category, label: spend.category, kind: 'variable', amount: -amount });
+      }
+    }
+
+    balance += entries.reduce((sum, entry) => sum + entry.amount, 0);
+    days.push({ date, dateKey, balance, entries });
+  }
+
+  // An item ending on the last day still has all of its occurrences in the forecast
+  const endingItems = items
+    .filter(item => item.rule.endDate && item.rule.endDate >= start && item.rule.endDate < end)
+    .map(item => ({ itemId: item.id, label: item.label, kind: item.kind, endDate: item.rule.endDate! }))
+    .sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+
+  return {
+    startingBalance,
+    days,
+    lowPoints: findLowPoints(days, startingBalance),
+    lowestBalance: days.reduce((lowest, day) => Math.min(lowest, day.balance), startingBalance),
+    endingBalance: days.length > 0 ? days[days.length - 1].balance : startingBalance,
+    endingItems
+  };
+};
@@ -0,0 +1,28 @@
+/**
+ * Household roles and invitation helpers.
+ */
+
+// What a member may do in a household. Owners manage members; editors change records;
+// viewers can only look.
+export type HouseholdRole = 'owner' | 'editor' | 'viewer';
+
+export const householdRoleLabels: Record<HouseholdRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer'
+};
+
+// Roles an owner can give to someone they invite; each household has a single owner
+export const invitableRoles: Exclude<HouseholdRole, 'owner'>[] = ['editor', 'viewer'];
+
+export type HouseholdInviteStatus = 'pending' | 'accepted' | 'declined' | 'revoked';
+
+// Check whether a role may add, change or delete records
+export const canEditHousehold = (role: HouseholdRole | null | undefined): boolean => {
+  return role === 'owner' || role === 'editor';
+};
+
+// Invitations are matched to accounts by email, regardless of case and spacing
+export const normalizeEmail = (email: string): string => email.trim().toLowerCase();
+
+export const isValidEmail = (email: string): boolean => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim());
@@ -0,0 +1,140 @@
+/**
+ * Money value type backed by integer minor units (cents for USD).
+ * Amounts are stored and added as integers so totals never drift by fractions of a cent.
+ */
+
+export interface Money {
+  cents: number;     // Integer amount in the currency's minor unit
+  currency: string;  // ISO 4217 code, e.g. "USD"
+}
+
+export const DEFAULT_CURRENCY = 'USD';
+
+// Number of minor-unit digits for a currency (2 for USD, 0 for JPY)
+export const getMinorUnitDigits = (currency: string): number => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+};
+
+// Create a money value from integer minor units
+export const money = (cents: number, currency: string = DEFAULT_CURRENCY): Money => {
+  if (!Number.isInteger(cents)) {
+    throw new Error(`Money must be a whole number of minor units, got ${cents}`);
+  }
+  return { cents, currency };
+};
+
+// Parse a major-unit amount typed by the user ("12.34") without floating point rounding
+export const parseMoney = (value: string | number, currency: string = DEFAULT_CURRENCY): Money => {
+  const digits = getMinorUnitDigits(currency);
+  const text = typeof value === 'number' ? value.toFixed(digits) : value.trim();
+  const match = /^(-)?(\d*)(?:\.(\d*))?$/.exec(text);
+  if (!match || (!match[2] && !match[3])) {
+    throw new Error(`Invalid amount: ${value}`);
+  }
+
+  const [, sign, whole, fraction = ''] = match;
+  const padded = (fraction + '0'.repeat(digits)).slice(0, digits);
+  let cents = Number(whole || '0') * 10 ** digits + Number(padded || '0');
+
+  // Round half up on any digits beyond the minor unit
+  if (fraction.length > digits && Number(fraction[digits]) >= 5) {
+    cents += 1;
+  }
+
+  return money(sign ? -cents : cents, currency);
+};
+
+// Convert float major units from legacy data to minor units
+export const fromMajorUnits = (value: number, currency: string = DEFAULT_CURRENCY): Money => {
+  return money(Math.round(value * 10 ** getMinorUnitDigits(currency)), currency);
+};
+
+// Major-unit number, for charts and numeric inputs only (never for arithmetic)
+export const toMajorUnits = (value: Money): number => {
+  return value.cents / 10 ** getMinorUnitDigits(value.currency);
+};
+
+// Major-unit string for editing in a form field ("12.30")
+export const toInputValue = (value: Money): string => {
+  return toMajorUnits(value).toFixed(getMinorUnitDigits(value.currency));
+};
+
+// Convert to another currency at the given rate (units of the target per unit of the source),
+// rounding once to the target's minor unit
+export const convertMoney = (value: Money, rate: number, currency: string): Money => {
+  if (value.currency === currency) return value;
+  return fromMajorUnits(toMajorUnits(value) * rate, currency);
+};
+
+const assertSameCurrency = (a: Money, b: Money) => {
+  if (a.currency !== b.currency) {
+    throw new Error(`Cannot combine ${a.currency} and ${b.currency} amounts`);
+  }
+};
+
+export const addMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return money(a.cents + b.cents, a.currency);
+};
+
+export const subtractMoney = (a: Money, b: Money): Money => {
+  assertSameCurrency(a, b);
+  return money(a.cents - b.cents, a.currency);
+};
+
+// Sum a list of amounts; an empty list sums to zero in the given currency
+export const sumMoney = (values: Money[], currency: string = DEFAULT_CURRENCY): Money => {
+  return values.reduce(addMoney, money(0, currency));
+};
+
+// Split an amount in proportion to the given ratios. Every cent is allocated: the
+// leftover cents after rounding down go to the shares with the largest remainders.
+export const allocateMoney = (value: Money, ratios: number[]): Money[] => {
+  const totalRatio = ratios.reduce((sum, ratio) => sum + ratio, 0);
+  if (ratios.length === 0 || totalRatio <= 0 || ratios.some(ratio => ratio < 0)) {
+    throw new Error('Ratios must be non-negative and sum to more than zero');
+  }
+
+  const sign = value.cents < 0 ? -1 : 1;
+  const total = Math.abs(value.cents);
+  const exact = ratios.map(ratio => (total * ratio) / totalRatio);
+  const shares = exact.map(Math.floor);
+  let leftover = total - shares.reduce((sum, share) => sum + share, 0);
+
+  const byRemainder = exact
+    .map((share, index) => ({ index, remainder: share - Math.floor(share) }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+
+  for (const { index } of byRemainder) {
+    if (leftover === 0) break;
+    shares[index] += 1;
+    leftover -= 1;
+  }
+
+  return shares.map(share => money(sign * share, value.currency));
+};
+
+// Split an amount by percentages that add up to 100
+export const splitByPercentages = (value: Money, percentages: number[]): Money[] => {
+  const total = percentages.reduce((sum, percentage) => sum + percentage, 0);
+  if (Math.abs(total - 100) > 1e-9) {
+    throw new Error(`Percentages must add up to 100, got ${total}`);
+  }
+  return allocateMoney(value, percentages);
+};
+
+// Currency symbol for input adornments, e.g. "$" or "€"
+export const getCurrencySymbol = (currency: string, locale: string = 'en-US'): string => {
+  const parts = new Intl.NumberFormat(locale, { style: 'currency', currency }).formatToParts(0);
+  return parts.find(part => part.type === 'currency')?.value || currency;
+};
+
+// Format for display, e.g. "$1,234.50"
+export const formatMoney = (value: Money, locale: string = 'en-US'): string => {
+  const digits = getMinorUnitDigits(value.currency);
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: value.currency,
+    minimumFractionDigits: digits
+  }).format(toMajorUnits(value));
+};
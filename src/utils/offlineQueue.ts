@@ -0,0 +1,109 @@
+/**
+ * Queue of record changes made while offline. Changes are kept in IndexedDB so they survive a
+ * reload or a closed tab, and are written to Firestore once the device is back online.
+ */
+
+const DB_NAME = 'budget-offline';
+const DB_VERSION = 1;
+const STORE_NAME = 'writes';
+
+// Fired on window whenever the queue changes, so the pending-sync badge can update
+export const QUEUE_CHANGE_EVENT = 'offline-queue-change';
+
+// Background Sync tag. When it fires, the service worker asks open pages to replay the queue,
+// since only a page has the signed-in Firebase client to write with.
+export const SYNC_TAG = 'replay-writes';
+export const REPLAY_MESSAGE = 'replay-writes';
+
+export type QueuedRecordKind = 'income' | 'expense';
+
+export type QueuedWrite = {
+  id?: number;          // Assigned by IndexedDB; changes are replayed in this order
+  userId: string;       // Only replayed for the user who made the change
+  householdId: string;
+  kind: QueuedRecordKind;
+  recordId: string;     // New records get their ID when queued, so replaying twice is harmless
+  queuedAt: number;
+  failedAt?: number;    // Set when Firestore rejected the change; it waits for the user to retry or discard it
+  failure?: string;     // Why it was rejected
+} & (
+  | { action: 'save'; isNew: boolean; record: Record<string, unknown> }
+  | { action: 'delete'; deletionId: string }
+);
+
+// Whether the browser knows it has no connection
+export const isOffline = (): boolean => {
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+};
+
+const openQueue = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run one request against the queue store, resolving once its transaction has finished
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openQueue();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = run(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+const notifyQueueChange = (): void => {
+  window.dispatchEvent(new Event(QUEUE_CHANGE_EVENT));
+};
+
+// Ask the service worker to fire a sync when the connection comes back. Browsers without
+// Background Sync replay when the page sees the `online` event instead.
+const requestBackgroundSync = async (): Promise<void> => {
+  if (!('serviceWorker' in navigator)) return;
+
+  try {
+    const registration = await navigator.serviceWorker.ready as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    };
+    await registration.sync?.register(SYNC_TAG);
+  } catch (error) {
+    console.warn('Background Sync is not available:', error);
+  }
+};
+
+export const queueWrite = async (write: QueuedWrite): Promise<void> => {
+  await withStore('readwrite', store => store.add(write));
+  notifyQueueChange();
+  requestBackgroundSync();
+};
+
+// The changes waiting to be written for a user, oldest first. Browsers without IndexedDB
+// have nothing queued.
+export const getQueuedWrites = async (userId: string): Promise<QueuedWrite[]> => {
+  if (typeof indexedDB === 'undefined') return [];
+
+  const writes = await withStore<QueuedWrite[]>('readonly', store => store.getAll());
+  return writes.filter(write => write.userId === userId);
+};
+
+// Replace a queued change, e.g. to record that it failed
+export const updateQueuedWrite = async (write: QueuedWrite): Promise<void> => {
+  await withStore('readwrite', store => store.put(write));
+  notifyQueueChange();
+};
+
+export const removeQueuedWrite = async (id: number): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+  notifyQueueChange();
+};
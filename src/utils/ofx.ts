@@ -0,0 +1,139 @@
+/**
+ * Reader for OFX and QFX bank downloads: SGML-style OFX 1.x, where leaf elements are
+ * usually left unclosed, and XML OFX 2.x. Only statement transactions are read.
+ */
+
+import { BankAccountInfo, ImportedTransaction, maskAccountNumber, parseBankAmount } from './bankImport';
+import { DEFAULT_CURRENCY } from './money';
+
+export interface OfxStatement {
+  bankAccount?: BankAccountInfo;
+  currency: string;  // From CURDEF
+  transactions: ImportedTransaction[];
+}
+
+// Whether text looks like an OFX or QFX file
+export const isOfx = (text: string): boolean => {
+  return /OFXHEADER|<OFX>/i.test(text.slice(0, 2000));
+};
+
+// Value of the first leaf element with the given tag. Works for both dialects, since a
+// leaf's value runs up to the next tag whether or not that tag closes the element.
+const getTagValue = (block: string, tag: string): string | undefined => {
+  const match = new RegExp(`<${tag}>([^<]*)`, 'i').exec(block);
+  if (!match) return undefined;
+
+  const value = decodeEntities(match[1].trim());
+  return value || undefined;
+};
+
+// Every aggregate with the given tag, e.g. each STMTTRN in a transaction list. SGML files
+// may omit closing tags, so an aggregate also ends where the next one starts.
+const getBlocks = (text: string, tag: string): string[] => {
+  const blocks: string[] = [];
+  const pattern = new RegExp(`<${tag}>([\\s\\S]*?)(?=</${tag}>|<${tag}>|$)`, 'gi');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    blocks.push(match[1]);
+  }
+  return blocks;
+};
+
+const decodeEntities = (value: string): string => {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&');
+};
+
+// Parse an OFX date (YYYYMMDD, optionally followed by a time and time zone). The bank's
+// calendar date is kept as is rather than shifted into the local time zone.
+export const parseOfxDate = (value: string): Date | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})/.exec(value.trim());
+  if (!match) return null;
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Read the account a statement belongs to
+const getBankAccount = (statement: string): BankAccountInfo | undefined => {
+  const [bankFrom] = getBlocks(statement, 'BANKACCTFROM');
+  const [cardFrom] = getBlocks(statement, 'CCACCTFROM');
+  const accountBlock = bankFrom || cardFrom;
+  const accountNumber = accountBlock ? getTagValue(accountBlock, 'ACCTID') : undefined;
+  if (!accountBlock || !accountNumber) return undefined;
+
+  // Missing parts are left out rather than undefined, since the details are stored as they are
+  const bankId = getTagValue(accountBlock, 'BANKID');
+  const accountType = bankFrom ? getTagValue(accountBlock, 'ACCTTYPE') : 'CREDITCARD';
+  return {
+    ...(bankId ? { bankId } : {}),
+    accountNumber: maskAccountNumber(accountNumber),
+    ...(accountType ? { accountType } : {})
+  };
+};
+
+// Parse the statements in an OFX or QFX file. Bank and credit card statements are both read;
+// amounts are signed from the account holder's point of view, so negatives are money out.
+export const parseOfx = (text: string): { statements: OfxStatement[]; errors: string[] } => {
+  const errors: string[] = [];
+  const start = text.search(/<OFX>/i);
+  if (start === -1) {
+    return { statements: [], errors: ['This does not look like an OFX file'] };
+  }
+
+  const body = text.slice(start);
+  const statementBlocks = [...getBlocks(body, 'STMTRS'), ...getBlocks(body, 'CCSTMTRS')];
+  if (statementBlocks.length === 0) {
+    return { statements: [], errors: ['The file has no bank or credit card statements'] };
+  }
+
+  let transactionNumber = 0;
+  const statements = statementBlocks.map(statement => {
+    const currency = (getTagValue(statement, 'CURDEF') || DEFAULT_CURRENCY).toUpperCase();
+    const bankAccount = getBankAccount(statement);
+    const transactions: ImportedTransaction[] = [];
+
+    getBlocks(statement, 'STMTTRN').forEach(block => {
+      transactionNumber += 1;
+      const date = parseOfxDate(getTagValue(block, 'DTPOSTED') || '');
+      const rawAmount = getTagValue(block, 'TRNAMT') || '';
+      // Some banks write the decimal point as a comma
+      const amount = parseBankAmount(rawAmount, currency, rawAmount.includes(',') && !rawAmount.includes('.') ? ',' : '.');
+
+      if (!date) {
+        errors.push(`Transaction ${transactionNumber}: could not read the date`);
+        return;
+      }
+      if (amount === null) {
+        errors.push(`Transaction ${transactionNumber}: could not read the amount`);
+        return;
+      }
+      if (amount === 0) {
+        return;
+      }
+
+      const name = getTagValue(block, 'NAME');
+      const memo = getTagValue(block, 'MEMO');
+
+      transactions.push({
+        row: transactionNumber,
+        date,
+        description: name || memo || getTagValue(block, 'TRNTYPE') || 'Imported transaction',
+        amount: Math.abs(amount),
+        type: amount > 0 ? 'income' : 'expense',
+        externalId: getTagValue(block, 'FITID'),
+        bankAccount
+      });
+    });
+
+    return { bankAccount, currency, transactions };
+  });
+
+  return { statements, errors };
+};
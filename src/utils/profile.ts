@@ -0,0 +1,16 @@
+/**
+ * Helpers for showing a user's profile.
+ */
+
+// Initials for a user's avatar: the first letters of their first and last names, or the first
+// letter of their email address when they haven't set a name
+export const getInitials = (displayName: string | null | undefined, email: string | null | undefined): string => {
+  const names = (displayName || '').trim().split(/\s+/).filter(Boolean);
+  if (names.length === 0) {
+    return (email?.[0] || '?').toUpperCase();
+  }
+  
+  const first = names[0][0];
+  const last = names.length > 1 ? names[names.length - 1][0] : '';
+  return `${first}${last}`.toUpperCase();
+};
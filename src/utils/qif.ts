@@ -0,0 +1,114 @@
+/**
+ * Reader for QIF (Quicken Interchange Format) bank downloads. QIF has no transaction IDs,
+ * so re-imports are recognised by fingerprint only.
+ */
+
+import { BankAccountInfo, ImportedTransaction, parseBankAmount } from './bankImport';
+
+// Whether text looks like a QIF file
+export const isQif = (text: string): boolean => {
+  return /^\s*!(Type|Account|Option)/i.test(text);
+};
+
+// Parse a QIF date. Quicken writes dates like 1/25/24, 1/25'24 or 01/25/2024; some banks
+// put the day first, and a few use ISO dates.
+export const parseQifDate = (value: string, dayFirst: boolean = false): Date | null => {
+  const parts = value.trim().replace(/'/g, '/').replace(/\s/g, '').split(/[/.-]/).map(Number);
+  if (parts.length !== 3 || parts.some(part => isNaN(part))) return null;
+
+  let year: number, month: number, day: number;
+  if (/^\d{4}/.test(value.trim())) {
+    [year, month, day] = parts;
+  } else {
+    [month, day, year] = dayFirst ? [parts[1], parts[0], parts[2]] : parts;
+  }
+
+  // Two-digit years: 00-49 are this century, 50-99 the last one
+  if (year < 100) {
+    year += year < 50 ? 2000 : 1900;
+  }
+
+  const date = new Date(year, month - 1, day);
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : null;
+};
+
+// Parse the transactions in a QIF file. Only bank, cash and credit card sections are read;
+// investment and memorised-transaction sections are skipped.
+export const parseQif = (
+  text: string,
+  currency: string,
+  dayFirst: boolean = false
+): { transactions: ImportedTransaction[]; bankAccount?: BankAccountInfo; errors: string[] } => {
+  const transactions: ImportedTransaction[] = [];
+  const errors: string[] = [];
+  let bankAccount: BankAccountInfo | undefined;
+  let section = '';
+  let fields: Record<string, string> = {};
+  let recordNumber = 0;
+
+  const finishRecord = () => {
+    if (Object.keys(fields).length === 0) return;
+
+    if (section === 'account') {
+      if (fields.N) {
+        bankAccount = { accountName: fields.N, ...(fields.T ? { accountType: fields.T } : {}) };
+      }
+    } else if (['bank', 'cash', 'ccard', 'oth a', 'oth l'].includes(section)) {
+      recordNumber += 1;
+      const date = parseQifDate(fields.D || '', dayFirst);
+      const amount = parseBankAmount(fields.T || fields.U || '', currency);
+
+      if (!date) {
+        errors.push(`Transaction ${recordNumber}: could not read the date "${fields.D || ''}"`);
+      } else if (amount === null) {
+        errors.push(`Transaction ${recordNumber}: could not read the amount`);
+      } else if (amount !== 0) {
+        transactions.push({
+          row: recordNumber,
+          date,
+          description: fields.P || fields.M || 'Imported transaction',
+          amount: Math.abs(amount),
+          type: amount > 0 ? 'income' : 'expense',
+          bankAccount
+        });
+      }
+    }
+
+    fields = {};
+  };
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    if (line.startsWith('!')) {
+      finishRecord();
+      const header = line.toLowerCase();
+      if (header.startsWith('!type:')) {
+        section = header.slice('!type:'.length).trim();
+      } else if (header === '!account') {
+        section = 'account';
+      }
+      return;
+    }
+
+    if (line === '^') {
+      finishRecord();
+      return;
+    }
+
+    // Split lines (S, E, $) describe category splits and are not needed for the total
+    const code = line[0];
+    if (!(code in fields) && !['S', 'E', '$'].includes(code)) {
+      fields[code] = line.slice(1).trim();
+    }
+  });
+
+  finishRecord();
+
+  if (transactions.length === 0 && errors.length === 0) {
+    errors.push('The file has no bank, cash or credit card transactions');
+  }
+
+  return { transactions, bankAccount, errors };
+};
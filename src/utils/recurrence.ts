@@ -0,0 +1,153 @@
+/**
+ * Occurrence engine for recurring income and expenses.
+ * Produces the exact calendar dates a schedule falls on, driven by an anchor date.
+ */
+
+export type RecurringFrequency =
+  | 'weekly'
+  | 'biweekly'
+  | 'semimonthly'      // 1st and 15th of each month
+  | 'monthly'
+  | 'quarterly'
+  | 'annual'
+  | 'lastBusinessDay'  // Last Monday-Friday of each month
+  | 'once';
+
+export interface RecurrenceRule {
+  frequency: RecurringFrequency;
+  anchorDate: Date;      // A date the schedule falls on; sets the phase of the schedule
+  startDate?: Date;      // First date occurrences may fall on (defaults to the anchor)
+  endDate?: Date | null; // Last date occurrences may fall on
+  dayOfMonth?: number;   // For monthly, quarterly and annual rules (defaults to the anchor's day)
+}
+
+// Labels for the supported frequencies, in display order
+export const frequencyLabels: Record<RecurringFrequency, string> = {
+  weekly: 'Weekly',
+  biweekly: 'Bi-Weekly',
+  semimonthly: 'Semi-Monthly (1st & 15th)',
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annual: 'Annually',
+  lastBusinessDay: 'Last Business Day',
+  once: 'One Time'
+};
+
+// Month intervals for rules that repeat on a day of the month
+const monthIntervals: Partial<Record<RecurringFrequency, number>> = {
+  monthly: 1,
+  quarterly: 3,
+  annual: 12
+};
+
+// Whole days from one date to another, ignoring time of day and DST shifts
+export const daysBetween = (from: Date, to: Date): number => {
+  const utcFrom = Date.UTC(from.getFullYear(), from.getMonth(), from.getDate());
+  const utcTo = Date.UTC(to.getFullYear(), to.getMonth(), to.getDate());
+  return Math.round((utcTo - utcFrom) / (24 * 60 * 60 * 1000));
+};
+
+// Format a date as a YYYY-MM-DD key in local time
+export const toDateKey = (date: Date): string => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// Parse a YYYY-MM-DD key back into a local date
+export const fromDateKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+// Index of a month counted from year 0, so month differences are simple subtraction
+const monthIndex = (date: Date): number => date.getFullYear() * 12 + date.getMonth();
+
+// Day in a month, clamped to the length of that month (e.g. the 31st becomes Feb 28th)
+const clampedDate = (year: number, monthZeroBased: number, day: number): Date => {
+  const daysInMonth = new Date(year, monthZeroBased + 1, 0).getDate();
+  return new Date(year, monthZeroBased, Math.min(day, daysInMonth));
+};
+
+// Last Monday-Friday of a month
+const lastBusinessDay = (year: number, monthZeroBased: number): Date => {
+  const date = new Date(year, monthZeroBased + 1, 0);
+  while (date.getDay() === 0 || date.getDay() === 6) {
+    date.setDate(date.getDate() - 1);
+  }
+  return date;
+};
+
+// Get every date a rule falls on between two dates (inclusive)
+export const getOccurrencesBetween = (rule: RecurrenceRule, from: Date, to: Date): Date[] => {
+  const anchor = rule.anchorDate;
+  const start = rule.startDate || anchor;
+  const rangeStart = daysBetween(start, from) > 0 ? from : start;
+  const rangeEnd = rule.endDate && daysBetween(rule.endDate, to) > 0 ? rule.endDate : to;
+
+  if (daysBetween(rangeStart, rangeEnd) < 0) {
+    return [];
+  }
+
+  const dates: Date[] = [];
+
+  if (rule.frequency === 'once') {
+    if (daysBetween(rangeStart, anchor) >= 0 && daysBetween(anchor, rangeEnd) >= 0) {
+      dates.push(new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate()));
+    }
+    return dates;
+  }
+
+  if (rule.frequency === 'weekly' || rule.frequency === 'biweekly') {
+    const step = rule.frequency === 'weekly' ? 7 : 14;
+
+    // The schedule extends both ways from the anchor; jump to the first step in range
+    const firstStep = Math.ceil(daysBetween(anchor, rangeStart) / step);
+
+    for (let k = firstStep; ; k++) {
+      const date = new Date(anchor.getFullYear(), anchor.getMonth(), anchor.getDate() + k * step);
+      if (daysBetween(date, rangeEnd) < 0) break;
+      dates.push(date);
+    }
+    return dates;
+  }
+
+  // The remaining rules are month based. Monthly, quarterly and annual rules occur in the
+  // start month even when their day falls before the start date, matching how bills are
+  // entered ("rent is due on the 1st, starting this month").
+  const monthBased = rule.frequency in monthIntervals;
+  const firstMonth = monthBased && daysBetween(start, from) <= 0 ? monthIndex(start) : monthIndex(rangeStart);
+
+  for (let index = firstMonth; index <= monthIndex(rangeEnd); index++) {
+    const year = Math.floor(index / 12);
+    const month = index % 12;
+    const candidates: Date[] = [];
+
+    if (rule.frequency === 'semimonthly') {
+      candidates.push(new Date(year, month, 1), new Date(year, month, 15));
+    } else if (rule.frequency === 'lastBusinessDay') {
+      candidates.push(lastBusinessDay(year, month));
+    } else {
+      const interval = monthIntervals[rule.frequency] || 1;
+      const offset = index - monthIndex(anchor);
+      if (((offset % interval) + interval) % interval !== 0) continue;
+      candidates.push(clampedDate(year, month, rule.dayOfMonth || anchor.getDate()));
+    }
+
+    for (const date of candidates) {
+      const afterStart = monthBased
+        ? monthIndex(date) >= monthIndex(start)
+        : daysBetween(start, date) >= 0;
+      if (afterStart && daysBetween(from, date) >= 0 && daysBetween(date, rangeEnd) >= 0) {
+        dates.push(date);
+      }
+    }
+  }
+
+  return dates;
+};
+
+// Get every date a rule falls on within a month (1-12)
+export const getOccurrencesInMonth = (rule: RecurrenceRule, month: number, year: number): Date[] => {
+  return getOccurrencesBetween(rule, new Date(year, month - 1, 1), new Date(year, month, 0));
+};
@@ -0,0 +1,13 @@
+// Custom service worker code, bundled into the worker next-pwa generates
+
+// Background Sync fires once the connection comes back. Queued changes are written by an open
+// page, which has the signed-in Firebase client, so ask each one to replay its queue.
+self.addEventListener('sync', (event) => {
+  if (event.tag === 'replay-writes') {
+    event.waitUntil(
+      self.clients.matchAll({ type: 'window' }).then((clients) => {
+        clients.forEach((client) => client.postMessage({ type: 'replay-writes' }));
+      })
+    );
+  }
+});